@@ -0,0 +1,58 @@
+// prisma/backfills/addressBook.ts
+//
+// Customers used to keep their address as free text on User.address.
+// Gives every customer without an address book a default Address made
+// from that text, so checkout keeps finding their address.
+// Safe to run more than once: customers with an address book are skipped.
+
+import { PrismaClient } from "../../src/generated/prisma/client";
+
+const prisma = new PrismaClient();
+
+async function backfillAddressBook() {
+  const customers = await prisma.customer.findMany({
+    where: {
+      addresses: { none: {} },
+      user: { address: { isEmpty: false } },
+    },
+    include: { user: true },
+  });
+
+  let created = 0;
+  for (const { customerId, user } of customers) {
+    const addressLine = user.address
+      .map((line) => line.trim())
+      .filter(Boolean)
+      .join(", ");
+    if (!addressLine) continue;
+
+    // The old free text has no structured parts, it is kept whole
+    await prisma.address.create({
+      data: {
+        customerId,
+        label: "Home",
+        recipientName: user.name ?? "",
+        phone: user.phone,
+        addressLine,
+        division: "",
+        district: "",
+        upazila: "",
+        isDefault: true,
+      },
+    });
+    created++;
+  }
+
+  console.log(
+    `Created ${created} default addresses for ${customers.length} customers`
+  );
+}
+
+backfillAddressBook()
+  .catch((e) => {
+    console.error("Address book backfill failed:", e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -0,0 +1,97 @@
+// prisma/backfills/walletHolds.ts
+//
+// Wallet money used to be set aside only in Wallet.lockedBalance, with a
+// LOCKED wallet transaction (and, for subscription orders, a LOCKED
+// payment). Money is now held with WalletHold rows, so gives every such
+// transaction without a hold an ACTIVE hold, letting deliveries, pauses,
+// cancellations and withdrawal reviews settle it.
+// The ledger already has the money in WALLET_LOCKED, so no postings are made.
+// Safe to run more than once: transactions with a hold are skipped.
+
+import { PrismaClient } from "../../src/generated/prisma/client";
+import { Decimal } from "../../src/generated/prisma/client/runtime/library";
+
+const prisma = new PrismaClient();
+
+async function backfillWalletHolds() {
+  const lockedTransactions = await prisma.walletTransaction.findMany({
+    where: {
+      transactionStatus: "LOCKED",
+      transactionType: { in: ["PURCHASE", "WITHDRAWAL"] },
+      holds: { none: {} },
+    },
+    include: {
+      Payment: { where: { paymentStatus: "LOCKED" } },
+      order: { include: { subscriptionDeliveries: true } },
+    },
+    orderBy: { createdAt: "asc" },
+  });
+
+  let created = 0;
+  for (const transaction of lockedTransactions) {
+    const { transactionId, walletId, amount, order } = transaction;
+    if (transaction.transactionType === "WITHDRAWAL") {
+      await prisma.walletHold.create({
+        data: {
+          walletId,
+          amount,
+          reason: "WITHDRAWAL",
+          walletTransactionId: transactionId,
+        },
+      });
+      created++;
+      continue;
+    }
+
+    // Only subscription orders locked wallet money for a purchase
+    const orderId = order?.orderId ?? transaction.Payment[0]?.orderId;
+    if (!orderId) {
+      console.warn(`Skipped LOCKED transaction #${transactionId}: no order`);
+      continue;
+    }
+    await prisma.walletHold.create({
+      data: {
+        walletId,
+        amount,
+        reason: "SUBSCRIPTION",
+        orderId,
+        subscriptionId: order?.subscriptionDeliveries[0]?.subscriptionId,
+        walletTransactionId: transactionId,
+      },
+    });
+    created++;
+  }
+
+  console.log(
+    `Created ${created} wallet holds for ` +
+      `${lockedTransactions.length} locked transactions`
+  );
+
+  // Every locked taka should now be behind an active hold
+  const wallets = await prisma.wallet.findMany({
+    where: { lockedBalance: { not: 0 } },
+    include: { holds: { where: { status: "ACTIVE" } } },
+  });
+  for (const wallet of wallets) {
+    const held = wallet.holds.reduce(
+      (sum, hold) => sum.add(hold.amount),
+      new Decimal(0)
+    );
+    if (!held.equals(wallet.lockedBalance)) {
+      console.warn(
+        `Wallet #${wallet.walletId} has ${wallet.lockedBalance.toFixed(
+          2
+        )} locked but ${held.toFixed(2)} held`
+      );
+    }
+  }
+}
+
+backfillWalletHolds()
+  .catch((e) => {
+    console.error("Wallet hold backfill failed:", e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
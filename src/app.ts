@@ -10,6 +10,7 @@ import httpStatus from "http-status";
 // import adminRoutes from "@/modules/admins/admins.routes";
 import customerUserRoutes from "@/modules/auth/customer/customer.routes";
 import adminUserRoutes from "@/modules/auth/admin/admin.routes";
+import riderUserRoutes from "@/modules/auth/rider/rider.routes";
 import farmerRoutes from "@/modules/farmers/farmers.routes";
 import categoryRoutes from "@/modules/categories/category.routes";
 import productRoutes from "@/modules/products/product.routes";
@@ -29,9 +30,15 @@ import subscriptionDeliveryRoutes from "@/modules/subscription_deliveries/subscr
 import notificationsRoutes from "@/modules/notifications/notification.routes";
 import messageRoutes from "@/modules/messages/message.routes";
 import customerRoutes from "@/modules/customers/customer.routes";
+import addressRoutes from "@/modules/addresses/address.routes";
 import promotionRoutes from "@/modules/promotions/promotion.routes";
 import dashboardRoutes from "@/modules/dashboard/dashboard.route";
 import dealRoutes from "@/modules/deals/deal.routes";
+import cartRoutes from "@/modules/carts/cart.routes";
+import returnRoutes from "@/modules/returns/return.routes";
+import deliverySlotRoutes from "@/modules/delivery_slots/delivery-slot.routes";
+import deliveryZoneRoutes from "@/modules/delivery_zones/delivery-zone.routes";
+import riderRoutes from "@/modules/riders/rider.routes";
 import { rateLimiter } from "@/middlewares/rateLimiter";
 import { globalErrorHandler } from "@/middlewares/errorHandler";
 import cors from "cors";
@@ -65,6 +72,7 @@ initJobs();
 // app.use("/api/admins", adminRoutes);
 app.use("/api/auth/customer", customerUserRoutes);
 app.use("/api/auth/admin", adminUserRoutes);
+app.use("/api/auth/rider", riderUserRoutes);
 app.use("/api/farmers", farmerRoutes);
 app.use("/api/categories", categoryRoutes);
 app.use("/api/products", productRoutes);
@@ -82,10 +90,16 @@ app.use("/api/subscriptions", subscriptionRoutes);
 app.use("/api/subscription-plans", subscriptionPlanRoutes);
 app.use("/api/subscription-deliveries", subscriptionDeliveryRoutes);
 app.use("/api/messages", messageRoutes);
+app.use("/api/customers/me/addresses", addressRoutes);
 app.use("/api/customers", customerRoutes);
 app.use("/api/notifications", notificationsRoutes);
 app.use("/api/promotions", promotionRoutes);
 app.use("/api/deals", dealRoutes);
+app.use("/api/cart", cartRoutes);
+app.use("/api/returns", returnRoutes);
+app.use("/api/delivery-slots", deliverySlotRoutes);
+app.use("/api/delivery-zones", deliveryZoneRoutes);
+app.use("/api/riders", riderRoutes);
 app.use("/api/dashboard", dashboardRoutes);
 
 // Health check route
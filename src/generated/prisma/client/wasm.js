@@ -138,6 +138,25 @@ exports.Prisma.AdminScalarFieldEnum = {
   userId: 'userId'
 };
 
+exports.Prisma.RiderScalarFieldEnum = {
+  riderId: 'riderId',
+  vehicleType: 'vehicleType',
+  isActive: 'isActive',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt',
+  userId: 'userId'
+};
+
+exports.Prisma.RiderLocationScalarFieldEnum = {
+  locationId: 'locationId',
+  latitude: 'latitude',
+  longitude: 'longitude',
+  accuracy: 'accuracy',
+  speed: 'speed',
+  recordedAt: 'recordedAt',
+  riderId: 'riderId'
+};
+
 exports.Prisma.CustomerScalarFieldEnum = {
   customerId: 'customerId',
   userId: 'userId'
@@ -166,7 +185,8 @@ exports.Prisma.CategoryScalarFieldEnum = {
   name: 'name',
   imageUrl: 'imageUrl',
   isPrivateImage: 'isPrivateImage',
-  description: 'description'
+  description: 'description',
+  returnWindowHours: 'returnWindowHours'
 };
 
 exports.Prisma.ProductScalarFieldEnum = {
@@ -182,6 +202,9 @@ exports.Prisma.ProductScalarFieldEnum = {
   isPreorder: 'isPreorder',
   isPrivateImages: 'isPrivateImages',
   preorderAvailabilityDate: 'preorderAvailabilityDate',
+  maxQuantityPerOrder: 'maxQuantityPerOrder',
+  preorderCap: 'preorderCap',
+  preorderDepositPercent: 'preorderDepositPercent',
   imageUrls: 'imageUrls',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt',
@@ -247,6 +270,28 @@ exports.Prisma.WalletScalarFieldEnum = {
   customerId: 'customerId'
 };
 
+exports.Prisma.LedgerAccountScalarFieldEnum = {
+  accountId: 'accountId',
+  code: 'code',
+  type: 'type',
+  createdAt: 'createdAt',
+  walletId: 'walletId'
+};
+
+exports.Prisma.JournalEntryScalarFieldEnum = {
+  entryId: 'entryId',
+  description: 'description',
+  createdAt: 'createdAt',
+  walletTransactionId: 'walletTransactionId'
+};
+
+exports.Prisma.LedgerPostingScalarFieldEnum = {
+  postingId: 'postingId',
+  amount: 'amount',
+  entryId: 'entryId',
+  accountId: 'accountId'
+};
+
 exports.Prisma.WalletTransactionScalarFieldEnum = {
   transactionId: 'transactionId',
   amount: 'amount',
@@ -258,6 +303,24 @@ exports.Prisma.WalletTransactionScalarFieldEnum = {
   orderId: 'orderId'
 };
 
+exports.Prisma.AddressScalarFieldEnum = {
+  addressId: 'addressId',
+  customerId: 'customerId',
+  label: 'label',
+  recipientName: 'recipientName',
+  phone: 'phone',
+  addressLine: 'addressLine',
+  division: 'division',
+  district: 'district',
+  upazila: 'upazila',
+  postcode: 'postcode',
+  latitude: 'latitude',
+  longitude: 'longitude',
+  isDefault: 'isDefault',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
 exports.Prisma.OrderScalarFieldEnum = {
   orderId: 'orderId',
   orderDate: 'orderDate',
@@ -266,18 +329,52 @@ exports.Prisma.OrderScalarFieldEnum = {
   paymentMethod: 'paymentMethod',
   paymentStatus: 'paymentStatus',
   shippingAddress: 'shippingAddress',
+  shippingFee: 'shippingFee',
   isSubscription: 'isSubscription',
   isPreorder: 'isPreorder',
   preorderDeliveryDate: 'preorderDeliveryDate',
+  preorderStatus: 'preorderStatus',
+  preorderAllocatedAt: 'preorderAllocatedAt',
+  depositAmount: 'depositAmount',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt',
-  customerId: 'customerId'
+  customerId: 'customerId',
+  addressId: 'addressId',
+  deliveryZoneId: 'deliveryZoneId',
+  deliverySlotId: 'deliverySlotId'
+};
+
+exports.Prisma.DeliveryAssignmentScalarFieldEnum = {
+  assignmentId: 'assignmentId',
+  status: 'status',
+  assignedAt: 'assignedAt',
+  pickedUpAt: 'pickedUpAt',
+  deliveredAt: 'deliveredAt',
+  proofPhotoUrl: 'proofPhotoUrl',
+  signatureUrl: 'signatureUrl',
+  codCollectedAmount: 'codCollectedAmount',
+  orderId: 'orderId',
+  riderId: 'riderId',
+  assignedByUserId: 'assignedByUserId',
+  codSettlementId: 'codSettlementId'
+};
+
+exports.Prisma.CodSettlementScalarFieldEnum = {
+  settlementId: 'settlementId',
+  expectedAmount: 'expectedAmount',
+  receivedAmount: 'receivedAmount',
+  note: 'note',
+  createdAt: 'createdAt',
+  riderId: 'riderId',
+  settledByUserId: 'settledByUserId'
 };
 
 exports.Prisma.OrderItemScalarFieldEnum = {
   orderItemId: 'orderItemId',
   quantity: 'quantity',
   unitPrice: 'unitPrice',
+  discountUnitPrice: 'discountUnitPrice',
+  discountAmount: 'discountAmount',
   packageSize: 'packageSize',
   unitType: 'unitType',
   subtotal: 'subtotal',
@@ -285,6 +382,94 @@ exports.Prisma.OrderItemScalarFieldEnum = {
   productId: 'productId'
 };
 
+exports.Prisma.ReturnScalarFieldEnum = {
+  returnId: 'returnId',
+  status: 'status',
+  reason: 'reason',
+  photoUrls: 'photoUrls',
+  isPrivatePhotos: 'isPrivatePhotos',
+  adminNote: 'adminNote',
+  refundMethod: 'refundMethod',
+  refundAmount: 'refundAmount',
+  refundReference: 'refundReference',
+  approvedAt: 'approvedAt',
+  rejectedAt: 'rejectedAt',
+  receivedAt: 'receivedAt',
+  refundedAt: 'refundedAt',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt',
+  orderId: 'orderId',
+  customerId: 'customerId'
+};
+
+exports.Prisma.ReturnItemScalarFieldEnum = {
+  returnItemId: 'returnItemId',
+  quantity: 'quantity',
+  acceptedQuantity: 'acceptedQuantity',
+  restock: 'restock',
+  returnId: 'returnId',
+  orderItemId: 'orderItemId',
+  productId: 'productId'
+};
+
+exports.Prisma.DeliveryZoneScalarFieldEnum = {
+  zoneId: 'zoneId',
+  code: 'code',
+  name: 'name',
+  areas: 'areas',
+  postcodes: 'postcodes',
+  deliveryFee: 'deliveryFee',
+  freeDeliveryThreshold: 'freeDeliveryThreshold',
+  cutoffTime: 'cutoffTime',
+  minOrderAmount: 'minOrderAmount',
+  codMaxAmount: 'codMaxAmount',
+  codMinDeliveredOrders: 'codMinDeliveredOrders',
+  isActive: 'isActive',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.DeliverySlotScalarFieldEnum = {
+  slotId: 'slotId',
+  zoneCode: 'zoneCode',
+  date: 'date',
+  startTime: 'startTime',
+  endTime: 'endTime',
+  capacity: 'capacity',
+  reservedCount: 'reservedCount',
+  isActive: 'isActive',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.CartScalarFieldEnum = {
+  cartId: 'cartId',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt',
+  customerId: 'customerId'
+};
+
+exports.Prisma.CartItemScalarFieldEnum = {
+  cartItemId: 'cartItemId',
+  quantity: 'quantity',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt',
+  cartId: 'cartId',
+  productId: 'productId'
+};
+
+exports.Prisma.OrderEventScalarFieldEnum = {
+  eventId: 'eventId',
+  orderId: 'orderId',
+  eventType: 'eventType',
+  fromStatus: 'fromStatus',
+  toStatus: 'toStatus',
+  actor: 'actor',
+  actorUserId: 'actorUserId',
+  reason: 'reason',
+  createdAt: 'createdAt'
+};
+
 exports.Prisma.OrderTrackingScalarFieldEnum = {
   trackingId: 'trackingId',
   status: 'status',
@@ -303,6 +488,8 @@ exports.Prisma.SubscriptionScalarFieldEnum = {
   isProcessing: 'isProcessing',
   planPrice: 'planPrice',
   shippingAddress: 'shippingAddress',
+  zoneCode: 'zoneCode',
+  addressId: 'addressId',
   renewalDate: 'renewalDate',
   nextDeliveryDate: 'nextDeliveryDate',
   createdAt: 'createdAt',
@@ -329,7 +516,8 @@ exports.Prisma.SubscriptionDeliveryScalarFieldEnum = {
   createdAt: 'createdAt',
   updatedAt: 'updatedAt',
   subscriptionId: 'subscriptionId',
-  orderId: 'orderId'
+  orderId: 'orderId',
+  deliverySlotId: 'deliverySlotId'
 };
 
 exports.Prisma.PaymentScalarFieldEnum = {
@@ -338,11 +526,93 @@ exports.Prisma.PaymentScalarFieldEnum = {
   paymentMethod: 'paymentMethod',
   paymentStatus: 'paymentStatus',
   transactionId: 'transactionId',
+  gatewayReference: 'gatewayReference',
+  gatewayTransactionId: 'gatewayTransactionId',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt',
+  orderId: 'orderId',
+  walletTransactionId: 'walletTransactionId'
+};
+
+exports.Prisma.PaymentCallbackScalarFieldEnum = {
+  callbackId: 'callbackId',
+  source: 'source',
+  status: 'status',
+  reason: 'reason',
+  transactionId: 'transactionId',
+  valId: 'valId',
+  processedKey: 'processedKey',
+  payload: 'payload',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.RefundScalarFieldEnum = {
+  refundId: 'refundId',
+  amount: 'amount',
+  reason: 'reason',
+  status: 'status',
+  refundReference: 'refundReference',
+  failedReason: 'failedReason',
+  completedAt: 'completedAt',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt',
+  paymentId: 'paymentId',
+  requestedByUserId: 'requestedByUserId'
+};
+
+exports.Prisma.WithdrawalScalarFieldEnum = {
+  withdrawalId: 'withdrawalId',
+  amount: 'amount',
+  status: 'status',
+  method: 'method',
+  accountName: 'accountName',
+  accountNumber: 'accountNumber',
+  bankName: 'bankName',
+  branchName: 'branchName',
+  routingNumber: 'routingNumber',
+  payoutReference: 'payoutReference',
+  rejectionReason: 'rejectionReason',
+  reviewedByUserId: 'reviewedByUserId',
+  reviewedAt: 'reviewedAt',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt',
+  walletId: 'walletId',
+  walletTransactionId: 'walletTransactionId'
+};
+
+exports.Prisma.WalletHoldScalarFieldEnum = {
+  holdId: 'holdId',
+  amount: 'amount',
+  reason: 'reason',
+  status: 'status',
+  expiresAt: 'expiresAt',
+  capturedAt: 'capturedAt',
+  releasedAt: 'releasedAt',
   createdAt: 'createdAt',
+  updatedAt: 'updatedAt',
+  walletId: 'walletId',
   orderId: 'orderId',
+  subscriptionId: 'subscriptionId',
   walletTransactionId: 'walletTransactionId'
 };
 
+exports.Prisma.WalletTransferScalarFieldEnum = {
+  transferId: 'transferId',
+  amount: 'amount',
+  note: 'note',
+  status: 'status',
+  expiresAt: 'expiresAt',
+  otpHash: 'otpHash',
+  otpAttempts: 'otpAttempts',
+  completedAt: 'completedAt',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt',
+  senderWalletId: 'senderWalletId',
+  recipientWalletId: 'recipientWalletId',
+  debitTransactionId: 'debitTransactionId',
+  creditTransactionId: 'creditTransactionId'
+};
+
 exports.Prisma.MessageScalarFieldEnum = {
   messageId: 'messageId',
   message: 'message',
@@ -392,11 +662,33 @@ exports.Prisma.DealScalarFieldEnum = {
   updatedAt: 'updatedAt'
 };
 
+exports.Prisma.IdempotencyKeyScalarFieldEnum = {
+  id: 'id',
+  key: 'key',
+  scope: 'scope',
+  userId: 'userId',
+  requestHash: 'requestHash',
+  status: 'status',
+  responseStatus: 'responseStatus',
+  responseBody: 'responseBody',
+  createdAt: 'createdAt',
+  expiresAt: 'expiresAt'
+};
+
 exports.Prisma.SortOrder = {
   asc: 'asc',
   desc: 'desc'
 };
 
+exports.Prisma.JsonNullValueInput = {
+  JsonNull: Prisma.JsonNull
+};
+
+exports.Prisma.NullableJsonNullValueInput = {
+  DbNull: Prisma.DbNull,
+  JsonNull: Prisma.JsonNull
+};
+
 exports.Prisma.QueryMode = {
   default: 'default',
   insensitive: 'insensitive'
@@ -406,11 +698,18 @@ exports.Prisma.NullsOrder = {
   first: 'first',
   last: 'last'
 };
+
+exports.Prisma.JsonNullValueFilter = {
+  DbNull: Prisma.DbNull,
+  JsonNull: Prisma.JsonNull,
+  AnyNull: Prisma.AnyNull
+};
 exports.UserRole = exports.$Enums.UserRole = {
   ADMIN: 'ADMIN',
   SUPER_ADMIN: 'SUPER_ADMIN',
   CUSTOMER: 'CUSTOMER',
-  SUPPORT: 'SUPPORT'
+  SUPPORT: 'SUPPORT',
+  RIDER: 'RIDER'
 };
 
 exports.UserStatus = exports.$Enums.UserStatus = {
@@ -447,14 +746,29 @@ exports.PaymentStatus = exports.$Enums.PaymentStatus = {
 exports.TransactionType = exports.$Enums.TransactionType = {
   IN: 'IN',
   OUT: 'OUT',
-  ADJUSTMENT: 'ADJUSTMENT'
+  ADJUSTMENT: 'ADJUSTMENT',
+  RETURN: 'RETURN'
+};
+
+exports.LedgerAccountType = exports.$Enums.LedgerAccountType = {
+  WALLET_AVAILABLE: 'WALLET_AVAILABLE',
+  WALLET_LOCKED: 'WALLET_LOCKED',
+  GATEWAY_CLEARING: 'GATEWAY_CLEARING',
+  SALES: 'SALES',
+  REFUNDS: 'REFUNDS',
+  ADJUSTMENTS: 'ADJUSTMENTS',
+  OPENING_BALANCES: 'OPENING_BALANCES',
+  PAYOUTS: 'PAYOUTS',
+  TRANSFERS: 'TRANSFERS'
 };
 
 exports.WalletTransactionType = exports.$Enums.WalletTransactionType = {
   DEPOSIT: 'DEPOSIT',
   WITHDRAWAL: 'WITHDRAWAL',
   PURCHASE: 'PURCHASE',
-  REFUND: 'REFUND'
+  REFUND: 'REFUND',
+  TRANSFER_OUT: 'TRANSFER_OUT',
+  TRANSFER_IN: 'TRANSFER_IN'
 };
 
 exports.OrderStatus = exports.$Enums.OrderStatus = {
@@ -466,6 +780,45 @@ exports.OrderStatus = exports.$Enums.OrderStatus = {
   CONFIRMED: 'CONFIRMED'
 };
 
+exports.PreorderStatus = exports.$Enums.PreorderStatus = {
+  AWAITING_STOCK: 'AWAITING_STOCK',
+  ALLOCATED: 'ALLOCATED',
+  CONFIRMED: 'CONFIRMED'
+};
+
+exports.DeliveryAssignmentStatus = exports.$Enums.DeliveryAssignmentStatus = {
+  ASSIGNED: 'ASSIGNED',
+  PICKED_UP: 'PICKED_UP',
+  DELIVERED: 'DELIVERED'
+};
+
+exports.ReturnStatus = exports.$Enums.ReturnStatus = {
+  REQUESTED: 'REQUESTED',
+  APPROVED: 'APPROVED',
+  REJECTED: 'REJECTED',
+  RECEIVED: 'RECEIVED',
+  REFUNDED: 'REFUNDED'
+};
+
+exports.ReturnRefundMethod = exports.$Enums.ReturnRefundMethod = {
+  WALLET: 'WALLET',
+  GATEWAY: 'GATEWAY'
+};
+
+exports.OrderEventType = exports.$Enums.OrderEventType = {
+  CREATED: 'CREATED',
+  STATUS_CHANGED: 'STATUS_CHANGED',
+  REVERTED: 'REVERTED',
+  CANCELLED: 'CANCELLED'
+};
+
+exports.OrderEventActor = exports.$Enums.OrderEventActor = {
+  CUSTOMER: 'CUSTOMER',
+  ADMIN: 'ADMIN',
+  RIDER: 'RIDER',
+  SYSTEM: 'SYSTEM'
+};
+
 exports.SubscriptionStatus = exports.$Enums.SubscriptionStatus = {
   ACTIVE: 'ACTIVE',
   PAUSED: 'PAUSED',
@@ -479,6 +832,50 @@ exports.SubscriptionPlanType = exports.$Enums.SubscriptionPlanType = {
   MONTHLY: 'MONTHLY'
 };
 
+exports.PaymentCallbackStatus = exports.$Enums.PaymentCallbackStatus = {
+  PROCESSED: 'PROCESSED',
+  REJECTED: 'REJECTED'
+};
+
+exports.RefundStatus = exports.$Enums.RefundStatus = {
+  PENDING: 'PENDING',
+  COMPLETED: 'COMPLETED',
+  FAILED: 'FAILED'
+};
+
+exports.WithdrawalStatus = exports.$Enums.WithdrawalStatus = {
+  PENDING: 'PENDING',
+  APPROVED: 'APPROVED',
+  REJECTED: 'REJECTED'
+};
+
+exports.WithdrawalMethod = exports.$Enums.WithdrawalMethod = {
+  BANK: 'BANK',
+  BKASH: 'BKASH',
+  NAGAD: 'NAGAD',
+  ROCKET: 'ROCKET'
+};
+
+exports.WalletHoldReason = exports.$Enums.WalletHoldReason = {
+  SUBSCRIPTION: 'SUBSCRIPTION',
+  SPLIT_PAYMENT: 'SPLIT_PAYMENT',
+  WITHDRAWAL: 'WITHDRAWAL'
+};
+
+exports.WalletHoldStatus = exports.$Enums.WalletHoldStatus = {
+  ACTIVE: 'ACTIVE',
+  CAPTURED: 'CAPTURED',
+  RELEASED: 'RELEASED',
+  EXPIRED: 'EXPIRED'
+};
+
+exports.WalletTransferStatus = exports.$Enums.WalletTransferStatus = {
+  PENDING: 'PENDING',
+  COMPLETED: 'COMPLETED',
+  EXPIRED: 'EXPIRED',
+  LOCKED: 'LOCKED'
+};
+
 exports.MessageStatus = exports.$Enums.MessageStatus = {
   READ: 'READ',
   UNREAD: 'UNREAD'
@@ -518,9 +915,16 @@ exports.DiscountType = exports.$Enums.DiscountType = {
   FLAT: 'FLAT'
 };
 
+exports.IdempotencyStatus = exports.$Enums.IdempotencyStatus = {
+  IN_PROGRESS: 'IN_PROGRESS',
+  COMPLETED: 'COMPLETED'
+};
+
 exports.Prisma.ModelName = {
   User: 'User',
   Admin: 'Admin',
+  Rider: 'Rider',
+  RiderLocation: 'RiderLocation',
   Customer: 'Customer',
   Otp: 'Otp',
   Farmer: 'Farmer',
@@ -531,18 +935,37 @@ exports.Prisma.ModelName = {
   FarmerPayment: 'FarmerPayment',
   StockTransaction: 'StockTransaction',
   Wallet: 'Wallet',
+  LedgerAccount: 'LedgerAccount',
+  JournalEntry: 'JournalEntry',
+  LedgerPosting: 'LedgerPosting',
   WalletTransaction: 'WalletTransaction',
+  Address: 'Address',
   Order: 'Order',
+  DeliveryAssignment: 'DeliveryAssignment',
+  CodSettlement: 'CodSettlement',
   OrderItem: 'OrderItem',
+  Return: 'Return',
+  ReturnItem: 'ReturnItem',
+  DeliveryZone: 'DeliveryZone',
+  DeliverySlot: 'DeliverySlot',
+  Cart: 'Cart',
+  CartItem: 'CartItem',
+  OrderEvent: 'OrderEvent',
   OrderTracking: 'OrderTracking',
   Subscription: 'Subscription',
   SubscriptionPlan: 'SubscriptionPlan',
   SubscriptionDelivery: 'SubscriptionDelivery',
   Payment: 'Payment',
+  PaymentCallback: 'PaymentCallback',
+  Refund: 'Refund',
+  Withdrawal: 'Withdrawal',
+  WalletHold: 'WalletHold',
+  WalletTransfer: 'WalletTransfer',
   Message: 'Message',
   Notification: 'Notification',
   Promotion: 'Promotion',
-  Deal: 'Deal'
+  Deal: 'Deal',
+  IdempotencyKey: 'IdempotencyKey'
 };
 
 /**
@@ -0,0 +1,35 @@
+import cron from "node-cron";
+import prisma from "@/prisma-client/prismaClient";
+import logger from "@/utils/logger";
+
+// Configuration
+const CONFIG = {
+  TIMEZONE: "Asia/Dhaka",
+  CRON_SCHEDULE: "30 3 * * *", // Run at 3:30 AM
+} as const;
+
+/**
+ * Remove idempotency keys past their expiry
+ */
+export const purgeExpiredIdempotencyKeys = async (now: Date = new Date()) => {
+  const { count } = await prisma.idempotencyKey.deleteMany({
+    where: { expiresAt: { lt: now } },
+  });
+  logger.info(`Purged ${count} expired idempotency keys`);
+};
+
+export const startIdempotencyCleanupJob = () => {
+  cron.schedule(
+    CONFIG.CRON_SCHEDULE,
+    async () => {
+      try {
+        await purgeExpiredIdempotencyKeys();
+      } catch (error) {
+        logger.error("Idempotency key cleanup failed:", error);
+      }
+    },
+    {
+      timezone: CONFIG.TIMEZONE,
+    }
+  );
+};
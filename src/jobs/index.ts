@@ -1,5 +1,15 @@
 import { startSubscriptionRenewalJob } from "@/jobs/subscription.job";
+import { startPaymentReconciliationJob } from "@/jobs/paymentReconciliation.job";
+import { startIdempotencyCleanupJob } from "@/jobs/idempotency.job";
+import { startPreorderJob } from "@/jobs/preorder.job";
+import { startRefundStatusJob } from "@/jobs/refund.job";
+import { startWalletHoldExpiryJob } from "@/jobs/walletHold.job";
 
 export function initJobs() {
   startSubscriptionRenewalJob();
+  startPaymentReconciliationJob();
+  startIdempotencyCleanupJob();
+  startPreorderJob();
+  startRefundStatusJob();
+  startWalletHoldExpiryJob();
 }
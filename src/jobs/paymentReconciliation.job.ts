@@ -0,0 +1,158 @@
+import cron from "node-cron";
+import { subHours, subMinutes } from "date-fns";
+import prisma from "@/prisma-client/prismaClient";
+import logger from "@/utils/logger";
+import {
+  GATEWAY_METHODS,
+  getPaymentProvider,
+  isGatewayMethod,
+  PaymentVerification,
+} from "@/utils/paymentProviders";
+import { sslcommerzProvider } from "@/utils/paymentProviders/sslcommerz";
+import {
+  completeGatewayPayment,
+  failGatewayPayment,
+} from "@/modules/payments/payment.service";
+import { completeDeposit, failDeposit } from "@/modules/wallets/wallet.service";
+
+// Configuration
+const CONFIG = {
+  TIMEZONE: "Asia/Dhaka",
+  CRON_SCHEDULE: "*/10 * * * *", // Run every 10 minutes
+  BATCH_SIZE: 100,
+  // Customers get this long to finish on the gateway page
+  STALE_AFTER_MINUTES: 30,
+  // Payments the gateway still has no result for are failed after this
+  ABANDONED_AFTER_HOURS: 24,
+} as const;
+
+type ReconcileResult = { completed: number; failed: number; pending: number };
+
+/**
+ * Settle a stale payment or deposit from the gateway's answer
+ * - Payments the gateway never saw finished are failed once abandoned
+ */
+const settle = async (
+  verification: PaymentVerification,
+  abandoned: boolean,
+  handlers: { complete: () => Promise<unknown>; fail: () => Promise<unknown> },
+  result: ReconcileResult
+) => {
+  if (verification.status === "COMPLETED") {
+    await handlers.complete();
+    result.completed++;
+  } else if (verification.status === "FAILED" || abandoned) {
+    await handlers.fail();
+    result.failed++;
+  } else {
+    result.pending++;
+  }
+};
+
+/**
+ * Ask the gateways about order payments left PENDING, e.g. by customers
+ * who closed the browser before being redirected back
+ */
+export const reconcileGatewayPayments = async (now: Date = new Date()) => {
+  const abandonedBefore = subHours(now, CONFIG.ABANDONED_AFTER_HOURS);
+  const payments = await prisma.payment.findMany({
+    where: {
+      paymentStatus: "PENDING",
+      paymentMethod: { in: [...GATEWAY_METHODS] },
+      updatedAt: { lt: subMinutes(now, CONFIG.STALE_AFTER_MINUTES) },
+    },
+    orderBy: { updatedAt: "asc" },
+    take: CONFIG.BATCH_SIZE,
+  });
+
+  const result: ReconcileResult = { completed: 0, failed: 0, pending: 0 };
+  for (const payment of payments) {
+    const method = payment.paymentMethod;
+    if (!isGatewayMethod(method) || !payment.transactionId) continue;
+    const reference = { transactionId: payment.transactionId };
+    try {
+      const verification = await getPaymentProvider(method).query(payment);
+      await settle(
+        verification,
+        payment.updatedAt < abandonedBefore,
+        {
+          complete: () =>
+            completeGatewayPayment(method, { ...verification, ...reference }),
+          fail: () => failGatewayPayment(method, reference),
+        },
+        result
+      );
+    } catch (error) {
+      logger.error(`Failed to reconcile payment #${payment.paymentId}:`, error);
+    }
+  }
+  logger.info(
+    `Reconciled ${payments.length} pending payments: ${result.completed} completed, ${result.failed} failed, ${result.pending} still pending`
+  );
+};
+
+/**
+ * Ask SSLCommerz about wallet deposits left PENDING
+ */
+export const reconcileWalletDeposits = async (now: Date = new Date()) => {
+  const abandonedBefore = subHours(now, CONFIG.ABANDONED_AFTER_HOURS);
+  const deposits = await prisma.walletTransaction.findMany({
+    where: {
+      transactionType: "DEPOSIT",
+      transactionStatus: "PENDING",
+      createdAt: { lt: subMinutes(now, CONFIG.STALE_AFTER_MINUTES) },
+    },
+    orderBy: { createdAt: "asc" },
+    take: CONFIG.BATCH_SIZE,
+  });
+
+  const result: ReconcileResult = { completed: 0, failed: 0, pending: 0 };
+  for (const deposit of deposits) {
+    // The SSLCommerz transaction ID is only kept in the description
+    const tranId = deposit.description?.match(/Transaction ID: (\S+)/)?.[1];
+    if (!tranId) continue;
+    try {
+      const verification = await sslcommerzProvider.query({
+        transactionId: tranId,
+        gatewayReference: null,
+        gatewayTransactionId: null,
+        amount: deposit.amount,
+      });
+      await settle(
+        verification,
+        deposit.createdAt < abandonedBefore,
+        {
+          complete: () =>
+            completeDeposit({ ...verification, transactionId: tranId }),
+          fail: () => failDeposit(tranId),
+        },
+        result
+      );
+    } catch (error) {
+      logger.error(
+        `Failed to reconcile wallet deposit #${deposit.transactionId}:`,
+        error
+      );
+    }
+  }
+  logger.info(
+    `Reconciled ${deposits.length} pending wallet deposits: ${result.completed} completed, ${result.failed} failed, ${result.pending} still pending`
+  );
+};
+
+export const startPaymentReconciliationJob = () => {
+  cron.schedule(
+    CONFIG.CRON_SCHEDULE,
+    async () => {
+      try {
+        await reconcileGatewayPayments();
+        await reconcileWalletDeposits();
+      } catch (error) {
+        logger.error("Payment reconciliation failed:", error);
+      }
+    },
+    {
+      timezone: CONFIG.TIMEZONE,
+    }
+  );
+};
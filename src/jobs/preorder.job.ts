@@ -0,0 +1,74 @@
+import cron from "node-cron";
+import prisma from "@/prisma-client/prismaClient";
+import { runTransaction } from "@/utils/transaction";
+import logger from "@/utils/logger";
+import { allocatePreorders, confirmPreorder } from "@/utils/preorder";
+
+// Configuration
+const CONFIG = {
+  TIMEZONE: "Asia/Dhaka",
+  CRON_SCHEDULE: "0 * * * *", // Run every hour
+} as const;
+
+/**
+ * Allocate stock to waiting preorders, then confirm allocated preorders
+ * whose products have all reached their availability date
+ */
+export const processPreorders = async (now: Date = new Date()) => {
+  // Catch up on stock added outside inventory purchases
+  const waitingProducts = await prisma.orderItem.findMany({
+    where: {
+      order: { preorderStatus: "AWAITING_STOCK", status: { not: "CANCELLED" } },
+    },
+    distinct: ["productId"],
+    select: { productId: true },
+  });
+  for (const { productId } of waitingProducts) {
+    try {
+      await prisma.$transaction((tx) => allocatePreorders(productId, tx));
+    } catch (error) {
+      logger.error(
+        `Failed to allocate preorders of product ${productId}:`,
+        error
+      );
+    }
+  }
+
+  const dueOrders = await prisma.order.findMany({
+    where: {
+      preorderStatus: "ALLOCATED",
+      status: { not: "CANCELLED" },
+      orderItems: {
+        none: { product: { preorderAvailabilityDate: { gt: now } } },
+      },
+    },
+    select: { orderId: true },
+    orderBy: { orderDate: "asc" },
+  });
+  let confirmed = 0;
+  for (const { orderId } of dueOrders) {
+    try {
+      await runTransaction((tx) => confirmPreorder(orderId, tx));
+      confirmed++;
+    } catch (error) {
+      logger.error(`Failed to confirm preorder #${orderId}:`, error);
+    }
+  }
+  logger.info(`Confirmed ${confirmed} of ${dueOrders.length} due preorders`);
+};
+
+export const startPreorderJob = () => {
+  cron.schedule(
+    CONFIG.CRON_SCHEDULE,
+    async () => {
+      try {
+        await processPreorders();
+      } catch (error) {
+        logger.error("Preorder processing failed:", error);
+      }
+    },
+    {
+      timezone: CONFIG.TIMEZONE,
+    }
+  );
+};
@@ -0,0 +1,25 @@
+import cron from "node-cron";
+import logger from "@/utils/logger";
+import { syncPendingRefunds } from "@/utils/gatewayRefund";
+
+// Configuration
+const CONFIG = {
+  TIMEZONE: "Asia/Dhaka",
+  CRON_SCHEDULE: "*/15 * * * *", // Run every 15 minutes
+} as const;
+
+export const startRefundStatusJob = () => {
+  cron.schedule(
+    CONFIG.CRON_SCHEDULE,
+    async () => {
+      try {
+        await syncPendingRefunds();
+      } catch (error) {
+        logger.error("Refund status sync failed:", error);
+      }
+    },
+    {
+      timezone: CONFIG.TIMEZONE,
+    }
+  );
+};
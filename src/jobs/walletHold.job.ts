@@ -0,0 +1,25 @@
+import cron from "node-cron";
+import logger from "@/utils/logger";
+import { releaseExpiredHolds } from "@/utils/walletHold";
+
+// Configuration
+const CONFIG = {
+  TIMEZONE: "Asia/Dhaka",
+  CRON_SCHEDULE: "*/15 * * * *", // Run every 15 minutes
+} as const;
+
+export const startWalletHoldExpiryJob = () => {
+  cron.schedule(
+    CONFIG.CRON_SCHEDULE,
+    async () => {
+      try {
+        await releaseExpiredHolds();
+      } catch (error) {
+        logger.error("Wallet hold expiry failed:", error);
+      }
+    },
+    {
+      timezone: CONFIG.TIMEZONE,
+    }
+  );
+};
@@ -88,6 +88,7 @@ const sendErrorProd = (err: AppError, res: Response) => {
       success: false,
       error: {
         message: err.message,
+        ...(err.errors && { errors: err.errors }),
       },
     });
   } else {
@@ -0,0 +1,156 @@
+import { createHash } from "crypto";
+import { NextFunction, Request, RequestHandler, Response } from "express";
+import httpStatus from "http-status";
+import { addHours } from "date-fns";
+import { IdempotencyKey, Prisma } from "@/generated/prisma/client";
+import prisma from "@/prisma-client/prismaClient";
+import logger from "@/utils/logger";
+import safeBigIntJsonStringify from "@/utils/safeBigIntJsonStringify";
+
+const HEADER = "Idempotency-Key";
+const MAX_KEY_LENGTH = 255;
+
+const hashRequest = (req: Request): string =>
+  createHash("sha256")
+    .update(safeBigIntJsonStringify(req.body ?? {}))
+    .digest("hex");
+
+/**
+ * Reserve the key for this request
+ * @returns The stored record if the key was already used, or null if reserved
+ */
+async function reserveKey(
+  data: Prisma.IdempotencyKeyCreateInput
+): Promise<IdempotencyKey | null> {
+  try {
+    await prisma.idempotencyKey.create({ data });
+    return null;
+  } catch (error) {
+    if (
+      !(error instanceof Prisma.PrismaClientKnownRequestError) ||
+      error.code !== "P2002"
+    ) {
+      throw error;
+    }
+  }
+
+  const existing = await prisma.idempotencyKey.findUnique({
+    where: { key_scope: { key: data.key, scope: data.scope } },
+  });
+  // Expired keys can be used again
+  if (existing && existing.expiresAt < new Date()) {
+    await prisma.idempotencyKey.delete({ where: { id: existing.id } });
+    return await reserveKey(data);
+  }
+  return existing;
+}
+
+/**
+ * Makes a POST endpoint safe to retry. When the client sends an
+ * Idempotency-Key header, the first response for that key is stored and
+ * replayed for every retry instead of running the handler again.
+ * Requests without the header are handled as usual.
+ * Keys belong to the logged in user, so it must run after authMiddleware;
+ * anonymous requests are handled as usual, as their keys could collide
+ * with another client's.
+ * @param ttlHours - How long a key is remembered
+ */
+export const idempotency = (ttlHours: number = 24): RequestHandler => {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const key = req.get(HEADER)?.trim();
+    if (!key || !req.user?.userId) return next();
+
+    if (key.length > MAX_KEY_LENGTH) {
+      res.status(httpStatus.BAD_REQUEST).json({
+        success: false,
+        error: {
+          message: `${HEADER} must be at most ${MAX_KEY_LENGTH} characters`,
+        },
+      });
+      return;
+    }
+
+    const scope = `${req.method} ${req.baseUrl}${req.path}`;
+    const userId = BigInt(req.user.userId);
+    const requestHash = hashRequest(req);
+
+    try {
+      const existing = await reserveKey({
+        key,
+        scope,
+        userId,
+        requestHash,
+        expiresAt: addHours(new Date(), ttlHours),
+      });
+
+      if (existing) {
+        if (
+          existing.userId !== userId ||
+          existing.requestHash !== requestHash
+        ) {
+          res.status(httpStatus.UNPROCESSABLE_ENTITY).json({
+            success: false,
+            error: {
+              message: `${HEADER} was already used for a different request`,
+            },
+          });
+          return;
+        }
+        if (existing.status === "IN_PROGRESS") {
+          res.status(httpStatus.CONFLICT).json({
+            success: false,
+            error: {
+              message: `A request with this ${HEADER} is still being processed`,
+            },
+          });
+          return;
+        }
+
+        res
+          .status(existing.responseStatus ?? httpStatus.OK)
+          .set("Idempotent-Replayed", "true")
+          .json(existing.responseBody);
+        return;
+      }
+    } catch (error) {
+      return next(error);
+    }
+
+    // Capture the response to store it once it is sent
+    let responseBody: unknown;
+    const json = res.json.bind(res);
+    res.json = (body: unknown) => {
+      responseBody = body;
+      return json(body);
+    };
+
+    res.on("close", async () => {
+      try {
+        // Server errors and aborted responses are not stored, so the
+        // request can be retried
+        if (
+          !res.writableFinished ||
+          res.statusCode >= 500 ||
+          responseBody === undefined
+        ) {
+          await prisma.idempotencyKey.delete({
+            where: { key_scope: { key, scope } },
+          });
+          return;
+        }
+        await prisma.idempotencyKey.update({
+          where: { key_scope: { key, scope } },
+          data: {
+            status: "COMPLETED",
+            responseStatus: res.statusCode,
+            responseBody: JSON.parse(safeBigIntJsonStringify(responseBody)),
+          },
+        });
+      } catch (error) {
+        logger.error(`Failed to store response for ${HEADER} ${key}:`, error);
+      }
+    });
+
+    next();
+  };
+};
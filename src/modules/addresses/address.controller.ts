@@ -0,0 +1,125 @@
+import { Request, Response } from "express";
+import * as addressService from "@/modules/addresses/address.service";
+import {
+  CreateAddressDto,
+  GetAddressDto,
+  UpdateAddressDto,
+} from "@/modules/addresses/address.dto";
+import { Address } from "@/generated/prisma/client";
+import httpStatus from "http-status";
+import sendResponse from "@/utils/sendResponse";
+import asyncHandler from "@/utils/asyncHandler";
+
+/**
+ * Get the addresses of the logged-in customer
+ */
+export const getMyAddresses = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const userId = BigInt(req.user?.userId!);
+    const addresses = await addressService.getMyAddresses(userId);
+
+    sendResponse<Address[]>(res, {
+      success: true,
+      statusCode: httpStatus.OK,
+      message: "Addresses retrieved successfully",
+      data: addresses,
+    });
+  }
+);
+
+/**
+ * Get an address of the logged-in customer
+ */
+export const getMyAddressById = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const userId = BigInt(req.user?.userId!);
+    const addressId = req.params.id as unknown as GetAddressDto["params"]["id"];
+    const address = await addressService.getMyAddressById(userId, addressId);
+
+    sendResponse<Address>(res, {
+      success: true,
+      statusCode: httpStatus.OK,
+      message: "Address retrieved successfully",
+      data: address,
+    });
+  }
+);
+
+/**
+ * Add an address
+ */
+export const createAddress = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const userId = BigInt(req.user?.userId!);
+    const address = await addressService.createAddress(
+      userId,
+      req.body as CreateAddressDto["body"]
+    );
+
+    sendResponse<Address>(res, {
+      success: true,
+      statusCode: httpStatus.CREATED,
+      message: "Address added successfully",
+      data: address,
+    });
+  }
+);
+
+/**
+ * Update an address
+ */
+export const updateAddress = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const userId = BigInt(req.user?.userId!);
+    const addressId = req.params
+      .id as unknown as UpdateAddressDto["params"]["id"];
+    const address = await addressService.updateAddress(
+      userId,
+      addressId,
+      req.body as UpdateAddressDto["body"]
+    );
+
+    sendResponse<Address>(res, {
+      success: true,
+      statusCode: httpStatus.OK,
+      message: "Address updated successfully",
+      data: address,
+    });
+  }
+);
+
+/**
+ * Make an address the default one
+ */
+export const setDefaultAddress = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const userId = BigInt(req.user?.userId!);
+    const addressId = req.params.id as unknown as GetAddressDto["params"]["id"];
+    const address = await addressService.setDefaultAddress(userId, addressId);
+
+    sendResponse<Address>(res, {
+      success: true,
+      statusCode: httpStatus.OK,
+      message: "Default address updated successfully",
+      data: address,
+    });
+  }
+);
+
+/**
+ * Delete an address
+ */
+export const deleteAddress = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const userId = BigInt(req.user?.userId!);
+    const addressId = req.params.id as unknown as GetAddressDto["params"]["id"];
+    await addressService.deleteAddress(userId, addressId);
+
+    sendResponse<null>(res, {
+      success: true,
+      statusCode: httpStatus.OK,
+      message: "Address deleted successfully",
+      data: null,
+    });
+  }
+);
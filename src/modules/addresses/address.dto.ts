@@ -0,0 +1,87 @@
+/**
+ * Data Transfer Objects (DTOs) for the Address entity
+ * These schemas define the expected shape of data when managing a customer's address book.
+ */
+import { z } from "zod";
+
+/**
+ * Returns a Zod schema for a positive integer ID, with the given field name used
+ * for error messages.
+ * @param fieldName The name of the field, used for error messages.
+ * @returns A Zod schema for a positive integer ID.
+ */
+const zBigIntId = (fieldName: string) =>
+  z
+    .union([z.string(), z.number()])
+    .refine((val) => val !== "", { message: `${fieldName} is required` })
+    .transform((val) => BigInt(val))
+    .refine((val) => val > 0n, {
+      message: `${fieldName} must be a positive integer`,
+    });
+
+const bangladeshPhoneValidator = z.string().regex(/^\+8801[3-9]\d{8}$/, {
+  message: "Must be a valid Bangladesh phone number (+8801XXXXXXXXX)",
+});
+
+const zAddressIdParams = z.object({
+  id: zBigIntId("Address ID"),
+});
+
+const zAddressFields = {
+  label: z.string().trim().min(1, "Label is required").max(50),
+  recipientName: z.string().trim().min(1, "Recipient name is required"),
+  phone: bangladeshPhoneValidator,
+  addressLine: z.string().trim().min(1, "Address line is required"),
+  division: z.string().trim().min(1, "Division is required"),
+  district: z.string().trim().min(1, "District is required"),
+  upazila: z.string().trim().min(1, "Upazila is required"),
+  postcode: z
+    .string()
+    .regex(/^\d{4}$/, "Postcode must be 4 digits")
+    .nullable(),
+  latitude: z.coerce.number().min(-90).max(90).nullable(),
+  longitude: z.coerce.number().min(-180).max(180).nullable(),
+  isDefault: z.boolean(),
+};
+
+/**
+ * Zod schema for adding an address.
+ */
+export const zCreateAddressDto = {
+  body: z.object({
+    ...zAddressFields,
+    postcode: zAddressFields.postcode.optional(),
+    latitude: zAddressFields.latitude.optional(),
+    longitude: zAddressFields.longitude.optional(),
+    isDefault: zAddressFields.isDefault.optional(),
+  }),
+};
+type CreateAddressBodyDto = z.infer<typeof zCreateAddressDto.body>;
+export type CreateAddressDto = {
+  body: CreateAddressBodyDto;
+};
+
+/**
+ * Zod schema for updating an address.
+ */
+export const zUpdateAddressDto = {
+  params: zAddressIdParams,
+  body: z.object(zAddressFields).partial(),
+};
+type UpdateAddressParamsDto = z.infer<typeof zUpdateAddressDto.params>;
+type UpdateAddressBodyDto = z.infer<typeof zUpdateAddressDto.body>;
+export type UpdateAddressDto = {
+  params: UpdateAddressParamsDto;
+  body: UpdateAddressBodyDto;
+};
+
+/**
+ * Zod schema for getting, deleting or defaulting an address.
+ */
+export const zGetAddressDto = {
+  params: zAddressIdParams,
+};
+type GetAddressParamsDto = z.infer<typeof zGetAddressDto.params>;
+export type GetAddressDto = {
+  params: GetAddressParamsDto;
+};
@@ -0,0 +1,71 @@
+/**
+ * Routes for Address entity operations.
+ * Defines API endpoints for the logged-in customer's address book.
+ */
+import { Router } from "express";
+import * as AddressController from "@/modules/addresses/address.controller";
+import { authMiddleware, authorizeRoles } from "@/middlewares/auth";
+import { UserRole } from "@/generated/prisma/client";
+import validator from "@/middlewares/validator";
+import {
+  zCreateAddressDto,
+  zGetAddressDto,
+  zUpdateAddressDto,
+} from "@/modules/addresses/address.dto";
+
+const router = Router();
+
+// Route to get the customer's addresses
+router.get(
+  "/",
+  authMiddleware,
+  authorizeRoles(UserRole.CUSTOMER),
+  AddressController.getMyAddresses
+);
+
+// Route to add an address
+router.post(
+  "/",
+  authMiddleware,
+  authorizeRoles(UserRole.CUSTOMER),
+  validator(zCreateAddressDto),
+  AddressController.createAddress
+);
+
+// Route to get an address by ID
+router.get(
+  "/:id",
+  authMiddleware,
+  authorizeRoles(UserRole.CUSTOMER),
+  validator(zGetAddressDto),
+  AddressController.getMyAddressById
+);
+
+// Route to update an address
+router.patch(
+  "/:id",
+  authMiddleware,
+  authorizeRoles(UserRole.CUSTOMER),
+  validator(zUpdateAddressDto),
+  AddressController.updateAddress
+);
+
+// Route to make an address the default one
+router.patch(
+  "/:id/default",
+  authMiddleware,
+  authorizeRoles(UserRole.CUSTOMER),
+  validator(zGetAddressDto),
+  AddressController.setDefaultAddress
+);
+
+// Route to delete an address
+router.delete(
+  "/:id",
+  authMiddleware,
+  authorizeRoles(UserRole.CUSTOMER),
+  validator(zGetAddressDto),
+  AddressController.deleteAddress
+);
+
+export default router;
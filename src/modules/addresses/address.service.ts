@@ -0,0 +1,174 @@
+/**
+ * Service layer for Address entity operations.
+ * Contains business logic and database interactions for customer address books.
+ */
+import prisma from "@/prisma-client/prismaClient";
+import { Address, Prisma } from "@/generated/prisma/client";
+import { AppError } from "@/utils/appError";
+import httpStatus from "http-status";
+import {
+  CreateAddressDto,
+  UpdateAddressDto,
+} from "@/modules/addresses/address.dto";
+
+/**
+ * Get the customer of a user
+ */
+async function getCustomerByUserId(userId: bigint) {
+  const customer = await prisma.customer.findUnique({
+    where: { userId },
+  });
+  if (!customer) {
+    throw new AppError("Customer not found", httpStatus.NOT_FOUND);
+  }
+  return customer;
+}
+
+/**
+ * Get an address of the customer
+ */
+async function getCustomerAddress(
+  customerId: bigint,
+  addressId: bigint,
+  tx: Prisma.TransactionClient = prisma
+): Promise<Address> {
+  const address = await tx.address.findFirst({
+    where: { addressId, customerId },
+  });
+  if (!address) {
+    throw new AppError("Address not found", httpStatus.NOT_FOUND);
+  }
+  return address;
+}
+
+/**
+ * Unset the current default address of the customer
+ */
+async function clearDefaultAddress(
+  customerId: bigint,
+  tx: Prisma.TransactionClient
+): Promise<void> {
+  await tx.address.updateMany({
+    where: { customerId, isDefault: true },
+    data: { isDefault: false },
+  });
+}
+
+/**
+ * Get the addresses of the logged-in customer, default first
+ */
+export async function getMyAddresses(userId: bigint): Promise<Address[]> {
+  const customer = await getCustomerByUserId(userId);
+  return await prisma.address.findMany({
+    where: { customerId: customer.customerId },
+    orderBy: [{ isDefault: "desc" }, { createdAt: "desc" }],
+  });
+}
+
+/**
+ * Get an address of the logged-in customer
+ */
+export async function getMyAddressById(
+  userId: bigint,
+  addressId: bigint
+): Promise<Address> {
+  const customer = await getCustomerByUserId(userId);
+  return await getCustomerAddress(customer.customerId, addressId);
+}
+
+/**
+ * Add an address. The first address becomes the default.
+ */
+export async function createAddress(
+  userId: bigint,
+  data: CreateAddressDto["body"]
+): Promise<Address> {
+  const customer = await getCustomerByUserId(userId);
+
+  return await prisma.$transaction(async (tx) => {
+    const addressCount = await tx.address.count({
+      where: { customerId: customer.customerId },
+    });
+    const isDefault = data.isDefault || addressCount === 0;
+    if (isDefault) {
+      await clearDefaultAddress(customer.customerId, tx);
+    }
+
+    return await tx.address.create({
+      data: { ...data, isDefault, customerId: customer.customerId },
+    });
+  });
+}
+
+/**
+ * Update an address
+ */
+export async function updateAddress(
+  userId: bigint,
+  addressId: bigint,
+  data: UpdateAddressDto["body"]
+): Promise<Address> {
+  const customer = await getCustomerByUserId(userId);
+
+  return await prisma.$transaction(async (tx) => {
+    const address = await getCustomerAddress(
+      customer.customerId,
+      addressId,
+      tx
+    );
+    if (data.isDefault === false && address.isDefault) {
+      throw new AppError(
+        "Set another address as default instead",
+        httpStatus.BAD_REQUEST
+      );
+    }
+    if (data.isDefault) {
+      await clearDefaultAddress(customer.customerId, tx);
+    }
+
+    return await tx.address.update({ where: { addressId }, data });
+  });
+}
+
+/**
+ * Make an address the default one
+ */
+export async function setDefaultAddress(
+  userId: bigint,
+  addressId: bigint
+): Promise<Address> {
+  return await updateAddress(userId, addressId, { isDefault: true });
+}
+
+/**
+ * Delete an address. Orders keep their address snapshot; if the default
+ * address is deleted, the most recent remaining one becomes the default.
+ */
+export async function deleteAddress(
+  userId: bigint,
+  addressId: bigint
+): Promise<void> {
+  const customer = await getCustomerByUserId(userId);
+
+  await prisma.$transaction(async (tx) => {
+    const address = await getCustomerAddress(
+      customer.customerId,
+      addressId,
+      tx
+    );
+    await tx.address.delete({ where: { addressId } });
+
+    if (address.isDefault) {
+      const nextDefault = await tx.address.findFirst({
+        where: { customerId: customer.customerId },
+        orderBy: { createdAt: "desc" },
+      });
+      if (nextDefault) {
+        await tx.address.update({
+          where: { addressId: nextDefault.addressId },
+          data: { isDefault: true },
+        });
+      }
+    }
+  });
+}
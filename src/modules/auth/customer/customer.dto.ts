@@ -13,7 +13,6 @@ const bangladeshPhoneValidator = z.string().regex(/^\+8801[3-9]\d{8}$/, {
 export const zCustomerRegisterDto = z.object({
   phone: bangladeshPhoneValidator,
   name: z.string().min(3, "Name must be at least 3 characters").optional(),
-  address: z.string().array().optional(),
   password: z
     .string()
     .min(6, "Password must be at least 6 characters")
@@ -50,7 +49,6 @@ export type CustomerVerifyOtpDto = z.infer<typeof zCustomerVerifyOtpDto>;
 export const zCustomerUpdateProfileDto = z.object({
   name: z.string().min(3, "Name is required").optional(),
   email: z.string().email("Invalid email").optional(),
-  address: z.string().array().optional(),
   password: z
     .string()
     .min(6, "Password must be at least 6 characters")
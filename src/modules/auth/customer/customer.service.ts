@@ -44,7 +44,6 @@ export async function registerCustomer(
       data: {
         phone: data.phone,
         name: data.name,
-        address: data.address || [],
         passwordHash: passwordHash,
         role: "CUSTOMER",
         status: "PENDING",
@@ -189,7 +188,6 @@ export async function updateCustomerProfile(
   const updateData: {
     name?: string;
     email?: string;
-    address?: string[];
     passwordHash?: string;
     updatedAt?: Date;
   } = {
@@ -198,7 +196,6 @@ export async function updateCustomerProfile(
 
   if (data.name) updateData.name = data.name;
   if (data.email) updateData.email = data.email;
-  if (data.address) updateData.address = data.address;
 
   // Handle password update with hashing
   if (data.password) {
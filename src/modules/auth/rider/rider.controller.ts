@@ -0,0 +1,29 @@
+/**
+ * Controller layer for Rider authentication operations.
+ * Handles HTTP requests and responses for rider authentication endpoints.
+ */
+import { Request, Response } from "express";
+import { handleErrorResponse } from "@/utils/errorResponseHandler";
+import { zRiderLoginDto } from "@/modules/auth/rider/rider.dto";
+import * as riderAuthService from "@/modules/auth/rider/rider.service";
+import httpStatus from "http-status";
+import sendResponse from "@/utils/sendResponse";
+import { User } from "@/generated/prisma/client";
+
+/**
+ * login rider through phone with password.
+ */
+export const loginRider = async (req: Request, res: Response) => {
+  try {
+    const data = zRiderLoginDto.parse(req.body);
+    const { token, user } = await riderAuthService.loginRider(data);
+    sendResponse<{ token: string; user: Omit<User, "passwordHash"> }>(res, {
+      success: true,
+      statusCode: httpStatus.OK,
+      message: "Rider logged in successfully",
+      data: { token, user },
+    });
+  } catch (error) {
+    handleErrorResponse(error, res, "login rider");
+  }
+};
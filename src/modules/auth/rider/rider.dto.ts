@@ -0,0 +1,25 @@
+/**
+ * Data Transfer Objects (DTOs) for Rider authentication
+ * Defines the expected shape of data for rider authentication operations.
+ */
+import { z } from "zod";
+
+const bangladeshPhoneValidator = z
+  .string()
+  .regex(
+    /^\+8801[3-9]\d{8}$/,
+    "Must be a valid Bangladeshi phone number (+8801XXXXXXXXX)"
+  );
+
+/**
+ * Zod schema for rider phone/password login.
+ */
+export const zRiderLoginDto = z.object({
+  phone: bangladeshPhoneValidator,
+  password: z.string().min(1, "Password is required"),
+});
+
+/**
+ * TypeScript type inferred from login schema.
+ */
+export type RiderLoginDto = z.infer<typeof zRiderLoginDto>;
@@ -0,0 +1,14 @@
+/**
+ * Routes for Rider authentication operations.
+ * Defines API endpoints for rider authentication.
+ */
+
+import { Router } from "express";
+import * as RiderAuthController from "@/modules/auth/rider/rider.controller";
+
+const router = Router();
+
+// Route to login a rider with phone and password
+router.post("/login", RiderAuthController.loginRider);
+
+export default router;
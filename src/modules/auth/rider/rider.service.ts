@@ -0,0 +1,43 @@
+/**
+ * Service layer for Rider authentication operations.
+ * Riders are created by admins and log in with phone and password.
+ */
+import bcrypt from "bcrypt";
+import { User } from "@/generated/prisma/client";
+import prisma from "@/prisma-client/prismaClient";
+import { generateAuthToken } from "@/utils/authToken";
+import { getErrorMessage } from "@/utils/errorHandler";
+import { RiderLoginDto } from "@/modules/auth/rider/rider.dto";
+
+/**
+ * login rider through phone with password.
+ */
+export async function loginRider(
+  data: RiderLoginDto
+): Promise<{ token: string; user: User }> {
+  try {
+    const user = await prisma.user.findUnique({
+      where: { phone: data.phone },
+      include: { rider: true },
+    });
+
+    // Validate user
+    if (!user || user.role !== "RIDER" || !user.rider) {
+      throw new Error("Invalid credentials");
+    }
+    if (!user.passwordHash) throw new Error("Password not set yet");
+    if (user.status !== "ACTIVE" || !user.rider.isActive) {
+      throw new Error("Rider account is not active");
+    }
+
+    // Verify password
+    const isValid = await bcrypt.compare(data.password, user.passwordHash);
+    if (!isValid) throw new Error("Invalid credentials");
+
+    // Generate token
+    const { rider: _, ...userData } = user;
+    return generateAuthToken(userData);
+  } catch (error) {
+    throw new Error(`Failed to login rider: ${getErrorMessage(error)}`);
+  }
+}
@@ -0,0 +1,125 @@
+import { Request, Response } from "express";
+import * as cartService from "@/modules/carts/cart.service";
+import {
+  AddCartItemDto,
+  CheckoutCartDto,
+  RemoveCartItemDto,
+  UpdateCartItemDto,
+} from "@/modules/carts/cart.dto";
+import { CheckoutResult, ICartResult } from "@/modules/carts/cart.interface";
+import httpStatus from "http-status";
+import sendResponse from "@/utils/sendResponse";
+import asyncHandler from "@/utils/asyncHandler";
+
+/**
+ * Get the logged in customer's cart
+ */
+export const getCart = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const cart = await cartService.getCart(BigInt(req.user?.userId!));
+
+    sendResponse<ICartResult>(res, {
+      success: true,
+      statusCode: httpStatus.OK,
+      message: "Cart retrieved successfully",
+      data: cart,
+    });
+  }
+);
+
+/**
+ * Add an item to the cart
+ */
+export const addCartItem = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const data = req.body as AddCartItemDto["body"];
+    const cart = await cartService.addCartItem(BigInt(req.user?.userId!), data);
+
+    sendResponse<ICartResult>(res, {
+      success: true,
+      statusCode: httpStatus.OK,
+      message: "Item added to cart successfully",
+      data: cart,
+    });
+  }
+);
+
+/**
+ * Update the quantity of a cart item
+ */
+export const updateCartItem = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const cartItemId = req.params
+      .id as unknown as UpdateCartItemDto["params"]["id"];
+    const data = req.body as UpdateCartItemDto["body"];
+    const cart = await cartService.updateCartItem(
+      BigInt(req.user?.userId!),
+      cartItemId,
+      data
+    );
+
+    sendResponse<ICartResult>(res, {
+      success: true,
+      statusCode: httpStatus.OK,
+      message: "Cart item updated successfully",
+      data: cart,
+    });
+  }
+);
+
+/**
+ * Remove an item from the cart
+ */
+export const removeCartItem = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const cartItemId = req.params
+      .id as unknown as RemoveCartItemDto["params"]["id"];
+    const cart = await cartService.removeCartItem(
+      BigInt(req.user?.userId!),
+      cartItemId
+    );
+
+    sendResponse<ICartResult>(res, {
+      success: true,
+      statusCode: httpStatus.OK,
+      message: "Cart item removed successfully",
+      data: cart,
+    });
+  }
+);
+
+/**
+ * Remove all items from the cart
+ */
+export const clearCart = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    await cartService.clearCart(BigInt(req.user?.userId!));
+
+    sendResponse<null>(res, {
+      success: true,
+      statusCode: httpStatus.OK,
+      message: "Cart cleared successfully",
+      data: null,
+    });
+  }
+);
+
+/**
+ * Checkout the cart into an order
+ */
+export const checkoutCart = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const data = req.body as CheckoutCartDto["body"];
+    const order = await cartService.checkoutCart(
+      BigInt(req.user?.userId!),
+      data
+    );
+
+    sendResponse<CheckoutResult>(res, {
+      success: true,
+      statusCode: httpStatus.CREATED,
+      message: "Order created successfully",
+      data: order,
+    });
+  }
+);
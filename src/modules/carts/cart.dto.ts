@@ -0,0 +1,93 @@
+/**
+ * Data Transfer Objects (DTOs) for the Cart entity
+ * These schemas define the expected shape of data when managing cart items and checkout.
+ */
+import { z } from "zod";
+import { zPaymentMethod } from "@/utils/paymentProviders";
+
+/**
+ * Returns a Zod schema for a positive integer ID, with the given field name used
+ * for error messages.
+ * @param fieldName The name of the field, used for error messages.
+ * @returns A Zod schema for a positive integer ID.
+ */
+const zBigIntId = (fieldName: string) =>
+  z
+    .union([z.string(), z.number()])
+    .refine((val) => val !== "", { message: `${fieldName} is required` })
+    .transform((val) => BigInt(val))
+    .refine((val) => val > 0n, {
+      message: `${fieldName} must be a positive integer`,
+    });
+
+/**
+ * Zod schema for adding an item to the cart.
+ * Quantity is the number of packages of the product.
+ */
+export const zAddCartItemDto = {
+  body: z.object({
+    productId: zBigIntId("Product ID"),
+    quantity: z.coerce
+      .number()
+      .int()
+      .positive("Quantity must be a positive integer")
+      .default(1),
+  }),
+};
+type AddCartItemBodyDto = z.infer<typeof zAddCartItemDto.body>;
+export type AddCartItemDto = {
+  body: AddCartItemBodyDto;
+};
+
+/**
+ * Zod schema for updating the quantity of a cart item.
+ */
+export const zUpdateCartItemDto = {
+  params: z.object({
+    id: zBigIntId("Cart item ID"),
+  }),
+  body: z.object({
+    quantity: z.coerce
+      .number()
+      .int()
+      .positive("Quantity must be a positive integer"),
+  }),
+};
+type UpdateCartItemParamsDto = z.infer<typeof zUpdateCartItemDto.params>;
+type UpdateCartItemBodyDto = z.infer<typeof zUpdateCartItemDto.body>;
+export type UpdateCartItemDto = {
+  params: UpdateCartItemParamsDto;
+  body: UpdateCartItemBodyDto;
+};
+
+/**
+ * Zod schema for removing an item from the cart.
+ */
+export const zRemoveCartItemDto = {
+  params: z.object({
+    id: zBigIntId("Cart item ID"),
+  }),
+};
+type RemoveCartItemParamsDto = z.infer<typeof zRemoveCartItemDto.params>;
+export type RemoveCartItemDto = {
+  params: RemoveCartItemParamsDto;
+};
+
+/**
+ * Zod schema for checking out the cart into an order.
+ */
+export const zCheckoutCartDto = {
+  body: z.object({
+    paymentMethod: zPaymentMethod,
+    addressId: zBigIntId("Address ID").optional(),
+    shippingAddress: z
+      .string()
+      .min(1, "Shipping address must not be empty")
+      .optional(),
+    deliverySlotId: zBigIntId("Delivery slot ID").optional(),
+  }),
+};
+type CheckoutCartBodyDto = z.infer<typeof zCheckoutCartDto.body>;
+export type CheckoutCartDto = {
+  body: CheckoutCartBodyDto;
+};
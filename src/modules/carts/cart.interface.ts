@@ -0,0 +1,26 @@
+import { CartItem, Order, OrderItem, Product } from "@/generated/prisma/client";
+import { Decimal } from "@/generated/prisma/client/runtime/library";
+
+export interface ProductWithAccessibleImages extends Product {
+  accessibleImageUrls?: string[];
+}
+
+export type PricedCartItem = CartItem & {
+  product: ProductWithAccessibleImages;
+  unitPrice: Decimal;
+  discountUnitPrice: Decimal | null;
+  discountAmount: Decimal;
+  subtotal: Decimal;
+  isAvailable: boolean;
+};
+
+export interface ICartResult {
+  cartId: bigint;
+  items: PricedCartItem[];
+  totalItems: number;
+  totalAmount: Decimal;
+}
+
+export type CheckoutResult = Order & {
+  orderItems: OrderItem[];
+};
@@ -0,0 +1,73 @@
+/**
+ * Routes for Cart entity operations.
+ * Defines API endpoints for managing the customer's cart and checking it out.
+ */
+import { Router } from "express";
+import * as CartController from "@/modules/carts/cart.controller";
+import { authMiddleware, authorizeRoles } from "@/middlewares/auth";
+import { UserRole } from "@/generated/prisma/client";
+import validator from "@/middlewares/validator";
+import { idempotency } from "@/middlewares/idempotency";
+import {
+  zAddCartItemDto,
+  zCheckoutCartDto,
+  zRemoveCartItemDto,
+  zUpdateCartItemDto,
+} from "@/modules/carts/cart.dto";
+
+const router = Router();
+
+// Route to get the customer's cart
+router.get(
+  "/",
+  authMiddleware,
+  authorizeRoles(UserRole.CUSTOMER),
+  CartController.getCart
+);
+
+// Route to add an item to the cart
+router.post(
+  "/items",
+  authMiddleware,
+  authorizeRoles(UserRole.CUSTOMER),
+  validator(zAddCartItemDto),
+  CartController.addCartItem
+);
+
+// Route to update a cart item's quantity
+router.patch(
+  "/items/:id",
+  authMiddleware,
+  authorizeRoles(UserRole.CUSTOMER),
+  validator(zUpdateCartItemDto),
+  CartController.updateCartItem
+);
+
+// Route to remove an item from the cart
+router.delete(
+  "/items/:id",
+  authMiddleware,
+  authorizeRoles(UserRole.CUSTOMER),
+  validator(zRemoveCartItemDto),
+  CartController.removeCartItem
+);
+
+// Route to clear the cart
+router.delete(
+  "/",
+  authMiddleware,
+  authorizeRoles(UserRole.CUSTOMER),
+  CartController.clearCart
+);
+
+// Route to checkout the cart into an order
+router.post(
+  "/checkout",
+  authMiddleware,
+  authorizeRoles(UserRole.CUSTOMER),
+  idempotency(),
+  validator(zCheckoutCartDto),
+  CartController.checkoutCart
+);
+
+export default router;
@@ -0,0 +1,282 @@
+/**
+ * Service layer for Cart entity operations.
+ * Contains business logic and database interactions for customer carts and checkout.
+ */
+import prisma from "@/prisma-client/prismaClient";
+import { runTransaction } from "@/utils/transaction";
+import { Cart, Prisma } from "@/generated/prisma/client";
+import { Decimal } from "@/generated/prisma/client/runtime/library";
+import { AppError } from "@/utils/appError";
+import httpStatus from "http-status";
+import {
+  AddCartItemDto,
+  CheckoutCartDto,
+  UpdateCartItemDto,
+} from "@/modules/carts/cart.dto";
+import {
+  CheckoutResult,
+  ICartResult,
+  PricedCartItem,
+} from "@/modules/carts/cart.interface";
+import { priceOrderLine } from "@/utils/calculateOrderPricing";
+import { processProductsWithAccessibleUrls } from "@/utils/fileUpload/s3Aws";
+import { hasInsufficientStock } from "@/utils/processSubscription";
+import { assertNoViolations, checkMaxQuantities } from "@/utils/orderRules";
+import { placeOrder } from "@/utils/placeOrder";
+
+const cartItemInclude = {
+  product: { include: { deal: true } },
+} satisfies Prisma.CartItemInclude;
+
+type CartItemWithProduct = Prisma.CartItemGetPayload<{
+  include: typeof cartItemInclude;
+}>;
+
+/**
+ * Resolve the customer of the logged in user
+ */
+async function getCustomerByUserId(userId: bigint) {
+  const customer = await prisma.customer.findUnique({
+    where: { userId },
+  });
+  if (!customer) {
+    throw new AppError("Customer not found", httpStatus.NOT_FOUND);
+  }
+  return customer;
+}
+
+/**
+ * Get the customer's cart, creating an empty one on first use
+ */
+async function getOrCreateCart(
+  customerId: bigint,
+  tx: Prisma.TransactionClient = prisma
+): Promise<Cart> {
+  return await tx.cart.upsert({
+    where: { customerId },
+    update: {},
+    create: { customerId },
+  });
+}
+
+/**
+ * Price a cart item with the same pricing engine used for orders
+ */
+async function priceCartItem(
+  item: CartItemWithProduct
+): Promise<Omit<PricedCartItem, "product">> {
+  const line = await priceOrderLine(item.product, item.quantity);
+
+  return {
+    cartItemId: item.cartItemId,
+    quantity: item.quantity,
+    createdAt: item.createdAt,
+    updatedAt: item.updatedAt,
+    cartId: item.cartId,
+    productId: item.productId,
+    unitPrice: line.unitPrice,
+    discountUnitPrice: line.discountUnitPrice,
+    discountAmount: line.discountAmount,
+    subtotal: line.subtotal,
+    isAvailable: line.isAvailable,
+  };
+}
+
+/**
+ * Find a cart item which belongs to the customer's cart
+ */
+async function getOwnedCartItem(customerId: bigint, cartItemId: bigint) {
+  const cartItem = await prisma.cartItem.findUnique({
+    where: { cartItemId },
+    include: { cart: true },
+  });
+  if (!cartItem || cartItem.cart.customerId !== customerId) {
+    throw new AppError("Cart item not found", httpStatus.NOT_FOUND);
+  }
+  return cartItem;
+}
+
+/**
+ * Retrieve the customer's cart with live pricing
+ * @param userId - The ID of the logged in user
+ * @returns The cart items priced with current product prices and deals
+ */
+export async function getCart(userId: bigint): Promise<ICartResult> {
+  const customer = await getCustomerByUserId(userId);
+  const cart = await getOrCreateCart(customer.customerId);
+
+  const cartItems = await prisma.cartItem.findMany({
+    where: { cartId: cart.cartId },
+    include: cartItemInclude,
+    orderBy: { createdAt: "asc" },
+  });
+  const products = await processProductsWithAccessibleUrls(
+    cartItems.map((item) => item.product),
+    300
+  );
+
+  const items: PricedCartItem[] = await Promise.all(
+    cartItems.map(async (item, index) => ({
+      ...(await priceCartItem(item)),
+      product: products[index] as PricedCartItem["product"],
+    }))
+  );
+  const totalAmount = items.reduce(
+    (sum, item) => sum.add(item.subtotal),
+    new Decimal(0)
+  );
+
+  return {
+    cartId: cart.cartId,
+    items,
+    totalItems: items.reduce((sum, item) => sum + item.quantity, 0),
+    totalAmount,
+  };
+}
+
+/**
+ * Add a product to the customer's cart
+ * - Increments the quantity if the product is already in the cart
+ */
+export async function addCartItem(
+  userId: bigint,
+  data: AddCartItemDto["body"]
+): Promise<ICartResult> {
+  const customer = await getCustomerByUserId(userId);
+
+  const product = await prisma.product.findUnique({
+    where: { productId: data.productId },
+  });
+  if (!product) {
+    throw new AppError("Product not found", httpStatus.NOT_FOUND);
+  }
+
+  const cart = await getOrCreateCart(customer.customerId);
+  const existingItem = await prisma.cartItem.findUnique({
+    where: {
+      cartId_productId: { cartId: cart.cartId, productId: data.productId },
+    },
+  });
+  const quantity = (existingItem?.quantity ?? 0) + data.quantity;
+
+  assertNoViolations(checkMaxQuantities([{ product, quantity }]));
+  if (!product.isPreorder && hasInsufficientStock(product, quantity)) {
+    throw new AppError(
+      `Insufficient stock for product ${product.name}`,
+      httpStatus.BAD_REQUEST
+    );
+  }
+
+  await prisma.cartItem.upsert({
+    where: {
+      cartId_productId: { cartId: cart.cartId, productId: data.productId },
+    },
+    update: { quantity },
+    create: {
+      cartId: cart.cartId,
+      productId: data.productId,
+      quantity,
+    },
+  });
+  return await getCart(userId);
+}
+
+/**
+ * Update the quantity of a cart item
+ */
+export async function updateCartItem(
+  userId: bigint,
+  cartItemId: bigint,
+  data: UpdateCartItemDto["body"]
+): Promise<ICartResult> {
+  const customer = await getCustomerByUserId(userId);
+  const cartItem = await getOwnedCartItem(customer.customerId, cartItemId);
+
+  const product = await prisma.product.findUnique({
+    where: { productId: cartItem.productId },
+  });
+  if (!product) {
+    throw new AppError("Product not found", httpStatus.NOT_FOUND);
+  }
+  assertNoViolations(
+    checkMaxQuantities([{ product, quantity: data.quantity }])
+  );
+  if (!product.isPreorder && hasInsufficientStock(product, data.quantity)) {
+    throw new AppError(
+      `Insufficient stock for product ${product.name}`,
+      httpStatus.BAD_REQUEST
+    );
+  }
+
+  await prisma.cartItem.update({
+    where: { cartItemId },
+    data: { quantity: data.quantity },
+  });
+  return await getCart(userId);
+}
+
+/**
+ * Remove an item from the customer's cart
+ */
+export async function removeCartItem(
+  userId: bigint,
+  cartItemId: bigint
+): Promise<ICartResult> {
+  const customer = await getCustomerByUserId(userId);
+  await getOwnedCartItem(customer.customerId, cartItemId);
+
+  await prisma.cartItem.delete({ where: { cartItemId } });
+  return await getCart(userId);
+}
+
+/**
+ * Remove all items from the customer's cart
+ */
+export async function clearCart(userId: bigint): Promise<void> {
+  const customer = await getCustomerByUserId(userId);
+  const cart = await getOrCreateCart(customer.customerId);
+
+  await prisma.cartItem.deleteMany({ where: { cartId: cart.cartId } });
+}
+
+/**
+ * Checkout the customer's cart
+ * - Places the order the same way as the order API, see placeOrder
+ * - Empties the cart once the order is created
+ * @returns The created order with its items
+ */
+export async function checkoutCart(
+  userId: bigint,
+  data: CheckoutCartDto["body"]
+): Promise<CheckoutResult> {
+  const customer = await getCustomerByUserId(userId);
+
+  return await runTransaction(async (tx) => {
+    const cart = await getOrCreateCart(customer.customerId, tx);
+    const cartItems = await tx.cartItem.findMany({
+      where: { cartId: cart.cartId },
+      include: cartItemInclude,
+      orderBy: { createdAt: "asc" },
+    });
+    if (cartItems.length === 0) {
+      throw new AppError("Cart is empty", httpStatus.BAD_REQUEST);
+    }
+
+    const order = await placeOrder(tx, {
+      ...data,
+      customer,
+      items: cartItems.map((item) => ({
+        productId: item.productId,
+        quantity: item.quantity,
+      })),
+    });
+
+    // Empty the cart
+    await tx.cartItem.deleteMany({ where: { cartId: cart.cartId } });
+
+    const orderItems = await tx.orderItem.findMany({
+      where: { orderId: order.orderId },
+    });
+    return { ...order, orderItems };
+  });
+}
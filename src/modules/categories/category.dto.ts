@@ -13,6 +13,11 @@ import { z } from "zod";
 export const zCreateCategoryDto = z.object({
   name: z.string().min(1, "Name is required"),
   description: z.string().optional(),
+  returnWindowHours: z.coerce
+    .number()
+    .int()
+    .nonnegative("Return window must be non-negative")
+    .optional(),
 });
 
 /**
@@ -28,6 +33,11 @@ export type CreateCategoryDto = z.infer<typeof zCreateCategoryDto>;
 export const zUpdateCategoryDto = z.object({
   name: z.string().min(1).optional(),
   description: z.string().optional(),
+  returnWindowHours: z.coerce
+    .number()
+    .int()
+    .nonnegative("Return window must be non-negative")
+    .optional(),
 });
 
 /**
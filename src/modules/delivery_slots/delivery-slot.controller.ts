@@ -0,0 +1,112 @@
+import { Request, Response } from "express";
+import * as deliverySlotService from "@/modules/delivery_slots/delivery-slot.service";
+import {
+  CreateDeliverySlotsDto,
+  DeleteDeliverySlotDto,
+  GetAvailableSlotsDto,
+  GetDeliverySlotsDto,
+  UpdateDeliverySlotDto,
+} from "@/modules/delivery_slots/delivery-slot.dto";
+import { AvailableDeliverySlot } from "@/modules/delivery_slots/delivery-slot.interface";
+import { DeliverySlot } from "@/generated/prisma/client";
+import httpStatus from "http-status";
+import sendResponse from "@/utils/sendResponse";
+import asyncHandler from "@/utils/asyncHandler";
+
+/**
+ * Generate delivery slots for a zone
+ */
+export const createDeliverySlots = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const data = req.body as CreateDeliverySlotsDto["body"];
+    const count = await deliverySlotService.createDeliverySlots(data);
+
+    sendResponse<{ count: number }>(res, {
+      success: true,
+      statusCode: httpStatus.CREATED,
+      message: `${count} delivery slots created successfully`,
+      data: { count },
+    });
+  }
+);
+
+/**
+ * Get available delivery slots of a zone
+ */
+export const getAvailableSlots = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const query = req.query as unknown as GetAvailableSlotsDto["query"];
+    const slots = await deliverySlotService.getAvailableSlots(query);
+
+    sendResponse<AvailableDeliverySlot[]>(res, {
+      success: true,
+      statusCode: httpStatus.OK,
+      message: "Available delivery slots retrieved successfully",
+      data: slots,
+    });
+  }
+);
+
+/**
+ * Get all delivery slots
+ */
+export const getDeliverySlots = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const query = req.query as unknown as GetDeliverySlotsDto["query"];
+    const result = await deliverySlotService.getDeliverySlots(query);
+
+    sendResponse<DeliverySlot[]>(res, {
+      success: true,
+      statusCode: httpStatus.OK,
+      message: "Delivery slots retrieved successfully",
+      data: result.data,
+      pagination: {
+        currentPage: result.currentPage,
+        totalPages: result.totalPages,
+        totalItems: result.totalCount,
+        itemsPerPage: query.limit,
+        hasNextPage: result.currentPage < result.totalPages,
+        hasPreviousPage: result.currentPage > 1,
+      },
+    });
+  }
+);
+
+/**
+ * Update a delivery slot
+ */
+export const updateDeliverySlot = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const slotId = req.params
+      .id as unknown as UpdateDeliverySlotDto["params"]["id"];
+    const slot = await deliverySlotService.updateDeliverySlot(
+      slotId,
+      req.body as UpdateDeliverySlotDto["body"]
+    );
+
+    sendResponse<DeliverySlot>(res, {
+      success: true,
+      statusCode: httpStatus.OK,
+      message: "Delivery slot updated successfully",
+      data: slot,
+    });
+  }
+);
+
+/**
+ * Delete a delivery slot
+ */
+export const deleteDeliverySlot = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const slotId = req.params
+      .id as unknown as DeleteDeliverySlotDto["params"]["id"];
+    await deliverySlotService.deleteDeliverySlot(slotId);
+
+    sendResponse<null>(res, {
+      success: true,
+      statusCode: httpStatus.OK,
+      message: "Delivery slot deleted successfully",
+      data: null,
+    });
+  }
+);
@@ -0,0 +1,144 @@
+/**
+ * Data Transfer Objects (DTOs) for the DeliverySlot entity
+ * These schemas define the expected shape of data when managing and listing delivery slots.
+ */
+import { z } from "zod";
+
+/**
+ * Returns a Zod schema for a positive integer ID, with the given field name used
+ * for error messages.
+ * @param fieldName The name of the field, used for error messages.
+ * @returns A Zod schema for a positive integer ID.
+ */
+const zBigIntId = (fieldName: string) =>
+  z
+    .union([z.string(), z.number()])
+    .refine((val) => val !== "", { message: `${fieldName} is required` })
+    .transform((val) => BigInt(val))
+    .refine((val) => val > 0n, {
+      message: `${fieldName} must be a positive integer`,
+    });
+
+const zDay = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format");
+
+const zTime = z
+  .string()
+  .regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Time must be in HH:mm format");
+
+const zZoneCode = z
+  .string()
+  .trim()
+  .min(1, "Zone code is required")
+  .toUpperCase();
+
+const zSlotIdParams = z.object({
+  id: zBigIntId("Delivery slot ID"),
+});
+
+/**
+ * Zod schema for generating slots for a zone over a date range.
+ * One slot is created per day for every time window.
+ */
+export const zCreateDeliverySlotsDto = {
+  body: z
+    .object({
+      zoneCode: zZoneCode,
+      startDate: zDay,
+      endDate: zDay,
+      windows: z
+        .array(
+          z
+            .object({
+              startTime: zTime,
+              endTime: zTime,
+              capacity: z.coerce
+                .number()
+                .int()
+                .positive("Capacity must be a positive integer"),
+            })
+            .refine((window) => window.endTime > window.startTime, {
+              message: "End time must be after start time",
+              path: ["endTime"],
+            })
+        )
+        .min(1, "At least one time window is required"),
+    })
+    .refine((data) => data.endDate >= data.startDate, {
+      message: "End date must not be before start date",
+      path: ["endDate"],
+    }),
+};
+type CreateDeliverySlotsBodyDto = z.infer<typeof zCreateDeliverySlotsDto.body>;
+export type CreateDeliverySlotsDto = {
+  body: CreateDeliverySlotsBodyDto;
+};
+
+/**
+ * Zod schema for listing slots with free capacity for checkout.
+ */
+export const zGetAvailableSlotsDto = {
+  query: z.object({
+    zoneCode: zZoneCode,
+    from: zDay.optional(),
+    days: z.coerce.number().int().positive().max(30).default(7),
+  }),
+};
+type GetAvailableSlotsQueryDto = z.infer<typeof zGetAvailableSlotsDto.query>;
+export type GetAvailableSlotsDto = {
+  query: GetAvailableSlotsQueryDto;
+};
+
+/**
+ * Zod schema for listing all slots.
+ */
+export const zGetDeliverySlotsDto = {
+  query: z.object({
+    page: z.coerce.number().int().positive().default(1),
+    limit: z.coerce.number().int().positive().max(100).default(20),
+    zoneCode: zZoneCode.optional(),
+    from: zDay.optional(),
+    to: zDay.optional(),
+  }),
+};
+type GetDeliverySlotsQueryDto = z.infer<typeof zGetDeliverySlotsDto.query>;
+export type GetDeliverySlotsDto = {
+  query: GetDeliverySlotsQueryDto;
+};
+
+/**
+ * Zod schema for updating a slot.
+ */
+export const zUpdateDeliverySlotDto = {
+  params: zSlotIdParams,
+  body: z.object({
+    capacity: z.coerce
+      .number()
+      .int()
+      .positive("Capacity must be a positive integer")
+      .optional(),
+    isActive: z.boolean().optional(),
+  }),
+};
+type UpdateDeliverySlotParamsDto = z.infer<
+  typeof zUpdateDeliverySlotDto.params
+>;
+type UpdateDeliverySlotBodyDto = z.infer<typeof zUpdateDeliverySlotDto.body>;
+export type UpdateDeliverySlotDto = {
+  params: UpdateDeliverySlotParamsDto;
+  body: UpdateDeliverySlotBodyDto;
+};
+
+/**
+ * Zod schema for deleting a slot.
+ */
+export const zDeleteDeliverySlotDto = {
+  params: zSlotIdParams,
+};
+type DeleteDeliverySlotParamsDto = z.infer<
+  typeof zDeleteDeliverySlotDto.params
+>;
+export type DeleteDeliverySlotDto = {
+  params: DeleteDeliverySlotParamsDto;
+};
@@ -0,0 +1,12 @@
+import { DeliverySlot } from "@/generated/prisma/client";
+
+export type AvailableDeliverySlot = DeliverySlot & {
+  availableCount: number;
+};
+
+export interface IGetDeliverySlotsResult {
+  data: DeliverySlot[];
+  currentPage: number;
+  totalPages: number;
+  totalCount: number;
+}
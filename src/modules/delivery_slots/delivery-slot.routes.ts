@@ -0,0 +1,64 @@
+/**
+ * Routes for DeliverySlot entity operations.
+ * Defines API endpoints for listing and managing delivery time slots.
+ */
+import { Router } from "express";
+import * as DeliverySlotController from "@/modules/delivery_slots/delivery-slot.controller";
+import { authMiddleware, authorizeRoles } from "@/middlewares/auth";
+import { UserRole } from "@/generated/prisma/client";
+import validator from "@/middlewares/validator";
+import {
+  zCreateDeliverySlotsDto,
+  zDeleteDeliverySlotDto,
+  zGetAvailableSlotsDto,
+  zGetDeliverySlotsDto,
+  zUpdateDeliverySlotDto,
+} from "@/modules/delivery_slots/delivery-slot.dto";
+
+const router = Router();
+
+// Route to get slots with free capacity for checkout
+router.get(
+  "/available",
+  authMiddleware,
+  validator(zGetAvailableSlotsDto),
+  DeliverySlotController.getAvailableSlots
+);
+
+// Route to generate slots for a zone
+router.post(
+  "/",
+  authMiddleware,
+  authorizeRoles(UserRole.ADMIN, UserRole.SUPER_ADMIN),
+  validator(zCreateDeliverySlotsDto),
+  DeliverySlotController.createDeliverySlots
+);
+
+// Route to get all slots
+router.get(
+  "/",
+  authMiddleware,
+  authorizeRoles(UserRole.ADMIN, UserRole.SUPER_ADMIN),
+  validator(zGetDeliverySlotsDto),
+  DeliverySlotController.getDeliverySlots
+);
+
+// Route to update a slot
+router.patch(
+  "/:id",
+  authMiddleware,
+  authorizeRoles(UserRole.ADMIN, UserRole.SUPER_ADMIN),
+  validator(zUpdateDeliverySlotDto),
+  DeliverySlotController.updateDeliverySlot
+);
+
+// Route to delete a slot
+router.delete(
+  "/:id",
+  authMiddleware,
+  authorizeRoles(UserRole.ADMIN, UserRole.SUPER_ADMIN),
+  validator(zDeleteDeliverySlotDto),
+  DeliverySlotController.deleteDeliverySlot
+);
+
+export default router;
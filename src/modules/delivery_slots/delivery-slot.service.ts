@@ -0,0 +1,170 @@
+/**
+ * Service layer for DeliverySlot entity operations.
+ * Contains business logic and database interactions for delivery slots.
+ */
+import prisma from "@/prisma-client/prismaClient";
+import { DeliverySlot, Prisma } from "@/generated/prisma/client";
+import { AppError } from "@/utils/appError";
+import httpStatus from "http-status";
+import { addDays, eachDayOfInterval } from "date-fns";
+import {
+  CreateDeliverySlotsDto,
+  GetAvailableSlotsDto,
+  GetDeliverySlotsDto,
+  UpdateDeliverySlotDto,
+} from "@/modules/delivery_slots/delivery-slot.dto";
+import {
+  AvailableDeliverySlot,
+  IGetDeliverySlotsResult,
+} from "@/modules/delivery_slots/delivery-slot.interface";
+import { toSlotDate } from "@/utils/deliverySlot";
+import { isPastCutoff } from "@/utils/deliveryZone";
+
+/**
+ * Generate slots for a zone, one per day and time window.
+ * Existing slots with the same zone, day and start time are kept as they are.
+ * @returns The number of slots created
+ */
+export async function createDeliverySlots(
+  data: CreateDeliverySlotsDto["body"]
+): Promise<number> {
+  const zone = await prisma.deliveryZone.findUnique({
+    where: { code: data.zoneCode },
+  });
+  if (!zone) {
+    throw new AppError("Delivery zone not found", httpStatus.NOT_FOUND);
+  }
+
+  const days = eachDayOfInterval({
+    start: toSlotDate(data.startDate),
+    end: toSlotDate(data.endDate),
+  });
+
+  const { count } = await prisma.deliverySlot.createMany({
+    data: days.flatMap((day) =>
+      data.windows.map((window) => ({
+        zoneCode: data.zoneCode,
+        date: day,
+        startTime: window.startTime,
+        endTime: window.endTime,
+        capacity: window.capacity,
+      }))
+    ),
+    skipDuplicates: true,
+  });
+  return count;
+}
+
+/**
+ * List slots of a zone which still have free capacity
+ */
+export async function getAvailableSlots(
+  query: GetAvailableSlotsDto["query"]
+): Promise<AvailableDeliverySlot[]> {
+  const zone = await prisma.deliveryZone.findUnique({
+    where: { code: query.zoneCode },
+  });
+  if (!zone || !zone.isActive) {
+    throw new AppError("Delivery zone not found", httpStatus.NOT_FOUND);
+  }
+
+  // Same-day slots close at the zone's cutoff time
+  const now = new Date();
+  const today = toSlotDate(now);
+  const earliest = isPastCutoff(zone, now) ? addDays(today, 1) : today;
+  const from = query.from ? toSlotDate(query.from) : earliest;
+  const start = from < earliest ? earliest : from;
+
+  const slots = await prisma.deliverySlot.findMany({
+    where: {
+      zoneCode: query.zoneCode,
+      isActive: true,
+      date: { gte: start, lt: addDays(start, query.days) },
+      reservedCount: { lt: prisma.deliverySlot.fields.capacity },
+    },
+    orderBy: [{ date: "asc" }, { startTime: "asc" }],
+  });
+
+  return slots.map((slot) => ({
+    ...slot,
+    availableCount: slot.capacity - slot.reservedCount,
+  }));
+}
+
+/**
+ * List all slots with pagination
+ */
+export async function getDeliverySlots(
+  query: GetDeliverySlotsDto["query"]
+): Promise<IGetDeliverySlotsResult> {
+  const { page, limit, zoneCode, from, to } = query;
+  const whereClause: Prisma.DeliverySlotWhereInput = {
+    ...(zoneCode && { zoneCode }),
+    ...((from || to) && {
+      date: {
+        ...(from && { gte: toSlotDate(from) }),
+        ...(to && { lte: toSlotDate(to) }),
+      },
+    }),
+  };
+
+  const [slots, totalCount] = await Promise.all([
+    prisma.deliverySlot.findMany({
+      where: whereClause,
+      take: limit,
+      skip: (page - 1) * limit,
+      orderBy: [{ date: "asc" }, { zoneCode: "asc" }, { startTime: "asc" }],
+    }),
+    prisma.deliverySlot.count({ where: whereClause }),
+  ]);
+
+  return {
+    data: slots,
+    currentPage: page,
+    totalPages: Math.ceil(totalCount / limit),
+    totalCount,
+  };
+}
+
+/**
+ * Update the capacity or availability of a slot
+ * @throws AppError if the new capacity is below the reserved deliveries
+ */
+export async function updateDeliverySlot(
+  slotId: bigint,
+  data: UpdateDeliverySlotDto["body"]
+): Promise<DeliverySlot> {
+  const slot = await prisma.deliverySlot.findUnique({ where: { slotId } });
+  if (!slot) {
+    throw new AppError("Delivery slot not found", httpStatus.NOT_FOUND);
+  }
+  if (data.capacity !== undefined && data.capacity < slot.reservedCount) {
+    throw new AppError(
+      `Capacity cannot be lower than the ${slot.reservedCount} reserved deliveries`,
+      httpStatus.BAD_REQUEST
+    );
+  }
+
+  return await prisma.deliverySlot.update({
+    where: { slotId },
+    data: { capacity: data.capacity, isActive: data.isActive },
+  });
+}
+
+/**
+ * Delete a slot without reservations
+ */
+export async function deleteDeliverySlot(slotId: bigint): Promise<void> {
+  const slot = await prisma.deliverySlot.findUnique({ where: { slotId } });
+  if (!slot) {
+    throw new AppError("Delivery slot not found", httpStatus.NOT_FOUND);
+  }
+  if (slot.reservedCount > 0) {
+    throw new AppError(
+      "Delivery slot has reservations, deactivate it instead",
+      httpStatus.BAD_REQUEST
+    );
+  }
+
+  await prisma.deliverySlot.delete({ where: { slotId } });
+}
@@ -0,0 +1,123 @@
+import { Request, Response } from "express";
+import * as deliveryZoneService from "@/modules/delivery_zones/delivery-zone.service";
+import {
+  CheckServiceabilityDto,
+  CreateDeliveryZoneDto,
+  GetDeliveryZoneDto,
+  UpdateDeliveryZoneDto,
+} from "@/modules/delivery_zones/delivery-zone.dto";
+import { IServiceabilityResult } from "@/modules/delivery_zones/delivery-zone.interface";
+import { DeliveryZone } from "@/generated/prisma/client";
+import httpStatus from "http-status";
+import sendResponse from "@/utils/sendResponse";
+import asyncHandler from "@/utils/asyncHandler";
+
+/**
+ * Create a delivery zone
+ */
+export const createDeliveryZone = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const zone = await deliveryZoneService.createDeliveryZone(
+      req.body as CreateDeliveryZoneDto["body"]
+    );
+
+    sendResponse<DeliveryZone>(res, {
+      success: true,
+      statusCode: httpStatus.CREATED,
+      message: "Delivery zone created successfully",
+      data: zone,
+    });
+  }
+);
+
+/**
+ * Get all delivery zones
+ */
+export const getDeliveryZones = asyncHandler(
+  async (_req: Request, res: Response): Promise<void> => {
+    const zones = await deliveryZoneService.getDeliveryZones();
+
+    sendResponse<DeliveryZone[]>(res, {
+      success: true,
+      statusCode: httpStatus.OK,
+      message: "Delivery zones retrieved successfully",
+      data: zones,
+    });
+  }
+);
+
+/**
+ * Check whether an address is served
+ */
+export const checkServiceability = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const query = req.query as unknown as CheckServiceabilityDto["query"];
+    const result = await deliveryZoneService.checkServiceability(query);
+
+    sendResponse<IServiceabilityResult>(res, {
+      success: true,
+      statusCode: httpStatus.OK,
+      message: result.isServiceable
+        ? "Delivery is available for this address"
+        : "Delivery is not available for this address",
+      data: result,
+    });
+  }
+);
+
+/**
+ * Get a delivery zone by ID
+ */
+export const getDeliveryZoneById = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const zoneId = req.params
+      .id as unknown as GetDeliveryZoneDto["params"]["id"];
+    const zone = await deliveryZoneService.getDeliveryZoneById(zoneId);
+
+    sendResponse<DeliveryZone>(res, {
+      success: true,
+      statusCode: httpStatus.OK,
+      message: "Delivery zone retrieved successfully",
+      data: zone,
+    });
+  }
+);
+
+/**
+ * Update a delivery zone
+ */
+export const updateDeliveryZone = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const zoneId = req.params
+      .id as unknown as UpdateDeliveryZoneDto["params"]["id"];
+    const zone = await deliveryZoneService.updateDeliveryZone(
+      zoneId,
+      req.body as UpdateDeliveryZoneDto["body"]
+    );
+
+    sendResponse<DeliveryZone>(res, {
+      success: true,
+      statusCode: httpStatus.OK,
+      message: "Delivery zone updated successfully",
+      data: zone,
+    });
+  }
+);
+
+/**
+ * Delete a delivery zone
+ */
+export const deleteDeliveryZone = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const zoneId = req.params
+      .id as unknown as GetDeliveryZoneDto["params"]["id"];
+    await deliveryZoneService.deleteDeliveryZone(zoneId);
+
+    sendResponse<null>(res, {
+      success: true,
+      statusCode: httpStatus.OK,
+      message: "Delivery zone deleted successfully",
+      data: null,
+    });
+  }
+);
@@ -0,0 +1,140 @@
+/**
+ * Data Transfer Objects (DTOs) for the DeliveryZone entity
+ * These schemas define the expected shape of data when managing delivery zones.
+ */
+import { z } from "zod";
+
+/**
+ * Returns a Zod schema for a positive integer ID, with the given field name used
+ * for error messages.
+ * @param fieldName The name of the field, used for error messages.
+ * @returns A Zod schema for a positive integer ID.
+ */
+const zBigIntId = (fieldName: string) =>
+  z
+    .union([z.string(), z.number()])
+    .refine((val) => val !== "", { message: `${fieldName} is required` })
+    .transform((val) => BigInt(val))
+    .refine((val) => val > 0n, {
+      message: `${fieldName} must be a positive integer`,
+    });
+
+const zAmount = (fieldName: string) =>
+  z
+    .union([z.string(), z.number()])
+    .refine((val) => val !== "" && !isNaN(Number(val)), {
+      message: `${fieldName} must be a valid number`,
+    })
+    .transform((val) => Number(val))
+    .refine((val) => val >= 0, {
+      message: `${fieldName} must be non-negative`,
+    });
+
+const zZoneIdParams = z.object({
+  id: zBigIntId("Delivery zone ID"),
+});
+
+const zZoneFields = {
+  code: z.string().trim().min(1, "Zone code is required").toUpperCase(),
+  name: z.string().trim().min(1, "Zone name is required"),
+  areas: z.array(z.string().trim().min(1)).default([]),
+  postcodes: z
+    .array(z.string().regex(/^\d{4}$/, "Postcode must be 4 digits"))
+    .default([]),
+  deliveryFee: zAmount("Delivery fee"),
+  freeDeliveryThreshold: zAmount("Free delivery threshold").nullable(),
+  cutoffTime: z
+    .string()
+    .regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Cutoff time must be in HH:mm format")
+    .nullable(),
+  minOrderAmount: zAmount("Minimum order amount").nullable(),
+  codMaxAmount: zAmount("COD maximum amount").nullable(),
+  codMinDeliveredOrders: z
+    .number()
+    .int()
+    .nonnegative("COD minimum delivered orders must be non-negative")
+    .nullable(),
+  isActive: z.boolean(),
+};
+
+/**
+ * Zod schema for creating a delivery zone.
+ * A zone must list at least one area or postcode to match addresses against.
+ */
+export const zCreateDeliveryZoneDto = {
+  body: z
+    .object({
+      ...zZoneFields,
+      freeDeliveryThreshold: zZoneFields.freeDeliveryThreshold.optional(),
+      cutoffTime: zZoneFields.cutoffTime.optional(),
+      minOrderAmount: zZoneFields.minOrderAmount.optional(),
+      codMaxAmount: zZoneFields.codMaxAmount.optional(),
+      codMinDeliveredOrders: zZoneFields.codMinDeliveredOrders.optional(),
+      isActive: zZoneFields.isActive.optional(),
+    })
+    .refine((data) => data.areas.length > 0 || data.postcodes.length > 0, {
+      message: "At least one area or postcode is required",
+      path: ["areas"],
+    }),
+};
+type CreateDeliveryZoneBodyDto = z.infer<typeof zCreateDeliveryZoneDto.body>;
+export type CreateDeliveryZoneDto = {
+  body: CreateDeliveryZoneBodyDto;
+};
+
+/**
+ * Zod schema for updating a delivery zone.
+ */
+export const zUpdateDeliveryZoneDto = {
+  params: zZoneIdParams,
+  body: z.object({
+    code: zZoneFields.code.optional(),
+    name: zZoneFields.name.optional(),
+    areas: z.array(z.string().trim().min(1)).optional(),
+    postcodes: z
+      .array(z.string().regex(/^\d{4}$/, "Postcode must be 4 digits"))
+      .optional(),
+    deliveryFee: zZoneFields.deliveryFee.optional(),
+    freeDeliveryThreshold: zZoneFields.freeDeliveryThreshold.optional(),
+    cutoffTime: zZoneFields.cutoffTime.optional(),
+    minOrderAmount: zZoneFields.minOrderAmount.optional(),
+    codMaxAmount: zZoneFields.codMaxAmount.optional(),
+    codMinDeliveredOrders: zZoneFields.codMinDeliveredOrders.optional(),
+    isActive: zZoneFields.isActive.optional(),
+  }),
+};
+type UpdateDeliveryZoneParamsDto = z.infer<
+  typeof zUpdateDeliveryZoneDto.params
+>;
+type UpdateDeliveryZoneBodyDto = z.infer<typeof zUpdateDeliveryZoneDto.body>;
+export type UpdateDeliveryZoneDto = {
+  params: UpdateDeliveryZoneParamsDto;
+  body: UpdateDeliveryZoneBodyDto;
+};
+
+/**
+ * Zod schema for getting or deleting a delivery zone.
+ */
+export const zGetDeliveryZoneDto = {
+  params: zZoneIdParams,
+};
+type GetDeliveryZoneParamsDto = z.infer<typeof zGetDeliveryZoneDto.params>;
+export type GetDeliveryZoneDto = {
+  params: GetDeliveryZoneParamsDto;
+};
+
+/**
+ * Zod schema for checking whether an address is served, and at which fee.
+ */
+export const zCheckServiceabilityDto = {
+  query: z.object({
+    address: z.string().trim().min(1, "Address is required"),
+    subtotal: zAmount("Subtotal").optional(),
+  }),
+};
+type CheckServiceabilityQueryDto = z.infer<
+  typeof zCheckServiceabilityDto.query
+>;
+export type CheckServiceabilityDto = {
+  query: CheckServiceabilityQueryDto;
+};
@@ -0,0 +1,9 @@
+import { DeliveryZone } from "@/generated/prisma/client";
+import { Decimal } from "@/generated/prisma/client/runtime/library";
+
+export interface IServiceabilityResult {
+  isServiceable: boolean;
+  zone: DeliveryZone | null;
+  // Fee for the given subtotal, or the zone's base fee without one
+  shippingFee: Decimal | null;
+}
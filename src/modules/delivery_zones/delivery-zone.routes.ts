@@ -0,0 +1,71 @@
+/**
+ * Routes for DeliveryZone entity operations.
+ * Defines API endpoints for serviceability checks and managing delivery zones.
+ */
+import { Router } from "express";
+import * as DeliveryZoneController from "@/modules/delivery_zones/delivery-zone.controller";
+import { authMiddleware, authorizeRoles } from "@/middlewares/auth";
+import { UserRole } from "@/generated/prisma/client";
+import validator from "@/middlewares/validator";
+import {
+  zCheckServiceabilityDto,
+  zCreateDeliveryZoneDto,
+  zGetDeliveryZoneDto,
+  zUpdateDeliveryZoneDto,
+} from "@/modules/delivery_zones/delivery-zone.dto";
+
+const router = Router();
+
+// Route to check whether an address is served and at which fee
+router.get(
+  "/check",
+  authMiddleware,
+  validator(zCheckServiceabilityDto),
+  DeliveryZoneController.checkServiceability
+);
+
+// Route to create a delivery zone
+router.post(
+  "/",
+  authMiddleware,
+  authorizeRoles(UserRole.ADMIN, UserRole.SUPER_ADMIN),
+  validator(zCreateDeliveryZoneDto),
+  DeliveryZoneController.createDeliveryZone
+);
+
+// Route to get all delivery zones
+router.get(
+  "/",
+  authMiddleware,
+  authorizeRoles(UserRole.ADMIN, UserRole.SUPER_ADMIN),
+  DeliveryZoneController.getDeliveryZones
+);
+
+// Route to get a delivery zone by ID
+router.get(
+  "/:id",
+  authMiddleware,
+  authorizeRoles(UserRole.ADMIN, UserRole.SUPER_ADMIN),
+  validator(zGetDeliveryZoneDto),
+  DeliveryZoneController.getDeliveryZoneById
+);
+
+// Route to update a delivery zone
+router.patch(
+  "/:id",
+  authMiddleware,
+  authorizeRoles(UserRole.ADMIN, UserRole.SUPER_ADMIN),
+  validator(zUpdateDeliveryZoneDto),
+  DeliveryZoneController.updateDeliveryZone
+);
+
+// Route to delete a delivery zone
+router.delete(
+  "/:id",
+  authMiddleware,
+  authorizeRoles(UserRole.ADMIN, UserRole.SUPER_ADMIN),
+  validator(zGetDeliveryZoneDto),
+  DeliveryZoneController.deleteDeliveryZone
+);
+
+export default router;
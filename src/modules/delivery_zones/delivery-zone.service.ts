@@ -0,0 +1,106 @@
+/**
+ * Service layer for DeliveryZone entity operations.
+ * Contains business logic and database interactions for delivery zones.
+ */
+import prisma from "@/prisma-client/prismaClient";
+import { DeliveryZone } from "@/generated/prisma/client";
+import { Decimal } from "@/generated/prisma/client/runtime/library";
+import { AppError } from "@/utils/appError";
+import httpStatus from "http-status";
+import {
+  CheckServiceabilityDto,
+  CreateDeliveryZoneDto,
+  UpdateDeliveryZoneDto,
+} from "@/modules/delivery_zones/delivery-zone.dto";
+import { IServiceabilityResult } from "@/modules/delivery_zones/delivery-zone.interface";
+import { calculateShippingFee, findZoneForAddress } from "@/utils/deliveryZone";
+
+/**
+ * Create a delivery zone
+ */
+export async function createDeliveryZone(
+  data: CreateDeliveryZoneDto["body"]
+): Promise<DeliveryZone> {
+  return await prisma.deliveryZone.create({ data });
+}
+
+/**
+ * Get all delivery zones
+ */
+export async function getDeliveryZones(): Promise<DeliveryZone[]> {
+  return await prisma.deliveryZone.findMany({ orderBy: { code: "asc" } });
+}
+
+/**
+ * Get a delivery zone by ID
+ */
+export async function getDeliveryZoneById(
+  zoneId: bigint
+): Promise<DeliveryZone> {
+  const zone = await prisma.deliveryZone.findUnique({ where: { zoneId } });
+  if (!zone) {
+    throw new AppError("Delivery zone not found", httpStatus.NOT_FOUND);
+  }
+  return zone;
+}
+
+/**
+ * Update a delivery zone. Renaming the code carries its slots along.
+ */
+export async function updateDeliveryZone(
+  zoneId: bigint,
+  data: UpdateDeliveryZoneDto["body"]
+): Promise<DeliveryZone> {
+  const zone = await getDeliveryZoneById(zoneId);
+  const areas = data.areas ?? zone.areas;
+  const postcodes = data.postcodes ?? zone.postcodes;
+  if (areas.length === 0 && postcodes.length === 0) {
+    throw new AppError(
+      "At least one area or postcode is required",
+      httpStatus.BAD_REQUEST
+    );
+  }
+
+  return await prisma.deliveryZone.update({ where: { zoneId }, data });
+}
+
+/**
+ * Delete a delivery zone that was never used
+ * @throws AppError if the zone has slots or orders; deactivate it instead
+ */
+export async function deleteDeliveryZone(zoneId: bigint): Promise<void> {
+  await getDeliveryZoneById(zoneId);
+  const [slotCount, orderCount] = await Promise.all([
+    prisma.deliverySlot.count({ where: { zone: { zoneId } } }),
+    prisma.order.count({ where: { deliveryZoneId: zoneId } }),
+  ]);
+  if (slotCount > 0 || orderCount > 0) {
+    throw new AppError(
+      "Delivery zone is in use, deactivate it instead",
+      httpStatus.BAD_REQUEST
+    );
+  }
+
+  await prisma.deliveryZone.delete({ where: { zoneId } });
+}
+
+/**
+ * Check whether we deliver to an address, and the fee for a subtotal
+ */
+export async function checkServiceability(
+  query: CheckServiceabilityDto["query"]
+): Promise<IServiceabilityResult> {
+  const zone = await findZoneForAddress(query.address);
+  if (!zone) {
+    return { isServiceable: false, zone: null, shippingFee: null };
+  }
+
+  return {
+    isServiceable: true,
+    zone,
+    shippingFee:
+      query.subtotal !== undefined
+        ? calculateShippingFee(zone, new Decimal(query.subtotal))
+        : zone.deliveryFee,
+  };
+}
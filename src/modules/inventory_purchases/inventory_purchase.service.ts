@@ -6,15 +6,42 @@
  */
 
 import prisma from "@/prisma-client/prismaClient";
-import { InventoryPurchase } from "@/generated/prisma/client";
+import { InventoryPurchase, Prisma } from "@/generated/prisma/client";
 import {
   CreateInventoryPurchaseDto,
   UpdateInventoryPurchaseDto,
 } from "@/modules/inventory_purchases/inventory-purchase.dto";
 import { getErrorMessage } from "@/utils/errorHandler";
+import { allocatePreorders } from "@/utils/preorder";
+
+/**
+ * Add a completed purchase to the product's stock and allocate the stock to
+ * waiting preorders
+ */
+async function receiveInventoryPurchase(
+  purchase: InventoryPurchase,
+  tx: Prisma.TransactionClient
+): Promise<void> {
+  const quantity = purchase.quantity * purchase.packageSize;
+  await tx.product.update({
+    where: { productId: purchase.productId },
+    data: { stockQuantity: { increment: quantity } },
+  });
+  await tx.stockTransaction.create({
+    data: {
+      quantity,
+      transactionType: "IN",
+      productId: purchase.productId,
+      purchaseId: purchase.purchaseId,
+      description: `Stock received from inventory purchase #${purchase.purchaseId}`,
+    },
+  });
+  await allocatePreorders(purchase.productId, tx);
+}
 
 /**
  * Create a new inventory purchase
+ * - A purchase created as COMPLETED is added to stock right away
  * @param data - Data required to create an inventory purchase
  * @returns The created inventory purchase
  * @throws Error if the inventory purchase cannot be created (e.g., invalid foreign keys)
@@ -23,19 +50,24 @@ export async function createInventoryPurchase(
   data: CreateInventoryPurchaseDto
 ): Promise<InventoryPurchase> {
   try {
-    const inventoryPurchase = await prisma.inventoryPurchase.create({
-      data: {
-        quantity: data.quantity,
-        unitCost: data.unitCost,
-        totalCost: data.totalCost,
-        purchaseDate: data.purchaseDate ?? new Date(),
-        status: data.status ?? "PENDING",
-        notes: data.notes,
-        farmerId: data.farmerId,
-        productId: data.productId,
-      },
+    return await prisma.$transaction(async (tx) => {
+      const inventoryPurchase = await tx.inventoryPurchase.create({
+        data: {
+          quantity: data.quantity,
+          unitCost: data.unitCost,
+          totalCost: data.totalCost,
+          purchaseDate: data.purchaseDate ?? new Date(),
+          status: data.status ?? "PENDING",
+          notes: data.notes,
+          farmerId: data.farmerId,
+          productId: data.productId,
+        },
+      });
+      if (inventoryPurchase.status === "COMPLETED") {
+        await receiveInventoryPurchase(inventoryPurchase, tx);
+      }
+      return inventoryPurchase;
     });
-    return inventoryPurchase;
   } catch (error) {
     throw new Error(
       `Failed to create inventory purchase: ${getErrorMessage(error)}`
@@ -82,6 +114,7 @@ export async function getInventoryPurchaseById(
 
 /**
  * Update an inventory purchase by its ID
+ * - A purchase moving to COMPLETED is added to stock
  * @param purchaseId - The ID of the inventory purchase to update
  * @param data - Data to update the inventory purchase
  * @returns The updated inventory purchase
@@ -92,20 +125,35 @@ export async function updateInventoryPurchase(
   data: UpdateInventoryPurchaseDto
 ): Promise<InventoryPurchase> {
   try {
-    const inventoryPurchase = await prisma.inventoryPurchase.update({
-      where: { purchaseId: Number(purchaseId) },
-      data: {
-        quantity: data.quantity,
-        unitCost: data.unitCost,
-        totalCost: data.totalCost,
-        purchaseDate: data.purchaseDate,
-        status: data.status,
-        notes: data.notes,
-        farmerId: data.farmerId,
-        productId: data.productId,
-      },
+    return await prisma.$transaction(async (tx) => {
+      const currentPurchase = await tx.inventoryPurchase.findUnique({
+        where: { purchaseId: Number(purchaseId) },
+      });
+      if (!currentPurchase) {
+        throw new Error("Inventory purchase not found");
+      }
+
+      const inventoryPurchase = await tx.inventoryPurchase.update({
+        where: { purchaseId: Number(purchaseId) },
+        data: {
+          quantity: data.quantity,
+          unitCost: data.unitCost,
+          totalCost: data.totalCost,
+          purchaseDate: data.purchaseDate,
+          status: data.status,
+          notes: data.notes,
+          farmerId: data.farmerId,
+          productId: data.productId,
+        },
+      });
+      if (
+        currentPurchase.status !== "COMPLETED" &&
+        inventoryPurchase.status === "COMPLETED"
+      ) {
+        await receiveInventoryPurchase(inventoryPurchase, tx);
+      }
+      return inventoryPurchase;
     });
-    return inventoryPurchase;
   } catch (error) {
     throw new Error(
       `Failed to update inventory purchase: ${getErrorMessage(error)}`
@@ -4,16 +4,186 @@
  */
 
 import prisma from "@/prisma-client/prismaClient";
-import { OrderItem } from "@/generated/prisma/client";
+import { OrderItem, Prisma } from "@/generated/prisma/client";
 import {
   CreateOrderItemDto,
   CreateOrderItemsDto,
   UpdateOrderItemDto,
 } from "@/modules/order_items/order-item.dto";
 import { getErrorMessage } from "@/utils/errorHandler";
+import {
+  assertAmountMatches,
+  assertLinesAvailable,
+  calculateOrderPricing,
+  PricedOrderLine,
+  priceOrderLine,
+  toOrderItemData,
+} from "@/utils/calculateOrderPricing";
+import { AppError } from "@/utils/appError";
+import httpStatus from "http-status";
+import { calculateShippingFee } from "@/utils/deliveryZone";
+import { assertOrderRules } from "@/utils/orderRules";
+import { lockProducts } from "@/utils/preorder";
+
+interface ClientLinePrices {
+  productId: bigint;
+  unitPrice: number;
+  packageSize: number;
+  subtotal: number;
+}
+
+/**
+ * Rejects client supplied line prices which differ from the pricing engine.
+ * The client's unitPrice is the price actually charged (deal price when a deal is active).
+ */
+function assertClientLinePrices(
+  line: PricedOrderLine,
+  item: ClientLinePrices
+): void {
+  const label = `Product ${item.productId.toString()}`;
+  if (line.packageSize !== item.packageSize) {
+    throw new AppError(
+      `${label} package size mismatch: expected ${line.packageSize}, received ${item.packageSize}`,
+      httpStatus.BAD_REQUEST
+    );
+  }
+  assertAmountMatches(
+    `${label} unit price`,
+    item.unitPrice,
+    line.discountUnitPrice ?? line.unitPrice
+  );
+  assertAmountMatches(`${label} subtotal`, item.subtotal, line.subtotal);
+}
+
+/**
+ * Lock an order whose items are about to change
+ * - A pending gateway attempt or a held wallet share was started for the
+ *   old total, so the order cannot be repriced under it
+ * @throws Error if the order does not exist
+ * @throws AppError unless the order is PENDING with no pending, held or
+ *   completed payment, and no stock allocated to it as a preorder
+ */
+async function lockEditableOrder(
+  orderId: bigint,
+  tx: Prisma.TransactionClient
+) {
+  await tx.$queryRaw`SELECT 1 FROM "Order" WHERE "orderId" = ${orderId} FOR UPDATE`;
+  const order = await tx.order.findUnique({
+    where: { orderId },
+    include: {
+      deliveryZone: true,
+      payments: {
+        where: { paymentStatus: { in: ["PENDING", "LOCKED", "COMPLETED"] } },
+      },
+    },
+  });
+  if (!order) throw new Error(`Order not found: ${orderId.toString()}`);
+  if (order.status !== "PENDING") {
+    throw new AppError(
+      "Items can only be changed on pending orders",
+      httpStatus.CONFLICT
+    );
+  }
+  if (order.payments.length > 0) {
+    throw new AppError(
+      "Items cannot be changed once a payment for the order was started",
+      httpStatus.CONFLICT
+    );
+  }
+  if (order.preorderStatus && order.preorderStatus !== "AWAITING_STOCK") {
+    throw new AppError(
+      "Items cannot be changed once stock was allocated to the preorder",
+      httpStatus.CONFLICT
+    );
+  }
+  return order;
+}
+
+/**
+ * Refuse to take the last item out of an order, which would leave an
+ * order for the shipping fee alone
+ * @throws AppError if the order has no other item
+ */
+async function assertKeepsAnItem(
+  orderId: bigint,
+  tx: Prisma.TransactionClient
+): Promise<void> {
+  const itemCount = await tx.orderItem.count({ where: { orderId } });
+  if (itemCount <= 1) {
+    throw new AppError(
+      "An order needs at least one item; cancel the order instead",
+      httpStatus.BAD_REQUEST
+    );
+  }
+}
+
+/**
+ * Re-price every item of an order the way checkout does, with the
+ * shipping fee and checkout rules, and store the new order total
+ * - The order is a preorder again exactly when one of its products is
+ */
+async function repriceOrder(
+  order: Awaited<ReturnType<typeof lockEditableOrder>>,
+  tx: Prisma.TransactionClient
+): Promise<void> {
+  const items = await tx.orderItem.findMany({
+    where: { orderId: order.orderId },
+    orderBy: { orderItemId: "asc" },
+  });
+  await lockProducts(
+    items.map((item) => item.productId),
+    tx
+  );
+  const pricing = await calculateOrderPricing(items, tx);
+  assertLinesAvailable(pricing.lines);
+  const isPreorder = pricing.lines.some((line) => line.product.isPreorder);
+
+  // Orders placed before delivery zones keep their shipping fee
+  const zone = order.deliveryZone;
+  const shippingFee = zone
+    ? calculateShippingFee(zone, pricing.totalAmount)
+    : order.shippingFee;
+  const totalAmount = pricing.totalAmount.add(shippingFee);
+  if (zone) {
+    await assertOrderRules(
+      {
+        customerId: order.customerId,
+        orderId: order.orderId,
+        zone,
+        lines: pricing.lines,
+        subtotal: pricing.totalAmount,
+        totalAmount,
+        paymentMethod: order.paymentMethod,
+      },
+      tx
+    );
+  }
+
+  const itemData = toOrderItemData(order.orderId, pricing.lines);
+  await Promise.all(
+    items.map((item, index) =>
+      tx.orderItem.update({
+        where: { orderItemId: item.orderItemId },
+        data: itemData[index],
+      })
+    )
+  );
+  await tx.order.update({
+    where: { orderId: order.orderId },
+    data: {
+      totalAmount,
+      shippingFee,
+      isPreorder,
+      preorderStatus: isPreorder ? "AWAITING_STOCK" : null,
+    },
+  });
+}
 
 /**
  * Create a new order item
+ * - Only pending, unpaid orders can be changed
+ * - Prices the item on the server and rejects mismatched client prices
+ * - Re-prices the order, including shipping and the checkout rules
  * @param data - Data required to create an order item
  * @returns The created order item
  * @throws Error if the order item cannot be created (e.g., invalid orderId or productId)
@@ -21,46 +191,18 @@ import { getErrorMessage } from "@/utils/errorHandler";
 export async function createOrderItem(
   data: CreateOrderItemDto
 ): Promise<OrderItem> {
-  try {
-    // Validate orderId existence
-    const order = await prisma.order.findUnique({
-      where: { orderId: Number(data.orderId) },
-    });
-    if (!order) {
-      throw new Error("Order not found");
-    }
-
-    // Validate productId existence
-    const product = await prisma.product.findUnique({
-      where: { productId: data.productId },
-    });
-    if (!product) {
-      throw new Error("Product not found");
-    }
-
-    if (product.stockQuantity < data.quantity * data.packageSize) {
-      throw new Error("Insufficient stock quantity");
-    }
-
-    const orderItem = await prisma.orderItem.create({
-      data: {
-        quantity: data.quantity,
-        unitPrice: data.unitPrice,
-        unitType: data.unitType,
-        packageSize: data.packageSize,
-        subtotal: data.subtotal,
-        orderId: Number(data.orderId),
-        productId: Number(data.productId),
-      },
-    });
-    return orderItem;
-  } catch (error) {
-    throw new Error(`Failed to create order item: ${getErrorMessage(error)}`);
-  }
+  const [orderItem] = await createOrderItems({
+    orderId: data.orderId,
+    items: [data],
+  });
+  return orderItem;
 }
 
 /**
  * Creates multiple order items with validation.
+ * - Only pending, unpaid orders can be changed
+ * - Prices the items on the server and rejects mismatched client prices
+ * - Re-prices the order, including shipping and the checkout rules
  * @param {CreateOrderItemsDto} data - Order ID and items to create
  * @returns {Promise<Prisma.OrderItem[]>} Created order items
  * @throws {Error} If order or products don't exist
@@ -69,66 +211,31 @@ export async function createOrderItems(
   data: CreateOrderItemsDto
 ): Promise<OrderItem[]> {
   try {
-    // Convert all IDs to BigInt for consistent comparison
-    const orderId = data.orderId;
-    const productIds = data.items.map((item) => item.productId);
+    return await prisma.$transaction(async (tx) => {
+      const orderId = data.orderId;
 
-    // Validate order exists (convert to number for Prisma query)
-    const order = await prisma.order.findUnique({
-      where: { orderId: Number(orderId) },
-    });
-    if (!order) throw new Error(`Order not found: ${orderId.toString()}`);
-
-    // Validate products exist
-    const products = await prisma.product.findMany({
-      where: {
-        productId: {
-          in: productIds.map((id) => Number(id)), // Convert to number for query
-        },
-      },
-    });
+      const order = await lockEditableOrder(orderId, tx);
 
-    // Compare using BigInt for type safety
-    const missingProducts = productIds.filter(
-      (id) => !products.some((p) => BigInt(p.productId) === id)
-    );
-
-    if (missingProducts.length > 0) {
-      throw new Error(`Products not found: ${missingProducts.join(", ")}`);
-    }
+      // Price items and compare with client prices
+      const pricing = await calculateOrderPricing(data.items, tx);
+      pricing.lines.forEach((line, index) =>
+        assertClientLinePrices(line, data.items[index])
+      );
 
-    // Validate stock quantity
-    for (const item of data.items) {
-      const product = products.find(
-        (p) => BigInt(p.productId) === item.productId
+      const orderItems = await Promise.all(
+        toOrderItemData(orderId, pricing.lines).map((item) =>
+          tx.orderItem.create({ data: item })
+        )
       );
-      if (!product) {
-        throw new Error(`Product not found: ${item.productId.toString()}`);
-      }
 
-      if (product.stockQuantity < item.quantity * item.packageSize) {
-        throw new Error(
-          `Insufficient stock quantity for product ${item.productId.toString()}`
-        );
-      }
-    }
-    // Create items in transaction (convert to number for Prisma)
-    return prisma.$transaction(
-      data.items.map((item) =>
-        prisma.orderItem.create({
-          data: {
-            orderId: Number(orderId),
-            productId: Number(item.productId),
-            unitType: item.unitType,
-            packageSize: item.packageSize,
-            quantity: item.quantity,
-            unitPrice: item.unitPrice,
-            subtotal: item.subtotal,
-          },
-        })
-      )
-    );
+      await repriceOrder(order, tx);
+
+      return orderItems;
+    });
   } catch (error) {
+    if (error instanceof AppError) {
+      throw error;
+    }
     throw new Error(`Failed to create order item: ${getErrorMessage(error)}`);
   }
 }
@@ -168,6 +275,10 @@ export async function getOrderItemById(
 
 /**
  * Update an order item by its ID
+ * - Only items of pending, unpaid orders can be changed
+ * - An item cannot be moved out of an order it is the last item of
+ * - Re-prices the item on the server and rejects mismatched client prices
+ * - Re-prices the affected orders, including shipping and the checkout rules
  * @param orderItemId - The ID of the order item to update
  * @param data - Data to update the order item
  * @returns The updated order item
@@ -178,55 +289,95 @@ export async function updateOrderItem(
   data: UpdateOrderItemDto
 ): Promise<OrderItem> {
   try {
-    // Validate orderId existence if provided
-    if (data.orderId) {
-      const order = await prisma.order.findUnique({
-        where: { orderId: Number(data.orderId) },
+    return await prisma.$transaction(async (tx) => {
+      const existingItem = await tx.orderItem.findUnique({
+        where: { orderItemId: Number(orderItemId) },
       });
-      if (!order) {
-        throw new Error("Order not found");
+      if (!existingItem) {
+        throw new Error("Order item not found");
+      }
+
+      const existingOrder = await lockEditableOrder(existingItem.orderId, tx);
+      const order =
+        data.orderId && data.orderId !== existingItem.orderId
+          ? await lockEditableOrder(data.orderId, tx)
+          : existingOrder;
+      if (order !== existingOrder) {
+        await assertKeepsAnItem(existingOrder.orderId, tx);
       }
-    }
 
-    // Validate productId existence if provided
-    if (data.productId) {
-      const product = await prisma.product.findUnique({
-        where: { productId: data.productId },
+      // Validate productId existence if provided
+      const productId = data.productId ?? existingItem.productId;
+      const product = await tx.product.findUnique({
+        where: { productId },
+        include: { deal: true },
       });
       if (!product) {
         throw new Error("Product not found");
       }
-    }
 
-    const orderItem = await prisma.orderItem.update({
-      where: { orderItemId: Number(orderItemId) },
-      data: {
-        quantity: data.quantity,
-        unitPrice: data.unitPrice,
-        unitType: data.unitType,
-        packageSize: data.packageSize,
-        subtotal: data.subtotal,
-        orderId: data.orderId,
-        productId: data.productId,
-      },
+      // Price item and compare with client prices
+      const line = await priceOrderLine(
+        product,
+        data.quantity ?? existingItem.quantity
+      );
+      assertClientLinePrices(line, {
+        productId,
+        unitPrice:
+          data.unitPrice ?? Number(line.discountUnitPrice ?? line.unitPrice),
+        packageSize: data.packageSize ?? line.packageSize,
+        subtotal: data.subtotal ?? Number(line.subtotal),
+      });
+
+      const [itemData] = toOrderItemData(order.orderId, [line]);
+      const orderItem = await tx.orderItem.update({
+        where: { orderItemId: Number(orderItemId) },
+        data: itemData,
+      });
+
+      await repriceOrder(existingOrder, tx);
+      if (order !== existingOrder) {
+        await repriceOrder(order, tx);
+      }
+
+      return orderItem;
     });
-    return orderItem;
   } catch (error) {
+    if (error instanceof AppError) {
+      throw error;
+    }
     throw new Error(`Failed to update order item: ${getErrorMessage(error)}`);
   }
 }
 
 /**
  * Delete an order item by its ID
+ * - Only items of pending, unpaid orders can be deleted
+ * - The last item of an order cannot be deleted
+ * - Re-prices the order, including shipping and the checkout rules
  * @param orderItemId - The ID of the order item to delete
  * @throws Error if the order item is not found or deletion fails
  */
 export async function deleteOrderItem(orderItemId: BigInt): Promise<void> {
   try {
-    await prisma.orderItem.delete({
-      where: { orderItemId: Number(orderItemId) },
+    await prisma.$transaction(async (tx) => {
+      const orderItem = await tx.orderItem.findUnique({
+        where: { orderItemId: Number(orderItemId) },
+      });
+      if (!orderItem) {
+        throw new Error("Order item not found");
+      }
+      const order = await lockEditableOrder(orderItem.orderId, tx);
+      await assertKeepsAnItem(order.orderId, tx);
+      await tx.orderItem.delete({
+        where: { orderItemId: orderItem.orderItemId },
+      });
+      await repriceOrder(order, tx);
     });
   } catch (error) {
+    if (error instanceof AppError) {
+      throw error;
+    }
     throw new Error(`Failed to delete order item: ${getErrorMessage(error)}`);
   }
 }
@@ -5,10 +5,23 @@
 
 import { NextFunction, Request, Response } from "express";
 import * as orderService from "@/modules/orders/orders.service";
-import { zCreateOrderDto, zUpdateOrderDto } from "@/modules/orders/orders.dto";
+import {
+  zBulkUpdateOrderStatusDto,
+  zCancelOrderDto,
+  zCreateOrderDto,
+  zExportInvoicesDto,
+  zExportOrdersDto,
+  zUpdateOrderDto,
+} from "@/modules/orders/orders.dto";
+import { IBulkOrderStatusResult } from "@/modules/orders/orders.interface";
 import { handleErrorResponse } from "@/utils/errorResponseHandler";
 import { z } from "zod";
-import { Order, OrderStatus } from "@/generated/prisma/client";
+import {
+  Order,
+  OrderEvent,
+  OrderStatus,
+  UserRole,
+} from "@/generated/prisma/client";
 import httpStatus from "http-status";
 import sendResponse from "@/utils/sendResponse";
 
@@ -24,8 +37,10 @@ export const createOrder = async (
   res: Response
 ): Promise<void> => {
   try {
+    if (!req.user?.userId) throw new Error("Please login to continue");
+
     const data = zCreateOrderDto.parse(req.body);
-    const order = await orderService.createOrder(data);
+    const order = await orderService.createOrder(BigInt(req.user.userId), data);
 
     sendResponse<Order>(res, {
       success: true,
@@ -134,7 +149,11 @@ export const updateOrder = async (
   try {
     const orderId = orderIdSchema.parse(req.params.id);
     const data = zUpdateOrderDto.parse(req.body);
-    const updated = await orderService.updateOrder(orderId, data);
+    const updated = await orderService.updateOrder(
+      orderId,
+      data,
+      req.user?.userId ? BigInt(req.user.userId) : undefined
+    );
 
     sendResponse<Order>(res, {
       success: true,
@@ -147,6 +166,219 @@ export const updateOrder = async (
   }
 };
 
+/**
+ * Cancel an order of the logged in customer
+ */
+export const cancelCustomerOrder = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    if (!req.user?.userId) throw new Error("Please login to continue");
+
+    const orderId = orderIdSchema.parse(req.params.id);
+    const data = zCancelOrderDto.parse(req.body ?? {});
+    const cancelled = await orderService.cancelCustomerOrder(
+      BigInt(req.user.userId),
+      orderId,
+      data
+    );
+
+    sendResponse<Order>(res, {
+      success: true,
+      statusCode: httpStatus.OK,
+      message: "Order cancelled successfully",
+      data: cancelled,
+    });
+  } catch (error) {
+    handleErrorResponse(error, res, "cancel order");
+  }
+};
+
+/**
+ * Cancel an order as an admin
+ */
+export const cancelOrderByAdmin = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const orderId = orderIdSchema.parse(req.params.id);
+    const data = zCancelOrderDto.parse(req.body ?? {});
+    const cancelled = await orderService.cancelOrderByAdmin(
+      orderId,
+      data,
+      req.user?.userId ? BigInt(req.user.userId) : undefined
+    );
+
+    sendResponse<Order>(res, {
+      success: true,
+      statusCode: httpStatus.OK,
+      message: "Order cancelled successfully",
+      data: cancelled,
+    });
+  } catch (error) {
+    handleErrorResponse(error, res, "cancel order");
+  }
+};
+
+/**
+ * Pay the deposit of a preorder from the customer's wallet
+ */
+export const payPreorderDeposit = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    if (!req.user?.userId) throw new Error("Please login to continue");
+
+    const orderId = orderIdSchema.parse(req.params.id);
+    const order = await orderService.payPreorderDeposit(
+      BigInt(req.user.userId),
+      orderId
+    );
+
+    sendResponse<Order>(res, {
+      success: true,
+      statusCode: httpStatus.OK,
+      message: "Preorder deposit paid successfully",
+      data: order,
+    });
+  } catch (error) {
+    handleErrorResponse(error, res, "pay preorder deposit");
+  }
+};
+
+/**
+ * Get the event log of an order
+ */
+export const getOrderEvents = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const orderId = orderIdSchema.parse(req.params.id);
+    const events = await orderService.getOrderEvents(orderId);
+
+    sendResponse<OrderEvent[]>(res, {
+      success: true,
+      statusCode: httpStatus.OK,
+      message: "Order events retrieved successfully",
+      data: events,
+    });
+  } catch (error) {
+    handleErrorResponse(error, res, "fetch order events");
+  }
+};
+
+/**
+ * Send a generated PDF as a download
+ */
+const sendPdf = (res: Response, fileName: string, pdf: Buffer): void => {
+  res
+    .status(httpStatus.OK)
+    .set({
+      "Content-Type": "application/pdf",
+      "Content-Disposition": `attachment; filename="${fileName}"`,
+      "Content-Length": String(pdf.length),
+    })
+    .send(pdf);
+};
+
+/**
+ * Download the invoice of an order
+ * - Customers can only download invoices of their own orders
+ */
+export const getOrderInvoice = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    if (!req.user?.userId) throw new Error("Please login to continue");
+
+    const orderId = orderIdSchema.parse(req.params.id);
+    const isCustomer = req.user.role === UserRole.CUSTOMER;
+    const { fileName, pdf } = await orderService.getOrderInvoice(
+      orderId,
+      isCustomer ? BigInt(req.user.userId) : undefined
+    );
+
+    sendPdf(res, fileName, pdf);
+  } catch (error) {
+    handleErrorResponse(error, res, "generate invoice");
+  }
+};
+
+/**
+ * Download the invoices of all orders in a date range as one PDF
+ */
+export const exportInvoices = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const data = zExportInvoicesDto.parse(req.query);
+    const { fileName, pdf } = await orderService.exportInvoices(data);
+
+    sendPdf(res, fileName, pdf);
+  } catch (error) {
+    handleErrorResponse(error, res, "export invoices");
+  }
+};
+
+/**
+ * Change the status of many orders from a list of IDs or a CSV upload
+ */
+export const bulkUpdateOrderStatus = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const data = zBulkUpdateOrderStatusDto.parse(req.body ?? {});
+    const results = await orderService.bulkUpdateOrderStatus(
+      data,
+      req.file?.buffer.toString("utf8"),
+      req.user?.userId ? BigInt(req.user.userId) : undefined
+    );
+    const failed = results.filter((result) => !result.success).length;
+
+    sendResponse<IBulkOrderStatusResult[]>(res, {
+      success: true,
+      statusCode: httpStatus.OK,
+      message: `${results.length - failed} orders updated, ${failed} failed`,
+      data: results,
+    });
+  } catch (error) {
+    handleErrorResponse(error, res, "bulk update orders");
+  }
+};
+
+/**
+ * Download the order list with its filters as a CSV or XLSX file
+ */
+export const exportOrders = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const data = zExportOrdersDto.parse(req.query);
+    const { fileName, contentType, file } = await orderService.exportOrders(
+      data
+    );
+
+    res
+      .status(httpStatus.OK)
+      .set({
+        "Content-Type": contentType,
+        "Content-Disposition": `attachment; filename="${fileName}"`,
+        "Content-Length": String(file.length),
+      })
+      .send(file);
+  } catch (error) {
+    handleErrorResponse(error, res, "export orders");
+  }
+};
+
 /**
  * Delete an order by ID
  */
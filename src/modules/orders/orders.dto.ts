@@ -5,6 +5,7 @@
  */
 
 import { z } from "zod";
+import { zPaymentMethod } from "@/utils/paymentProviders";
 
 // Enum-like validation for OrderStatus
 const orderStatusEnum = z.enum([
@@ -24,24 +25,46 @@ const paymentStatusEnum = z.enum([
   "REFUNDED",
 ]);
 
+/**
+ * Zod schema for a line of a new order.
+ * Prices are computed on the server from the product's current price and deals.
+ */
+const zOrderLineDto = z.object({
+  productId: z
+    .union([z.string(), z.number()])
+    .transform(BigInt)
+    .refine((val) => val > 0n, {
+      message: "Product ID must be a positive integer",
+    }),
+  quantity: z.number().int().positive("Quantity must be a positive integer"),
+});
+
 /**
  * Zod schema for creating a new order.
- * Validates all required fields necessary for creation.
+ * Status, payment status and totals are set by the server; a client supplied
+ * totalAmount is only checked against the computed total.
  */
 export const zCreateOrderDto = z.object({
-  status: orderStatusEnum,
-  totalAmount: z.number().nonnegative("Total amount must be non-negative"),
-  paymentMethod: z.string().min(1, "Payment method must not be empty"),
-  paymentStatus: paymentStatusEnum,
-  shippingAddress: z.string().min(1, "Shipping address must not be empty"),
-  customerId: z
+  items: z.array(zOrderLineDto).min(1, "At least one order item is required"),
+  totalAmount: z
+    .number()
+    .nonnegative("Total amount must be non-negative")
+    .optional(),
+  paymentMethod: zPaymentMethod,
+  // Address book entry; free text is kept for older clients. With neither,
+  // the customer's default address is used.
+  addressId: z
     .union([z.string(), z.number()])
     .transform(BigInt)
     .refine((val) => val > 0n, {
-      message: "Customer ID must be a positive integer",
-    }),
+      message: "Address ID must be a positive integer",
+    })
+    .optional(),
+  shippingAddress: z
+    .string()
+    .min(1, "Shipping address must not be empty")
+    .optional(),
   isSubscription: z.boolean().optional(),
-  isPreorder: z.boolean().optional(),
   preorderDeliveryDate: z
     .string()
     .datetime()
@@ -49,6 +72,13 @@ export const zCreateOrderDto = z.object({
       message: "Preorder delivery date must be in the future",
     })
     .optional(),
+  deliverySlotId: z
+    .union([z.string(), z.number()])
+    .transform(BigInt)
+    .refine((val) => val > 0n, {
+      message: "Delivery slot ID must be a positive integer",
+    })
+    .optional(),
 });
 
 /**
@@ -64,10 +94,7 @@ export type CreateOrderDto = z.infer<typeof zCreateOrderDto>;
 export const zUpdateOrderDto = z.object({
   status: orderStatusEnum.optional(),
 
-  paymentMethod: z
-    .string()
-    .min(1, "Payment method must not be empty")
-    .optional(),
+  paymentMethod: zPaymentMethod.optional(),
   paymentStatus: paymentStatusEnum.optional(),
   shippingAddress: z
     .string()
@@ -80,6 +107,11 @@ export const zUpdateOrderDto = z.object({
       message: "Preorder delivery date must be in the future",
     })
     .optional(),
+  // Required when moving an order back to an earlier status
+  reason: z
+    .string()
+    .max(500, "Reason must be at most 500 characters")
+    .optional(),
   // totalAmount: z
   //   .number()
   //   .nonnegative("Total amount must be non-negative")
@@ -99,3 +131,109 @@ export const zUpdateOrderDto = z.object({
  * TypeScript type inferred from update schema.
  */
 export type UpdateOrderDto = z.infer<typeof zUpdateOrderDto>;
+
+/**
+ * Zod schema for cancelling an order.
+ */
+export const zCancelOrderDto = z.object({
+  reason: z
+    .string()
+    .max(500, "Reason must be at most 500 characters")
+    .optional(),
+});
+
+/**
+ * TypeScript type inferred from cancel schema.
+ */
+export type CancelOrderDto = z.infer<typeof zCancelOrderDto>;
+
+/**
+ * Zod schema for exporting the invoices of orders placed in a date range.
+ */
+export const zExportInvoicesDto = z
+  .object({
+    from: z.coerce.date({ message: "From must be a valid date" }),
+    to: z.coerce.date({ message: "To must be a valid date" }),
+  })
+  .refine((data) => data.to >= data.from, {
+    message: "To must not be before from",
+    path: ["to"],
+  })
+  .refine(
+    (data) => data.to.getTime() - data.from.getTime() <= 31 * 86_400_000,
+    { message: "Date range must be at most 31 days", path: ["to"] }
+  );
+
+/**
+ * TypeScript type inferred from invoice export schema.
+ */
+export type ExportInvoicesDto = z.infer<typeof zExportInvoicesDto>;
+
+// Upper bound of orders changed in one bulk update
+export const MAX_BULK_ORDERS = 500;
+
+const zId = (label: string) =>
+  z
+    .union([z.string(), z.number()])
+    .transform(BigInt)
+    .refine((val) => val > 0n, {
+      message: `${label} must be a positive integer`,
+    });
+
+/**
+ * Zod schema for changing the status of many orders at once.
+ * Order IDs come from the body or from an uploaded CSV, where a row may set
+ * its own status and reason. Multipart forms send the IDs comma separated.
+ */
+export const zBulkUpdateOrderStatusDto = z.object({
+  orderIds: z
+    .preprocess(
+      (val) => (typeof val === "string" ? val.split(",") : val),
+      z
+        .array(zId("Order ID"))
+        .max(MAX_BULK_ORDERS, `At most ${MAX_BULK_ORDERS} orders at a time`)
+    )
+    .optional(),
+  status: orderStatusEnum.optional(),
+  reason: z
+    .string()
+    .max(500, "Reason must be at most 500 characters")
+    .optional(),
+});
+
+/**
+ * Zod schema for one row of a bulk status update.
+ */
+export const zBulkOrderStatusRow = z.object({
+  orderId: zId("Order ID"),
+  status: z.preprocess(
+    (val) => (typeof val === "string" ? val.toUpperCase() : val),
+    orderStatusEnum
+  ),
+  reason: z
+    .string()
+    .max(500, "Reason must be at most 500 characters")
+    .optional(),
+});
+
+/**
+ * TypeScript type inferred from bulk status update schema.
+ */
+export type BulkUpdateOrderStatusDto = z.infer<
+  typeof zBulkUpdateOrderStatusDto
+>;
+
+/**
+ * Zod schema for exporting the admin order list with its filters.
+ */
+export const zExportOrdersDto = z.object({
+  format: z.enum(["csv", "xlsx"]).default("csv"),
+  status: orderStatusEnum.optional(),
+  customerId: zId("Customer ID").optional(),
+  orderId: zId("Order ID").optional(),
+});
+
+/**
+ * TypeScript type inferred from order export schema.
+ */
+export type ExportOrdersDto = z.infer<typeof zExportOrdersDto>;
@@ -0,0 +1,10 @@
+import { OrderStatus } from "@/generated/prisma/client";
+
+// Outcome of one row of a bulk order status update
+export interface IBulkOrderStatusResult {
+  row: number;
+  orderId: string;
+  status?: OrderStatus;
+  success: boolean;
+  error?: string;
+}
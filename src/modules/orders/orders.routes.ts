@@ -7,11 +7,19 @@ import { Router } from "express";
 import * as OrderController from "@/modules/orders/orders.controller";
 import { authMiddleware, authorizeRoles } from "@/middlewares/auth";
 import { UserRole } from "@/generated/prisma/client";
+import { idempotency } from "@/middlewares/idempotency";
+import { csvUpload } from "@/utils/fileUpload/configMulterUpload";
 
 const router = Router();
 
-// Route to create a new order
-router.post("/", OrderController.createOrder);
+// Route for a customer to place an order
+router.post(
+  "/",
+  authMiddleware,
+  authorizeRoles(UserRole.CUSTOMER),
+  idempotency(),
+  OrderController.createOrder
+);
 
 // Route to get all orders
 router.get(
@@ -29,6 +37,72 @@ router.get(
   OrderController.getCustomerOrders
 );
 
+// Route for a customer to cancel their own order
+router.patch(
+  "/:id/cancel",
+  authMiddleware,
+  authorizeRoles(UserRole.CUSTOMER),
+  OrderController.cancelCustomerOrder
+);
+
+// Route for a customer to pay the deposit of a preorder from their wallet
+router.post(
+  "/:id/preorder-deposit",
+  authMiddleware,
+  authorizeRoles(UserRole.CUSTOMER),
+  idempotency(),
+  OrderController.payPreorderDeposit
+);
+
+// Route for an admin to cancel any order
+router.patch(
+  "/admin/:id/cancel",
+  authMiddleware,
+  authorizeRoles(UserRole.ADMIN, UserRole.SUPER_ADMIN),
+  OrderController.cancelOrderByAdmin
+);
+
+// Route for an admin to export invoices of a date range
+router.get(
+  "/admin/invoices",
+  authMiddleware,
+  authorizeRoles(UserRole.ADMIN, UserRole.SUPER_ADMIN),
+  OrderController.exportInvoices
+);
+
+// Route for an admin to change the status of many orders, optionally from a CSV
+router.post(
+  "/admin/bulk-status",
+  authMiddleware,
+  authorizeRoles(UserRole.ADMIN, UserRole.SUPER_ADMIN),
+  csvUpload.single("file"),
+  OrderController.bulkUpdateOrderStatus
+);
+
+// Route for an admin to export orders as CSV or XLSX
+router.get(
+  "/admin/export",
+  authMiddleware,
+  authorizeRoles(UserRole.ADMIN, UserRole.SUPER_ADMIN),
+  OrderController.exportOrders
+);
+
+// Route for an admin to get the event log of an order
+router.get(
+  "/:id/events",
+  authMiddleware,
+  authorizeRoles(UserRole.ADMIN, UserRole.SUPER_ADMIN),
+  OrderController.getOrderEvents
+);
+
+// Route to download the invoice of an order
+router.get(
+  "/:id/invoice",
+  authMiddleware,
+  authorizeRoles(UserRole.CUSTOMER, UserRole.ADMIN, UserRole.SUPER_ADMIN),
+  OrderController.getOrderInvoice
+);
+
 // Route to get an order by ID
 router.get("/:id", OrderController.getOrderById);
 
@@ -4,16 +4,67 @@
  */
 
 import prisma from "@/prisma-client/prismaClient";
-import { Order, OrderStatus, Prisma } from "@/generated/prisma/client";
-import { CreateOrderDto, UpdateOrderDto } from "@/modules/orders/orders.dto";
+import { runTransaction } from "@/utils/transaction";
+import {
+  Order,
+  OrderEvent,
+  OrderEventActor,
+  OrderStatus,
+  Prisma,
+} from "@/generated/prisma/client";
+import {
+  BulkUpdateOrderStatusDto,
+  CancelOrderDto,
+  CreateOrderDto,
+  ExportInvoicesDto,
+  ExportOrdersDto,
+  MAX_BULK_ORDERS,
+  UpdateOrderDto,
+  zBulkOrderStatusRow,
+} from "@/modules/orders/orders.dto";
+import { IBulkOrderStatusResult } from "@/modules/orders/orders.interface";
 import { getErrorMessage } from "@/utils/errorHandler";
 import { getBatchAccessibleImageUrls } from "@/utils/fileUpload/s3Aws";
 import { getOrderStatusMessage } from "@/utils/getOrderStatusMessage";
 import { createNotification } from "@/utils/processPayment";
+import { AppError } from "@/utils/appError";
+import {
+  cancelOrder,
+  isCancellationActor,
+} from "@/utils/processOrderCancellation";
+import {
+  recordOrderEvent,
+  resolveStatusTransition,
+} from "@/utils/orderStatusTransition";
+import { resolveDeliveryZone } from "@/utils/deliveryZone";
+import { placeOrder } from "@/utils/placeOrder";
+import {
+  calculatePreorderDeposit,
+  isAllocatedByPreorder,
+  isOpenPreorder,
+} from "@/utils/preorder";
+import {
+  buildInvoicePdf,
+  invoiceNumber,
+  invoiceOrderInclude,
+} from "@/utils/invoicePdf";
+import {
+  buildOrdersCsv,
+  buildOrdersXlsx,
+  exportOrderInclude,
+  parseCsv,
+} from "@/utils/orderSpreadsheet";
+import { format } from "date-fns";
+import { dhakaDayBounds, formatDhaka, toDhakaDay } from "@/utils/dhakaTime";
+import { ZodError } from "zod";
+import httpStatus from "http-status";
+import { upcomingDelivery } from "@/utils/processSubscription";
+import { debitWallet, lockWallet } from "@/utils/walletLedger";
 import {
-  hasInsufficientWalletBalance,
-  upcomingDelivery,
-} from "@/utils/processSubscription";
+  canCoverFromWallet,
+  captureHold,
+  findActiveHolds,
+} from "@/utils/walletHold";
 
 interface CustomerOrdersResult {
   orders: Order[];
@@ -24,50 +75,32 @@ interface CustomerOrdersResult {
 
 /**
  * Create a new order
+ * - Placed the same way as cart checkout, see placeOrder
+ * @param userId - The customer user placing the order
  * @param data - Data required to create an order
  * @returns The created order
- * @throws Error if the order cannot be created (e.g., invalid customerId)
+ * @throws Error if the order cannot be created (e.g., no customer profile)
  */
-export async function createOrder(data: CreateOrderDto): Promise<Order> {
+export async function createOrder(
+  userId: bigint,
+  data: CreateOrderDto
+): Promise<Order> {
   try {
-    return await prisma.$transaction(async (tx) => {
+    return await runTransaction(async (tx) => {
       //  Validate customer
       const customer = await tx.customer.findUnique({
-        where: { customerId: data.customerId },
+        where: { userId },
       });
       if (!customer) {
         throw new Error("Customer not found");
       }
 
-      //  Create order
-      const order = await tx.order.create({
-        data: {
-          status: data.status,
-          totalAmount: data.totalAmount,
-          paymentMethod: data.paymentMethod,
-          paymentStatus: data.paymentStatus,
-          shippingAddress: data.shippingAddress,
-          customerId: data.customerId,
-          isSubscription: data.isSubscription ?? false,
-          isPreorder: data.isPreorder ?? false,
-          preorderDeliveryDate: data.preorderDeliveryDate
-            ? new Date(data.preorderDeliveryDate)
-            : undefined,
-        },
-      });
-
-      // Create initial tracking entry
-      await tx.orderTracking.create({
-        data: {
-          orderId: Number(order.orderId),
-          status: "PENDING",
-          description: "Order created pending",
-        },
-      });
-
-      return order;
+      return await placeOrder(tx, { ...data, customer });
     });
   } catch (error) {
+    if (error instanceof AppError) {
+      throw error;
+    }
     throw new Error(`Failed to create order: ${getErrorMessage(error)}`);
   }
 }
@@ -87,6 +120,28 @@ interface OrderFilters {
   sort?: "asc" | "desc";
 }
 
+/**
+ * Build the order query of the admin order list filters
+ */
+function buildOrderWhere(filters: OrderFilters): Prisma.OrderWhereInput {
+  const { status, customerId, orderId } = filters;
+  const whereClause: Prisma.OrderWhereInput = {};
+
+  if (status && Object.values(OrderStatus).includes(status)) {
+    // Cast incoming string to Prisma enum
+    whereClause.status = status as OrderStatus;
+  }
+
+  if (customerId) {
+    whereClause.customerId = customerId;
+  }
+
+  if (orderId) {
+    whereClause.orderId = BigInt(orderId);
+  }
+  return whereClause;
+}
+
 export async function getAllOrders(
   filters: OrderFilters & { page: number; limit: number }
 ): Promise<{
@@ -96,23 +151,9 @@ export async function getAllOrders(
   totalCount: number;
 }> {
   try {
-    const { status, customerId, orderId, skip, take, sort, page, limit } =
-      filters;
-
-    const whereClause: Prisma.OrderWhereInput = {};
-
-    if (status && Object.values(OrderStatus).includes(status)) {
-      // Cast incoming string to Prisma enum
-      whereClause.status = status as OrderStatus;
-    }
-
-    if (customerId) {
-      whereClause.customerId = customerId;
-    }
+    const { skip, take, page, limit } = filters;
 
-    if (orderId) {
-      whereClause.orderId = BigInt(orderId);
-    }
+    const whereClause = buildOrderWhere(filters);
     const orders = await prisma.order.findMany({
       where: whereClause,
       include: {
@@ -157,6 +198,7 @@ export async function getAllOrders(
           ...order,
           totalAmount: order.totalAmount,
           orderItems: updatedOrderItems,
+          invoiceUrl: `/api/orders/${order.orderId}/invoice`,
         };
       })
     );
@@ -227,27 +269,61 @@ export async function getOrderById(orderId: BigInt) {
  * Update an order by its ID
  * @param orderId - The ID of the order to update
  * @param data - Data to update the order
+ * @param actorUserId - The user making the change, for the order event log
+ * @param actor - Who makes the change; riders update orders they deliver,
+ *   and only customers and admins may cancel
+ * @param tx - Runs the update in this transaction instead of its own, so
+ *   callers can commit it together with their own writes
  * @returns The updated order
  * @throws Error if the order is not found or update fails
  */
 export async function updateOrder(
   orderId: bigint,
-  data: UpdateOrderDto
+  data: UpdateOrderDto,
+  actorUserId?: bigint,
+  actor: OrderEventActor = "ADMIN",
+  tx?: Prisma.TransactionClient
 ): Promise<Order> {
   try {
-    // Get current order
-    const currentOrder = await prisma.order.findUnique({
-      where: { orderId },
-      include: {
-        customer: { include: { wallet: true } },
-        orderItems: true,
-      },
-    });
-    if (!currentOrder) throw new Error("Order not found");
-    if (currentOrder.status === "DELIVERED" && data.status) {
-      throw new Error("Cannot update status after it has been delivered.");
+    // Cancellation restores stock and settles payments
+    if (data.status === "CANCELLED") {
+      if (!isCancellationActor(actor)) {
+        throw new AppError(
+          `Orders cannot be cancelled by a ${actor.toLowerCase()}`,
+          httpStatus.FORBIDDEN
+        );
+      }
+      return await cancelOrder(
+        orderId,
+        { actor, userId: actorUserId, reason: data.reason },
+        tx
+      );
     }
-    return await prisma.$transaction(async (tx) => {
+    const applyUpdate = async (tx: Prisma.TransactionClient) => {
+      // Get current order
+      const currentOrder = await tx.order.findUnique({
+        where: { orderId },
+        include: {
+          customer: { include: { wallet: true } },
+          orderItems: true,
+        },
+      });
+      if (!currentOrder) throw new Error("Order not found");
+      // Moving an order back is a correction and needs a reason
+      const transition = data.status
+        ? resolveStatusTransition(currentOrder.status, data.status)
+        : null;
+      if (transition === "REVERT" && !data.reason) {
+        throw new AppError(
+          "A reason is required to revert an order status",
+          httpStatus.BAD_REQUEST
+        );
+      }
+      // A new address must be served too; the shipping fee charged stays as is
+      const zone = data.shippingAddress
+        ? await resolveDeliveryZone(data.shippingAddress, tx)
+        : null;
+
       // Update order
       const isDelivered = data.status === "DELIVERED";
       const updatedOrder = await tx.order.update({
@@ -258,62 +334,36 @@ export async function updateOrder(
             data.paymentStatus ??
             (isDelivered ? "COMPLETED" : currentOrder.paymentStatus),
           shippingAddress: data.shippingAddress,
+          // Edited text no longer matches the address book entry
+          addressId: data.shippingAddress ? null : undefined,
+          deliveryZoneId: zone?.zoneId,
           preorderDeliveryDate: currentOrder.isPreorder
             ? data.preorderDeliveryDate
             : currentOrder.preorderDeliveryDate,
         },
       });
       if (data.status) {
-        const orderStatusFlow: OrderStatus[] = [
-          "PENDING",
-          "CONFIRMED",
-          "PROCESSING",
-          "SHIPPED",
-          "DELIVERED",
-        ];
-        const currentStatusIndex = orderStatusFlow.indexOf(currentOrder.status);
-        const newStatusIndex = orderStatusFlow.indexOf(data.status);
-
-        if (data.status === currentOrder.status) {
-          throw new Error(`Order is already ${currentOrder.status}`);
-        }
-        if (newStatusIndex > currentStatusIndex + 1) {
-          throw new Error(
-            `Invalid status transition: Cannot skip status levels from ${currentOrder.status} to ${data.status}`
-          );
-        }
-        // if Backward status move detected--
-        if (newStatusIndex < currentStatusIndex) {
-          // Delete any forward tracking records
-          await tx.orderTracking.deleteMany({
-            where: {
-              orderId,
-              status: {
-                in: orderStatusFlow.filter(
-                  (status) => orderStatusFlow.indexOf(status) > newStatusIndex
-                ),
-              },
-            },
-          });
-        }
-      }
-      // Log only if status actually changed & not already tracked
-      if (data.status && data.status !== currentOrder.status) {
-        const alreadyTracked = await tx.orderTracking.findFirst({
-          where: {
+        await recordOrderEvent(
+          {
+            orderId,
+            fromStatus: currentOrder.status,
+            toStatus: data.status,
+            actor,
+            actorUserId,
+            reason: data.reason,
+          },
+          tx
+        );
+        await tx.orderTracking.create({
+          data: {
             orderId,
             status: data.status,
+            description:
+              transition === "REVERT"
+                ? `Status reverted to ${data.status}: ${data.reason}`
+                : `Status updated to ${data.status}`,
           },
         });
-        if (!alreadyTracked) {
-          await tx.orderTracking.create({
-            data: {
-              orderId,
-              status: data.status,
-              description: `Status updated to ${data.status}`,
-            },
-          });
-        }
         const message = getOrderStatusMessage(data.status, orderId);
         await createNotification(
           message,
@@ -323,8 +373,12 @@ export async function updateOrder(
         );
       }
       if (data.status === "DELIVERED" && currentOrder.paymentMethod === "COD") {
+        // Preorder stock is taken when it is allocated
+        const orderItems = isAllocatedByPreorder(currentOrder)
+          ? []
+          : currentOrder.orderItems;
         await Promise.all(
-          currentOrder.orderItems.map(async (item) => {
+          orderItems.map(async (item) => {
             await tx.product.update({
               where: { productId: item.productId },
               data: {
@@ -347,7 +401,7 @@ export async function updateOrder(
         );
 
         // update payment record
-        await tx.payment.update({
+        await tx.payment.updateMany({
           where: { orderId, paymentMethod: "COD" },
           data: {
             paymentStatus: "COMPLETED",
@@ -380,45 +434,469 @@ export async function updateOrder(
           currentOrder.paymentMethod === "WALLET" &&
           data.status === "DELIVERED"
         ) {
-          if (
-            hasInsufficientWalletBalance(
-              currentOrder.customer.wallet,
-              currentOrder.totalAmount
-            )
-          ) {
-            throw new Error(`Insufficient wallet balance`);
+          const holds = await findActiveHolds(
+            { orderId, reason: "SUBSCRIPTION" },
+            tx
+          );
+          if (holds.length === 0) {
+            throw new Error(`No wallet funds are held for this order`);
           }
           // deduct wallet balance
-          await tx.wallet.update({
-            where: { walletId: currentOrder.customer.wallet?.walletId },
-            data: {
-              lockedBalance: { decrement: currentOrder.totalAmount },
-              balance: { decrement: currentOrder.totalAmount },
-            },
-          });
+          for (const hold of holds) {
+            await captureHold(
+              hold,
+              `Payment completed for order #${currentOrder.orderId}`,
+              tx
+            );
+          }
           // update wallet transaction record
-          await tx.walletTransaction.update({
-            where: { orderId },
+          await tx.walletTransaction.updateMany({
+            where: { orderId, transactionType: "PURCHASE" },
             data: {
               transactionStatus: "COMPLETED",
               description: `Payment completed for order #${currentOrder.orderId}`,
             },
           });
           // update payment record
-          await tx.payment.update({
-            where: { orderId },
+          await tx.payment.updateMany({
+            where: { orderId, paymentMethod: "WALLET" },
             data: { paymentStatus: "COMPLETED" },
           });
         }
       }
 
       return updatedOrder;
-    });
+    };
+    return tx ? await applyUpdate(tx) : await runTransaction(applyUpdate);
   } catch (error) {
+    if (error instanceof AppError) {
+      throw error;
+    }
     throw new Error(`Failed to update order: ${getErrorMessage(error)}`);
   }
 }
 
+/**
+ * Cancel an order on behalf of its customer
+ * @param userId - The ID of the logged in customer user
+ * @param orderId - The ID of the order to cancel
+ * @param data - Optional cancellation reason
+ * @returns The cancelled order
+ * @throws Error if the order is not found or cannot be cancelled
+ */
+export async function cancelCustomerOrder(
+  userId: bigint,
+  orderId: bigint,
+  data: CancelOrderDto
+): Promise<Order> {
+  try {
+    return await cancelOrder(orderId, {
+      actor: "CUSTOMER",
+      userId,
+      reason: data.reason,
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new Error(`Failed to cancel order: ${getErrorMessage(error)}`);
+  }
+}
+
+/**
+ * Cancel an order as an admin
+ * @param orderId - The ID of the order to cancel
+ * @param data - Optional cancellation reason
+ * @param actorUserId - The admin cancelling, for the order event log
+ * @returns The cancelled order
+ * @throws Error if the order is not found or cannot be cancelled
+ */
+export async function cancelOrderByAdmin(
+  orderId: bigint,
+  data: CancelOrderDto,
+  actorUserId?: bigint
+): Promise<Order> {
+  try {
+    return await cancelOrder(orderId, {
+      actor: "ADMIN",
+      userId: actorUserId,
+      reason: data.reason,
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new Error(`Failed to cancel order: ${getErrorMessage(error)}`);
+  }
+}
+
+/**
+ * Pay the deposit of a preorder from the customer's wallet
+ * - The deposit is the products' deposit share of the order items
+ * - The rest of the order is paid later through the order's payment method
+ * @param userId - The ID of the logged in customer user
+ * @param orderId - The ID of the preorder
+ * @returns The order with its deposit
+ * @throws AppError if the order is not an unpaid open preorder, or the wallet
+ * balance is too low
+ */
+export async function payPreorderDeposit(
+  userId: bigint,
+  orderId: bigint
+): Promise<Order> {
+  try {
+    return await runTransaction(async (tx) => {
+      const order = await tx.order.findUnique({
+        where: { orderId },
+        include: {
+          customer: { include: { wallet: true } },
+          orderItems: { include: { product: true } },
+        },
+      });
+      if (!order || order.customer.userId !== userId) {
+        throw new AppError("Order not found", httpStatus.NOT_FOUND);
+      }
+      if (!isOpenPreorder(order) || order.status === "CANCELLED") {
+        throw new AppError(
+          "Deposits can only be paid for open preorders",
+          httpStatus.BAD_REQUEST
+        );
+      }
+      if (order.depositAmount.greaterThan(0)) {
+        throw new AppError(
+          "Deposit has already been paid",
+          httpStatus.CONFLICT
+        );
+      }
+      if (order.paymentStatus !== "PENDING") {
+        throw new AppError(
+          `Order is not payable. Current status: ${order.paymentStatus}`,
+          httpStatus.BAD_REQUEST
+        );
+      }
+
+      const depositAmount = calculatePreorderDeposit(order.orderItems);
+      if (depositAmount.lessThanOrEqualTo(0)) {
+        throw new AppError(
+          "No deposit is offered for this preorder",
+          httpStatus.BAD_REQUEST
+        );
+      }
+
+      const wallet = order.customer.wallet;
+      if (wallet) await lockWallet(wallet.walletId, tx);
+      if (
+        !wallet ||
+        !(await canCoverFromWallet(wallet.walletId, depositAmount, tx))
+      ) {
+        throw new AppError(
+          "Insufficient available wallet balance to pay the deposit",
+          httpStatus.BAD_REQUEST
+        );
+      }
+
+      const walletTransaction = await tx.walletTransaction.create({
+        data: {
+          amount: depositAmount,
+          transactionType: "PURCHASE",
+          transactionStatus: "COMPLETED",
+          description: `Preorder deposit for Order #${orderId}`,
+          walletId: wallet.walletId,
+          orderId,
+        },
+      });
+      await debitWallet(
+        {
+          walletId: wallet.walletId,
+          amount: depositAmount,
+          description: walletTransaction.description!,
+          walletTransactionId: walletTransaction.transactionId,
+        },
+        "SALES",
+        tx
+      );
+      await tx.orderTracking.create({
+        data: {
+          orderId,
+          status: order.status,
+          description: `Preorder deposit of ${depositAmount.toFixed(
+            2
+          )} paid via wallet`,
+        },
+      });
+
+      return await tx.order.update({
+        where: { orderId },
+        data: { depositAmount },
+      });
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new Error(
+      `Failed to pay preorder deposit: ${getErrorMessage(error)}`
+    );
+  }
+}
+
+/**
+ * Get the event log of an order, oldest first
+ * @param orderId - The ID of the order
+ * @returns The order's status change events
+ * @throws AppError if the order is not found
+ */
+export async function getOrderEvents(orderId: bigint): Promise<OrderEvent[]> {
+  try {
+    const order = await prisma.order.findUnique({ where: { orderId } });
+    if (!order) {
+      throw new AppError("Order not found", httpStatus.NOT_FOUND);
+    }
+    return await prisma.orderEvent.findMany({
+      where: { orderId },
+      orderBy: { eventId: "asc" },
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new Error(`Failed to fetch order events: ${getErrorMessage(error)}`);
+  }
+}
+
+/**
+ * Render the invoice of an order as a PDF
+ * - Customers can only get invoices of their own orders
+ * @param orderId - The ID of the order
+ * @param userId - The logged in user, or undefined for admins
+ * @returns The file name and PDF contents
+ * @throws AppError if the order is not found
+ */
+export async function getOrderInvoice(
+  orderId: bigint,
+  userId?: bigint
+): Promise<{ fileName: string; pdf: Buffer }> {
+  try {
+    const order = await prisma.order.findUnique({
+      where: { orderId },
+      include: invoiceOrderInclude,
+    });
+    if (!order || (userId && order.customer.userId !== userId)) {
+      throw new AppError("Order not found", httpStatus.NOT_FOUND);
+    }
+
+    return {
+      fileName: `${invoiceNumber(order)}.pdf`,
+      pdf: await buildInvoicePdf([order]),
+    };
+  } catch (error) {
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new Error(`Failed to generate invoice: ${getErrorMessage(error)}`);
+  }
+}
+
+// Upper bound of invoices rendered into one export
+const MAX_EXPORTED_INVOICES = 500;
+
+/**
+ * Render the invoices of orders placed in a date range into one PDF
+ * @param data - Date range of days in Dhaka, both inclusive
+ * @returns The file name and PDF contents
+ * @throws AppError if no orders or too many orders are in the range
+ */
+export async function exportInvoices(
+  data: ExportInvoicesDto
+): Promise<{ fileName: string; pdf: Buffer }> {
+  try {
+    // Whole days in Dhaka, whatever the server's time zone
+    const { start } = dhakaDayBounds(toDhakaDay(data.from));
+    const { end } = dhakaDayBounds(toDhakaDay(data.to));
+    const where: Prisma.OrderWhereInput = {
+      orderDate: { gte: start, lte: end },
+      status: { not: "CANCELLED" },
+    };
+    const count = await prisma.order.count({ where });
+    if (count === 0) {
+      throw new AppError("No orders in this date range", httpStatus.NOT_FOUND);
+    }
+    if (count > MAX_EXPORTED_INVOICES) {
+      throw new AppError(
+        `Date range has ${count} orders, export at most ${MAX_EXPORTED_INVOICES} at a time`,
+        httpStatus.BAD_REQUEST
+      );
+    }
+
+    const orders = await prisma.order.findMany({
+      where,
+      include: invoiceOrderInclude,
+      orderBy: { orderDate: "asc" },
+    });
+    return {
+      fileName: `invoices_${formatDhaka(data.from, "yyyyMMdd")}-${formatDhaka(
+        data.to,
+        "yyyyMMdd"
+      )}.pdf`,
+      pdf: await buildInvoicePdf(orders),
+    };
+  } catch (error) {
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new Error(`Failed to export invoices: ${getErrorMessage(error)}`);
+  }
+}
+
+// Upper bound of orders written into one export
+const MAX_EXPORTED_ORDERS = 10_000;
+
+/**
+ * Render the admin order list with its filters as a CSV or XLSX file
+ * @param data - File format and order list filters
+ * @returns The file name, content type and contents
+ * @throws AppError if too many orders match the filters
+ */
+export async function exportOrders(
+  data: ExportOrdersDto
+): Promise<{ fileName: string; contentType: string; file: Buffer }> {
+  try {
+    const where = buildOrderWhere(data);
+    const count = await prisma.order.count({ where });
+    if (count > MAX_EXPORTED_ORDERS) {
+      throw new AppError(
+        `Filters match ${count} orders, export at most ${MAX_EXPORTED_ORDERS} at a time`,
+        httpStatus.BAD_REQUEST
+      );
+    }
+
+    const orders = await prisma.order.findMany({
+      where,
+      include: exportOrderInclude,
+      orderBy: { createdAt: "desc" },
+    });
+    const fileName = `orders_${format(new Date(), "yyyyMMdd_HHmm")}.${
+      data.format
+    }`;
+    return data.format === "xlsx"
+      ? {
+          fileName,
+          contentType:
+            "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+          file: await buildOrdersXlsx(orders),
+        }
+      : {
+          fileName,
+          contentType: "text/csv; charset=utf-8",
+          file: buildOrdersCsv(orders),
+        };
+  } catch (error) {
+    if (error instanceof AppError) {
+      throw error;
+    }
+    throw new Error(`Failed to export orders: ${getErrorMessage(error)}`);
+  }
+}
+
+/**
+ * Read the rows of a bulk status update CSV
+ * - The header must have an orderId column; status and reason are optional
+ *   and fall back to the values sent with the upload
+ * @throws AppError if the header is missing columns or there are too many rows
+ */
+function parseBulkStatusCsv(
+  csv: string,
+  defaults: Pick<BulkUpdateOrderStatusDto, "status" | "reason">
+): { row: number; orderId: string; status?: string; reason?: string }[] {
+  const [header, ...rows] = parseCsv(csv);
+  const columns = (header ?? []).map((name) => name.toLowerCase());
+  const orderIdColumn = columns.indexOf("orderid");
+  const statusColumn = columns.indexOf("status");
+  const reasonColumn = columns.indexOf("reason");
+  if (orderIdColumn === -1) {
+    throw new AppError(
+      "CSV must have an orderId column",
+      httpStatus.BAD_REQUEST
+    );
+  }
+  if (rows.length > MAX_BULK_ORDERS) {
+    throw new AppError(
+      `At most ${MAX_BULK_ORDERS} orders at a time`,
+      httpStatus.BAD_REQUEST
+    );
+  }
+
+  return rows.map((cells, index) => ({
+    // Row numbers as shown in a spreadsheet, after the header
+    row: index + 2,
+    orderId: cells[orderIdColumn] ?? "",
+    status: (statusColumn !== -1 && cells[statusColumn]) || defaults.status,
+    reason: (reasonColumn !== -1 && cells[reasonColumn]) || defaults.reason,
+  }));
+}
+
+/**
+ * Change the status of many orders, each through updateOrder
+ * - Orders are updated one by one; a failing row does not stop the others
+ * @param data - Order IDs with a status and reason for all of them
+ * @param csv - Contents of an uploaded CSV, used instead of the order IDs
+ * @param actorUserId - The admin making the change
+ * @returns The outcome of every row
+ * @throws AppError if no orders are given or a status is missing
+ */
+export async function bulkUpdateOrderStatus(
+  data: BulkUpdateOrderStatusDto,
+  csv: string | undefined,
+  actorUserId?: bigint
+): Promise<IBulkOrderStatusResult[]> {
+  const rows = csv
+    ? parseBulkStatusCsv(csv, data)
+    : (data.orderIds ?? []).map((orderId, index) => ({
+        row: index + 1,
+        orderId: String(orderId),
+        status: data.status,
+        reason: data.reason,
+      }));
+  if (rows.length === 0) {
+    throw new AppError(
+      "Order IDs or a CSV file is required",
+      httpStatus.BAD_REQUEST
+    );
+  }
+  if (!csv && !data.status) {
+    throw new AppError("Status is required", httpStatus.BAD_REQUEST);
+  }
+
+  const results: IBulkOrderStatusResult[] = [];
+  for (const row of rows) {
+    try {
+      const { orderId, status, reason } = zBulkOrderStatusRow.parse(row);
+      const updated = await updateOrder(
+        orderId,
+        { status, reason },
+        actorUserId
+      );
+      results.push({
+        row: row.row,
+        orderId: row.orderId,
+        status: updated.status,
+        success: true,
+      });
+    } catch (error) {
+      results.push({
+        row: row.row,
+        orderId: row.orderId,
+        success: false,
+        error:
+          error instanceof ZodError
+            ? error.errors.map((issue) => issue.message).join(", ")
+            : getErrorMessage(error),
+      });
+    }
+  }
+  return results;
+}
+
 /**
  * Delete an order by its ID
  * @param orderId - The ID of the order to delete
@@ -513,6 +991,7 @@ export async function getCustomerOrders({
           ...order,
           totalAmount: order.totalAmount,
           orderItems: updatedOrderItems,
+          invoiceUrl: `/api/orders/${order.orderId}/invoice`,
         };
       })
     );
@@ -7,13 +7,15 @@ import { Request, Response } from "express";
 import * as paymentService from "@/modules/payments/payment.service";
 import {
   zCreatePaymentDto,
+  zRefundPaymentDto,
   zUpdatePaymentDto,
 } from "@/modules/payments/payment.dto";
 import { handleErrorResponse } from "@/utils/errorResponseHandler";
 import { z } from "zod";
 import httpStatus from "http-status";
 import sendResponse from "@/utils/sendResponse";
-import { Payment } from "@/generated/prisma/client";
+import { Payment, Refund } from "@/generated/prisma/client";
+import { GatewayMethod } from "@/utils/paymentProviders";
 
 const paymentIdSchema = z.coerce.bigint().refine((val) => val > 0n, {
   message: "Payment ID must be a positive integer",
@@ -27,8 +29,13 @@ export const createPayment = async (
   res: Response
 ): Promise<void> => {
   try {
+    if (!req.user?.userId) throw new Error("Please login to continue");
+
     const data = zCreatePaymentDto.parse(req.body);
-    const payment = await paymentService.createPayment(data);
+    const payment = await paymentService.createPayment(
+      BigInt(req.user.userId),
+      data
+    );
 
     sendResponse<paymentService.PaymentResult>(res, {
       success: true,
@@ -90,6 +97,31 @@ export const handleSSLCommerzCancel = async (
   }
 };
 
+/**
+ * Handle the redirect back from a bKash or Nagad payment page
+ */
+const handleGatewayCallback =
+  (method: GatewayMethod) =>
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const paymentStatus = await paymentService.handleGatewayCallback(
+        method,
+        req.query as Record<string, unknown>
+      );
+
+      if (paymentStatus === "COMPLETED") {
+        res.redirect(`${process.env.PAYMENT_SUCCESS_DEEP_LINK}`);
+      } else {
+        res.redirect(`${process.env.PAYMENT_FAIL_DEEP_LINK}`);
+      }
+    } catch (error) {
+      res.redirect(`${process.env.PAYMENT_FAIL_DEEP_LINK}`);
+    }
+  };
+
+export const handleBkashCallback = handleGatewayCallback("BKASH");
+export const handleNagadCallback = handleGatewayCallback("NAGAD");
+
 /**
  * Handle SSLCommerz IPN (Instant Payment Notification)
  */
@@ -185,6 +217,36 @@ export const updatePayment = async (
   }
 };
 
+/**
+ * Refund a gateway payment, fully or in part
+ */
+export const refundPayment = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const paymentId = paymentIdSchema.parse(req.params.id);
+    const data = zRefundPaymentDto.parse(req.body);
+    const refund = await paymentService.refundPayment(
+      paymentId,
+      data,
+      req.user?.userId ? BigInt(req.user.userId) : undefined
+    );
+
+    sendResponse<Refund>(res, {
+      success: true,
+      statusCode: httpStatus.CREATED,
+      message:
+        refund.status === "COMPLETED"
+          ? "Payment refunded successfully"
+          : "Refund is being processed by the gateway",
+      data: refund,
+    });
+  } catch (error) {
+    handleErrorResponse(error, res, "refund payment");
+  }
+};
+
 /**
  * Delete a payment by ID
  */
@@ -4,6 +4,7 @@
  */
 
 import { z } from "zod";
+import { zPaymentMethod } from "@/utils/paymentProviders";
 
 const paymentStatusEnum = z.enum([
   "PENDING",
@@ -17,7 +18,7 @@ const paymentStatusEnum = z.enum([
  */
 export const zCreatePaymentDto = z.object({
   amount: z.number().positive("Amount must be a positive number").optional(),
-  paymentMethod: z.string().min(1, "Payment method is required").optional(),
+  paymentMethod: zPaymentMethod.optional(),
   paymentStatus: paymentStatusEnum.optional(),
   orderId: z
     .union([z.string(), z.number()])
@@ -33,6 +34,8 @@ export const zCreatePaymentDto = z.object({
       message: "Wallet Transaction ID must be a positive integer",
     })
     .optional(),
+  // Gateway orders only: pay what the wallet can cover and the rest on the gateway
+  useWalletBalance: z.boolean().optional(),
 });
 
 /**
@@ -45,7 +48,7 @@ export type CreatePaymentDto = z.infer<typeof zCreatePaymentDto>;
  */
 export const zUpdatePaymentDto = z.object({
   amount: z.number().positive("Amount must be a positive number").optional(),
-  paymentMethod: z.string().min(1, "Payment method is required").optional(),
+  paymentMethod: zPaymentMethod.optional(),
   paymentStatus: paymentStatusEnum.optional(),
   transactionId: z.string().optional(),
   orderId: z
@@ -68,3 +71,17 @@ export const zUpdatePaymentDto = z.object({
  * TypeScript type inferred from update schema.
  */
 export type UpdatePaymentDto = z.infer<typeof zUpdatePaymentDto>;
+
+/**
+ * Zod schema for refunding a gateway payment.
+ * Without an amount, everything not refunded yet is refunded.
+ */
+export const zRefundPaymentDto = z.object({
+  amount: z.number().positive("Amount must be a positive number").optional(),
+  reason: z.string().trim().min(1, "Refund reason is required"),
+});
+
+/**
+ * TypeScript type inferred from refund schema.
+ */
+export type RefundPaymentDto = z.infer<typeof zRefundPaymentDto>;
@@ -7,11 +7,18 @@ import { Router } from "express";
 import * as PaymentController from "@/modules/payments/payment.controller";
 import { authMiddleware, authorizeRoles } from "@/middlewares/auth";
 import { UserRole } from "@/generated/prisma/client";
+import { idempotency } from "@/middlewares/idempotency";
 
 const router = Router();
 
 // Route to create a new payment
-router.post("/", PaymentController.createPayment);
+router.post(
+  "/",
+  authMiddleware,
+  authorizeRoles(UserRole.CUSTOMER),
+  idempotency(),
+  PaymentController.createPayment
+);
 
 // Route to get all payments
 router.get(
@@ -27,6 +34,14 @@ router.get("/:id", PaymentController.getPaymentById);
 // Route to update a payment's details
 router.put("/:id", PaymentController.updatePayment);
 
+// Route for an admin to refund a gateway payment
+router.post(
+  "/:id/refund",
+  authMiddleware,
+  authorizeRoles(UserRole.ADMIN, UserRole.SUPER_ADMIN),
+  PaymentController.refundPayment
+);
+
 // Route to delete a payment
 router.delete("/:id", PaymentController.deletePayment);
 
@@ -36,4 +51,8 @@ router.post("/sslcommerz/fail", PaymentController.handleSSLCommerzFailure);
 router.post("/sslcommerz/cancel", PaymentController.handleSSLCommerzCancel);
 router.post("/sslcommerz/ipn", PaymentController.handleSSLCommerzIPN);
 
+// bKash and Nagad redirect the customer back with the result in the query
+router.get("/bkash/callback", PaymentController.handleBkashCallback);
+router.get("/nagad/callback", PaymentController.handleNagadCallback);
+
 export default router;
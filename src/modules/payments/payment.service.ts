@@ -3,23 +3,57 @@
  * Contains business logic and database interactions for payments.
  */
 import prisma from "@/prisma-client/prismaClient";
-import { Payment, PaymentStatus } from "@/generated/prisma/client";
+import { runTransaction } from "@/utils/transaction";
+import {
+  Payment,
+  PaymentStatus,
+  Prisma,
+  Refund,
+} from "@/generated/prisma/client";
 import {
   CreatePaymentDto,
+  RefundPaymentDto,
   UpdatePaymentDto,
 } from "@/modules/payments/payment.dto";
 import { getErrorMessage } from "@/utils/errorHandler";
 import {
   processWalletPayment,
-  processSSLCommerzPayment,
+  processGatewayPayment,
   processCodPayment,
-  validateSSLCommerzPayment,
 } from "@/utils/processPayment";
 import { getOrderStatusMessage } from "@/utils/getOrderStatusMessage";
 import { createNotification } from "@/utils/processPayment";
+import { recordOrderEvent } from "@/utils/orderStatusTransition";
+import { AppError } from "@/utils/appError";
+import httpStatus from "http-status";
+import logger from "@/utils/logger";
+import {
+  amountDue,
+  isAllocatedByPreorder,
+  isOpenPreorder,
+} from "@/utils/preorder";
+import {
+  issueGatewayRefund,
+  recordGatewayRefund,
+  submitGatewayRefund,
+} from "@/utils/gatewayRefund";
+import { captureWalletShare, releaseWalletShare } from "@/utils/splitTender";
+import {
+  assertSignedSSLCommerzCallback,
+  ClaimCallback,
+  processSSLCommerzIPN,
+} from "@/utils/paymentCallback";
+import {
+  GATEWAY_NAMES,
+  GatewayMethod,
+  getPaymentProvider,
+  PaymentMethod,
+  PaymentVerification,
+  zPaymentMethod,
+} from "@/utils/paymentProviders";
 
 /**
- * create order payment through wallet or SSLCommerz
+ * create order payment through wallet, cash on delivery or a gateway
  * @param data - Payment processing data
  * @returns Payment result
  */
@@ -27,9 +61,26 @@ export interface PaymentResult {
   success?: boolean;
   message?: string;
   payment?: Payment;
-  redirectUrl?: string; // For SSLCommerz redirect
+  redirectUrl?: string; // For gateway redirects
 }
+// How an order is paid with each payment method
+const paymentProcessors: Record<
+  PaymentMethod,
+  (data: CreatePaymentDto, order: any) => Promise<PaymentResult>
+> = {
+  WALLET: processWalletPayment,
+  COD: processCodPayment,
+  SSLCOMMERZ: (data, order) => processGatewayPayment(data, order, "SSLCOMMERZ"),
+  BKASH: (data, order) => processGatewayPayment(data, order, "BKASH"),
+  NAGAD: (data, order) => processGatewayPayment(data, order, "NAGAD"),
+};
+
+/**
+ * Pay an order of the customer
+ * @param userId - The customer user paying; only their own orders are found
+ */
 export async function createPayment(
+  userId: bigint,
   data: CreatePaymentDto
 ): Promise<PaymentResult> {
   try {
@@ -47,8 +98,8 @@ export async function createPayment(
       },
     });
 
-    if (!order) {
-      throw new Error("Order not found");
+    if (!order || order.customer.userId !== userId) {
+      throw new AppError("Order not found", httpStatus.NOT_FOUND);
     }
 
     if (!["PENDING", "FAILED"].includes(order.paymentStatus)) {
@@ -57,142 +108,283 @@ export async function createPayment(
       );
     }
 
-    if (order.paymentMethod.toUpperCase() === "WALLET") {
-      return await processWalletPayment(data, order);
-    } else if (order.paymentMethod.toUpperCase() === "SSLCOMMERZ") {
-      return await processSSLCommerzPayment(data, order);
-    } else if (order.paymentMethod.toUpperCase() === "COD") {
-      return await processCodPayment(data, order);
-    } else {
+    const method = zPaymentMethod.safeParse(order.paymentMethod);
+    if (!method.success) {
       throw new Error("Invalid payment method");
     }
+    return await paymentProcessors[method.data](data, order);
   } catch (error) {
+    if (error instanceof AppError) {
+      throw error;
+    }
     throw new Error(`Failed to create payment: ${getErrorMessage(error)}`);
   }
 }
 
-export async function handleSSLCommerzSuccess(
-  validationData: any
+/**
+ * Find the payment a gateway reports on, by our transaction ID or the
+ * gateway's session reference
+ */
+async function findGatewayPayment(
+  tx: Prisma.TransactionClient,
+  method: GatewayMethod,
+  reference: Pick<PaymentVerification, "transactionId" | "gatewayReference">
+) {
+  if (!reference.transactionId && !reference.gatewayReference) {
+    throw new Error("Payment reference is missing");
+  }
+  return await tx.payment.findFirst({
+    where: {
+      paymentMethod: method,
+      ...(reference.transactionId
+        ? { transactionId: reference.transactionId }
+        : { gatewayReference: reference.gatewayReference }),
+    },
+  });
+}
+
+/**
+ * Complete a payment the gateway verified and confirm its order
+ * - A payment for an attempt that was given up, e.g. because the order was
+ *   paid from the wallet meanwhile, or whose wallet share is no longer
+ *   held, is refunded through the gateway instead; the payment is accepted
+ *   even if sending the refund fails, which is logged for a retry
+ * @param method - The gateway the payment was made on
+ * @param verification - The gateway's answer, which must be COMPLETED
+ * @param claim - Marks the callback that reported the payment as processed
+ */
+export async function completeGatewayPayment(
+  method: GatewayMethod,
+  verification: PaymentVerification,
+  claim?: ClaimCallback
 ): Promise<PaymentResult> {
-  try {
-    // Validate payment with SSLCommerz  implementation
-    const validation = await validateSSLCommerzPayment(validationData);
-
-    if (["VALID", "VALIDATED"].includes(validation.status)) {
-      // Extract order ID from transaction ID
-      const tranId = validationData.tran_id;
-      const orderIdMatch = tranId.match(/ORDER_(\d+)_/);
-      if (!orderIdMatch) {
-        throw new Error("Invalid transaction ID format");
-      }
+  const gatewayName = GATEWAY_NAMES[method];
+  // Update payment and order in transaction
+  const { lateRefund, ...result } = await runTransaction(async (tx) => {
+    // Check payment status
+    const payment = await findGatewayPayment(tx, method, verification);
+
+    if (!payment) throw new Error("Payment record not found");
+    if (payment.paymentStatus === "COMPLETED") {
+      return {
+        success: true,
+        message: "Payment was already completed successfully",
+      };
+    }
 
-      const orderId = BigInt(orderIdMatch[1]);
+    if (
+      payment.paymentStatus !== "PENDING" &&
+      payment.paymentStatus !== "FAILED"
+    ) {
+      throw new Error(
+        `Cannot complete payment with status: ${payment.paymentStatus}`
+      );
+    }
+    if (!verification.amount || !verification.amount.equals(payment.amount)) {
+      throw new Error(
+        `Paid amount ${
+          verification.amount?.toFixed(2) ?? "unknown"
+        } does not match ${payment.amount.toFixed(2)}`
+      );
+    }
+    if (verification.currency && verification.currency !== "BDT") {
+      throw new Error(`Unexpected payment currency ${verification.currency}`);
+    }
+    if (claim) await claim(tx);
+    // Mark payment as COMPLETED, unless a callback and the reconciliation
+    // job settle it at the same time
+    const { count } = await tx.payment.updateMany({
+      where: {
+        paymentId: payment.paymentId,
+        paymentStatus: payment.paymentStatus,
+      },
+      data: {
+        paymentStatus: "COMPLETED",
+        gatewayReference: verification.gatewayReference,
+        gatewayTransactionId: verification.gatewayTransactionId,
+      },
+    });
+    if (count === 0) {
+      throw new Error("Payment was already settled");
+    }
+    const orderId = payment.orderId;
+    // Fetch the order
+    const order = await tx.order.findUnique({
+      where: { orderId },
+      include: {
+        orderItems: true,
+        customer: {
+          include: {
+            user: true,
+          },
+        },
+      },
+    });
+
+    if (!order) throw new Error("Order not found");
+    // Take the wallet share of a split payment, which must still be held
+    // for the order to be paid in full
+    const paysOrder =
+      payment.paymentStatus === "PENDING" &&
+      order.paymentStatus !== "COMPLETED" &&
+      (await captureWalletShare(
+        orderId,
+        amountDue(order).sub(payment.amount),
+        tx
+      ));
+    // The attempt was given up, the order paid otherwise or the share let
+    // go while the customer was on the gateway, so the money goes back
+    if (!paysOrder) {
+      return {
+        success: true,
+        message: `${gatewayName} payment arrived after the attempt was closed and is refunded`,
+        lateRefund: await recordGatewayRefund(
+          payment.paymentId,
+          { reason: `Late ${gatewayName} payment for Order #${orderId}` },
+          tx
+        ),
+      };
+    }
+    // Open preorders stay pending until the preorder job confirms them
+    const confirmsOrder = order.status === "PENDING" && !isOpenPreorder(order);
+
+    //  Update order
+    const updatedOrder = await tx.order.update({
+      where: { orderId },
+      data: {
+        paymentStatus: "COMPLETED",
+        status: confirmsOrder ? "CONFIRMED" : undefined,
+      },
+    });
+
+    //  Track status change
+    await tx.orderTracking.create({
+      data: {
+        orderId,
+        status: updatedOrder.status,
+        description: confirmsOrder
+          ? `Order confirmed and payment completed via ${gatewayName}`
+          : `Payment completed via ${gatewayName}`,
+      },
+    });
+    if (confirmsOrder) {
+      await recordOrderEvent(
+        {
+          orderId: orderId,
+          fromStatus: order.status,
+          toStatus: "CONFIRMED",
+          actor: "SYSTEM",
+        },
+        tx
+      );
+    }
 
-      // Update payment and order in transaction
-      return await prisma.$transaction(async (tx) => {
-        // Check payment status
-        const payment = await tx.payment.findUnique({
-          where: {
-            orderId: Number(orderId),
-            transactionId: tranId,
+    // Reduce stock and log transaction; preorder stock is taken when
+    // it is allocated
+    const orderItems = isAllocatedByPreorder(order) ? [] : order.orderItems;
+    for (const item of orderItems) {
+      await tx.product.update({
+        where: { productId: item.productId },
+        data: {
+          stockQuantity: {
+            decrement: item.quantity * item.packageSize,
           },
-        });
-
-        if (!payment) throw new Error("Payment record not found");
-        if (payment.paymentStatus === "COMPLETED") {
-          return {
-            success: true,
-            message: "Payment was already completed successfully",
-          };
-        }
+        },
+      });
+
+      await tx.stockTransaction.create({
+        data: {
+          quantity: item.quantity * item.packageSize,
+          transactionType: "OUT",
+          productId: item.productId,
+          orderId,
+          description: `Stock reduced for Order #${orderId} - ${gatewayName} payment`,
+        },
+      });
+    }
+    const message = getOrderStatusMessage(
+      updatedOrder.status,
+      updatedOrder.orderId
+    );
+
+    await createNotification(message, "ORDER", order.customer.userId, tx);
+    return {
+      success: true,
+      message: `${gatewayName} payment completed successfully`,
+    };
+  });
+
+  if (lateRefund) {
+    try {
+      await submitGatewayRefund(lateRefund);
+    } catch (error) {
+      logger.error(
+        `Failed to send refund #${lateRefund.refundId} of a late ${gatewayName} payment:`,
+        error
+      );
+    }
+  }
+  return result;
+}
 
-        if (payment.paymentStatus !== "PENDING") {
+export async function handleSSLCommerzSuccess(
+  ipnData: any
+): Promise<PaymentResult> {
+  try {
+    return await processSSLCommerzIPN(
+      "SSLCOMMERZ_PAYMENT_IPN",
+      ipnData,
+      async (claim) => {
+        // Validate payment with SSLCommerz
+        const verification = await getPaymentProvider("SSLCOMMERZ").validate(
+          ipnData
+        );
+
+        if (verification.status !== "COMPLETED") {
           throw new Error(
-            `Cannot complete payment with status: ${payment.paymentStatus}`
+            `Payment validation failed: ${
+              verification.failedReason || "Unknown validation error"
+            }`
           );
         }
-        // Mark payment as COMPLETED
-        await tx.payment.update({
-          where: { paymentId: payment.paymentId },
-          data: {
-            paymentStatus: "COMPLETED",
-            transactionId: tranId,
-          },
-        });
-        // Fetch the order
-        const order = await tx.order.findUnique({
-          where: { orderId },
-          include: {
-            orderItems: true,
-            customer: {
-              include: {
-                user: true,
-              },
-            },
-          },
-        });
-
-        if (!order) throw new Error("Order not found");
-        //  Update order
-        const updatedOrder = await tx.order.update({
-          where: { orderId },
-          data: {
-            paymentStatus: "COMPLETED",
-            status: "CONFIRMED",
-          },
-        });
-
-        //  Track status change
-        await tx.orderTracking.create({
-          data: {
-            orderId,
-            status: "CONFIRMED",
-            description: "Order confirmed and payment completed via SSLCommerz",
-          },
-        });
-
-        // Reduce stock and log transaction
-        for (const item of order.orderItems) {
-          await tx.product.update({
-            where: { productId: item.productId },
-            data: {
-              stockQuantity: {
-                decrement: item.quantity * item.packageSize,
-              },
-            },
-          });
-
-          await tx.stockTransaction.create({
-            data: {
-              quantity: item.quantity * item.packageSize,
-              transactionType: "OUT",
-              productId: item.productId,
-              orderId,
-              description: `Stock reduced for Order #${orderId} - SSLCommerz payment`,
-            },
-          });
+        if (verification.transactionId !== ipnData.tran_id) {
+          throw new Error("Validated transaction does not match the IPN");
         }
-        const message = getOrderStatusMessage(
-          updatedOrder.status,
-          updatedOrder.orderId
-        );
+        return await completeGatewayPayment("SSLCOMMERZ", verification, claim);
+      }
+    );
+  } catch (error) {
+    if (error instanceof AppError) throw error;
+    throw new Error(
+      `SSLCommerz success handling failed: ${getErrorMessage(error)}`
+    );
+  }
+}
 
-        await createNotification(message, "ORDER", order.customer.userId, tx);
-        return {
-          success: true,
-          message: "SSLCommerz payment completed successfully",
-        };
-      });
-    } else {
-      throw new Error(
-        `Payment validation failed: ${
-          validation.failedreason || "Unknown validation error"
-        }`
-      );
+/**
+ * Settle a payment from the redirect a gateway sends the customer back with
+ * @returns The payment status after the callback
+ */
+export async function handleGatewayCallback(
+  method: GatewayMethod,
+  payload: Record<string, unknown>
+): Promise<PaymentStatus> {
+  try {
+    const verification = await getPaymentProvider(method).validate(payload);
+    if (verification.status === "COMPLETED") {
+      await completeGatewayPayment(method, verification);
+      return "COMPLETED";
     }
+    if (verification.status === "FAILED") {
+      await failGatewayPayment(method, verification);
+      return "FAILED";
+    }
+    return "PENDING";
   } catch (error) {
     throw new Error(
-      `SSLCommerz success handling failed: ${getErrorMessage(error)}`
+      `${GATEWAY_NAMES[method]} callback handling failed: ${getErrorMessage(
+        error
+      )}`
     );
   }
 }
@@ -206,18 +398,12 @@ export async function getOrderPaymentStatus(tranId: string): Promise<{
   orderStatus: string;
 }> {
   try {
-    const orderIdMatch = tranId.match(/ORDER_(\d+)_/);
-    if (!orderIdMatch) {
-      throw new Error("Invalid transaction ID format");
+    if (!tranId) {
+      throw new Error("Transaction ID is required");
     }
 
-    const orderId = Number(orderIdMatch[1]);
-
-    const payment = await prisma.payment.findUnique({
-      where: {
-        orderId,
-        transactionId: tranId,
-      },
+    const payment = await prisma.payment.findFirst({
+      where: { transactionId: tranId },
       include: {
         order: {
           select: {
@@ -233,7 +419,7 @@ export async function getOrderPaymentStatus(tranId: string): Promise<{
     }
 
     return {
-      orderId,
+      orderId: Number(payment.orderId),
       paymentStatus: payment.paymentStatus,
       orderStatus: payment.order.status,
     };
@@ -242,63 +428,75 @@ export async function getOrderPaymentStatus(tranId: string): Promise<{
   }
 }
 /**
- * Handle SSLCommerz payment failure
+ * Mark a gateway payment as failed and tell the customer
+ * @param method - The gateway the payment was made on
+ * @param reference - Our transaction ID or the gateway's session reference
  */
-export async function handleSSLCommerzFailure(failureData: any): Promise<void> {
-  try {
-    // Extract order ID and update payment status
-    const tranId = failureData.tran_id;
-    const orderIdMatch = tranId.match(/ORDER_(\d+)_/);
-    if (!orderIdMatch) {
-      throw new Error("Invalid transaction ID format");
+export async function failGatewayPayment(
+  method: GatewayMethod,
+  reference: Pick<PaymentVerification, "transactionId" | "gatewayReference">
+): Promise<void> {
+  await prisma.$transaction(async (tx) => {
+    // Find the specific payment record
+    const payment = await findGatewayPayment(tx, method, reference);
+
+    if (!payment) {
+      throw new Error(
+        `No matching payment found for ${
+          reference.transactionId ?? reference.gatewayReference
+        }`
+      );
     }
 
-    const orderId = Number(orderIdMatch[1]);
-    await prisma.$transaction(async (tx) => {
-      // Find the specific payment record
-      const payment = await tx.payment.findFirst({
-        where: {
-          orderId,
-          transactionId: tranId,
-        },
-      });
+    if (payment.paymentStatus === "FAILED") {
+      return; // Already failed, nothing to do
+    }
 
-      if (!payment) {
-        throw new Error(`No matching payment found for orderId ${orderId}`);
-      }
+    if (payment.paymentStatus !== "PENDING") {
+      throw new Error(
+        `Cannot mark payment as FAILED — current status is ${payment.paymentStatus}`
+      );
+    }
 
-      if (payment.paymentStatus === "FAILED") {
-        return; // Already failed, nothing to do
-      }
+    // Mark payment as FAILED
+    const { count } = await tx.payment.updateMany({
+      where: { paymentId: payment.paymentId, paymentStatus: "PENDING" },
+      data: { paymentStatus: "FAILED" },
+    });
+    if (count === 0) return; // Settled meanwhile
+    // Give back the wallet share of a split payment
+    await releaseWalletShare(payment.orderId, tx);
+
+    // Update order status if still pending
+    const order = await tx.order.findUnique({
+      where: { orderId: payment.orderId },
+      include: { customer: true },
+    });
 
-      if (payment.paymentStatus !== "PENDING") {
-        throw new Error(
-          `Cannot mark payment as FAILED — current status is ${payment.paymentStatus}`
-        );
-      }
+    if (!order) throw new Error("Order not found");
 
-      // Mark payment as FAILED
-      await tx.payment.update({
-        where: { paymentId: payment.paymentId },
+    if (order && order.paymentStatus === "PENDING") {
+      await tx.order.update({
+        where: { orderId: order.orderId },
         data: { paymentStatus: "FAILED" },
       });
+    }
+    const message = `দুঃখিত! আপনার অর্ডারটি সম্পন্ন করা যায়নি কারণ পেমেন্ট সফল হয়নি। অনুগ্রহ করে আবার চেষ্টা করুন।   (অর্ডার আইডিঃ #${order.orderId})`;
+    await createNotification(message, "ORDER", order.customer.userId, tx);
+  });
+}
 
-      // Update order status if still pending
-      const order = await tx.order.findUnique({
-        where: { orderId },
-        include: { customer: true },
-      });
-
-      if (!order) throw new Error("Order not found");
-
-      if (order && order.paymentStatus === "PENDING") {
-        await tx.order.update({
-          where: { orderId },
-          data: { paymentStatus: "FAILED" },
-        });
-      }
-      const message = `দুঃখিত! আপনার অর্ডারটি সম্পন্ন করা যায়নি কারণ পেমেন্ট সফল হয়নি। অনুগ্রহ করে আবার চেষ্টা করুন।   (অর্ডার আইডিঃ #${order.orderId})`;
-      await createNotification(message, "ORDER", order.customer.userId, tx);
+/**
+ * Handle SSLCommerz payment failure
+ */
+export async function handleSSLCommerzFailure(failureData: any): Promise<void> {
+  try {
+    await assertSignedSSLCommerzCallback(
+      "SSLCOMMERZ_PAYMENT_FAIL",
+      failureData
+    );
+    await failGatewayPayment("SSLCOMMERZ", {
+      transactionId: failureData.tran_id,
     });
   } catch (error) {
     console.error("handleSSLCommerzFailure error:", error);
@@ -399,6 +597,22 @@ export async function updatePayment(
   }
 }
 
+/**
+ * Refund a completed gateway payment, fully or in part
+ */
+export async function refundPayment(
+  paymentId: bigint,
+  data: RefundPaymentDto,
+  requestedByUserId?: bigint
+): Promise<Refund> {
+  try {
+    return await issueGatewayRefund(paymentId, data, requestedByUserId);
+  } catch (error) {
+    if (error instanceof AppError) throw error;
+    throw new Error(`Failed to refund payment: ${getErrorMessage(error)}`);
+  }
+}
+
 /**
  * Delete a payment by its ID
  */
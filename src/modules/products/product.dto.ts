@@ -48,6 +48,22 @@ export const zCreateProductDto = z.object({
       typeof val === "string" ? val.toLowerCase() === "true" : val
     )
     .optional(),
+  maxQuantityPerOrder: z.coerce
+    .number()
+    .int()
+    .positive("Max quantity per order must be a positive integer")
+    .optional(),
+  preorderCap: z.coerce
+    .number()
+    .int()
+    .positive("Preorder cap must be a positive integer")
+    .optional(),
+  preorderDepositPercent: z.coerce
+    .number()
+    .int()
+    .min(1, "Preorder deposit percent must be between 1 and 100")
+    .max(100, "Preorder deposit percent must be between 1 and 100")
+    .optional(),
   preorderAvailabilityDate: z
     .string()
     .refine((val) => !val || !isNaN(Date.parse(val)), {
@@ -150,6 +166,37 @@ export const zUpdateProductDto = z.object({
       return val;
     })
     .optional(),
+  maxQuantityPerOrder: z
+    .preprocess(
+      (val) => (val === "" ? null : val), // Empty value removes the limit
+      z.coerce
+        .number()
+        .int()
+        .positive("Max quantity per order must be a positive integer")
+        .nullable()
+    )
+    .optional(),
+  preorderCap: z
+    .preprocess(
+      (val) => (val === "" ? null : val), // Empty value removes the cap
+      z.coerce
+        .number()
+        .int()
+        .positive("Preorder cap must be a positive integer")
+        .nullable()
+    )
+    .optional(),
+  preorderDepositPercent: z
+    .preprocess(
+      (val) => (val === "" ? null : val), // Empty value removes the deposit
+      z.coerce
+        .number()
+        .int()
+        .min(1, "Preorder deposit percent must be between 1 and 100")
+        .max(100, "Preorder deposit percent must be between 1 and 100")
+        .nullable()
+    )
+    .optional(),
   preorderAvailabilityDate: z
     .string()
     .datetime()
@@ -70,6 +70,9 @@ export async function createProduct(
         reorderLevel: data.reorderLevel ?? 0,
         isSubscription: data.isSubscription ?? false,
         isPreorder: data.isPreorder ?? false,
+        maxQuantityPerOrder: data.maxQuantityPerOrder,
+        preorderCap: data.preorderCap,
+        preorderDepositPercent: data.preorderDepositPercent,
         preorderAvailabilityDate: data.preorderAvailabilityDate,
         imageUrls: [], // Start with empty array
         isPrivateImages: usePrivateBucket, // Store whether images are private
@@ -429,6 +432,9 @@ export async function updateProduct(
         reorderLevel: data.reorderLevel,
         isSubscription: data.isSubscription,
         isPreorder: data.isPreorder,
+        maxQuantityPerOrder: data.maxQuantityPerOrder,
+        preorderCap: data.preorderCap,
+        preorderDepositPercent: data.preorderDepositPercent,
         preorderAvailabilityDate: data.preorderAvailabilityDate,
         imageUrls: data.imageUrls ?? finalImageUrls, // Use provided URLs or processed ones
         isPrivateImages: usePrivateBucket ?? currentProduct.isPrivateImages,
@@ -0,0 +1,212 @@
+import { Request, Response } from "express";
+import * as returnService from "@/modules/returns/return.service";
+import {
+  CreateReturnDto,
+  GetReturnDto,
+  GetReturnsDto,
+  InspectReturnDto,
+  RefundReturnDto,
+  ReviewReturnDto,
+} from "@/modules/returns/return.dto";
+import { ReturnWithItems } from "@/modules/returns/return.interface";
+import httpStatus from "http-status";
+import sendResponse from "@/utils/sendResponse";
+import asyncHandler from "@/utils/asyncHandler";
+import { multerFileToFileObject } from "@/utils/fileUpload/configMulterUpload";
+
+/**
+ * Request a return for a delivered order
+ */
+export const createReturn = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const data = req.body as CreateReturnDto["body"];
+    const files = (req.files as Express.Multer.File[]) ?? [];
+    const returnRequest = await returnService.createReturn(
+      BigInt(req.user?.userId!),
+      data,
+      files.map(multerFileToFileObject)
+    );
+
+    sendResponse<ReturnWithItems>(res, {
+      success: true,
+      statusCode: httpStatus.CREATED,
+      message: "Return requested successfully",
+      data: returnRequest,
+    });
+  }
+);
+
+/**
+ * Get the logged in customer's returns
+ */
+export const getCustomerReturns = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const query = req.query as unknown as GetReturnsDto["query"];
+    const result = await returnService.getReturns(
+      query,
+      BigInt(req.user?.userId!)
+    );
+
+    sendResponse<ReturnWithItems[]>(res, {
+      success: true,
+      statusCode: httpStatus.OK,
+      message: "Returns retrieved successfully",
+      data: result.data,
+      pagination: {
+        currentPage: result.currentPage,
+        totalPages: result.totalPages,
+        totalItems: result.totalCount,
+        itemsPerPage: query.limit,
+        hasNextPage: result.currentPage < result.totalPages,
+        hasPreviousPage: result.currentPage > 1,
+      },
+    });
+  }
+);
+
+/**
+ * Get a return of the logged in customer
+ */
+export const getCustomerReturnById = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const returnId = req.params.id as unknown as GetReturnDto["params"]["id"];
+    const returnRequest = await returnService.getReturnById(
+      returnId,
+      BigInt(req.user?.userId!)
+    );
+
+    sendResponse<ReturnWithItems>(res, {
+      success: true,
+      statusCode: httpStatus.OK,
+      message: "Return retrieved successfully",
+      data: returnRequest,
+    });
+  }
+);
+
+/**
+ * Get all returns
+ */
+export const getAllReturns = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const query = req.query as unknown as GetReturnsDto["query"];
+    const result = await returnService.getReturns(query);
+
+    sendResponse<ReturnWithItems[]>(res, {
+      success: true,
+      statusCode: httpStatus.OK,
+      message: "Returns retrieved successfully",
+      data: result.data,
+      pagination: {
+        currentPage: result.currentPage,
+        totalPages: result.totalPages,
+        totalItems: result.totalCount,
+        itemsPerPage: query.limit,
+        hasNextPage: result.currentPage < result.totalPages,
+        hasPreviousPage: result.currentPage > 1,
+      },
+    });
+  }
+);
+
+/**
+ * Get a return by ID
+ */
+export const getReturnById = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const returnId = req.params.id as unknown as GetReturnDto["params"]["id"];
+    const returnRequest = await returnService.getReturnById(returnId);
+
+    sendResponse<ReturnWithItems>(res, {
+      success: true,
+      statusCode: httpStatus.OK,
+      message: "Return retrieved successfully",
+      data: returnRequest,
+    });
+  }
+);
+
+/**
+ * Approve a return
+ */
+export const approveReturn = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const returnId = req.params
+      .id as unknown as ReviewReturnDto["params"]["id"];
+    const returnRequest = await returnService.approveReturn(
+      returnId,
+      req.body as ReviewReturnDto["body"]
+    );
+
+    sendResponse<ReturnWithItems>(res, {
+      success: true,
+      statusCode: httpStatus.OK,
+      message: "Return approved successfully",
+      data: returnRequest,
+    });
+  }
+);
+
+/**
+ * Reject a return
+ */
+export const rejectReturn = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const returnId = req.params
+      .id as unknown as ReviewReturnDto["params"]["id"];
+    const returnRequest = await returnService.rejectReturn(
+      returnId,
+      req.body as ReviewReturnDto["body"]
+    );
+
+    sendResponse<ReturnWithItems>(res, {
+      success: true,
+      statusCode: httpStatus.OK,
+      message: "Return rejected successfully",
+      data: returnRequest,
+    });
+  }
+);
+
+/**
+ * Record the inspection of returned goods
+ */
+export const inspectReturn = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const returnId = req.params
+      .id as unknown as InspectReturnDto["params"]["id"];
+    const returnRequest = await returnService.inspectReturn(
+      returnId,
+      req.body as InspectReturnDto["body"]
+    );
+
+    sendResponse<ReturnWithItems>(res, {
+      success: true,
+      statusCode: httpStatus.OK,
+      message: "Return inspected successfully",
+      data: returnRequest,
+    });
+  }
+);
+
+/**
+ * Refund an inspected return
+ */
+export const refundReturn = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const returnId = req.params
+      .id as unknown as RefundReturnDto["params"]["id"];
+    const returnRequest = await returnService.refundReturn(
+      returnId,
+      req.body as RefundReturnDto["body"],
+      req.user?.userId ? BigInt(req.user.userId) : undefined
+    );
+
+    sendResponse<ReturnWithItems>(res, {
+      success: true,
+      statusCode: httpStatus.OK,
+      message: "Return refunded successfully",
+      data: returnRequest,
+    });
+  }
+);
@@ -0,0 +1,156 @@
+/**
+ * Data Transfer Objects (DTOs) for the Return entity
+ * These schemas define the expected shape of data when requesting and processing returns.
+ */
+import { ReturnRefundMethod, ReturnStatus } from "@/generated/prisma/client";
+import { z } from "zod";
+
+/**
+ * Returns a Zod schema for a positive integer ID, with the given field name used
+ * for error messages.
+ * @param fieldName The name of the field, used for error messages.
+ * @returns A Zod schema for a positive integer ID.
+ */
+const zBigIntId = (fieldName: string) =>
+  z
+    .union([z.string(), z.number()])
+    .refine((val) => val !== "", { message: `${fieldName} is required` })
+    .transform((val) => BigInt(val))
+    .refine((val) => val > 0n, {
+      message: `${fieldName} must be a positive integer`,
+    });
+
+/**
+ * Parses a JSON encoded multipart field, leaving other values untouched.
+ */
+const parseJsonField = (val: unknown) => {
+  if (typeof val !== "string") return val;
+  try {
+    return JSON.parse(val);
+  } catch {
+    return val;
+  }
+};
+
+const zReturnIdParams = z.object({
+  id: zBigIntId("Return ID"),
+});
+
+/**
+ * Zod schema for requesting a return.
+ * Sent as multipart form data, with `items` as a JSON encoded array and photos as files.
+ */
+export const zCreateReturnDto = {
+  body: z.object({
+    orderId: zBigIntId("Order ID"),
+    reason: z.string().min(1, "Reason is required").max(500),
+    items: z.preprocess(
+      parseJsonField,
+      z
+        .array(
+          z.object({
+            orderItemId: zBigIntId("Order item ID"),
+            quantity: z.coerce
+              .number()
+              .int()
+              .positive("Quantity must be a positive integer"),
+          })
+        )
+        .min(1, "At least one item is required")
+    ),
+  }),
+};
+type CreateReturnBodyDto = z.infer<typeof zCreateReturnDto.body>;
+export type CreateReturnDto = {
+  body: CreateReturnBodyDto;
+};
+
+/**
+ * Zod schema for fetching a single return.
+ */
+export const zGetReturnDto = {
+  params: zReturnIdParams,
+};
+type GetReturnParamsDto = z.infer<typeof zGetReturnDto.params>;
+export type GetReturnDto = {
+  params: GetReturnParamsDto;
+};
+
+/**
+ * Zod schema for listing returns.
+ */
+export const zGetReturnsDto = {
+  query: z.object({
+    page: z.coerce.number().int().positive().default(1),
+    limit: z.coerce.number().int().positive().max(100).default(10),
+    status: z.nativeEnum(ReturnStatus).optional(),
+    orderId: zBigIntId("Order ID").optional(),
+  }),
+};
+type GetReturnsQueryDto = z.infer<typeof zGetReturnsDto.query>;
+export type GetReturnsDto = {
+  query: GetReturnsQueryDto;
+};
+
+/**
+ * Zod schema for approving or rejecting a return.
+ */
+export const zReviewReturnDto = {
+  params: zReturnIdParams,
+  body: z.object({
+    adminNote: z.string().max(500).optional(),
+  }),
+};
+type ReviewReturnParamsDto = z.infer<typeof zReviewReturnDto.params>;
+type ReviewReturnBodyDto = z.infer<typeof zReviewReturnDto.body>;
+export type ReviewReturnDto = {
+  params: ReviewReturnParamsDto;
+  body: ReviewReturnBodyDto;
+};
+
+/**
+ * Zod schema for recording the inspection of returned goods.
+ * Items not listed are treated as not received.
+ */
+export const zInspectReturnDto = {
+  params: zReturnIdParams,
+  body: z.object({
+    items: z
+      .array(
+        z.object({
+          returnItemId: zBigIntId("Return item ID"),
+          acceptedQuantity: z.coerce
+            .number()
+            .int()
+            .nonnegative("Accepted quantity must be non-negative"),
+          restock: z.boolean().default(true),
+        })
+      )
+      .min(1, "At least one item is required"),
+    adminNote: z.string().max(500).optional(),
+  }),
+};
+type InspectReturnParamsDto = z.infer<typeof zInspectReturnDto.params>;
+type InspectReturnBodyDto = z.infer<typeof zInspectReturnDto.body>;
+export type InspectReturnDto = {
+  params: InspectReturnParamsDto;
+  body: InspectReturnBodyDto;
+};
+
+/**
+ * Zod schema for refunding an inspected return.
+ * Gateway refunds are issued through the order's gateway payment.
+ */
+export const zRefundReturnDto = {
+  params: zReturnIdParams,
+  body: z.object({
+    refundMethod: z.nativeEnum(ReturnRefundMethod),
+    refundReference: z.string().min(1).optional(),
+  }),
+};
+type RefundReturnParamsDto = z.infer<typeof zRefundReturnDto.params>;
+type RefundReturnBodyDto = z.infer<typeof zRefundReturnDto.body>;
+export type RefundReturnDto = {
+  params: RefundReturnParamsDto;
+  body: RefundReturnBodyDto;
+};
@@ -0,0 +1,13 @@
+import { Return, ReturnItem } from "@/generated/prisma/client";
+
+export type ReturnWithItems = Return & {
+  returnItems: ReturnItem[];
+  accessiblePhotoUrls?: string[];
+};
+
+export interface IGetReturnsResult {
+  data: ReturnWithItems[];
+  currentPage: number;
+  totalPages: number;
+  totalCount: number;
+}
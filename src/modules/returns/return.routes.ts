@@ -0,0 +1,104 @@
+/**
+ * Routes for Return entity operations.
+ * Defines API endpoints for customer return requests and their admin processing.
+ */
+import { Router } from "express";
+import * as ReturnController from "@/modules/returns/return.controller";
+import { authMiddleware, authorizeRoles } from "@/middlewares/auth";
+import { UserRole } from "@/generated/prisma/client";
+import validator from "@/middlewares/validator";
+import { upload } from "@/utils/fileUpload/configMulterUpload";
+import {
+  zCreateReturnDto,
+  zGetReturnDto,
+  zGetReturnsDto,
+  zInspectReturnDto,
+  zRefundReturnDto,
+  zReviewReturnDto,
+} from "@/modules/returns/return.dto";
+
+const router = Router();
+
+// Route to request a return with photos
+router.post(
+  "/",
+  authMiddleware,
+  authorizeRoles(UserRole.CUSTOMER),
+  upload.array("photos", 5),
+  validator(zCreateReturnDto),
+  ReturnController.createReturn
+);
+
+// Route to get the customer's returns
+router.get(
+  "/me",
+  authMiddleware,
+  authorizeRoles(UserRole.CUSTOMER),
+  validator(zGetReturnsDto),
+  ReturnController.getCustomerReturns
+);
+
+// Route to get one of the customer's returns
+router.get(
+  "/me/:id",
+  authMiddleware,
+  authorizeRoles(UserRole.CUSTOMER),
+  validator(zGetReturnDto),
+  ReturnController.getCustomerReturnById
+);
+
+// Route to get all returns
+router.get(
+  "/",
+  authMiddleware,
+  authorizeRoles(UserRole.ADMIN, UserRole.SUPER_ADMIN),
+  validator(zGetReturnsDto),
+  ReturnController.getAllReturns
+);
+
+// Route to get a return by ID
+router.get(
+  "/:id",
+  authMiddleware,
+  authorizeRoles(UserRole.ADMIN, UserRole.SUPER_ADMIN),
+  validator(zGetReturnDto),
+  ReturnController.getReturnById
+);
+
+// Route to approve a return
+router.patch(
+  "/:id/approve",
+  authMiddleware,
+  authorizeRoles(UserRole.ADMIN, UserRole.SUPER_ADMIN),
+  validator(zReviewReturnDto),
+  ReturnController.approveReturn
+);
+
+// Route to reject a return
+router.patch(
+  "/:id/reject",
+  authMiddleware,
+  authorizeRoles(UserRole.ADMIN, UserRole.SUPER_ADMIN),
+  validator(zReviewReturnDto),
+  ReturnController.rejectReturn
+);
+
+// Route to record the inspection of returned goods
+router.patch(
+  "/:id/inspect",
+  authMiddleware,
+  authorizeRoles(UserRole.ADMIN, UserRole.SUPER_ADMIN),
+  validator(zInspectReturnDto),
+  ReturnController.inspectReturn
+);
+
+// Route to refund an inspected return
+router.patch(
+  "/:id/refund",
+  authMiddleware,
+  authorizeRoles(UserRole.ADMIN, UserRole.SUPER_ADMIN),
+  validator(zRefundReturnDto),
+  ReturnController.refundReturn
+);
+
+export default router;
@@ -0,0 +1,568 @@
+/**
+ * Service layer for Return entity operations.
+ * Contains business logic and database interactions for return requests (RMA).
+ */
+import prisma from "@/prisma-client/prismaClient";
+import {
+  OrderItem,
+  Prisma,
+  Product,
+  ReturnStatus,
+} from "@/generated/prisma/client";
+import { Decimal } from "@/generated/prisma/client/runtime/library";
+import { AppError } from "@/utils/appError";
+import httpStatus from "http-status";
+import {
+  CreateReturnDto,
+  GetReturnsDto,
+  InspectReturnDto,
+  RefundReturnDto,
+  ReviewReturnDto,
+} from "@/modules/returns/return.dto";
+import {
+  IGetReturnsResult,
+  ReturnWithItems,
+} from "@/modules/returns/return.interface";
+import {
+  deleteMultipleFilesFromS3,
+  getBatchAccessibleImageUrls,
+  uploadFileToS3,
+} from "@/utils/fileUpload/s3Aws";
+import { createNotification } from "@/utils/processPayment";
+import { refundToWallet } from "@/utils/processRefund";
+import { issueGatewayRefund, toGatewayMethod } from "@/utils/gatewayRefund";
+
+const HOUR_IN_MS = 60 * 60 * 1000;
+
+const returnInclude = {
+  returnItems: true,
+  customer: { select: { userId: true } },
+} satisfies Prisma.ReturnInclude;
+
+/**
+ * Add accessible photo URLs to a return
+ */
+async function withAccessiblePhotos<T extends ReturnWithItems>(
+  returnRequest: T
+): Promise<T> {
+  const accessiblePhotoUrls =
+    returnRequest.photoUrls.length > 0
+      ? await getBatchAccessibleImageUrls(
+          returnRequest.photoUrls,
+          returnRequest.isPrivatePhotos,
+          300
+        )
+      : [];
+  return { ...returnRequest, accessiblePhotoUrls };
+}
+
+/**
+ * Find a return in the expected status
+ * @throws AppError if the return does not exist or is in another status
+ */
+async function getReturnInStatus(
+  returnId: bigint,
+  allowedStatuses: ReturnStatus[],
+  tx: Prisma.TransactionClient = prisma
+) {
+  const returnRequest = await tx.return.findUnique({
+    where: { returnId },
+    include: {
+      returnItems: { include: { orderItem: true } },
+      customer: true,
+    },
+  });
+  if (!returnRequest) {
+    throw new AppError("Return not found", httpStatus.NOT_FOUND);
+  }
+  if (!allowedStatuses.includes(returnRequest.status)) {
+    throw new AppError(
+      `Return is ${returnRequest.status} and cannot be updated`,
+      httpStatus.BAD_REQUEST
+    );
+  }
+  return returnRequest;
+}
+
+/**
+ * Move a return out of the status it was read in, unless another admin
+ * updated it first
+ * @throws AppError if the return is no longer in that status
+ */
+async function moveReturnStatus(
+  returnId: bigint,
+  fromStatus: ReturnStatus,
+  data: Prisma.ReturnUpdateManyMutationInput,
+  tx: Prisma.TransactionClient
+): Promise<void> {
+  const { count } = await tx.return.updateMany({
+    where: { returnId, status: fromStatus },
+    data,
+  });
+  if (count === 0) {
+    throw new AppError("Return was already updated", httpStatus.CONFLICT);
+  }
+}
+
+/**
+ * Check the requested quantities against what was ordered minus the
+ * quantities of earlier returns which are not rejected
+ * @throws AppError if an item would be returned more often than ordered
+ */
+async function assertReturnableQuantities(
+  orderItems: (OrderItem & { product: Product })[],
+  items: { orderItemId: bigint; quantity: number }[],
+  tx: Prisma.TransactionClient
+): Promise<void> {
+  const openReturnItems = await tx.returnItem.groupBy({
+    by: ["orderItemId"],
+    where: {
+      orderItemId: { in: items.map((item) => item.orderItemId) },
+      return: { status: { not: "REJECTED" } },
+    },
+    _sum: { quantity: true },
+  });
+
+  for (const item of items) {
+    const orderItem = orderItems.find(
+      (orderItem) => orderItem.orderItemId === item.orderItemId
+    )!;
+    const alreadyRequested =
+      openReturnItems.find((row) => row.orderItemId === item.orderItemId)?._sum
+        .quantity ?? 0;
+    if (alreadyRequested + item.quantity > orderItem.quantity) {
+      throw new AppError(
+        `Cannot return more than ${
+          orderItem.quantity - alreadyRequested
+        } of product ${orderItem.product.name}`,
+        httpStatus.BAD_REQUEST
+      );
+    }
+  }
+}
+
+/**
+ * Request a return for a delivered order
+ * - Every item must still be inside its category's return window
+ * - Quantities are limited to what was ordered minus earlier open returns
+ * @param userId - The ID of the logged in customer user
+ * @param data - Order, reason and items to return
+ * @param photos - Photos of the goods, stored in the private bucket
+ */
+export async function createReturn(
+  userId: bigint,
+  data: CreateReturnDto["body"],
+  photos: File[]
+): Promise<ReturnWithItems> {
+  if (photos.length === 0) {
+    throw new AppError(
+      "At least one photo is required",
+      httpStatus.BAD_REQUEST
+    );
+  }
+
+  const order = await prisma.order.findUnique({
+    where: { orderId: data.orderId },
+    include: {
+      customer: true,
+      orderItems: { include: { product: { include: { category: true } } } },
+      orderTracking: {
+        where: { status: "DELIVERED" },
+        orderBy: { createdAt: "desc" },
+        take: 1,
+      },
+    },
+  });
+  if (!order || order.customer.userId !== userId) {
+    throw new AppError("Order not found", httpStatus.NOT_FOUND);
+  }
+  if (order.status !== "DELIVERED") {
+    throw new AppError(
+      "Only delivered orders can be returned",
+      httpStatus.BAD_REQUEST
+    );
+  }
+
+  const deliveredAt = order.orderTracking[0]?.createdAt ?? order.updatedAt;
+  const hoursSinceDelivery = (Date.now() - deliveredAt.getTime()) / HOUR_IN_MS;
+
+  const returnItems = data.items.map((item) => {
+    const orderItem = order.orderItems.find(
+      (orderItem) => orderItem.orderItemId === item.orderItemId
+    );
+    if (!orderItem) {
+      throw new AppError(
+        `Order item ${item.orderItemId} does not belong to this order`,
+        httpStatus.BAD_REQUEST
+      );
+    }
+
+    const { product } = orderItem;
+    if (hoursSinceDelivery > product.category.returnWindowHours) {
+      throw new AppError(
+        `Return window has expired for product ${product.name}`,
+        httpStatus.BAD_REQUEST
+      );
+    }
+
+    return {
+      orderItemId: orderItem.orderItemId,
+      productId: orderItem.productId,
+      quantity: item.quantity,
+    };
+  });
+
+  // Upload photos before creating the return, rolled back on failure
+  const uploadedPhotos = await Promise.all(
+    photos.map((photo) =>
+      uploadFileToS3(photo, `returns/${order.orderId}`, undefined, true)
+    )
+  );
+
+  try {
+    const returnRequest = await prisma.$transaction(async (tx) => {
+      // Lock the order so concurrent requests see each other's quantities
+      await tx.$queryRaw`SELECT 1 FROM "Order" WHERE "orderId" = ${order.orderId} FOR UPDATE`;
+      await assertReturnableQuantities(order.orderItems, returnItems, tx);
+
+      const created = await tx.return.create({
+        data: {
+          reason: data.reason,
+          photoUrls: uploadedPhotos.map((photo) => photo.url),
+          isPrivatePhotos: true,
+          orderId: order.orderId,
+          customerId: order.customerId,
+          returnItems: { create: returnItems },
+        },
+        include: returnInclude,
+      });
+
+      const message = `আপনার রিটার্ন অনুরোধটি গ্রহণ করা হয়েছে। আমরা শীঘ্রই এটি পর্যালোচনা করব। (অর্ডার আইডিঃ #${order.orderId})`;
+      await createNotification(message, "ORDER", userId, tx);
+      return created;
+    });
+    return await withAccessiblePhotos(returnRequest);
+  } catch (error) {
+    await deleteMultipleFilesFromS3(
+      uploadedPhotos.map((photo) => photo.key),
+      true
+    );
+    throw error;
+  }
+}
+
+/**
+ * Retrieve returns with pagination
+ * @param query - Pagination and filters
+ * @param userId - When set, only returns of this customer user are listed
+ */
+export async function getReturns(
+  query: GetReturnsDto["query"],
+  userId?: bigint
+): Promise<IGetReturnsResult> {
+  const { page, limit, status, orderId } = query;
+  const whereClause: Prisma.ReturnWhereInput = {
+    ...(status && { status }),
+    ...(orderId && { orderId }),
+    ...(userId && { customer: { userId } }),
+  };
+
+  const [returns, totalCount] = await Promise.all([
+    prisma.return.findMany({
+      where: whereClause,
+      include: returnInclude,
+      take: limit,
+      skip: (page - 1) * limit,
+      orderBy: { createdAt: "desc" },
+    }),
+    prisma.return.count({ where: whereClause }),
+  ]);
+
+  return {
+    data: await Promise.all(returns.map(withAccessiblePhotos)),
+    currentPage: page,
+    totalPages: Math.ceil(totalCount / limit),
+    totalCount,
+  };
+}
+
+/**
+ * Retrieve a return by its ID
+ * @param returnId - The ID of the return
+ * @param userId - When set, the return must belong to this customer user
+ */
+export async function getReturnById(
+  returnId: bigint,
+  userId?: bigint
+): Promise<ReturnWithItems> {
+  const returnRequest = await prisma.return.findUnique({
+    where: { returnId },
+    include: returnInclude,
+  });
+  if (
+    !returnRequest ||
+    (userId !== undefined && returnRequest.customer.userId !== userId)
+  ) {
+    throw new AppError("Return not found", httpStatus.NOT_FOUND);
+  }
+  return await withAccessiblePhotos(returnRequest);
+}
+
+/**
+ * Approve a requested return, the customer can then send the goods back
+ */
+export async function approveReturn(
+  returnId: bigint,
+  data: ReviewReturnDto["body"]
+): Promise<ReturnWithItems> {
+  return await prisma.$transaction(async (tx) => {
+    const returnRequest = await getReturnInStatus(returnId, ["REQUESTED"], tx);
+    const approved = await tx.return.update({
+      where: { returnId },
+      data: {
+        status: "APPROVED",
+        adminNote: data.adminNote,
+        approvedAt: new Date(),
+      },
+      include: returnInclude,
+    });
+
+    const message = `আপনার রিটার্ন অনুরোধটি অনুমোদিত হয়েছে। অনুগ্রহ করে পণ্যটি ফেরত পাঠান। (অর্ডার আইডিঃ #${returnRequest.orderId})`;
+    await createNotification(
+      message,
+      "ORDER",
+      returnRequest.customer.userId,
+      tx
+    );
+    return approved;
+  });
+}
+
+/**
+ * Reject a return which has not been inspected yet
+ */
+export async function rejectReturn(
+  returnId: bigint,
+  data: ReviewReturnDto["body"]
+): Promise<ReturnWithItems> {
+  return await prisma.$transaction(async (tx) => {
+    const returnRequest = await getReturnInStatus(
+      returnId,
+      ["REQUESTED", "APPROVED"],
+      tx
+    );
+    const rejected = await tx.return.update({
+      where: { returnId },
+      data: {
+        status: "REJECTED",
+        adminNote: data.adminNote,
+        rejectedAt: new Date(),
+      },
+      include: returnInclude,
+    });
+
+    const message = `দুঃখিত, আপনার রিটার্ন অনুরোধটি গ্রহণ করা যায়নি। বিস্তারিত জানতে আমাদের সাপোর্ট টিমের সাথে যোগাযোগ করুন। (অর্ডার আইডিঃ #${returnRequest.orderId})`;
+    await createNotification(
+      message,
+      "ORDER",
+      returnRequest.customer.userId,
+      tx
+    );
+    return rejected;
+  });
+}
+
+/**
+ * Record the inspection of returned goods
+ * - Restocks accepted, resellable packages with a RETURN stock transaction
+ * - Computes the refund amount from the charged price of accepted packages
+ */
+export async function inspectReturn(
+  returnId: bigint,
+  data: InspectReturnDto["body"]
+): Promise<ReturnWithItems> {
+  return await prisma.$transaction(async (tx) => {
+    const returnRequest = await getReturnInStatus(returnId, ["APPROVED"], tx);
+    // Claim the inspection first, so the goods are restocked only once
+    await moveReturnStatus(
+      returnId,
+      "APPROVED",
+      {
+        status: "RECEIVED",
+        adminNote: data.adminNote ?? returnRequest.adminNote,
+        receivedAt: new Date(),
+      },
+      tx
+    );
+
+    let refundAmount = new Decimal(0);
+    for (const returnItem of returnRequest.returnItems) {
+      const inspected = data.items.find(
+        (item) => item.returnItemId === returnItem.returnItemId
+      );
+      const acceptedQuantity = inspected?.acceptedQuantity ?? 0;
+      const restock = inspected?.restock ?? false;
+      if (acceptedQuantity > returnItem.quantity) {
+        throw new AppError(
+          `Accepted quantity exceeds returned quantity for item ${returnItem.returnItemId}`,
+          httpStatus.BAD_REQUEST
+        );
+      }
+
+      await tx.returnItem.update({
+        where: { returnItemId: returnItem.returnItemId },
+        data: { acceptedQuantity, restock },
+      });
+
+      const { orderItem } = returnItem;
+      refundAmount = refundAmount.add(
+        orderItem.subtotal.div(orderItem.quantity).mul(acceptedQuantity)
+      );
+
+      if (restock && acceptedQuantity > 0) {
+        const stockQuantity = acceptedQuantity * orderItem.packageSize;
+        await tx.product.update({
+          where: { productId: returnItem.productId },
+          data: { stockQuantity: { increment: stockQuantity } },
+        });
+        await tx.stockTransaction.create({
+          data: {
+            quantity: stockQuantity,
+            transactionType: "RETURN",
+            productId: returnItem.productId,
+            orderId: returnRequest.orderId,
+            description: `Stock returned for Return #${returnId} of Order #${returnRequest.orderId}`,
+          },
+        });
+      }
+    }
+
+    return await tx.return.update({
+      where: { returnId },
+      data: { refundAmount: refundAmount.toDecimalPlaces(2) },
+      include: returnInclude,
+    });
+  });
+}
+
+/**
+ * Refund an inspected return to the gateway payment of its order
+ * - The return is marked REFUNDED before the gateway is called, so it is
+ *   refunded only once, and put back to RECEIVED if the gateway fails
+ * - The customer is notified once the gateway completes the refund
+ * @throws AppError if the order has no completed gateway payment
+ */
+async function refundReturnToGateway(
+  returnId: bigint,
+  requestedByUserId?: bigint
+): Promise<ReturnWithItems> {
+  const { returnRequest, payment } = await prisma.$transaction(async (tx) => {
+    const returnRequest = await getReturnInStatus(returnId, ["RECEIVED"], tx);
+    const payments = await tx.payment.findMany({
+      where: { orderId: returnRequest.orderId, paymentStatus: "COMPLETED" },
+      orderBy: { paymentId: "asc" },
+    });
+    const payment = payments.find((payment) =>
+      toGatewayMethod(payment.paymentMethod)
+    );
+    if (!payment) {
+      throw new AppError(
+        "Order was not paid through a payment gateway, refund it to the wallet instead",
+        httpStatus.BAD_REQUEST
+      );
+    }
+
+    const { count } = await tx.return.updateMany({
+      where: { returnId, status: "RECEIVED" },
+      data: {
+        status: "REFUNDED",
+        refundMethod: "GATEWAY",
+        refundedAt: new Date(),
+      },
+    });
+    if (count === 0) {
+      throw new AppError(
+        "Return is already being refunded",
+        httpStatus.CONFLICT
+      );
+    }
+    return { returnRequest, payment };
+  });
+
+  const refundAmount = returnRequest.refundAmount ?? new Decimal(0);
+  let refundReference: string | undefined;
+  if (refundAmount.greaterThan(0)) {
+    try {
+      const refund = await issueGatewayRefund(
+        payment.paymentId,
+        {
+          amount: refundAmount.toNumber(),
+          reason: `Refund for Return #${returnId} of Order #${returnRequest.orderId}`,
+        },
+        requestedByUserId
+      );
+      refundReference = `REFUND_${refund.refundId}`;
+    } catch (error) {
+      await prisma.return.update({
+        where: { returnId },
+        data: { status: "RECEIVED", refundMethod: null, refundedAt: null },
+      });
+      throw error;
+    }
+  }
+
+  return await prisma.return.update({
+    where: { returnId },
+    data: { refundReference },
+    include: returnInclude,
+  });
+}
+
+/**
+ * Refund an inspected return
+ * - WALLET credits the refund amount to the customer's wallet
+ * - GATEWAY refunds the order's gateway payment through its provider
+ */
+export async function refundReturn(
+  returnId: bigint,
+  data: RefundReturnDto["body"],
+  requestedByUserId?: bigint
+): Promise<ReturnWithItems> {
+  if (data.refundMethod === "GATEWAY") {
+    return await refundReturnToGateway(returnId, requestedByUserId);
+  }
+
+  return await prisma.$transaction(async (tx) => {
+    const returnRequest = await getReturnInStatus(returnId, ["RECEIVED"], tx);
+    // Claim the refund first, so the wallet is credited only once
+    await moveReturnStatus(
+      returnId,
+      "RECEIVED",
+      {
+        status: "REFUNDED",
+        refundMethod: data.refundMethod,
+        refundedAt: new Date(),
+      },
+      tx
+    );
+    const refundAmount = returnRequest.refundAmount ?? new Decimal(0);
+
+    let refundReference = data.refundReference;
+    if (refundAmount.greaterThan(0)) {
+      const walletTransaction = await refundToWallet(
+        returnRequest.customer,
+        refundAmount,
+        returnRequest.orderId,
+        `Refund for Return #${returnId} of Order #${returnRequest.orderId}`,
+        tx
+      );
+      refundReference = `WALLET_TRANSACTION_${walletTransaction.transactionId}`;
+    }
+
+    return await tx.return.update({
+      where: { returnId },
+      data: { refundReference },
+      include: returnInclude,
+    });
+  });
+}
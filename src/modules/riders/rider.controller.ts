@@ -0,0 +1,251 @@
+import { Request, Response } from "express";
+import * as riderService from "@/modules/riders/rider.service";
+import {
+  AssignDeliveriesDto,
+  CreateRiderDto,
+  DeliverStopDto,
+  GetCodCollectionsDto,
+  GetMyCodCollectionsDto,
+  GetRiderStopsDto,
+  GetRidersDto,
+  RiderStopDto,
+  SettleCodDto,
+  UpdateRiderDto,
+} from "@/modules/riders/rider.dto";
+import {
+  CodSettlementWithAssignments,
+  ICodCollections,
+  RiderStop,
+  RiderWithUser,
+} from "@/modules/riders/rider.interface";
+import httpStatus from "http-status";
+import sendResponse from "@/utils/sendResponse";
+import asyncHandler from "@/utils/asyncHandler";
+import { multerFileToFileObject } from "@/utils/fileUpload/configMulterUpload";
+
+/**
+ * Create a rider
+ */
+export const createRider = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const data = req.body as CreateRiderDto["body"];
+    const rider = await riderService.createRider(data);
+
+    sendResponse<RiderWithUser>(res, {
+      success: true,
+      statusCode: httpStatus.CREATED,
+      message: "Rider created successfully",
+      data: rider,
+    });
+  }
+);
+
+/**
+ * Get all riders
+ */
+export const getRiders = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const query = req.query as unknown as GetRidersDto["query"];
+    const result = await riderService.getRiders(query);
+
+    sendResponse<RiderWithUser[]>(res, {
+      success: true,
+      statusCode: httpStatus.OK,
+      message: "Riders retrieved successfully",
+      data: result.data,
+      pagination: {
+        currentPage: result.currentPage,
+        totalPages: result.totalPages,
+        totalItems: result.totalCount,
+        itemsPerPage: query.limit,
+        hasNextPage: result.currentPage < result.totalPages,
+        hasPreviousPage: result.currentPage > 1,
+      },
+    });
+  }
+);
+
+/**
+ * Update a rider
+ */
+export const updateRider = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const riderId = req.params.id as unknown as UpdateRiderDto["params"]["id"];
+    const data = req.body as UpdateRiderDto["body"];
+    const rider = await riderService.updateRider(riderId, data);
+
+    sendResponse<RiderWithUser>(res, {
+      success: true,
+      statusCode: httpStatus.OK,
+      message: "Rider updated successfully",
+      data: rider,
+    });
+  }
+);
+
+/**
+ * Assign orders and subscription deliveries to a rider
+ */
+export const assignDeliveries = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const riderId = req.params
+      .id as unknown as AssignDeliveriesDto["params"]["id"];
+    const data = req.body as AssignDeliveriesDto["body"];
+    const stops = await riderService.assignDeliveries(
+      riderId,
+      data,
+      BigInt(req.user?.userId!)
+    );
+
+    sendResponse<RiderStop[]>(res, {
+      success: true,
+      statusCode: httpStatus.OK,
+      message: "Deliveries assigned successfully",
+      data: stops,
+    });
+  }
+);
+
+/**
+ * Get the COD cash collected by a rider
+ */
+export const getCodCollections = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const riderId = req.params
+      .id as unknown as GetCodCollectionsDto["params"]["id"];
+    const query = req.query as unknown as GetCodCollectionsDto["query"];
+    const collections = await riderService.getCodCollections(
+      riderId,
+      query.date
+    );
+
+    sendResponse<ICodCollections>(res, {
+      success: true,
+      statusCode: httpStatus.OK,
+      message: "COD collections retrieved successfully",
+      data: collections,
+    });
+  }
+);
+
+/**
+ * Settle the COD cash a rider hands in
+ */
+export const settleCod = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const riderId = req.params.id as unknown as SettleCodDto["params"]["id"];
+    const data = req.body as SettleCodDto["body"];
+    const settlement = await riderService.settleCod(
+      riderId,
+      data,
+      BigInt(req.user?.userId!)
+    );
+
+    sendResponse<CodSettlementWithAssignments>(res, {
+      success: true,
+      statusCode: httpStatus.CREATED,
+      message: "COD settled successfully",
+      data: settlement,
+    });
+  }
+);
+
+/**
+ * Get the logged in rider's stops
+ */
+export const getMyStops = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const query = req.query as unknown as GetRiderStopsDto["query"];
+    const result = await riderService.getRiderStops(
+      BigInt(req.user?.userId!),
+      query
+    );
+
+    sendResponse<RiderStop[]>(res, {
+      success: true,
+      statusCode: httpStatus.OK,
+      message: "Stops retrieved successfully",
+      data: result.data,
+      pagination: {
+        currentPage: result.currentPage,
+        totalPages: result.totalPages,
+        totalItems: result.totalCount,
+        itemsPerPage: query.limit,
+        hasNextPage: result.currentPage < result.totalPages,
+        hasPreviousPage: result.currentPage > 1,
+      },
+    });
+  }
+);
+
+/**
+ * Mark a stop as picked up
+ */
+export const pickUpStop = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const assignmentId = req.params
+      .id as unknown as RiderStopDto["params"]["id"];
+    const stop = await riderService.pickUpStop(
+      BigInt(req.user?.userId!),
+      assignmentId
+    );
+
+    sendResponse<RiderStop>(res, {
+      success: true,
+      statusCode: httpStatus.OK,
+      message: "Stop picked up successfully",
+      data: stop,
+    });
+  }
+);
+
+/**
+ * Mark a stop as delivered with a proof photo or signature
+ */
+export const deliverStop = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const assignmentId = req.params
+      .id as unknown as DeliverStopDto["params"]["id"];
+    const data = req.body as DeliverStopDto["body"];
+    const files =
+      (req.files as Record<string, Express.Multer.File[]> | undefined) ?? {};
+    const photo = files.photo?.[0];
+    const signature = files.signature?.[0];
+    const stop = await riderService.deliverStop(
+      BigInt(req.user?.userId!),
+      assignmentId,
+      data,
+      {
+        photo: photo && multerFileToFileObject(photo),
+        signature: signature && multerFileToFileObject(signature),
+      }
+    );
+
+    sendResponse<RiderStop>(res, {
+      success: true,
+      statusCode: httpStatus.OK,
+      message: "Stop delivered successfully",
+      data: stop,
+    });
+  }
+);
+
+/**
+ * Get the COD cash collected by the logged in rider
+ */
+export const getMyCodCollections = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const query = req.query as unknown as GetMyCodCollectionsDto["query"];
+    const collections = await riderService.getMyCodCollections(
+      BigInt(req.user?.userId!),
+      query.date
+    );
+
+    sendResponse<ICodCollections>(res, {
+      success: true,
+      statusCode: httpStatus.OK,
+      message: "COD collections retrieved successfully",
+      data: collections,
+    });
+  }
+);
@@ -0,0 +1,225 @@
+/**
+ * Data Transfer Objects (DTOs) for the Rider entity
+ * These schemas define the expected shape of data when managing riders,
+ * assigning deliveries to them and reconciling the COD cash they collect.
+ */
+import { DeliveryAssignmentStatus } from "@/generated/prisma/client";
+import { z } from "zod";
+
+/**
+ * Returns a Zod schema for a positive integer ID, with the given field name used
+ * for error messages.
+ * @param fieldName The name of the field, used for error messages.
+ * @returns A Zod schema for a positive integer ID.
+ */
+const zBigIntId = (fieldName: string) =>
+  z
+    .union([z.string(), z.number()])
+    .refine((val) => val !== "", { message: `${fieldName} is required` })
+    .transform((val) => BigInt(val))
+    .refine((val) => val > 0n, {
+      message: `${fieldName} must be a positive integer`,
+    });
+
+const zAmount = (fieldName: string) =>
+  z
+    .union([z.string(), z.number()])
+    .refine((val) => val !== "" && !isNaN(Number(val)), {
+      message: `${fieldName} must be a valid number`,
+    })
+    .transform((val) => Number(val))
+    .refine((val) => val >= 0, {
+      message: `${fieldName} must be non-negative`,
+    });
+
+const zDay = z.coerce.date({ message: "Date must be a valid date" });
+
+const zRiderIdParams = z.object({
+  id: zBigIntId("Rider ID"),
+});
+
+const zStopIdParams = z.object({
+  id: zBigIntId("Stop ID"),
+});
+
+const zPagination = {
+  page: z.coerce.number().int().positive().optional().default(1),
+  limit: z.coerce.number().int().positive().max(100).optional().default(10),
+};
+
+/**
+ * Zod schema for creating a rider with a login.
+ */
+export const zCreateRiderDto = {
+  body: z.object({
+    name: z.string().trim().min(2, "Name must be at least 2 characters"),
+    phone: z
+      .string()
+      .regex(
+        /^\+8801[3-9]\d{8}$/,
+        "Must be a valid Bangladeshi phone number (+8801XXXXXXXXX)"
+      ),
+    email: z.string().email().optional(),
+    password: z
+      .string()
+      .min(6, "Password must be at least 6 characters")
+      .regex(/[A-Z]/, "Must contain at least one uppercase letter")
+      .regex(/[a-z]/, "Must contain at least one lowercase letter")
+      .regex(/[0-9]/, "Must contain at least one number"),
+    vehicleType: z.string().trim().min(1).optional(),
+  }),
+};
+type CreateRiderBodyDto = z.infer<typeof zCreateRiderDto.body>;
+export type CreateRiderDto = {
+  body: CreateRiderBodyDto;
+};
+
+/**
+ * Zod schema for updating a rider.
+ */
+export const zUpdateRiderDto = {
+  params: zRiderIdParams,
+  body: z.object({
+    name: z
+      .string()
+      .trim()
+      .min(2, "Name must be at least 2 characters")
+      .optional(),
+    vehicleType: z.string().trim().min(1).nullable().optional(),
+    isActive: z.boolean().optional(),
+  }),
+};
+type UpdateRiderParamsDto = z.infer<typeof zUpdateRiderDto.params>;
+type UpdateRiderBodyDto = z.infer<typeof zUpdateRiderDto.body>;
+export type UpdateRiderDto = {
+  params: UpdateRiderParamsDto;
+  body: UpdateRiderBodyDto;
+};
+
+/**
+ * Zod schema for listing riders.
+ */
+export const zGetRidersDto = {
+  query: z.object({
+    ...zPagination,
+    isActive: z
+      .enum(["true", "false"])
+      .transform((val) => val === "true")
+      .optional(),
+  }),
+};
+type GetRidersQueryDto = z.infer<typeof zGetRidersDto.query>;
+export type GetRidersDto = {
+  query: GetRidersQueryDto;
+};
+
+/**
+ * Zod schema for assigning orders and subscription deliveries to a rider.
+ */
+export const zAssignDeliveriesDto = {
+  params: zRiderIdParams,
+  body: z
+    .object({
+      orderIds: z.array(zBigIntId("Order ID")).default([]),
+      deliveryIds: z.array(zBigIntId("Subscription delivery ID")).default([]),
+    })
+    .refine((data) => data.orderIds.length > 0 || data.deliveryIds.length > 0, {
+      message: "At least one order or subscription delivery is required",
+      path: ["orderIds"],
+    }),
+};
+type AssignDeliveriesParamsDto = z.infer<typeof zAssignDeliveriesDto.params>;
+type AssignDeliveriesBodyDto = z.infer<typeof zAssignDeliveriesDto.body>;
+export type AssignDeliveriesDto = {
+  params: AssignDeliveriesParamsDto;
+  body: AssignDeliveriesBodyDto;
+};
+
+/**
+ * Zod schema for listing the logged in rider's stops.
+ * Without a status, stops still to be delivered are listed.
+ */
+export const zGetRiderStopsDto = {
+  query: z.object({
+    ...zPagination,
+    status: z.nativeEnum(DeliveryAssignmentStatus).optional(),
+    date: zDay.optional(),
+  }),
+};
+type GetRiderStopsQueryDto = z.infer<typeof zGetRiderStopsDto.query>;
+export type GetRiderStopsDto = {
+  query: GetRiderStopsQueryDto;
+};
+
+/**
+ * Zod schema for picking up a stop.
+ */
+export const zRiderStopDto = {
+  params: zStopIdParams,
+};
+type RiderStopParamsDto = z.infer<typeof zRiderStopDto.params>;
+export type RiderStopDto = {
+  params: RiderStopParamsDto;
+};
+
+/**
+ * Zod schema for delivering a stop. The proof photo and signature are
+ * uploaded as files; COD orders also need the cash collected.
+ */
+export const zDeliverStopDto = {
+  params: zStopIdParams,
+  body: z.object({
+    codCollectedAmount: zAmount("COD collected amount").optional(),
+  }),
+};
+type DeliverStopParamsDto = z.infer<typeof zDeliverStopDto.params>;
+type DeliverStopBodyDto = z.infer<typeof zDeliverStopDto.body>;
+export type DeliverStopDto = {
+  params: DeliverStopParamsDto;
+  body: DeliverStopBodyDto;
+};
+
+/**
+ * Zod schema for the COD cash collected by the logged in rider.
+ */
+export const zGetMyCodCollectionsDto = {
+  query: z.object({
+    date: zDay.optional(),
+  }),
+};
+type GetMyCodCollectionsQueryDto = z.infer<
+  typeof zGetMyCodCollectionsDto.query
+>;
+export type GetMyCodCollectionsDto = {
+  query: GetMyCodCollectionsQueryDto;
+};
+
+/**
+ * Zod schema for the COD cash collected by a rider.
+ */
+export const zGetCodCollectionsDto = {
+  params: zRiderIdParams,
+  query: zGetMyCodCollectionsDto.query,
+};
+type GetCodCollectionsParamsDto = z.infer<typeof zGetCodCollectionsDto.params>;
+export type GetCodCollectionsDto = {
+  params: GetCodCollectionsParamsDto;
+  query: GetMyCodCollectionsQueryDto;
+};
+
+/**
+ * Zod schema for settling the COD cash a rider hands in.
+ */
+export const zSettleCodDto = {
+  params: zRiderIdParams,
+  body: z.object({
+    receivedAmount: zAmount("Received amount"),
+    note: z.string().trim().max(500).optional(),
+  }),
+};
+type SettleCodParamsDto = z.infer<typeof zSettleCodDto.params>;
+type SettleCodBodyDto = z.infer<typeof zSettleCodDto.body>;
+export type SettleCodDto = {
+  params: SettleCodParamsDto;
+  body: SettleCodBodyDto;
+};
@@ -0,0 +1,50 @@
+import {
+  CodSettlement,
+  DeliveryAssignment,
+  Order,
+  OrderItem,
+  Rider,
+  User,
+} from "@/generated/prisma/client";
+import { Decimal } from "@/generated/prisma/client/runtime/library";
+
+export type RiderWithUser = Rider & {
+  user: Omit<User, "passwordHash">;
+};
+
+export interface IGetRidersResult {
+  data: RiderWithUser[];
+  currentPage: number;
+  totalPages: number;
+  totalCount: number;
+}
+
+export type RiderStop = DeliveryAssignment & {
+  order: Order & {
+    orderItems: (OrderItem & { product: { name: string } })[];
+    customer: { user: { name: string | null; phone: string } };
+  };
+  amountDue: Decimal;
+  accessibleProofPhotoUrl?: string;
+  accessibleSignatureUrl?: string;
+};
+
+export interface IGetRiderStopsResult {
+  data: RiderStop[];
+  currentPage: number;
+  totalPages: number;
+  totalCount: number;
+}
+
+export interface ICodCollections {
+  riderId: bigint;
+  date?: Date;
+  collectedAmount: Decimal;
+  settledAmount: Decimal;
+  unsettledAmount: Decimal;
+  assignments: DeliveryAssignment[];
+}
+
+export type CodSettlementWithAssignments = CodSettlement & {
+  assignments: DeliveryAssignment[];
+};
@@ -0,0 +1,120 @@
+/**
+ * Routes for Rider entity operations.
+ * Defines API endpoints for managing riders and for riders delivering their stops.
+ */
+import { Router } from "express";
+import * as RiderController from "@/modules/riders/rider.controller";
+import { authMiddleware, authorizeRoles } from "@/middlewares/auth";
+import { UserRole } from "@/generated/prisma/client";
+import validator from "@/middlewares/validator";
+import { upload } from "@/utils/fileUpload/configMulterUpload";
+import {
+  zAssignDeliveriesDto,
+  zCreateRiderDto,
+  zDeliverStopDto,
+  zGetCodCollectionsDto,
+  zGetMyCodCollectionsDto,
+  zGetRiderStopsDto,
+  zGetRidersDto,
+  zRiderStopDto,
+  zSettleCodDto,
+  zUpdateRiderDto,
+} from "@/modules/riders/rider.dto";
+
+const router = Router();
+
+// Route for a rider to get their stops
+router.get(
+  "/me/stops",
+  authMiddleware,
+  authorizeRoles(UserRole.RIDER),
+  validator(zGetRiderStopsDto),
+  RiderController.getMyStops
+);
+
+// Route for a rider to mark a stop as picked up
+router.patch(
+  "/me/stops/:id/pickup",
+  authMiddleware,
+  authorizeRoles(UserRole.RIDER),
+  validator(zRiderStopDto),
+  RiderController.pickUpStop
+);
+
+// Route for a rider to mark a stop as delivered with proof
+router.patch(
+  "/me/stops/:id/deliver",
+  authMiddleware,
+  authorizeRoles(UserRole.RIDER),
+  upload.fields([
+    { name: "photo", maxCount: 1 },
+    { name: "signature", maxCount: 1 },
+  ]),
+  validator(zDeliverStopDto),
+  RiderController.deliverStop
+);
+
+// Route for a rider to get the COD cash they collected
+router.get(
+  "/me/cod-collections",
+  authMiddleware,
+  authorizeRoles(UserRole.RIDER),
+  validator(zGetMyCodCollectionsDto),
+  RiderController.getMyCodCollections
+);
+
+// Route to create a rider
+router.post(
+  "/",
+  authMiddleware,
+  authorizeRoles(UserRole.ADMIN, UserRole.SUPER_ADMIN),
+  validator(zCreateRiderDto),
+  RiderController.createRider
+);
+
+// Route to get all riders
+router.get(
+  "/",
+  authMiddleware,
+  authorizeRoles(UserRole.ADMIN, UserRole.SUPER_ADMIN),
+  validator(zGetRidersDto),
+  RiderController.getRiders
+);
+
+// Route to update a rider
+router.patch(
+  "/:id",
+  authMiddleware,
+  authorizeRoles(UserRole.ADMIN, UserRole.SUPER_ADMIN),
+  validator(zUpdateRiderDto),
+  RiderController.updateRider
+);
+
+// Route to assign orders and subscription deliveries to a rider
+router.post(
+  "/:id/assignments",
+  authMiddleware,
+  authorizeRoles(UserRole.ADMIN, UserRole.SUPER_ADMIN),
+  validator(zAssignDeliveriesDto),
+  RiderController.assignDeliveries
+);
+
+// Route to get the COD cash collected by a rider
+router.get(
+  "/:id/cod-collections",
+  authMiddleware,
+  authorizeRoles(UserRole.ADMIN, UserRole.SUPER_ADMIN),
+  validator(zGetCodCollectionsDto),
+  RiderController.getCodCollections
+);
+
+// Route to settle the COD cash a rider hands in
+router.post(
+  "/:id/cod-settlements",
+  authMiddleware,
+  authorizeRoles(UserRole.ADMIN, UserRole.SUPER_ADMIN),
+  validator(zSettleCodDto),
+  RiderController.settleCod
+);
+
+export default router;
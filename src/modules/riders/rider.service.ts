@@ -0,0 +1,621 @@
+/**
+ * Service layer for Rider entity operations.
+ * Contains business logic and database interactions for delivery riders,
+ * the orders assigned to them and the COD cash they collect.
+ */
+import prisma from "@/prisma-client/prismaClient";
+import { runTransaction } from "@/utils/transaction";
+import { OrderStatus, Prisma } from "@/generated/prisma/client";
+import { Decimal } from "@/generated/prisma/client/runtime/library";
+import { AppError } from "@/utils/appError";
+import httpStatus from "http-status";
+import bcrypt from "bcrypt";
+import {
+  AssignDeliveriesDto,
+  CreateRiderDto,
+  DeliverStopDto,
+  GetRiderStopsDto,
+  GetRidersDto,
+  SettleCodDto,
+  UpdateRiderDto,
+} from "@/modules/riders/rider.dto";
+import {
+  CodSettlementWithAssignments,
+  ICodCollections,
+  IGetRiderStopsResult,
+  IGetRidersResult,
+  RiderStop,
+  RiderWithUser,
+} from "@/modules/riders/rider.interface";
+import {
+  deleteMultipleFilesFromS3,
+  getAccessibleImageUrl,
+  uploadFileToS3,
+} from "@/utils/fileUpload/s3Aws";
+import { createNotification } from "@/utils/processPayment";
+import { assertAmountMatches } from "@/utils/calculateOrderPricing";
+import { amountDue } from "@/utils/preorder";
+import { updateOrder } from "@/modules/orders/orders.service";
+import { dhakaDayBounds, toDhakaDay } from "@/utils/dhakaTime";
+
+const SALT_ROUNDS = 10;
+
+// Order statuses in which an order can be assigned to and picked up by a
+// rider; pickup ships the order
+const DISPATCHABLE_STATUSES: OrderStatus[] = ["CONFIRMED", "PROCESSING"];
+
+const riderInclude = {
+  user: { omit: { passwordHash: true } },
+} satisfies Prisma.RiderInclude;
+
+const stopInclude = {
+  order: {
+    include: {
+      orderItems: { include: { product: { select: { name: true } } } },
+      customer: { select: { user: { select: { name: true, phone: true } } } },
+    },
+  },
+} satisfies Prisma.DeliveryAssignmentInclude;
+
+/**
+ * Filter moments to the day in Dhaka of the given date
+ */
+function inDhakaDay(date: Date): Prisma.DateTimeFilter {
+  const { start, end } = dhakaDayBounds(toDhakaDay(date));
+  return { gte: start, lte: end };
+}
+
+/**
+ * Add the amount to collect and accessible proof URLs to a stop
+ */
+async function toRiderStop(
+  assignment: Prisma.DeliveryAssignmentGetPayload<{
+    include: typeof stopInclude;
+  }>
+): Promise<RiderStop> {
+  const [accessibleProofPhotoUrl, accessibleSignatureUrl] = await Promise.all([
+    assignment.proofPhotoUrl
+      ? getAccessibleImageUrl(assignment.proofPhotoUrl, true, 300)
+      : undefined,
+    assignment.signatureUrl
+      ? getAccessibleImageUrl(assignment.signatureUrl, true, 300)
+      : undefined,
+  ]);
+  return {
+    ...assignment,
+    amountDue: amountDue(assignment.order),
+    accessibleProofPhotoUrl,
+    accessibleSignatureUrl,
+  };
+}
+
+/**
+ * Find a rider by its ID
+ * @throws AppError if the rider does not exist
+ */
+async function getRiderOrThrow(
+  riderId: bigint,
+  tx: Prisma.TransactionClient = prisma
+) {
+  const rider = await tx.rider.findUnique({ where: { riderId } });
+  if (!rider) {
+    throw new AppError("Rider not found", httpStatus.NOT_FOUND);
+  }
+  return rider;
+}
+
+/**
+ * Find the rider profile of a logged in rider user
+ * @throws AppError if the user has no active rider profile
+ */
+async function getRiderByUserId(userId: bigint) {
+  const rider = await prisma.rider.findUnique({ where: { userId } });
+  if (!rider || !rider.isActive) {
+    throw new AppError("Rider profile not found", httpStatus.NOT_FOUND);
+  }
+  return rider;
+}
+
+/**
+ * Find a stop assigned to the logged in rider
+ * @throws AppError if the stop does not exist or belongs to another rider
+ */
+async function getOwnStop(userId: bigint, assignmentId: bigint) {
+  const rider = await getRiderByUserId(userId);
+  const assignment = await prisma.deliveryAssignment.findUnique({
+    where: { assignmentId },
+    include: stopInclude,
+  });
+  if (!assignment || assignment.riderId !== rider.riderId) {
+    throw new AppError("Stop not found", httpStatus.NOT_FOUND);
+  }
+  return assignment;
+}
+
+/**
+ * Create a rider with a login
+ * @param data - Login and vehicle details of the rider
+ */
+export async function createRider(
+  data: CreateRiderDto["body"]
+): Promise<RiderWithUser> {
+  const existingUser = await prisma.user.findFirst({
+    where: {
+      OR: [
+        { phone: data.phone },
+        ...(data.email ? [{ email: data.email }] : []),
+      ],
+    },
+  });
+  if (existingUser) {
+    throw new AppError(
+      existingUser.phone === data.phone
+        ? "Phone number already registered"
+        : "Email already registered",
+      httpStatus.CONFLICT
+    );
+  }
+
+  const passwordHash = await bcrypt.hash(data.password, SALT_ROUNDS);
+  return await prisma.rider.create({
+    data: {
+      vehicleType: data.vehicleType,
+      user: {
+        create: {
+          name: data.name,
+          phone: data.phone,
+          email: data.email,
+          passwordHash,
+          role: "RIDER",
+          status: "ACTIVE",
+        },
+      },
+    },
+    include: riderInclude,
+  });
+}
+
+/**
+ * Retrieve riders with pagination
+ * @param query - Pagination and filters
+ */
+export async function getRiders(
+  query: GetRidersDto["query"]
+): Promise<IGetRidersResult> {
+  const { page, limit, isActive } = query;
+  const whereClause: Prisma.RiderWhereInput = {
+    ...(isActive !== undefined && { isActive }),
+  };
+
+  const [riders, totalCount] = await Promise.all([
+    prisma.rider.findMany({
+      where: whereClause,
+      include: riderInclude,
+      take: limit,
+      skip: (page - 1) * limit,
+      orderBy: { createdAt: "desc" },
+    }),
+    prisma.rider.count({ where: whereClause }),
+  ]);
+
+  return {
+    data: riders,
+    currentPage: page,
+    totalPages: Math.ceil(totalCount / limit),
+    totalCount,
+  };
+}
+
+/**
+ * Update a rider
+ * - Inactive riders cannot log in or be assigned deliveries
+ * @param riderId - The ID of the rider
+ * @param data - Fields to update
+ */
+export async function updateRider(
+  riderId: bigint,
+  data: UpdateRiderDto["body"]
+): Promise<RiderWithUser> {
+  await getRiderOrThrow(riderId);
+  return await prisma.rider.update({
+    where: { riderId },
+    data: {
+      vehicleType: data.vehicleType,
+      isActive: data.isActive,
+      ...(data.name && { user: { update: { name: data.name } } }),
+    },
+    include: riderInclude,
+  });
+}
+
+/**
+ * Assign orders and subscription deliveries to a rider
+ * - Orders must be confirmed or being processed
+ * - An order already picked up by its rider cannot be reassigned
+ * @param riderId - The ID of the rider
+ * @param data - Orders and subscription deliveries to assign
+ * @param assignedByUserId - The admin making the assignment
+ */
+export async function assignDeliveries(
+  riderId: bigint,
+  data: AssignDeliveriesDto["body"],
+  assignedByUserId: bigint
+): Promise<RiderStop[]> {
+  // Subscription deliveries are delivered through their generated orders
+  const subscriptionDeliveries = await prisma.subscriptionDelivery.findMany({
+    where: { deliveryId: { in: data.deliveryIds } },
+    select: { deliveryId: true, orderId: true },
+  });
+  const missingDelivery = data.deliveryIds.find(
+    (deliveryId) =>
+      !subscriptionDeliveries.some(
+        (delivery) => delivery.deliveryId === deliveryId
+      )
+  );
+  if (missingDelivery) {
+    throw new AppError(
+      `Subscription delivery ${missingDelivery} not found`,
+      httpStatus.NOT_FOUND
+    );
+  }
+  const orderIds = [
+    ...new Set([
+      ...data.orderIds,
+      ...subscriptionDeliveries.map((delivery) => delivery.orderId),
+    ]),
+  ];
+
+  const assignments = await runTransaction(async (tx) => {
+    const rider = await getRiderOrThrow(riderId, tx);
+    if (!rider.isActive) {
+      throw new AppError("Rider is not active", httpStatus.BAD_REQUEST);
+    }
+
+    // Lock the orders, in ID order, so a pickup or cancellation cannot
+    // change them between the checks and the assignment
+    const sortedIds = [...orderIds].sort((a, b) => (a < b ? -1 : 1));
+    await tx.$queryRaw`SELECT 1 FROM "Order" WHERE "orderId" IN (${Prisma.join(
+      sortedIds
+    )}) ORDER BY "orderId" FOR UPDATE`;
+    const orders = await tx.order.findMany({
+      where: { orderId: { in: orderIds } },
+      include: { deliveryAssignment: true },
+    });
+    for (const orderId of orderIds) {
+      const order = orders.find((order) => order.orderId === orderId);
+      if (!order) {
+        throw new AppError(`Order #${orderId} not found`, httpStatus.NOT_FOUND);
+      }
+      if (!DISPATCHABLE_STATUSES.includes(order.status)) {
+        throw new AppError(
+          `Order #${orderId} is ${order.status} and cannot be assigned`,
+          httpStatus.BAD_REQUEST
+        );
+      }
+      if (
+        order.deliveryAssignment &&
+        order.deliveryAssignment.status !== "ASSIGNED"
+      ) {
+        throw new AppError(
+          `Order #${orderId} is already ${order.deliveryAssignment.status}`,
+          httpStatus.BAD_REQUEST
+        );
+      }
+    }
+
+    const assignments = [];
+    for (const orderId of orderIds) {
+      assignments.push(
+        await tx.deliveryAssignment.upsert({
+          where: { orderId },
+          create: { orderId, riderId, assignedByUserId },
+          update: { riderId, assignedByUserId, assignedAt: new Date() },
+          include: stopInclude,
+        })
+      );
+    }
+
+    const message = `আপনাকে ${orderIds.length}টি নতুন ডেলিভারি দেওয়া হয়েছে।`;
+    await createNotification(message, "ORDER", rider.userId, tx);
+    return assignments;
+  });
+  return await Promise.all(assignments.map(toRiderStop));
+}
+
+/**
+ * Retrieve the logged in rider's stops with pagination
+ * - Without a status, stops not yet delivered are listed
+ * @param userId - The ID of the logged in rider user
+ * @param query - Pagination and filters
+ */
+export async function getRiderStops(
+  userId: bigint,
+  query: GetRiderStopsDto["query"]
+): Promise<IGetRiderStopsResult> {
+  const rider = await getRiderByUserId(userId);
+  const { page, limit, status, date } = query;
+  const whereClause: Prisma.DeliveryAssignmentWhereInput = {
+    riderId: rider.riderId,
+    status: status ?? { not: "DELIVERED" },
+    ...(date && { assignedAt: inDhakaDay(date) }),
+  };
+
+  const [assignments, totalCount] = await Promise.all([
+    prisma.deliveryAssignment.findMany({
+      where: whereClause,
+      include: stopInclude,
+      take: limit,
+      skip: (page - 1) * limit,
+      orderBy: { assignedAt: "asc" },
+    }),
+    prisma.deliveryAssignment.count({ where: whereClause }),
+  ]);
+
+  return {
+    data: await Promise.all(assignments.map(toRiderStop)),
+    currentPage: page,
+    totalPages: Math.ceil(totalCount / limit),
+    totalCount,
+  };
+}
+
+/**
+ * Mark a stop as picked up by the logged in rider
+ * - The order is shipped, through processing if it was only confirmed
+ * - The order and the stop are updated in one transaction
+ * @param userId - The ID of the logged in rider user
+ * @param assignmentId - The ID of the stop
+ */
+export async function pickUpStop(
+  userId: bigint,
+  assignmentId: bigint
+): Promise<RiderStop> {
+  const assignment = await getOwnStop(userId, assignmentId);
+  if (assignment.status !== "ASSIGNED") {
+    throw new AppError(
+      `Stop is already ${assignment.status}`,
+      httpStatus.BAD_REQUEST
+    );
+  }
+
+  const { order } = assignment;
+  if (
+    !DISPATCHABLE_STATUSES.includes(order.status) &&
+    order.status !== "SHIPPED"
+  ) {
+    throw new AppError(
+      `Order #${order.orderId} is ${order.status} and not ready for pickup`,
+      httpStatus.BAD_REQUEST
+    );
+  }
+
+  const pickedUp = await runTransaction(async (tx) => {
+    if (order.status === "CONFIRMED") {
+      await updateOrder(
+        order.orderId,
+        { status: "PROCESSING" },
+        userId,
+        "RIDER",
+        tx
+      );
+    }
+    if (order.status !== "SHIPPED") {
+      await updateOrder(
+        order.orderId,
+        { status: "SHIPPED" },
+        userId,
+        "RIDER",
+        tx
+      );
+    }
+    return await tx.deliveryAssignment.update({
+      where: { assignmentId },
+      data: { status: "PICKED_UP", pickedUpAt: new Date() },
+      include: stopInclude,
+    });
+  });
+  return await toRiderStop(pickedUp);
+}
+
+/**
+ * Mark a stop as delivered by the logged in rider
+ * - At least a proof photo or a signature is required
+ * - COD orders need the cash collected, which must match the amount due
+ * - The order is delivered through the same path as an admin update, in
+ *   the same transaction as the stop
+ * @param userId - The ID of the logged in rider user
+ * @param assignmentId - The ID of the stop
+ * @param data - Cash collected for COD orders
+ * @param files - Proof photo and signature, stored in the private bucket
+ */
+export async function deliverStop(
+  userId: bigint,
+  assignmentId: bigint,
+  data: DeliverStopDto["body"],
+  files: { photo?: File; signature?: File }
+): Promise<RiderStop> {
+  const assignment = await getOwnStop(userId, assignmentId);
+  if (assignment.status !== "PICKED_UP") {
+    throw new AppError(
+      "Only picked up stops can be delivered",
+      httpStatus.BAD_REQUEST
+    );
+  }
+  if (!files.photo && !files.signature) {
+    throw new AppError(
+      "A proof photo or signature is required",
+      httpStatus.BAD_REQUEST
+    );
+  }
+
+  const { order } = assignment;
+  const isCod = order.paymentMethod === "COD";
+  if (isCod) {
+    if (data.codCollectedAmount === undefined) {
+      throw new AppError(
+        "COD collected amount is required",
+        httpStatus.BAD_REQUEST
+      );
+    }
+    assertAmountMatches(
+      "COD collected amount",
+      data.codCollectedAmount,
+      amountDue(order)
+    );
+  }
+
+  // Upload proof before delivering the order, rolled back on failure
+  const folder = `deliveries/${order.orderId}`;
+  const [photo, signature] = await Promise.all([
+    files.photo ? uploadFileToS3(files.photo, folder, undefined, true) : null,
+    files.signature
+      ? uploadFileToS3(files.signature, folder, undefined, true)
+      : null,
+  ]);
+
+  try {
+    const delivered = await runTransaction(async (tx) => {
+      // Stops left behind by an earlier failure only need completing
+      if (order.status !== "DELIVERED") {
+        await updateOrder(
+          order.orderId,
+          { status: "DELIVERED" },
+          userId,
+          "RIDER",
+          tx
+        );
+      }
+      return await tx.deliveryAssignment.update({
+        where: { assignmentId },
+        data: {
+          status: "DELIVERED",
+          deliveredAt: new Date(),
+          proofPhotoUrl: photo?.url,
+          signatureUrl: signature?.url,
+          codCollectedAmount: isCod ? data.codCollectedAmount : undefined,
+        },
+        include: stopInclude,
+      });
+    });
+    return await toRiderStop(delivered);
+  } catch (error) {
+    const keys = [photo?.key, signature?.key].filter(
+      (key): key is string => !!key
+    );
+    await deleteMultipleFilesFromS3(keys, true);
+    throw error;
+  }
+}
+
+/**
+ * Summarize the COD cash a rider collected
+ * @param riderId - The ID of the rider
+ * @param date - When set, only deliveries of this day in Dhaka are counted
+ */
+export async function getCodCollections(
+  riderId: bigint,
+  date?: Date
+): Promise<ICodCollections> {
+  await getRiderOrThrow(riderId);
+  const assignments = await prisma.deliveryAssignment.findMany({
+    where: {
+      riderId,
+      status: "DELIVERED",
+      codCollectedAmount: { not: null },
+      ...(date && { deliveredAt: inDhakaDay(date) }),
+    },
+    orderBy: { deliveredAt: "asc" },
+  });
+
+  const sum = (rows: typeof assignments) =>
+    rows.reduce(
+      (total, row) => total.add(row.codCollectedAmount!),
+      new Decimal(0)
+    );
+  const collectedAmount = sum(assignments);
+  const settledAmount = sum(
+    assignments.filter((assignment) => assignment.codSettlementId !== null)
+  );
+  return {
+    riderId,
+    date,
+    collectedAmount,
+    settledAmount,
+    unsettledAmount: collectedAmount.sub(settledAmount),
+    assignments,
+  };
+}
+
+/**
+ * Summarize the COD cash collected by the logged in rider
+ * @param userId - The ID of the logged in rider user
+ * @param date - When set, only deliveries of this day in Dhaka are counted
+ */
+export async function getMyCodCollections(
+  userId: bigint,
+  date?: Date
+): Promise<ICodCollections> {
+  const rider = await getRiderByUserId(userId);
+  return await getCodCollections(rider.riderId, date);
+}
+
+/**
+ * Settle the COD cash a rider hands in
+ * - Every delivered COD stop not yet settled is included
+ * - A shortfall is recorded as the difference of expected and received
+ * @param riderId - The ID of the rider
+ * @param data - Cash received and an optional note
+ * @param settledByUserId - The admin receiving the cash
+ */
+export async function settleCod(
+  riderId: bigint,
+  data: SettleCodDto["body"],
+  settledByUserId: bigint
+): Promise<CodSettlementWithAssignments> {
+  await getRiderOrThrow(riderId);
+  return await runTransaction(async (tx) => {
+    // Lock the unsettled collections, so a concurrent settlement cannot
+    // count them too
+    await tx.$queryRaw`SELECT 1 FROM "DeliveryAssignment" WHERE "riderId" = ${riderId} AND "codSettlementId" IS NULL FOR UPDATE`;
+    const unsettled = await tx.deliveryAssignment.findMany({
+      where: {
+        riderId,
+        status: "DELIVERED",
+        codCollectedAmount: { not: null },
+        codSettlementId: null,
+      },
+    });
+    if (unsettled.length === 0) {
+      throw new AppError(
+        "Rider has no unsettled COD collections",
+        httpStatus.BAD_REQUEST
+      );
+    }
+
+    const expectedAmount = unsettled.reduce(
+      (total, row) => total.add(row.codCollectedAmount!),
+      new Decimal(0)
+    );
+    const settlement = await tx.codSettlement.create({
+      data: {
+        riderId,
+        expectedAmount,
+        receivedAmount: data.receivedAmount,
+        note: data.note,
+        settledByUserId,
+      },
+    });
+    await tx.deliveryAssignment.updateMany({
+      where: {
+        assignmentId: { in: unsettled.map((row) => row.assignmentId) },
+        codSettlementId: null,
+      },
+      data: { codSettlementId: settlement.settlementId },
+    });
+
+    return await tx.codSettlement.findUniqueOrThrow({
+      where: { settlementId: settlement.settlementId },
+      include: { assignments: true },
+    });
+  });
+}
@@ -9,7 +9,7 @@
 import { z } from "zod";
 
 // Assuming TransactionType enum values (adjust based on your Prisma schema)
-const transactionTypeEnum = z.enum(["IN", "OUT", "ADJUSTMENT"]);
+const transactionTypeEnum = z.enum(["IN", "OUT", "ADJUSTMENT", "RETURN"]);
 
 /**
  * Zod schema for creating a new stock transaction.
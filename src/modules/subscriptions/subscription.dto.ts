@@ -25,7 +25,11 @@ export const zCreateSubscriptionDto = {
   body: z.object({
     planId: zBigIntId("Plan ID"),
     paymentMethod: z.enum(["WALLET", "COD"]),
-    shippingAddress: z.string().min(1, "Shipping address is required"),
+    addressId: zBigIntId("Address ID").optional(),
+    shippingAddress: z
+      .string()
+      .min(1, "Shipping address must not be empty")
+      .optional(),
   }),
 };
 
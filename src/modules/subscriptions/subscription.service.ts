@@ -3,6 +3,7 @@
  * Contains business logic and database interactions for subscriptions.
  */
 import prisma from "@/prisma-client/prismaClient";
+import { runTransaction } from "@/utils/transaction";
 import { Subscription, SubscriptionStatus } from "@/generated/prisma/client";
 import {
   CreateSubscriptionDto,
@@ -24,6 +25,9 @@ import {
 } from "@/utils/subscriptionAction";
 import { getBatchAccessibleImageUrls } from "@/utils/fileUpload/s3Aws";
 import { createNotification } from "@/utils/processPayment";
+import { resolveDeliveryZone } from "@/utils/deliveryZone";
+import { resolveShippingAddress } from "@/utils/shippingAddress";
+import { placeHold } from "@/utils/walletHold";
 
 /**
  * Create a new subscription
@@ -56,6 +60,9 @@ export async function createSubscription(
       include: { wallet: true },
     });
     if (!customer) throw new Error("Customer not found");
+    // Check the shipping address is served
+    const address = await resolveShippingAddress(customer.customerId, data);
+    const zone = await resolveDeliveryZone(address.shippingAddress);
     const isPlanPurchased = await prisma.subscription.findFirst({
       where: {
         planId: data.planId,
@@ -70,7 +77,7 @@ export async function createSubscription(
     const renewalDate = getNextRenewalDate(now, frequency);
     const nextDeliveryDate = getNextDeliveryDate(now, frequency);
 
-    return await prisma.$transaction(async (tx) => {
+    return await runTransaction(async (tx) => {
       const subscription = await tx.subscription.create({
         data: {
           startDate: now,
@@ -81,7 +88,9 @@ export async function createSubscription(
           customerId: customer.customerId,
           nextDeliveryDate,
           planId: data.planId,
-          shippingAddress: data.shippingAddress,
+          shippingAddress: address.shippingAddress,
+          addressId: address.addressId,
+          zoneCode: zone.code,
         },
         include: {
           customer: { include: { wallet: true } },
@@ -94,20 +103,10 @@ export async function createSubscription(
           throw new Error("Wallet not found. Please create wallet first");
         }
 
-        if (!canLockNextPayment(customer.wallet, plan.price)) {
+        if (!(await canLockNextPayment(customer.wallet, plan.price, tx))) {
           throw new Error("Insufficient wallet balance to lock funds.");
         }
 
-        // Lock funds
-        await tx.wallet.update({
-          where: { walletId: customer.wallet.walletId },
-          data: {
-            lockedBalance: {
-              increment: plan.price,
-            },
-          },
-        });
-
         const order = await createOrderWithItems(
           subscription,
           customer,
@@ -127,6 +126,19 @@ export async function createSubscription(
             description: `LOCK_FUNDS_FOR_SUBSCRIPTION:#${subscription.subscriptionId}_PLAN:#${subscription.subscriptionPlan.planId}_ORDER:#${order.orderId}`, // Required description for further processing!!!
           },
         });
+        // Lock funds
+        await placeHold(
+          {
+            walletId: customer.wallet.walletId,
+            amount: plan.price,
+            reason: "SUBSCRIPTION",
+            description: `Funds locked for subscription Order #${order.orderId}`,
+            orderId: order.orderId,
+            subscriptionId: subscription.subscriptionId,
+            walletTransactionId: walletTransaction.transactionId,
+          },
+          tx
+        );
         // Create payment record
         await tx.payment.create({
           data: {
@@ -1,15 +1,25 @@
 import { Request, Response } from "express";
 import * as walletService from "@/modules/wallets/wallet.service";
 import {
+  ApproveWithdrawalDto,
+  ConfirmWalletTransferDto,
   DeleteWalletDto,
   GetWalletDto,
+  GetWalletStatementDto,
+  GetWalletTransfersDto,
+  GetWithdrawalsDto,
+  RejectWithdrawalDto,
   UpdateWalletDto,
 } from "@/modules/wallets/wallet.dto";
 import httpStatus from "http-status";
 import sendResponse from "@/utils/sendResponse";
-import { Wallet } from "@/generated/prisma/client";
-import { WalletDepositeResult } from "@/modules/wallets/wallet.interface";
+import { Wallet, Withdrawal } from "@/generated/prisma/client";
+import {
+  IWalletTransfer,
+  WalletDepositeResult,
+} from "@/modules/wallets/wallet.interface";
 import asyncHandler from "@/utils/asyncHandler";
+import { WalletLedgerCheck } from "@/utils/walletLedger";
 
 /**
  * Create a new wallet
@@ -48,6 +58,191 @@ export const initiateWalletDeposit = asyncHandler(
     });
   }
 );
+/**
+ * Request a withdrawal from the customer's wallet
+ */
+export const requestWithdrawal = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const withdrawal = await walletService.requestWithdrawal(
+      BigInt(req.user?.userId!),
+      req.body
+    );
+
+    sendResponse<Withdrawal>(res, {
+      success: true,
+      statusCode: httpStatus.CREATED,
+      message: "Withdrawal requested successfully",
+      data: withdrawal,
+    });
+  }
+);
+
+/**
+ * Get the customer's withdrawals
+ */
+export const getCustomerWithdrawals = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const query = req.query as unknown as GetWithdrawalsDto["query"];
+    const result = await walletService.getWithdrawals(
+      query,
+      BigInt(req.user?.userId!)
+    );
+
+    sendResponse<Withdrawal[]>(res, {
+      success: true,
+      statusCode: httpStatus.OK,
+      message: "Withdrawals retrieved successfully",
+      data: result.data,
+      pagination: {
+        currentPage: result.currentPage,
+        totalPages: result.totalPages,
+        totalItems: result.totalCount,
+        itemsPerPage: query.limit,
+        hasNextPage: result.currentPage < result.totalPages,
+        hasPreviousPage: result.currentPage > 1,
+      },
+    });
+  }
+);
+
+/**
+ * Get all withdrawals
+ */
+export const getAllWithdrawals = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const query = req.query as unknown as GetWithdrawalsDto["query"];
+    const result = await walletService.getWithdrawals(query);
+
+    sendResponse<Withdrawal[]>(res, {
+      success: true,
+      statusCode: httpStatus.OK,
+      message: "Withdrawals retrieved successfully",
+      data: result.data,
+      pagination: {
+        currentPage: result.currentPage,
+        totalPages: result.totalPages,
+        totalItems: result.totalCount,
+        itemsPerPage: query.limit,
+        hasNextPage: result.currentPage < result.totalPages,
+        hasPreviousPage: result.currentPage > 1,
+      },
+    });
+  }
+);
+
+/**
+ * Approve a withdrawal with its payout reference
+ */
+export const approveWithdrawal = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const withdrawalId = req.params
+      .id as unknown as ApproveWithdrawalDto["params"]["id"];
+    const withdrawal = await walletService.approveWithdrawal(
+      withdrawalId,
+      req.body,
+      req.user?.userId ? BigInt(req.user.userId) : undefined
+    );
+
+    sendResponse<Withdrawal>(res, {
+      success: true,
+      statusCode: httpStatus.OK,
+      message: "Withdrawal approved successfully",
+      data: withdrawal,
+    });
+  }
+);
+
+/**
+ * Reject a withdrawal
+ */
+export const rejectWithdrawal = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const withdrawalId = req.params
+      .id as unknown as RejectWithdrawalDto["params"]["id"];
+    const withdrawal = await walletService.rejectWithdrawal(
+      withdrawalId,
+      req.body,
+      req.user?.userId ? BigInt(req.user.userId) : undefined
+    );
+
+    sendResponse<Withdrawal>(res, {
+      success: true,
+      statusCode: httpStatus.OK,
+      message: "Withdrawal rejected successfully",
+      data: withdrawal,
+    });
+  }
+);
+
+/**
+ * Start a transfer to another customer's wallet
+ */
+export const createWalletTransfer = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const transfer = await walletService.createWalletTransfer(
+      BigInt(req.user?.userId!),
+      req.body
+    );
+
+    sendResponse<IWalletTransfer>(res, {
+      success: true,
+      statusCode: httpStatus.CREATED,
+      message: "OTP sent. Confirm the OTP to complete the transfer",
+      data: transfer,
+    });
+  }
+);
+
+/**
+ * Confirm a transfer with the OTP sent to the sender
+ */
+export const confirmWalletTransfer = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const transferId = req.params
+      .id as unknown as ConfirmWalletTransferDto["params"]["id"];
+    const transfer = await walletService.confirmWalletTransfer(
+      BigInt(req.user?.userId!),
+      transferId,
+      req.body.otp
+    );
+
+    sendResponse<IWalletTransfer>(res, {
+      success: true,
+      statusCode: httpStatus.OK,
+      message: "Transfer completed successfully",
+      data: transfer,
+    });
+  }
+);
+
+/**
+ * Get transfers the customer sent or received
+ */
+export const getCustomerWalletTransfers = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const query = req.query as unknown as GetWalletTransfersDto["query"];
+    const result = await walletService.getWalletTransfers(
+      query,
+      BigInt(req.user?.userId!)
+    );
+
+    sendResponse<IWalletTransfer[]>(res, {
+      success: true,
+      statusCode: httpStatus.OK,
+      message: "Transfers retrieved successfully",
+      data: result.data,
+      pagination: {
+        currentPage: result.currentPage,
+        totalPages: result.totalPages,
+        totalItems: result.totalCount,
+        itemsPerPage: query.limit,
+        hasNextPage: result.currentPage < result.totalPages,
+        hasPreviousPage: result.currentPage > 1,
+      },
+    });
+  }
+);
+
 /**
  * Handle SSLCommerz success callback
  */
@@ -158,6 +353,94 @@ export const getWalletById = asyncHandler(
   }
 );
 
+/**
+ * Send a generated file as a download
+ */
+const sendFile = (
+  res: Response,
+  {
+    fileName,
+    contentType,
+    file,
+  }: { fileName: string; contentType: string; file: Buffer }
+): void => {
+  res
+    .status(httpStatus.OK)
+    .set({
+      "Content-Type": contentType,
+      "Content-Disposition": `attachment; filename="${fileName}"`,
+      "Content-Length": String(file.length),
+    })
+    .send(file);
+};
+
+/**
+ * Download the customer's monthly wallet statement as a PDF or CSV file
+ */
+export const getCustomerWalletStatement = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const query = req.query as unknown as GetWalletStatementDto["query"];
+    const statement = await walletService.exportCustomerWalletStatement(
+      BigInt(req.user?.userId!),
+      query
+    );
+    sendFile(res, statement);
+  }
+);
+
+/**
+ * Download any wallet's monthly statement as a PDF or CSV file
+ */
+export const getWalletStatement = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const walletId = req.params.id as unknown as GetWalletDto["params"]["id"];
+    const query = req.query as unknown as GetWalletStatementDto["query"];
+    const statement = await walletService.exportWalletStatement(
+      walletId,
+      query
+    );
+    sendFile(res, statement);
+  }
+);
+
+/**
+ * Check a wallet's balances against its ledger
+ */
+export const getWalletLedger = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const walletId = req.params.id as unknown as GetWalletDto["params"]["id"];
+    const check = await walletService.checkWalletLedger(walletId);
+
+    sendResponse<WalletLedgerCheck>(res, {
+      success: true,
+      statusCode: httpStatus.OK,
+      message: check.consistent
+        ? "Wallet balances match the ledger"
+        : "Wallet balances do not match the ledger",
+      data: check,
+    });
+  }
+);
+
+/**
+ * Reset a wallet's balances from its ledger
+ */
+export const rebuildWalletLedger = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const walletId = req.params.id as unknown as GetWalletDto["params"]["id"];
+    const check = await walletService.rebuildWalletBalances(walletId);
+
+    sendResponse<WalletLedgerCheck>(res, {
+      success: true,
+      statusCode: httpStatus.OK,
+      message: check.consistent
+        ? "Wallet balances already match the ledger"
+        : "Wallet balances rebuilt from the ledger",
+      data: check,
+    });
+  }
+);
+
 /**
  * Update a wallet by ID
  */
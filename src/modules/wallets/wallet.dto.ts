@@ -3,7 +3,9 @@
  * These interfaces define the expected shape of data when creating or updating a wallet.
  * You can also use these types with validation libraries like Zod or Joi if needed.
  */
+import { WithdrawalMethod, WithdrawalStatus } from "@/generated/prisma/client";
 import { z } from "zod";
+import { toDhakaMonth } from "@/utils/dhakaTime";
 /**
  * Zod schema for creating a new wallet.
  * Validates all required fields necessary for creation.
@@ -107,3 +109,180 @@ type DeleteWalletParamsDto = z.infer<typeof zDeleteWalletDto.params>;
 export type DeleteWalletDto = {
   params: DeleteWalletParamsDto;
 };
+
+const zWithdrawalId = z
+  .union([z.string(), z.number()])
+  .transform(BigInt)
+  .refine((val) => val > 0n, {
+    message: "Withdrawal ID must be a positive integer",
+  });
+
+/**
+ * Zod schema for requesting a wallet withdrawal.
+ * Bank payouts need the bank name, mobile-money payouts a mobile number.
+ */
+export const zWithdrawWalletDto = {
+  body: z
+    .object({
+      amount: z.number().positive("Amount must be positive"),
+      method: z.nativeEnum(WithdrawalMethod),
+      accountName: z.string().trim().min(1, "Account name is required"),
+      accountNumber: z.string().trim().min(1, "Account number is required"),
+      bankName: z.string().trim().min(1).optional(),
+      branchName: z.string().trim().min(1).optional(),
+      routingNumber: z.string().trim().min(1).optional(),
+    })
+    .refine(
+      (data) => data.method !== WithdrawalMethod.BANK || !!data.bankName,
+      { message: "Bank name is required for bank payouts", path: ["bankName"] }
+    )
+    .refine(
+      (data) =>
+        data.method === WithdrawalMethod.BANK ||
+        /^(\+88)?01[3-9]\d{8}$/.test(data.accountNumber),
+      {
+        message: "Account number must be a valid Bangladeshi mobile number",
+        path: ["accountNumber"],
+      }
+    ),
+};
+type WithdrawWalletBodyDto = z.infer<typeof zWithdrawWalletDto.body>;
+export type WithdrawWalletDto = {
+  body: WithdrawWalletBodyDto;
+};
+
+/**
+ * Zod schema for listing withdrawals.
+ */
+export const zGetWithdrawalsDto = {
+  query: z.object({
+    page: z.coerce.number().int().positive().default(1),
+    limit: z.coerce.number().int().positive().max(100).default(10),
+    status: z.nativeEnum(WithdrawalStatus).optional(),
+  }),
+};
+type GetWithdrawalsQueryDto = z.infer<typeof zGetWithdrawalsDto.query>;
+export type GetWithdrawalsDto = {
+  query: GetWithdrawalsQueryDto;
+};
+
+/**
+ * Zod schema for approving a withdrawal once it has been paid out.
+ */
+export const zApproveWithdrawalDto = {
+  params: z.object({ id: zWithdrawalId }),
+  body: z.object({
+    payoutReference: z.string().trim().min(1, "Payout reference is required"),
+  }),
+};
+type ApproveWithdrawalParamsDto = z.infer<typeof zApproveWithdrawalDto.params>;
+type ApproveWithdrawalBodyDto = z.infer<typeof zApproveWithdrawalDto.body>;
+export type ApproveWithdrawalDto = {
+  params: ApproveWithdrawalParamsDto;
+  body: ApproveWithdrawalBodyDto;
+};
+
+/**
+ * Zod schema for rejecting a withdrawal.
+ */
+export const zRejectWithdrawalDto = {
+  params: z.object({ id: zWithdrawalId }),
+  body: z.object({
+    reason: z.string().trim().min(1, "Reason is required").max(500),
+  }),
+};
+type RejectWithdrawalParamsDto = z.infer<typeof zRejectWithdrawalDto.params>;
+type RejectWithdrawalBodyDto = z.infer<typeof zRejectWithdrawalDto.body>;
+export type RejectWithdrawalDto = {
+  params: RejectWithdrawalParamsDto;
+  body: RejectWithdrawalBodyDto;
+};
+
+/**
+ * Zod schema for starting a transfer to another customer's wallet.
+ */
+export const zCreateWalletTransferDto = {
+  body: z.object({
+    recipientPhone: z.string().regex(/^\+8801[3-9]\d{8}$/, {
+      message: "Phone number must be in the format +8801XXXXXXXXX",
+    }),
+    amount: z.number().positive("Amount must be positive"),
+    note: z.string().trim().max(200).optional(),
+  }),
+};
+type CreateWalletTransferBodyDto = z.infer<
+  typeof zCreateWalletTransferDto.body
+>;
+export type CreateWalletTransferDto = {
+  body: CreateWalletTransferBodyDto;
+};
+
+/**
+ * Zod schema for confirming a transfer with the OTP sent to the sender.
+ */
+export const zConfirmWalletTransferDto = {
+  params: z.object({
+    id: z
+      .union([z.string(), z.number()])
+      .transform(BigInt)
+      .refine((val) => val > 0n, {
+        message: "Transfer ID must be a positive integer",
+      }),
+  }),
+  body: z.object({
+    otp: z.string().length(6, "OTP must be 6 digits"),
+  }),
+};
+type ConfirmWalletTransferParamsDto = z.infer<
+  typeof zConfirmWalletTransferDto.params
+>;
+type ConfirmWalletTransferBodyDto = z.infer<
+  typeof zConfirmWalletTransferDto.body
+>;
+export type ConfirmWalletTransferDto = {
+  params: ConfirmWalletTransferParamsDto;
+  body: ConfirmWalletTransferBodyDto;
+};
+
+/**
+ * Zod schema for listing the customer's transfers.
+ */
+export const zGetWalletTransfersDto = {
+  query: z.object({
+    page: z.coerce.number().int().positive().default(1),
+    limit: z.coerce.number().int().positive().max(100).default(10),
+  }),
+};
+type GetWalletTransfersQueryDto = z.infer<typeof zGetWalletTransfersDto.query>;
+export type GetWalletTransfersDto = {
+  query: GetWalletTransfersQueryDto;
+};
+
+const zStatementQuery = z.object({
+  // Defaults to the current month in Dhaka
+  month: z
+    .string()
+    .regex(/^\d{4}-(0[1-9]|1[0-2])$/, "Month must be in the format YYYY-MM")
+    .optional()
+    .transform((val) => val ?? toDhakaMonth(new Date())),
+  format: z.enum(["pdf", "csv"]).default("pdf"),
+});
+
+/**
+ * Zod schema for downloading the customer's monthly wallet statement.
+ */
+export const zGetWalletStatementDto = {
+  query: zStatementQuery,
+};
+type GetWalletStatementQueryDto = z.infer<typeof zStatementQuery>;
+export type GetWalletStatementDto = {
+  query: GetWalletStatementQueryDto;
+};
+
+/**
+ * Zod schema for downloading any wallet's monthly statement.
+ */
+export const zGetAdminWalletStatementDto = {
+  params: zGetWalletDto.params,
+  query: zStatementQuery,
+};
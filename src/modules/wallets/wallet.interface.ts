@@ -1,6 +1,27 @@
-import { WalletTransaction } from "@/generated/prisma/client";
+import {
+  Withdrawal,
+  WalletTransaction,
+  WalletTransfer,
+} from "@/generated/prisma/client";
 
 export interface WalletDepositeResult {
   walletTransaction: WalletTransaction;
   redirectUrl: string;
 }
+
+export interface IGetWithdrawalsResult {
+  data: Withdrawal[];
+  currentPage: number;
+  totalPages: number;
+  totalCount: number;
+}
+
+// A transfer as customers see it, without its OTP hash
+export type IWalletTransfer = Omit<WalletTransfer, "otpHash">;
+
+export interface IGetWalletTransfersResult {
+  data: IWalletTransfer[];
+  currentPage: number;
+  totalPages: number;
+  totalCount: number;
+}
@@ -7,12 +7,22 @@ import * as WalletController from "@/modules/wallets/wallet.controller";
 import { authMiddleware, authorizeRoles } from "@/middlewares/auth";
 import { UserRole } from "@/generated/prisma/client";
 import validator from "@/middlewares/validator";
+import { idempotency } from "@/middlewares/idempotency";
 import {
   zCreateWalletDto,
   zDepositeWalletDto,
   zGetWalletDto,
   zDeleteWalletDto,
   zUpdateWalletDto,
+  zWithdrawWalletDto,
+  zGetWithdrawalsDto,
+  zApproveWithdrawalDto,
+  zRejectWithdrawalDto,
+  zCreateWalletTransferDto,
+  zConfirmWalletTransferDto,
+  zGetWalletTransfersDto,
+  zGetWalletStatementDto,
+  zGetAdminWalletStatementDto,
 } from "@/modules/wallets/wallet.dto";
 
 const router = Router();
@@ -31,10 +41,85 @@ router.post(
   "/deposit",
   authMiddleware,
   authorizeRoles(UserRole.CUSTOMER),
+  idempotency(),
   validator(zDepositeWalletDto),
   WalletController.initiateWalletDeposit
 );
 
+// Route to request a withdrawal
+router.post(
+  "/withdraw",
+  authMiddleware,
+  authorizeRoles(UserRole.CUSTOMER),
+  idempotency(),
+  validator(zWithdrawWalletDto),
+  WalletController.requestWithdrawal
+);
+
+// Route to get the customer's withdrawals
+router.get(
+  "/withdrawals/me",
+  authMiddleware,
+  authorizeRoles(UserRole.CUSTOMER),
+  validator(zGetWithdrawalsDto),
+  WalletController.getCustomerWithdrawals
+);
+
+// Route to get all withdrawals
+router.get(
+  "/withdrawals",
+  authMiddleware,
+  authorizeRoles(UserRole.ADMIN, UserRole.SUPER_ADMIN),
+  validator(zGetWithdrawalsDto),
+  WalletController.getAllWithdrawals
+);
+
+// Route to approve a paid out withdrawal
+router.patch(
+  "/withdrawals/:id/approve",
+  authMiddleware,
+  authorizeRoles(UserRole.ADMIN, UserRole.SUPER_ADMIN),
+  validator(zApproveWithdrawalDto),
+  WalletController.approveWithdrawal
+);
+
+// Route to reject a withdrawal
+router.patch(
+  "/withdrawals/:id/reject",
+  authMiddleware,
+  authorizeRoles(UserRole.ADMIN, UserRole.SUPER_ADMIN),
+  validator(zRejectWithdrawalDto),
+  WalletController.rejectWithdrawal
+);
+
+// Route to start a transfer to another customer's wallet
+router.post(
+  "/transfers",
+  authMiddleware,
+  authorizeRoles(UserRole.CUSTOMER),
+  idempotency(),
+  validator(zCreateWalletTransferDto),
+  WalletController.createWalletTransfer
+);
+
+// Route to confirm a transfer with the OTP
+router.post(
+  "/transfers/:id/confirm",
+  authMiddleware,
+  authorizeRoles(UserRole.CUSTOMER),
+  validator(zConfirmWalletTransferDto),
+  WalletController.confirmWalletTransfer
+);
+
+// Route to get the customer's transfers
+router.get(
+  "/transfers/me",
+  authMiddleware,
+  authorizeRoles(UserRole.CUSTOMER),
+  validator(zGetWalletTransfersDto),
+  WalletController.getCustomerWalletTransfers
+);
+
 // Route to get all wallets
 router.get(
   "/",
@@ -50,6 +135,24 @@ router.get(
   authorizeRoles(UserRole.CUSTOMER),
   WalletController.getCustomerWalletBalanace
 );
+// Route to download the customer's monthly statement
+router.get(
+  "/statement",
+  authMiddleware,
+  authorizeRoles(UserRole.CUSTOMER),
+  validator(zGetWalletStatementDto),
+  WalletController.getCustomerWalletStatement
+);
+
+// Route to download a wallet's monthly statement
+router.get(
+  "/:id/statement",
+  authMiddleware,
+  authorizeRoles(UserRole.ADMIN, UserRole.SUPER_ADMIN),
+  validator(zGetAdminWalletStatementDto),
+  WalletController.getWalletStatement
+);
+
 // Route to get a wallet by ID
 router.get(
   "/:id",
@@ -59,6 +162,24 @@ router.get(
   WalletController.getWalletById
 );
 
+// Route to check a wallet's balances against its ledger
+router.get(
+  "/:id/ledger",
+  authMiddleware,
+  authorizeRoles(UserRole.ADMIN, UserRole.SUPER_ADMIN),
+  validator(zGetWalletDto),
+  WalletController.getWalletLedger
+);
+
+// Route to reset a wallet's balances from its ledger
+router.post(
+  "/:id/ledger/rebuild",
+  authMiddleware,
+  authorizeRoles(UserRole.ADMIN, UserRole.SUPER_ADMIN),
+  validator(zGetWalletDto),
+  WalletController.rebuildWalletLedger
+);
+
 // Route to update a wallet's details
 // router.put(
 //   "/:id",
@@ -3,20 +3,71 @@
  * Contains business logic and database interactions for wallets.
  */
 import prisma from "@/prisma-client/prismaClient";
-import { Wallet } from "@/generated/prisma/client";
 import {
+  Prisma,
+  Wallet,
+  Withdrawal,
+  WithdrawalMethod,
+} from "@/generated/prisma/client";
+import { Decimal } from "@/generated/prisma/client/runtime/library";
+import {
+  ApproveWithdrawalDto,
   CreateWalletDto,
+  CreateWalletTransferDto,
   DepositeWalletDto,
+  GetWalletStatementDto,
+  GetWalletTransfersDto,
+  GetWithdrawalsDto,
+  RejectWithdrawalDto,
   UpdateWalletDto,
+  WithdrawWalletDto,
 } from "@/modules/wallets/wallet.dto";
 import { processSSLCommerzWalletDeposite } from "@/utils/processWalletDeposite";
+import { createNotification } from "@/utils/processPayment";
+import { sslcommerzProvider } from "@/utils/paymentProviders/sslcommerz";
+import {
+  assertSignedSSLCommerzCallback,
+  ClaimCallback,
+  processSSLCommerzIPN,
+} from "@/utils/paymentCallback";
+import { PaymentVerification } from "@/utils/paymentProviders";
 import {
-  createNotification,
-  validateSSLCommerzPayment,
-} from "@/utils/processPayment";
-import { WalletDepositeResult } from "@/modules/wallets/wallet.interface";
+  IGetWalletTransfersResult,
+  IGetWithdrawalsResult,
+  IWalletTransfer,
+  WalletDepositeResult,
+} from "@/modules/wallets/wallet.interface";
 import { AppError } from "@/utils/appError";
 import httpStatus from "http-status";
+import { addMinutes } from "date-fns";
+import { deliverOtp, generateOtp, matchesOtp } from "@/utils/otpService";
+import {
+  creditWallet,
+  debitWallet,
+  openWalletAccounts,
+  rebuildWalletFromLedger,
+  verifyWalletLedger,
+  WalletLedgerCheck,
+} from "@/utils/walletLedger";
+import {
+  buildWalletStatementCsv,
+  buildWalletStatementPdf,
+  statementFileName,
+  WalletStatement,
+  WalletStatementLine,
+} from "@/utils/walletStatement";
+import {
+  dhakaMonthBounds,
+  startOfDhakaDay,
+  toDhakaDay,
+} from "@/utils/dhakaTime";
+import {
+  canCoverFromWallet,
+  captureHold,
+  getAvailableBalance,
+  placeHold,
+  releaseHold,
+} from "@/utils/walletHold";
 
 /**
  * Create a new wallet
@@ -81,83 +132,122 @@ export async function initiateDeposit({
 }
 
 export async function handleDepositeSuccess(
-  validationData: any
+  ipnData: any
 ): Promise<{ success: boolean; message: string }> {
-  try {
-    // Validate payment with SSLCommerz  implementation
-    const validation = await validateSSLCommerzPayment(validationData);
-
-    if (["VALID", "VALIDATED"].includes(validation.status)) {
-      // Extract wallet ID
-      const tranId = validationData.tran_id;
+  return await processSSLCommerzIPN(
+    "SSLCOMMERZ_WALLET_IPN",
+    ipnData,
+    async (claim) => {
+      // Validate payment with SSLCommerz, which deposits are always made on
+      const validation = await sslcommerzProvider.validate(ipnData);
 
-      // Find the wallet transaction
-      const walletTransaction = await prisma.walletTransaction.findFirst({
-        where: {
-          description: { contains: tranId },
-          transactionStatus: "PENDING",
-        },
-        include: {
-          wallet: true,
-        },
-      });
-
-      if (!walletTransaction) {
+      if (validation.status !== "COMPLETED") {
         throw new AppError(
-          "Wallet transaction not found",
-          httpStatus.NOT_FOUND
+          `Payment validation failed: ${
+            validation.failedReason || "Unknown validation error"
+          }`,
+          httpStatus.BAD_REQUEST
         );
       }
+      return await completeDeposit(validation, claim);
+    }
+  );
+}
 
-      // Update wallet and wallet trasaction
-      return await prisma.$transaction(async (tx) => {
-        // Update wallet transaction status
-        await tx.walletTransaction.update({
-          where: { transactionId: walletTransaction.transactionId },
-          data: {
-            transactionStatus: "COMPLETED",
-            description: `Trasaction completed by SSLCommerz. TransactionId: ${tranId}`,
-          },
-        });
-        // Update wallet balance
-        const updatedWallet = await tx.wallet.update({
-          where: { walletId: walletTransaction.walletId },
-          data: {
-            balance: {
-              increment: walletTransaction.amount,
-            },
-            updatedAt: new Date(),
-          },
-          include: {
-            customer: true,
-          },
-        });
-        // notify the user--
-        const message = `অভিনন্দন! আপনার ওয়ালেটে ${walletTransaction.amount} টাকা সফলভাবে জমা হয়েছে। ধন্যবাদ আমাদের সাথে থাকার জন্য। (লেনদেন আইডি: ${tranId})`;
-        await createNotification(
-          message,
-          "WALLET",
-          updatedWallet.customer.userId,
-          tx
-        );
+/**
+ * Credit a deposit SSLCommerz reported as paid to the wallet
+ * @param validation - SSLCommerz's answer for the deposit's transaction
+ * @param claim - Marks the callback that reported the deposit as processed
+ */
+export async function completeDeposit(
+  validation: PaymentVerification,
+  claim?: ClaimCallback
+): Promise<{ success: boolean; message: string }> {
+  const tranId = validation.transactionId;
+  if (!tranId) {
+    throw new AppError("Transaction ID is missing", httpStatus.BAD_REQUEST);
+  }
 
-        return {
-          success: true,
-          message: "Wallet deposite completed successfully.",
-        };
-      });
-    } else {
+  // Find the wallet transaction
+  const walletTransaction = await prisma.walletTransaction.findFirst({
+    where: {
+      description: { contains: tranId },
+      transactionStatus: "PENDING",
+    },
+    include: {
+      wallet: true,
+    },
+  });
+
+  if (!walletTransaction) {
+    throw new AppError("Wallet transaction not found", httpStatus.NOT_FOUND);
+  }
+  if (
+    !validation.amount?.equals(walletTransaction.amount) ||
+    validation.currency !== "BDT"
+  ) {
+    throw new AppError(
+      `Paid ${validation.amount?.toFixed(2) ?? "unknown"} ${
+        validation.currency ?? ""
+      } does not match the deposit of ${walletTransaction.amount} BDT`,
+      httpStatus.BAD_REQUEST
+    );
+  }
+
+  // Update wallet and wallet trasaction
+  return await prisma.$transaction(async (tx) => {
+    if (claim) await claim(tx);
+    // Update wallet transaction status, unless the IPN and the
+    // reconciliation job settle it at the same time
+    const { count } = await tx.walletTransaction.updateMany({
+      where: {
+        transactionId: walletTransaction.transactionId,
+        transactionStatus: "PENDING",
+      },
+      data: {
+        transactionStatus: "COMPLETED",
+        description: `Trasaction completed by SSLCommerz. TransactionId: ${tranId}`,
+      },
+    });
+    if (count === 0) {
       throw new AppError(
-        `Payment validation failed: ${
-          validation.failedreason || "Unknown validation error"
-        }`,
-        httpStatus.BAD_REQUEST
+        "Wallet deposit was already settled",
+        httpStatus.CONFLICT
       );
     }
-  } catch (error) {
-    throw error;
-  }
+    // Update wallet balance
+    await creditWallet(
+      {
+        walletId: walletTransaction.walletId,
+        amount: walletTransaction.amount,
+        description: `Wallet deposit via SSLCommerz. TransactionId: ${tranId}`,
+        walletTransactionId: walletTransaction.transactionId,
+      },
+      "GATEWAY_CLEARING",
+      tx
+    );
+    const updatedWallet = await tx.wallet.findUniqueOrThrow({
+      where: { walletId: walletTransaction.walletId },
+      include: {
+        customer: true,
+      },
+    });
+    // notify the user--
+    const message = `অভিনন্দন! আপনার ওয়ালেটে ${walletTransaction.amount} টাকা সফলভাবে জমা হয়েছে। ধন্যবাদ আমাদের সাথে থাকার জন্য। (লেনদেন আইডি: ${tranId})`;
+    await createNotification(
+      message,
+      "WALLET",
+      updatedWallet.customer.userId,
+      tx
+    );
+
+    return {
+      success: true,
+      message: "Wallet deposite completed successfully.",
+    };
+  });
 }
+
 export async function getPaymentStatus(tranId: string): Promise<string> {
   const transaction = await prisma.walletTransaction.findFirst({
     where: { description: { contains: tranId } },
@@ -171,45 +261,54 @@ export async function getPaymentStatus(tranId: string): Promise<string> {
  */
 export async function handleDepositeFailure(failureData: any): Promise<void> {
   try {
-    // Extract order ID and update payment status
-    const tranId = failureData.tran_id;
+    await assertSignedSSLCommerzCallback("SSLCOMMERZ_WALLET_FAIL", failureData);
+    await failDeposit(failureData.tran_id);
+  } catch (error) {
+    console.error("handleSSLCommerzFailure error:", error);
+    throw error;
+  }
+}
 
-    // Find and update the wallet transaction
-    const walletTransaction = await prisma.walletTransaction.findFirst({
-      where: {
-        description: { contains: tranId },
-        transactionStatus: "PENDING",
-      },
-      include: {
-        wallet: {
-          include: {
-            customer: true,
-          },
+/**
+ * Mark a pending deposit as failed and tell the customer
+ */
+export async function failDeposit(tranId: string): Promise<void> {
+  // Find and update the wallet transaction
+  const walletTransaction = await prisma.walletTransaction.findFirst({
+    where: {
+      description: { contains: tranId },
+      transactionStatus: "PENDING",
+    },
+    include: {
+      wallet: {
+        include: {
+          customer: true,
         },
       },
-    });
+    },
+  });
 
-    if (walletTransaction) {
-      await prisma.$transaction(async (tx) => {
-        await tx.walletTransaction.update({
-          where: { transactionId: walletTransaction.transactionId },
-          data: {
-            transactionStatus: "FAILED",
-            description: `Wallet deposite failed. TransactionId: ${tranId}`,
-          },
-        });
-        const message = `দুঃখিত! আপনার ওয়ালেটে টাকা জমা দেওয়া সম্ভব হয়নি। অনুগ্রহ করে আবার চেষ্টা করুন বা সহায়তার জন্য আমাদের সাথে যোগাযোগ করুন।`;
-        await createNotification(
-          message,
-          "WALLET",
-          walletTransaction.wallet.customer.userId,
-          tx
-        );
+  if (walletTransaction) {
+    await prisma.$transaction(async (tx) => {
+      const { count } = await tx.walletTransaction.updateMany({
+        where: {
+          transactionId: walletTransaction.transactionId,
+          transactionStatus: "PENDING",
+        },
+        data: {
+          transactionStatus: "FAILED",
+          description: `Wallet deposite failed. TransactionId: ${tranId}`,
+        },
       });
-    }
-  } catch (error) {
-    console.error("handleSSLCommerzFailure error:", error);
-    throw error;
+      if (count === 0) return; // Settled meanwhile
+      const message = `দুঃখিত! আপনার ওয়ালেটে টাকা জমা দেওয়া সম্ভব হয়নি। অনুগ্রহ করে আবার চেষ্টা করুন বা সহায়তার জন্য আমাদের সাথে যোগাযোগ করুন।`;
+      await createNotification(
+        message,
+        "WALLET",
+        walletTransaction.wallet.customer.userId,
+        tx
+      );
+    });
   }
 }
 /**
@@ -269,6 +368,31 @@ export async function getWalletById(walletId: BigInt): Promise<Wallet> {
   return wallet;
 }
 
+/**
+ * Compare a wallet's stored balances with its double-entry ledger
+ * @param walletId - The ID of the wallet to check
+ * @throws AppError if the wallet is not found
+ */
+export async function checkWalletLedger(
+  walletId: bigint
+): Promise<WalletLedgerCheck> {
+  await getWalletById(walletId);
+  return await verifyWalletLedger(walletId);
+}
+
+/**
+ * Reset a wallet's stored balances to what its ledger adds up to
+ * @param walletId - The ID of the wallet to rebuild
+ * @returns The check from before the rebuild
+ * @throws AppError if the wallet is not found
+ */
+export async function rebuildWalletBalances(
+  walletId: bigint
+): Promise<WalletLedgerCheck> {
+  await getWalletById(walletId);
+  return await rebuildWalletFromLedger(walletId);
+}
+
 /**
  * Update a wallet by its ID
  * @param walletId - The ID of the wallet to update
@@ -293,14 +417,41 @@ export async function updateWallet(
     }
   }
 
-  const wallet = await prisma.wallet.update({
-    where: { walletId: Number(walletId) },
-    data: {
-      customerId: data.customerId,
-      balance: data.balance,
-    },
+  return await prisma.$transaction(async (tx) => {
+    const wallet = await tx.wallet.update({
+      where: { walletId: Number(walletId) },
+      data: { customerId: data.customerId },
+    });
+    if (data.balance === undefined) return wallet;
+
+    // Balances only change through the ledger, so post the difference
+    const difference = new Decimal(data.balance).sub(wallet.balance);
+    if (difference.isZero()) return wallet;
+    if (
+      difference.lessThan(0) &&
+      (await getAvailableBalance(wallet.walletId, tx)).lessThan(
+        difference.abs()
+      )
+    ) {
+      throw new AppError(
+        "Balance cannot be set below the held balance",
+        httpStatus.BAD_REQUEST
+      );
+    }
+    const movement = {
+      walletId: wallet.walletId,
+      amount: difference.abs(),
+      description: `Balance of Wallet #${wallet.walletId} adjusted to ${data.balance}`,
+    };
+    if (difference.greaterThan(0)) {
+      await creditWallet(movement, "ADJUSTMENTS", tx);
+    } else {
+      await debitWallet(movement, "ADJUSTMENTS", tx);
+    }
+    return await tx.wallet.findUniqueOrThrow({
+      where: { walletId: wallet.walletId },
+    });
   });
-  return wallet;
 }
 
 /**
@@ -321,3 +472,683 @@ export async function deleteWallet(walletId: bigint): Promise<void> {
     where: { walletId },
   });
 }
+
+const withdrawalMethodLabel: Record<WithdrawalMethod, string> = {
+  BANK: "ব্যাংক অ্যাকাউন্টে",
+  BKASH: "বিকাশে",
+  NAGAD: "নগদে",
+  ROCKET: "রকেটে",
+};
+
+/**
+ * Request a payout of available wallet money
+ * - The amount is put on a WITHDRAWAL hold with a LOCKED withdrawal
+ *   transaction until an admin approves or rejects the request
+ * @param userId - The customer user requesting the withdrawal
+ * @throws AppError if the wallet is missing or its available balance is short
+ */
+export async function requestWithdrawal(
+  userId: bigint,
+  data: WithdrawWalletDto["body"]
+): Promise<Withdrawal> {
+  return await prisma.$transaction(async (tx) => {
+    const customer = await tx.customer.findUnique({
+      where: { userId },
+      include: { wallet: true },
+    });
+    if (!customer) {
+      throw new AppError("Customer not found", httpStatus.NOT_FOUND);
+    }
+    if (!customer.wallet) {
+      throw new AppError("Wallet not found", httpStatus.NOT_FOUND);
+    }
+    const walletId = customer.wallet.walletId;
+    const amount = new Decimal(data.amount);
+    if (!(await canCoverFromWallet(walletId, amount, tx))) {
+      throw new AppError(
+        "Insufficient available wallet balance",
+        httpStatus.BAD_REQUEST
+      );
+    }
+
+    const walletTransaction = await tx.walletTransaction.create({
+      data: {
+        amount,
+        transactionType: "WITHDRAWAL",
+        transactionStatus: "LOCKED",
+        description: `Withdrawal to ${data.method} account ${data.accountNumber}`,
+        walletId,
+      },
+    });
+    // Rechecks the balance with the wallet locked
+    await placeHold(
+      {
+        walletId,
+        amount,
+        reason: "WITHDRAWAL",
+        description: walletTransaction.description!,
+        walletTransactionId: walletTransaction.transactionId,
+      },
+      tx
+    );
+    const withdrawal = await tx.withdrawal.create({
+      data: {
+        ...data,
+        amount,
+        walletId,
+        walletTransactionId: walletTransaction.transactionId,
+      },
+    });
+
+    const message = `আপনার ${amount.toFixed(
+      2
+    )} টাকা উত্তোলনের অনুরোধটি গ্রহণ করা হয়েছে। অনুমোদনের পর টাকা আপনার ${
+      withdrawalMethodLabel[data.method]
+    } পাঠানো হবে। (উত্তোলন আইডিঃ #${withdrawal.withdrawalId})`;
+    await createNotification(message, "WALLET", customer.userId, tx);
+    return withdrawal;
+  });
+}
+
+/**
+ * Retrieve withdrawals with pagination
+ * @param query - Pagination and filters
+ * @param userId - When set, only withdrawals of this customer user are listed
+ */
+export async function getWithdrawals(
+  query: GetWithdrawalsDto["query"],
+  userId?: bigint
+): Promise<IGetWithdrawalsResult> {
+  const { page, limit, status } = query;
+  const whereClause: Prisma.WithdrawalWhereInput = {
+    ...(status && { status }),
+    ...(userId && { wallet: { customer: { userId } } }),
+  };
+
+  const [withdrawals, totalCount] = await Promise.all([
+    prisma.withdrawal.findMany({
+      where: whereClause,
+      take: limit,
+      skip: (page - 1) * limit,
+      orderBy: { createdAt: "desc" },
+    }),
+    prisma.withdrawal.count({ where: whereClause }),
+  ]);
+
+  return {
+    data: withdrawals,
+    currentPage: page,
+    totalPages: Math.ceil(totalCount / limit),
+    totalCount,
+  };
+}
+
+/**
+ * Move a pending withdrawal to its final status, unless another admin
+ * reviewed it first
+ */
+async function reviewWithdrawal(
+  withdrawalId: bigint,
+  data: Prisma.WithdrawalUpdateManyMutationInput,
+  tx: Prisma.TransactionClient
+) {
+  const { count } = await tx.withdrawal.updateMany({
+    where: { withdrawalId, status: "PENDING" },
+    data: { ...data, reviewedAt: new Date() },
+  });
+  if (count === 0) {
+    const exists = await tx.withdrawal.count({ where: { withdrawalId } });
+    throw exists
+      ? new AppError("Withdrawal was already reviewed", httpStatus.CONFLICT)
+      : new AppError("Withdrawal not found", httpStatus.NOT_FOUND);
+  }
+  return await tx.withdrawal.findUniqueOrThrow({
+    where: { withdrawalId },
+    include: { wallet: { include: { customer: true } } },
+  });
+}
+
+const findWithdrawalHold = (
+  walletTransactionId: bigint,
+  tx: Prisma.TransactionClient
+) =>
+  tx.walletHold.findFirstOrThrow({
+    where: { walletTransactionId, reason: "WITHDRAWAL", status: "ACTIVE" },
+  });
+
+/**
+ * Approve a withdrawal once the money has been paid out
+ * @param reviewedByUserId - The admin user approving it
+ */
+export async function approveWithdrawal(
+  withdrawalId: bigint,
+  data: ApproveWithdrawalDto["body"],
+  reviewedByUserId?: bigint
+): Promise<Withdrawal> {
+  return await prisma.$transaction(async (tx) => {
+    const { wallet, ...withdrawal } = await reviewWithdrawal(
+      withdrawalId,
+      {
+        status: "APPROVED",
+        payoutReference: data.payoutReference,
+        reviewedByUserId,
+      },
+      tx
+    );
+    await captureHold(
+      await findWithdrawalHold(withdrawal.walletTransactionId, tx),
+      `Withdrawal #${withdrawalId} paid out. Reference: ${data.payoutReference}`,
+      tx
+    );
+    await tx.walletTransaction.update({
+      where: { transactionId: withdrawal.walletTransactionId },
+      data: {
+        transactionStatus: "COMPLETED",
+        description: `Withdrawal paid out. Reference: ${data.payoutReference}`,
+      },
+    });
+
+    const message = `আপনার ${withdrawal.amount.toFixed(2)} টাকা আপনার ${
+      withdrawalMethodLabel[withdrawal.method]
+    } পাঠানো হয়েছে। (রেফারেন্সঃ ${data.payoutReference})`;
+    await createNotification(message, "WALLET", wallet.customer.userId, tx);
+    return withdrawal;
+  });
+}
+
+/**
+ * Reject a withdrawal and give the locked money back to the wallet
+ * @param reviewedByUserId - The admin user rejecting it
+ */
+export async function rejectWithdrawal(
+  withdrawalId: bigint,
+  data: RejectWithdrawalDto["body"],
+  reviewedByUserId?: bigint
+): Promise<Withdrawal> {
+  return await prisma.$transaction(async (tx) => {
+    const { wallet, ...withdrawal } = await reviewWithdrawal(
+      withdrawalId,
+      { status: "REJECTED", rejectionReason: data.reason, reviewedByUserId },
+      tx
+    );
+    await releaseHold(
+      await findWithdrawalHold(withdrawal.walletTransactionId, tx),
+      `Withdrawal #${withdrawalId} rejected`,
+      tx
+    );
+    await tx.walletTransaction.update({
+      where: { transactionId: withdrawal.walletTransactionId },
+      data: {
+        transactionStatus: "FAILED",
+        description: `Withdrawal rejected: ${data.reason}`,
+      },
+    });
+
+    const message = `দুঃখিত, আপনার ${withdrawal.amount.toFixed(
+      2
+    )} টাকা উত্তোলনের অনুরোধটি গ্রহণ করা যায়নি। টাকা আপনার ওয়ালেটে ফেরত দেওয়া হয়েছে। কারণঃ ${
+      data.reason
+    }`;
+    await createNotification(message, "WALLET", wallet.customer.userId, tx);
+    return withdrawal;
+  });
+}
+
+// Limits on what a customer can send to other wallets per day, counted from
+// midnight in Dhaka
+const MAX_DAILY_TRANSFER_AMOUNT = new Decimal(10_000);
+const MAX_DAILY_TRANSFERS = 10;
+// Matches the lifetime of the OTP sent to confirm a transfer
+const TRANSFER_EXPIRY_MINUTES = 5;
+// Wrong OTPs after which a transfer is locked
+const MAX_TRANSFER_OTP_ATTEMPTS = 5;
+
+// Transfers are returned without their OTP hash
+const transferOmit = { otpHash: true } satisfies Prisma.WalletTransferOmit;
+
+/**
+ * Refuse a transfer that would take the sender over the daily limits.
+ * Only completed transfers count, so pending ones cannot use up the limit.
+ */
+async function assertWithinDailyTransferLimits(
+  senderWalletId: bigint,
+  amount: Decimal,
+  tx: Prisma.TransactionClient
+): Promise<void> {
+  const { _sum, _count } = await tx.walletTransfer.aggregate({
+    where: {
+      senderWalletId,
+      status: "COMPLETED",
+      completedAt: { gte: startOfDhakaDay(toDhakaDay(new Date())) },
+    },
+    _sum: { amount: true },
+    _count: true,
+  });
+  if (_count >= MAX_DAILY_TRANSFERS) {
+    throw new AppError(
+      `You can send at most ${MAX_DAILY_TRANSFERS} transfers per day`,
+      httpStatus.BAD_REQUEST
+    );
+  }
+  const sentToday = _sum.amount ?? new Decimal(0);
+  if (sentToday.add(amount).greaterThan(MAX_DAILY_TRANSFER_AMOUNT)) {
+    throw new AppError(
+      `You can send ${MAX_DAILY_TRANSFER_AMOUNT.sub(sentToday).toFixed(
+        2
+      )} more today`,
+      httpStatus.BAD_REQUEST
+    );
+  }
+}
+
+/**
+ * Start sending wallet balance to another customer by phone number
+ * - The transfer stays PENDING until the sender confirms the OTP sent to
+ *   their phone for this transfer, and expires with the OTP
+ * - The recipient's wallet is created if they do not have one yet
+ * @param userId - The customer user sending the money
+ */
+export async function createWalletTransfer(
+  userId: bigint,
+  data: CreateWalletTransferDto["body"]
+): Promise<IWalletTransfer> {
+  const { otp, otpHash } = await generateOtp();
+  const transfer = await prisma.$transaction(async (tx) => {
+    const sender = await tx.customer.findUnique({
+      where: { userId },
+      include: { wallet: true, user: true },
+    });
+    if (!sender) {
+      throw new AppError("Customer not found", httpStatus.NOT_FOUND);
+    }
+    if (!sender.wallet) {
+      throw new AppError("Wallet not found", httpStatus.NOT_FOUND);
+    }
+    const recipient = await tx.customer.findFirst({
+      where: { user: { phone: data.recipientPhone } },
+    });
+    if (!recipient) {
+      throw new AppError(
+        "No customer is registered with this phone number",
+        httpStatus.NOT_FOUND
+      );
+    }
+    if (recipient.customerId === sender.customerId) {
+      throw new AppError(
+        "You cannot transfer to your own wallet",
+        httpStatus.BAD_REQUEST
+      );
+    }
+
+    const amount = new Decimal(data.amount);
+    if (!(await canCoverFromWallet(sender.wallet.walletId, amount, tx))) {
+      throw new AppError(
+        "Insufficient available wallet balance",
+        httpStatus.BAD_REQUEST
+      );
+    }
+    await assertWithinDailyTransferLimits(sender.wallet.walletId, amount, tx);
+
+    const recipientWallet = await tx.wallet.upsert({
+      where: { customerId: recipient.customerId },
+      update: {},
+      create: { customerId: recipient.customerId },
+    });
+    return await tx.walletTransfer.create({
+      data: {
+        amount,
+        note: data.note,
+        expiresAt: addMinutes(new Date(), TRANSFER_EXPIRY_MINUTES),
+        otpHash,
+        senderWalletId: sender.wallet.walletId,
+        recipientWalletId: recipientWallet.walletId,
+      },
+      omit: transferOmit,
+      include: {
+        senderWallet: { include: { customer: { include: { user: true } } } },
+      },
+    });
+  });
+
+  const { senderWallet, ...created } = transfer;
+  await deliverOtp(senderWallet.customer.user.phone, otp);
+  return created;
+}
+
+/**
+ * Complete a pending transfer once the sender confirms its OTP
+ * - Each wrong OTP counts against the transfer, which is LOCKED after
+ *   MAX_TRANSFER_OTP_ATTEMPTS of them; the OTP is cleared once it is used
+ * - Balance and daily limits are checked again with both wallets locked,
+ *   and the paired TRANSFER_OUT and TRANSFER_IN transactions are recorded
+ *   in the same transaction as the balance movement
+ * @param userId - The customer user who started the transfer
+ */
+export async function confirmWalletTransfer(
+  userId: bigint,
+  transferId: bigint,
+  otp: string
+): Promise<IWalletTransfer> {
+  const transfer = await prisma.walletTransfer.findFirst({
+    where: { transferId, senderWallet: { customer: { userId } } },
+    include: {
+      senderWallet: { include: { customer: { include: { user: true } } } },
+    },
+  });
+  if (!transfer) {
+    throw new AppError("Transfer not found", httpStatus.NOT_FOUND);
+  }
+  if (transfer.status !== "PENDING") {
+    throw new AppError(
+      `Transfer is already ${transfer.status.toLowerCase()}`,
+      httpStatus.CONFLICT
+    );
+  }
+  if (transfer.expiresAt < new Date()) {
+    await prisma.walletTransfer.updateMany({
+      where: { transferId, status: "PENDING" },
+      data: { status: "EXPIRED" },
+    });
+    throw new AppError("Transfer has expired", httpStatus.BAD_REQUEST);
+  }
+  // Count the attempt before checking it, so parallel guesses cannot get
+  // past the limit
+  const { count: attempts } = await prisma.walletTransfer.updateMany({
+    where: {
+      transferId,
+      status: "PENDING",
+      otpAttempts: { lt: MAX_TRANSFER_OTP_ATTEMPTS },
+    },
+    data: { otpAttempts: { increment: 1 } },
+  });
+  if (attempts === 0) {
+    throw new AppError(
+      "Too many wrong OTPs, the transfer is locked",
+      httpStatus.TOO_MANY_REQUESTS
+    );
+  }
+  const isValidOtp =
+    !!transfer.otpHash && (await matchesOtp(otp, transfer.otpHash));
+  if (!isValidOtp) {
+    await prisma.walletTransfer.updateMany({
+      where: {
+        transferId,
+        status: "PENDING",
+        otpAttempts: { gte: MAX_TRANSFER_OTP_ATTEMPTS },
+      },
+      data: { status: "LOCKED", otpHash: null },
+    });
+    throw new AppError("Invalid OTP", httpStatus.UNAUTHORIZED);
+  }
+
+  return await prisma.$transaction(async (tx) => {
+    // Lock both wallets, always in the same order so opposite transfers
+    // between two customers cannot deadlock
+    const { senderWalletId, recipientWalletId, amount } = transfer;
+    const [first, second] = [senderWalletId, recipientWalletId].sort((a, b) =>
+      a < b ? -1 : 1
+    );
+    await tx.$queryRaw`SELECT 1 FROM "Wallet" WHERE "walletId" IN (${first}, ${second}) ORDER BY "walletId" FOR UPDATE`;
+
+    if (!(await canCoverFromWallet(senderWalletId, amount, tx))) {
+      throw new AppError(
+        "Insufficient available wallet balance",
+        httpStatus.BAD_REQUEST
+      );
+    }
+    await assertWithinDailyTransferLimits(senderWalletId, amount, tx);
+    const { count } = await tx.walletTransfer.updateMany({
+      where: { transferId, status: "PENDING" },
+      data: { status: "COMPLETED", completedAt: new Date(), otpHash: null },
+    });
+    if (count === 0) {
+      throw new AppError("Transfer was already confirmed", httpStatus.CONFLICT);
+    }
+
+    const recipientWallet = await tx.wallet.findUniqueOrThrow({
+      where: { walletId: recipientWalletId },
+      include: { customer: { include: { user: true } } },
+    });
+    const senderUser = transfer.senderWallet.customer.user;
+    const recipientUser = recipientWallet.customer.user;
+
+    const debit = await tx.walletTransaction.create({
+      data: {
+        amount,
+        transactionType: "TRANSFER_OUT",
+        transactionStatus: "COMPLETED",
+        description: `Transfer #${transferId} to ${recipientUser.phone}`,
+        walletId: senderWalletId,
+      },
+    });
+    const credit = await tx.walletTransaction.create({
+      data: {
+        amount,
+        transactionType: "TRANSFER_IN",
+        transactionStatus: "COMPLETED",
+        description: `Transfer #${transferId} from ${senderUser.phone}`,
+        walletId: recipientWalletId,
+      },
+    });
+    await debitWallet(
+      {
+        walletId: senderWalletId,
+        amount,
+        description: debit.description!,
+        walletTransactionId: debit.transactionId,
+      },
+      "TRANSFERS",
+      tx
+    );
+    await creditWallet(
+      {
+        walletId: recipientWalletId,
+        amount,
+        description: credit.description!,
+        walletTransactionId: credit.transactionId,
+      },
+      "TRANSFERS",
+      tx
+    );
+    const completed = await tx.walletTransfer.update({
+      where: { transferId },
+      omit: transferOmit,
+      data: {
+        debitTransactionId: debit.transactionId,
+        creditTransactionId: credit.transactionId,
+      },
+    });
+
+    await createNotification(
+      `আপনার ওয়ালেট থেকে ${recipientUser.phone} নম্বরে ${amount.toFixed(
+        2
+      )} টাকা পাঠানো হয়েছে। (ট্রান্সফার আইডিঃ #${transferId})`,
+      "WALLET",
+      senderUser.userId,
+      tx
+    );
+    await createNotification(
+      `${senderUser.phone} নম্বর থেকে আপনার ওয়ালেটে ${amount.toFixed(
+        2
+      )} টাকা এসেছে।${transfer.note ? ` বার্তাঃ ${transfer.note}` : ""}`,
+      "WALLET",
+      recipientUser.userId,
+      tx
+    );
+    return completed;
+  });
+}
+
+/**
+ * Retrieve transfers the customer sent or received, with pagination
+ * @param userId - The customer user
+ */
+export async function getWalletTransfers(
+  query: GetWalletTransfersDto["query"],
+  userId: bigint
+): Promise<IGetWalletTransfersResult> {
+  const { page, limit } = query;
+  const whereClause: Prisma.WalletTransferWhereInput = {
+    OR: [
+      { senderWallet: { customer: { userId } } },
+      { recipientWallet: { customer: { userId } }, status: "COMPLETED" },
+    ],
+  };
+
+  const [transfers, totalCount] = await Promise.all([
+    prisma.walletTransfer.findMany({
+      where: whereClause,
+      omit: transferOmit,
+      take: limit,
+      skip: (page - 1) * limit,
+      orderBy: { createdAt: "desc" },
+    }),
+    prisma.walletTransfer.count({ where: whereClause }),
+  ]);
+
+  return {
+    data: transfers,
+    currentPage: page,
+    totalPages: Math.ceil(totalCount / limit),
+    totalCount,
+  };
+}
+
+/**
+ * Build a wallet's statement for one month from its ledger
+ * - The opening balance is what the ledger held at the start of the month;
+ *   a wallet from before the ledger has its accounts opened first, so the
+ *   money it held then is listed as an opening balance entry
+ * - Every wallet transaction of the month is listed with what it changed
+ *   in the balance, as are ledger entries of the month that belong to an
+ *   earlier transaction (e.g. a capture of older locked funds) or to none
+ *   (e.g. an admin adjustment), so the rows add up to the closing balance
+ * @param month - The month in Dhaka, as YYYY-MM
+ */
+export async function getWalletStatement(
+  walletId: bigint,
+  month: string
+): Promise<WalletStatement> {
+  const wallet = await prisma.wallet.findUnique({
+    where: { walletId },
+    include: { customer: { include: { user: true } } },
+  });
+  if (!wallet) {
+    throw new AppError("Wallet not found", httpStatus.NOT_FOUND);
+  }
+  await prisma.$transaction((tx) => openWalletAccounts(walletId, tx));
+  const { start: periodStart, end: periodEnd } = dhakaMonthBounds(month);
+  const walletPostings = { account: { walletId } };
+
+  const [opening, entries, transactions] = await Promise.all([
+    prisma.ledgerPosting.aggregate({
+      where: { ...walletPostings, entry: { createdAt: { lt: periodStart } } },
+      _sum: { amount: true },
+    }),
+    prisma.journalEntry.findMany({
+      where: {
+        createdAt: { gte: periodStart, lte: periodEnd },
+        postings: { some: walletPostings },
+      },
+      include: { postings: { where: walletPostings } },
+      orderBy: { createdAt: "asc" },
+    }),
+    prisma.walletTransaction.findMany({
+      where: { walletId, createdAt: { gte: periodStart, lte: periodEnd } },
+      orderBy: { createdAt: "asc" },
+    }),
+  ]);
+
+  // Net change of each entry to the balance; moves between the wallet's
+  // available and locked accounts cancel out
+  const entryAmount = (entry: (typeof entries)[number]) =>
+    entry.postings.reduce(
+      (sum, posting) => sum.add(posting.amount),
+      new Decimal(0)
+    );
+  const listedTransactions = new Set(
+    transactions.map((transaction) => transaction.transactionId)
+  );
+
+  const rows: Omit<WalletStatementLine, "runningBalance">[] = [
+    ...transactions.map((transaction) => ({
+      date: transaction.createdAt,
+      transactionId: transaction.transactionId,
+      type: transaction.transactionType,
+      status: transaction.transactionStatus,
+      description: transaction.description ?? transaction.transactionType,
+      amount: entries
+        .filter(
+          (entry) => entry.walletTransactionId === transaction.transactionId
+        )
+        .reduce((sum, entry) => sum.add(entryAmount(entry)), new Decimal(0)),
+    })),
+    ...entries
+      .filter(
+        (entry) =>
+          !(
+            entry.walletTransactionId &&
+            listedTransactions.has(entry.walletTransactionId)
+          ) && !entryAmount(entry).isZero()
+      )
+      .map((entry) => ({
+        date: entry.createdAt,
+        transactionId: entry.walletTransactionId,
+        type: null,
+        status: null,
+        description: entry.description,
+        amount: entryAmount(entry),
+      })),
+  ].sort((a, b) => a.date.getTime() - b.date.getTime());
+
+  const openingBalance = opening._sum.amount ?? new Decimal(0);
+  let runningBalance = openingBalance;
+  const lines = rows.map((row) => {
+    runningBalance = runningBalance.add(row.amount);
+    return { ...row, runningBalance };
+  });
+
+  return {
+    walletId,
+    customerName: wallet.customer.user.name,
+    customerPhone: wallet.customer.user.phone,
+    periodStart,
+    periodEnd,
+    openingBalance,
+    closingBalance: runningBalance,
+    lines,
+  };
+}
+
+/**
+ * Render a wallet's monthly statement as a PDF or CSV file
+ */
+export async function exportWalletStatement(
+  walletId: bigint,
+  { month, format }: GetWalletStatementDto["query"]
+): Promise<{ fileName: string; contentType: string; file: Buffer }> {
+  const statement = await getWalletStatement(walletId, month);
+  return format === "csv"
+    ? {
+        fileName: statementFileName(statement, "csv"),
+        contentType: "text/csv; charset=utf-8",
+        file: buildWalletStatementCsv(statement),
+      }
+    : {
+        fileName: statementFileName(statement, "pdf"),
+        contentType: "application/pdf",
+        file: await buildWalletStatementPdf(statement),
+      };
+}
+
+/**
+ * Render the monthly statement of a customer's own wallet
+ * @param userId - The customer user
+ */
+export async function exportCustomerWalletStatement(
+  userId: bigint,
+  query: GetWalletStatementDto["query"]
+): Promise<{ fileName: string; contentType: string; file: Buffer }> {
+  const wallet = await getCustomerWalletBalanace(userId);
+  return await exportWalletStatement(wallet.walletId, query);
+}
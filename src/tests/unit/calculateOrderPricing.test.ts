@@ -0,0 +1,136 @@
+import { addDays, subDays } from "date-fns";
+import { Decimal } from "@/generated/prisma/client/runtime/library";
+import prisma from "@/prisma-client/prismaClient";
+import { FakePrisma } from "@/tests/unit/helpers/fakePrisma";
+import {
+  assertAmountMatches,
+  assertLinesAvailable,
+  calculateOrderPricing,
+} from "@/utils/calculateOrderPricing";
+
+vi.mock("@/prisma-client/prismaClient", async () => ({
+  default: (await import("@/tests/unit/helpers/fakePrisma")).fakePrisma,
+}));
+vi.mock("@/utils/socket", () => ({
+  io: { to: () => ({ emit: vi.fn() }) },
+  getSocketId: () => null,
+}));
+
+const db = prisma as unknown as FakePrisma;
+
+const deal = (
+  discountType: "PERCENTAGE" | "FLAT",
+  discountValue: number,
+  active = true
+) => ({
+  discountType,
+  discountValue,
+  isGlobal: false,
+  startDate: subDays(new Date(), active ? 1 : 10),
+  endDate: active ? addDays(new Date(), 1) : subDays(new Date(), 5),
+});
+
+const seedProduct = (productId: bigint, fields: Record<string, unknown>) =>
+  db.$seed("product", {
+    productId,
+    name: `Product ${productId}`,
+    unitType: "KG",
+    packageSize: 1,
+    stockQuantity: 100,
+    isPreorder: false,
+    deal: null,
+    ...fields,
+  });
+
+describe("server order pricing", () => {
+  beforeEach(() => {
+    db.$reset();
+    seedProduct(1n, { unitPrice: new Decimal(80), packageSize: 5 });
+    seedProduct(2n, {
+      unitPrice: new Decimal(200),
+      deal: deal("PERCENTAGE", 10),
+    });
+  });
+
+  it("prices lines from the products' current prices", async () => {
+    const pricing = await calculateOrderPricing([
+      { productId: 1n, quantity: 2 },
+    ]);
+
+    expect(pricing.lines[0]).toMatchObject({ quantity: 2, packageSize: 5 });
+    expect(pricing.lines[0].subtotal.toNumber()).toBe(800);
+    expect(pricing.totalAmount.toNumber()).toBe(800);
+    expect(pricing.discountAmount.toNumber()).toBe(0);
+  });
+
+  it("applies the product's active deal", async () => {
+    const pricing = await calculateOrderPricing([
+      { productId: 1n, quantity: 1 },
+      { productId: 2n, quantity: 3 },
+    ]);
+
+    expect(pricing.lines[1].discountUnitPrice!.toNumber()).toBe(180);
+    expect(pricing.lines[1].subtotal.toNumber()).toBe(540);
+    expect(pricing.discountAmount.toNumber()).toBe(60);
+    expect(pricing.totalAmount.toNumber()).toBe(940);
+  });
+
+  it("falls back to the global deal once the product deal ended", async () => {
+    seedProduct(3n, {
+      unitPrice: new Decimal(50),
+      deal: deal("PERCENTAGE", 50, false),
+    });
+    db.$seed("deal", { ...deal("FLAT", 5), isGlobal: true });
+
+    const pricing = await calculateOrderPricing([
+      { productId: 3n, quantity: 2 },
+    ]);
+
+    expect(pricing.lines[0].subtotal.toNumber()).toBe(90);
+    expect(pricing.discountAmount.toNumber()).toBe(10);
+  });
+
+  it("refuses products listed twice", async () => {
+    await expect(
+      calculateOrderPricing([
+        { productId: 1n, quantity: 1 },
+        { productId: 1n, quantity: 2 },
+      ])
+    ).rejects.toMatchObject({ statusCode: 400 });
+  });
+
+  it("refuses unknown products", async () => {
+    await expect(
+      calculateOrderPricing([{ productId: 9n, quantity: 1 }])
+    ).rejects.toMatchObject({ statusCode: 404 });
+  });
+
+  it("flags lines the stock cannot cover, except preorders", async () => {
+    seedProduct(4n, {
+      unitPrice: new Decimal(10),
+      stockQuantity: 0,
+      isPreorder: true,
+    });
+    const pricing = await calculateOrderPricing([
+      { productId: 1n, quantity: 21 },
+      { productId: 4n, quantity: 1 },
+    ]);
+
+    expect(pricing.lines.map((line) => line.isAvailable)).toEqual([
+      false,
+      true,
+    ]);
+    expect(() => assertLinesAvailable(pricing.lines)).toThrow(
+      "Insufficient stock for products: Product 1"
+    );
+  });
+
+  it("refuses client amounts that differ from the server's", () => {
+    const total = new Decimal(940);
+
+    expect(() => assertAmountMatches("Total", 940.005, total)).not.toThrow();
+    expect(() => assertAmountMatches("Total", 900, total)).toThrow(
+      "Total mismatch: expected 940.00, received 900.00"
+    );
+  });
+});
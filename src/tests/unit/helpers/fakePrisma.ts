@@ -0,0 +1,533 @@
+import {
+  CodSettlement,
+  Customer,
+  Deal,
+  DeliveryAssignment,
+  JournalEntry,
+  LedgerAccount,
+  LedgerPosting,
+  Notification,
+  Order,
+  OrderEvent,
+  OrderItem,
+  OrderTracking,
+  Payment,
+  PaymentCallback,
+  Prisma,
+  PrismaClient,
+  Product,
+  Refund,
+  Return,
+  ReturnItem,
+  Rider,
+  StockTransaction,
+  SubscriptionDelivery,
+  Wallet,
+  WalletHold,
+  WalletTransaction,
+  WalletTransfer,
+  Withdrawal,
+} from "@/generated/prisma/client";
+import { Decimal } from "@/generated/prisma/client/runtime/library";
+
+// An in-memory stand-in for the Prisma client, covering the queries the
+// code under test makes, so its tests need no database.
+// Register it with:
+//   vi.mock("@/prisma-client/prismaClient", async () => ({
+//     default: (await import("@/tests/unit/helpers/fakePrisma")).fakePrisma,
+//   }));
+// Raw SQL is only logged: row locks are not modelled, so a test can check
+// that a lock was taken but not that it serialises concurrent writers.
+
+// The tables the fake keeps, with the row type of each
+export interface FakeTables {
+  deal: Deal;
+  product: Product;
+  order: Order;
+  orderItem: OrderItem;
+  orderEvent: OrderEvent;
+  orderTracking: OrderTracking;
+  payment: Payment;
+  refund: Refund;
+  return: Return;
+  returnItem: ReturnItem;
+  stockTransaction: StockTransaction;
+  notification: Notification;
+  paymentCallback: PaymentCallback;
+  wallet: Wallet;
+  walletTransaction: WalletTransaction;
+  ledgerAccount: LedgerAccount;
+  journalEntry: JournalEntry;
+  ledgerPosting: LedgerPosting;
+  walletHold: WalletHold;
+  rider: Rider;
+  deliveryAssignment: DeliveryAssignment;
+  codSettlement: CodSettlement;
+  subscriptionDelivery: SubscriptionDelivery;
+  customer: Customer;
+  withdrawal: Withdrawal;
+  walletTransfer: WalletTransfer;
+}
+
+export type FakeTable = keyof FakeTables;
+
+/** A raw statement the code under test ran */
+export interface RawQuery {
+  sql: string;
+  values: unknown[];
+}
+
+export type FakePrisma = PrismaClient & {
+  /** Rows of a table, to seed or inspect it */
+  $rows<T extends FakeTable>(table: T): FakeTables[T][];
+  /** Add a row the way a create would */
+  $seed<T extends FakeTable>(
+    table: T,
+    data: Partial<FakeTables[T]> & Row
+  ): FakeTables[T];
+  /** Empty every table and the raw query log */
+  $reset(): void;
+  /** Raw statements run so far, e.g. the row locks taken */
+  $rawQueries: RawQuery[];
+};
+
+type Row = Record<string, unknown>;
+
+interface QueryArgs {
+  where?: Row;
+  orderBy?: Row | Row[];
+  data?: Row | Row[];
+  update?: Row;
+  create?: Row;
+  include?: Row;
+  by?: string[];
+  _sum?: Row;
+  _count?: boolean;
+}
+
+const ID_FIELDS: { [T in FakeTable]: keyof FakeTables[T] & string } = {
+  deal: "dealId",
+  product: "productId",
+  order: "orderId",
+  orderItem: "orderItemId",
+  orderEvent: "eventId",
+  orderTracking: "trackingId",
+  payment: "paymentId",
+  refund: "refundId",
+  return: "returnId",
+  returnItem: "returnItemId",
+  stockTransaction: "transactionId",
+  notification: "notificationId",
+  paymentCallback: "callbackId",
+  wallet: "walletId",
+  walletTransaction: "transactionId",
+  ledgerAccount: "accountId",
+  journalEntry: "entryId",
+  ledgerPosting: "postingId",
+  walletHold: "holdId",
+  rider: "riderId",
+  deliveryAssignment: "assignmentId",
+  codSettlement: "settlementId",
+  subscriptionDelivery: "deliveryId",
+  customer: "customerId",
+  withdrawal: "withdrawalId",
+  walletTransfer: "transferId",
+};
+
+const UNIQUE_FIELDS: Partial<Record<FakeTable, string[]>> = {
+  paymentCallback: ["processedKey"],
+  ledgerAccount: ["code"],
+  deliveryAssignment: ["orderId"],
+  wallet: ["customerId"],
+  customer: ["userId"],
+};
+
+// A table reached through a relation field, and the key that links them
+interface Relation {
+  table: FakeTable;
+  foreignKey: string;
+  // A child relation holding at most one row, e.g. on a unique foreign key
+  one?: boolean;
+}
+
+// Nested creates and list includes, by table and relation field
+const CHILD_TABLES: Record<string, Relation> = {
+  "payment.refunds": { table: "refund", foreignKey: "paymentId" },
+  "journalEntry.postings": { table: "ledgerPosting", foreignKey: "entryId" },
+  "return.returnItems": { table: "returnItem", foreignKey: "returnId" },
+  "order.deliveryAssignment": {
+    table: "deliveryAssignment",
+    foreignKey: "orderId",
+    one: true,
+  },
+  "codSettlement.assignments": {
+    table: "deliveryAssignment",
+    foreignKey: "codSettlementId",
+  },
+  "customer.wallet": { table: "wallet", foreignKey: "customerId", one: true },
+};
+
+// Relations a where can filter through or an include can load, by table and
+// relation field
+const PARENT_TABLES: Record<string, Relation> = {
+  "payment.order": { table: "order", foreignKey: "orderId" },
+  "refund.payment": { table: "payment", foreignKey: "paymentId" },
+  "payment.walletTransaction": {
+    table: "walletTransaction",
+    foreignKey: "walletTransactionId",
+  },
+  "ledgerPosting.account": { table: "ledgerAccount", foreignKey: "accountId" },
+  "ledgerPosting.entry": { table: "journalEntry", foreignKey: "entryId" },
+  "walletHold.wallet": { table: "wallet", foreignKey: "walletId" },
+  "returnItem.orderItem": { table: "orderItem", foreignKey: "orderItemId" },
+  "deliveryAssignment.order": { table: "order", foreignKey: "orderId" },
+  "withdrawal.wallet": { table: "wallet", foreignKey: "walletId" },
+  "walletTransfer.senderWallet": {
+    table: "wallet",
+    foreignKey: "senderWalletId",
+  },
+};
+
+const DEFAULTS: { [T in FakeTable]?: () => Partial<FakeTables[T]> } = {
+  refund: () => ({ status: "PENDING" }),
+  return: () => ({ status: "REQUESTED" }),
+  wallet: () => ({ balance: new Decimal(0), lockedBalance: new Decimal(0) }),
+  walletHold: () => ({ status: "ACTIVE" }),
+  deliveryAssignment: () => ({ status: "ASSIGNED", assignedAt: new Date() }),
+  withdrawal: () => ({ status: "PENDING" }),
+  walletTransfer: () => ({ status: "PENDING", otpAttempts: 0 }),
+};
+
+const isPlainObject = (value: unknown): value is Row =>
+  typeof value === "object" &&
+  value !== null &&
+  !(value instanceof Date) &&
+  !Decimal.isDecimal(value) &&
+  !Array.isArray(value);
+
+const isNumeric = (value: unknown) =>
+  typeof value === "number" ||
+  typeof value === "bigint" ||
+  Decimal.isDecimal(value);
+
+function equal(a: unknown, b: unknown): boolean {
+  if (a === undefined || a === null || b === undefined || b === null) {
+    return (a ?? null) === (b ?? null);
+  }
+  if (isNumeric(a) && isNumeric(b)) {
+    return new Decimal(String(a)).equals(String(b));
+  }
+  if (a instanceof Date && b instanceof Date) {
+    return a.getTime() === b.getTime();
+  }
+  return a === b;
+}
+
+const compare = (a: unknown, b: unknown) =>
+  a instanceof Date && b instanceof Date
+    ? a.getTime() - b.getTime()
+    : new Decimal(String(a)).cmp(String(b));
+
+// Filters a relation left as seeded on the fields it was seeded with
+const matchesSeeded = (row: Row, where: Row): boolean =>
+  Object.entries(where).every(([field, filter]) =>
+    isPlainObject(row[field])
+      ? matchesSeeded(row[field] as Row, filter as Row)
+      : matchesField(row[field], filter)
+  );
+
+function matchesField(value: unknown, filter: unknown): boolean {
+  if (filter === undefined) return true;
+  if (!isPlainObject(filter)) return equal(value, filter);
+  return Object.entries(filter).every(([operator, operand]) => {
+    switch (operator) {
+      case "in":
+        return (operand as unknown[]).some((item) => equal(value, item));
+      case "not":
+        return !matchesField(value, operand);
+      case "lt":
+        return value != null && compare(value, operand) < 0;
+      case "lte":
+        return value != null && compare(value, operand) <= 0;
+      case "gt":
+        return value != null && compare(value, operand) > 0;
+      case "gte":
+        return value != null && compare(value, operand) >= 0;
+      default:
+        throw new Error(`Fake Prisma does not support "${operator}" filters`);
+    }
+  });
+}
+
+// Moves a number or Decimal column by an increment or decrement
+const shift = (current: unknown, by: unknown, sign: 1 | -1) =>
+  typeof current === "number"
+    ? current + sign * Number(by)
+    : new Decimal(String(current)).add(new Decimal(String(by)).mul(sign));
+
+function applyUpdate(row: Row, data: Row = {}): void {
+  for (const [field, value] of Object.entries(data)) {
+    if (value === undefined) continue;
+    if (isPlainObject(value) && "increment" in value) {
+      row[field] = shift(row[field], value.increment, 1);
+    } else if (isPlainObject(value) && "decrement" in value) {
+      row[field] = shift(row[field], value.decrement, -1);
+    } else {
+      row[field] = value;
+    }
+  }
+  row.updatedAt = new Date();
+}
+
+export function createFakePrisma(): FakePrisma {
+  let tables: Partial<Record<FakeTable, Row[]>> = {};
+  const rawQueries: RawQuery[] = [];
+  let nextId = 1n;
+
+  const rows = (table: FakeTable): Row[] => (tables[table] ??= []);
+  const idOf = (table: FakeTable): string => ID_FIELDS[table];
+
+  const matches = (table: FakeTable, row: Row, where: Row = {}): boolean =>
+    Object.entries(where).every(([field, filter]) => {
+      if (field === "AND") {
+        return (filter as Row[]).every((w) => matches(table, row, w));
+      }
+      if (field === "OR") {
+        return (filter as Row[]).some((w) => matches(table, row, w));
+      }
+      const parent = PARENT_TABLES[`${table}.${field}`];
+      if (parent) {
+        return rows(parent.table).some(
+          (candidate) =>
+            equal(candidate[idOf(parent.table)], row[parent.foreignKey]) &&
+            matches(parent.table, candidate, filter as Row)
+        );
+      }
+      const child = CHILD_TABLES[`${table}.${field}`];
+      if (child) {
+        const { some, ...rest } = filter as Row;
+        if (!some || Object.keys(rest).length > 0) {
+          throw new Error(`Fake Prisma only supports "some" on ${field}`);
+        }
+        return rows(child.table).some(
+          (candidate) =>
+            equal(candidate[child.foreignKey], row[idOf(table)]) &&
+            matches(child.table, candidate, some as Row)
+        );
+      }
+      if (isPlainObject(row[field])) {
+        return matchesSeeded(row[field] as Row, filter as Row);
+      }
+      return matchesField(row[field], filter);
+    });
+
+  const assertUnique = (table: FakeTable, row: Row) => {
+    for (const field of UNIQUE_FIELDS[table] ?? []) {
+      if (row[field] == null) continue;
+      const taken = rows(table).some(
+        (other) => other !== row && equal(other[field], row[field])
+      );
+      if (taken) {
+        throw new Prisma.PrismaClientKnownRequestError(
+          `Unique constraint failed on ${field}`,
+          { code: "P2002", clientVersion: "fake", meta: { target: [field] } }
+        );
+      }
+    }
+  };
+
+  const insert = (table: FakeTable, data: Row = {}): Row => {
+    const row: Row = {
+      ...DEFAULTS[table]?.(),
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    const children: [string, Row[]][] = [];
+    for (const [field, value] of Object.entries(data)) {
+      if (isPlainObject(value) && "create" in value) {
+        children.push([field, [value.create as Row | Row[]].flat()]);
+      } else if (value !== undefined) {
+        row[field] = value;
+      }
+    }
+    row[idOf(table)] ??= nextId++;
+    assertUnique(table, row);
+    rows(table).push(row);
+    for (const [field, items] of children) {
+      const child = CHILD_TABLES[`${table}.${field}`];
+      if (!child) throw new Error(`Fake Prisma cannot create ${field}`);
+      for (const item of items) {
+        insert(child.table, { ...item, [child.foreignKey]: row[idOf(table)] });
+      }
+    }
+    return row;
+  };
+
+  const sortRows = (list: Row[], orderBy?: Row | Row[]) => {
+    const orders = [orderBy ?? []].flat();
+    return [...list].sort((a, b) => {
+      for (const order of orders) {
+        const [[field, direction]] = Object.entries(order);
+        const result = compare(a[field], b[field]);
+        if (result !== 0) return direction === "desc" ? -result : result;
+      }
+      return 0;
+    });
+  };
+
+  // Loads the relations an include asks for; others are left as seeded
+  const load = (table: FakeTable, row: Row, include: Row = {}): Row => {
+    const loaded = { ...row };
+    for (const [field, wanted] of Object.entries(include)) {
+      if (!wanted) continue;
+      const args: QueryArgs = isPlainObject(wanted) ? wanted : {};
+      const parent = PARENT_TABLES[`${table}.${field}`];
+      const child = CHILD_TABLES[`${table}.${field}`];
+      if (parent) {
+        const related = rows(parent.table).find((candidate) =>
+          equal(candidate[idOf(parent.table)], row[parent.foreignKey])
+        );
+        loaded[field] = related
+          ? load(parent.table, related, args.include)
+          : null;
+      } else if (child) {
+        const children = rows(child.table)
+          .filter(
+            (candidate) =>
+              equal(candidate[child.foreignKey], row[idOf(table)]) &&
+              matches(child.table, candidate, args.where)
+          )
+          .map((candidate) => load(child.table, candidate, args.include));
+        loaded[field] = child.one ? children[0] ?? null : children;
+      }
+    }
+    return loaded;
+  };
+
+  const delegate = (table: FakeTable) => {
+    const findAll = (args: QueryArgs = {}) =>
+      sortRows(
+        rows(table).filter((row) => matches(table, row, args.where)),
+        args.orderBy
+      );
+    const findLoaded = (args: QueryArgs = {}) =>
+      findAll(args).map((row) => load(table, row, args.include));
+    const findOrThrow = (args: QueryArgs) => {
+      const row = findLoaded(args)[0];
+      if (!row) throw new Error(`No ${table} found`);
+      return row;
+    };
+    const sum = (list: Row[], fields: Row = {}) =>
+      Object.fromEntries(
+        Object.keys(fields).map((field) => [
+          field,
+          list.length === 0
+            ? null
+            : list.reduce(
+                (total, row) => total.add(String(row[field] ?? 0)),
+                new Decimal(0)
+              ),
+        ])
+      );
+
+    return {
+      findUnique: async (args: QueryArgs) => findLoaded(args)[0] ?? null,
+      findFirst: async (args: QueryArgs = {}) => findLoaded(args)[0] ?? null,
+      findUniqueOrThrow: async (args: QueryArgs) => findOrThrow(args),
+      findFirstOrThrow: async (args: QueryArgs) => findOrThrow(args),
+      findMany: async (args: QueryArgs = {}) => findLoaded(args),
+      count: async (args: QueryArgs = {}) => findAll(args).length,
+      create: async ({ data, include }: QueryArgs) =>
+        load(table, insert(table, data as Row), include),
+      createMany: async ({ data }: QueryArgs) => {
+        const items = [data ?? []].flat();
+        items.forEach((item) => insert(table, item));
+        return { count: items.length };
+      },
+      update: async ({ where, data }: QueryArgs) => {
+        const row = findAll({ where })[0];
+        if (!row) throw new Error(`No ${table} to update`);
+        applyUpdate(row, data as Row);
+        assertUnique(table, row);
+        return { ...row };
+      },
+      updateMany: async ({ where, data }: QueryArgs) => {
+        const list = findAll({ where });
+        list.forEach((row) => applyUpdate(row, data as Row));
+        return { count: list.length };
+      },
+      upsert: async ({ where, update, create, include }: QueryArgs) => {
+        const found = findAll({ where })[0];
+        const row = found ?? insert(table, create);
+        if (found) applyUpdate(row, update);
+        return load(table, row, include);
+      },
+      aggregate: async (args: QueryArgs) => {
+        const list = findAll(args);
+        return {
+          _sum: sum(list, args._sum),
+          ...(args._count && { _count: list.length }),
+        };
+      },
+      groupBy: async (args: QueryArgs) => {
+        const by = args.by ?? [];
+        const groups = new Map<string, Row[]>();
+        for (const row of findAll(args)) {
+          const key = by.map((field) => String(row[field])).join();
+          groups.set(key, [...(groups.get(key) ?? []), row]);
+        }
+        return [...groups.values()].map((group) => ({
+          ...Object.fromEntries(by.map((field) => [field, group[0][field]])),
+          _sum: sum(group, args._sum),
+        }));
+      },
+    };
+  };
+
+  const raw = (strings: TemplateStringsArray, ...values: unknown[]) => {
+    rawQueries.push({ sql: strings.join("?"), values });
+  };
+
+  const client: Row = {
+    $queryRaw: async (strings: TemplateStringsArray, ...values: unknown[]) => {
+      raw(strings, ...values);
+      return [];
+    },
+    $executeRaw: async (
+      strings: TemplateStringsArray,
+      ...values: unknown[]
+    ) => {
+      raw(strings, ...values);
+      return 0;
+    },
+    // Runs on a client of its own, and undoes its writes if it throws
+    $transaction: async (fn: (tx: FakePrisma) => Promise<unknown>) => {
+      const snapshot = Object.fromEntries(
+        Object.entries(tables).map(([table, list]) => [
+          table,
+          list.map((row) => ({ ...row })),
+        ])
+      );
+      try {
+        return await fn(Object.create(client));
+      } catch (error) {
+        tables = snapshot;
+        throw error;
+      }
+    },
+    $rows: rows,
+    $seed: (table: FakeTable, data: Row) => insert(table, data),
+    $reset: () => {
+      tables = {};
+      rawQueries.length = 0;
+      nextId = 1n;
+    },
+    $rawQueries: rawQueries,
+  };
+  for (const table of Object.keys(ID_FIELDS) as FakeTable[]) {
+    client[table] = delegate(table);
+  }
+  return client as unknown as FakePrisma;
+}
+
+export const fakePrisma = createFakePrisma();
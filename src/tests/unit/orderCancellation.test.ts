@@ -0,0 +1,155 @@
+import { Decimal } from "@/generated/prisma/client/runtime/library";
+import prisma from "@/prisma-client/prismaClient";
+import { FakePrisma } from "@/tests/unit/helpers/fakePrisma";
+import { cancelOrder } from "@/utils/processOrderCancellation";
+
+vi.mock("@/prisma-client/prismaClient", async () => ({
+  default: (await import("@/tests/unit/helpers/fakePrisma")).fakePrisma,
+}));
+vi.mock("@/utils/socket", () => ({
+  io: { to: () => ({ emit: vi.fn() }) },
+  getSocketId: () => null,
+}));
+
+const db = prisma as unknown as FakePrisma;
+const ORDER_ID = 10n;
+
+const findOrder = () => db.$rows("order")[0];
+const findWallet = () => db.$rows("wallet")[0];
+const findProduct = () => db.$rows("product")[0];
+
+// A confirmed order of 3 packages, whose stock was taken when it was paid
+function seedPaidOrder(paymentMethod: string) {
+  db.$seed("wallet", { customerId: 1n });
+  db.$seed("product", { productId: 5n, stockQuantity: 97 });
+  db.$seed("order", {
+    orderId: ORDER_ID,
+    customerId: 1n,
+    status: "CONFIRMED",
+    paymentStatus: "COMPLETED",
+    paymentMethod,
+    totalAmount: new Decimal(500),
+    depositAmount: new Decimal(0),
+    isSubscription: false,
+    deliverySlotId: null,
+    customer: { customerId: 1n, userId: 7n },
+  });
+  db.$seed("stockTransaction", {
+    productId: 5n,
+    orderId: ORDER_ID,
+    quantity: 3,
+    transactionType: "OUT",
+  });
+  return db.$seed("payment", {
+    orderId: ORDER_ID,
+    amount: new Decimal(500),
+    paymentMethod,
+    paymentStatus: "COMPLETED",
+  });
+}
+
+describe("order cancellation", () => {
+  beforeEach(() => db.$reset());
+
+  it("restores stock and refunds a wallet payment to the wallet", async () => {
+    seedPaidOrder("WALLET");
+
+    await cancelOrder(ORDER_ID, { actor: "CUSTOMER", userId: 7n });
+
+    expect(findProduct().stockQuantity).toBe(100);
+    expect(db.$rows("stockTransaction")[1]).toMatchObject({
+      transactionType: "IN",
+      quantity: 3,
+    });
+    expect(findWallet().balance.toNumber()).toBe(500);
+    expect(db.$rows("walletTransaction")).toMatchObject([
+      { transactionType: "REFUND", orderId: ORDER_ID },
+    ]);
+    expect(db.$rows("payment")[0].paymentStatus).toBe("REFUNDED");
+    expect(findOrder()).toMatchObject({
+      status: "CANCELLED",
+      paymentStatus: "REFUNDED",
+    });
+    expect(db.$rows("orderEvent")).toMatchObject([
+      { fromStatus: "CONFIRMED", toStatus: "CANCELLED", actor: "CUSTOMER" },
+    ]);
+  });
+
+  it("refunds only what the gateway has not refunded yet", async () => {
+    const payment = seedPaidOrder("SSLCOMMERZ");
+    db.$seed("refund", {
+      paymentId: payment.paymentId,
+      amount: new Decimal(200),
+      status: "COMPLETED",
+    });
+
+    await cancelOrder(ORDER_ID, { actor: "ADMIN", userId: 1n });
+
+    expect(findWallet().balance.toNumber()).toBe(300);
+  });
+
+  it("does not restore stock twice", async () => {
+    seedPaidOrder("WALLET");
+    db.$seed("stockTransaction", {
+      productId: 5n,
+      orderId: ORDER_ID,
+      quantity: 3,
+      transactionType: "IN",
+    });
+
+    await cancelOrder(ORDER_ID, { actor: "CUSTOMER", userId: 7n });
+
+    expect(findProduct().stockQuantity).toBe(97);
+  });
+
+  it("refuses to cancel another customer's order", async () => {
+    seedPaidOrder("WALLET");
+
+    await expect(
+      cancelOrder(ORDER_ID, { actor: "CUSTOMER", userId: 8n })
+    ).rejects.toMatchObject({ statusCode: 404 });
+    expect(findOrder().status).toBe("CONFIRMED");
+    expect(findProduct().stockQuantity).toBe(97);
+  });
+
+  it("locks the order before checking it can be cancelled", async () => {
+    seedPaidOrder("WALLET");
+
+    await cancelOrder(ORDER_ID, { actor: "CUSTOMER", userId: 7n });
+
+    expect(db.$rawQueries[0]).toEqual({
+      sql: expect.stringContaining('FROM "Order"'),
+      values: [ORDER_ID],
+    });
+  });
+
+  it("does not fail a payment its IPN completed meanwhile", async () => {
+    seedPaidOrder("SSLCOMMERZ");
+    const payment = db.$rows("payment")[0];
+    payment.paymentStatus = "PENDING";
+    findOrder().paymentStatus = "PENDING";
+    const findPayments = db.payment.findMany.bind(db.payment);
+    vi.spyOn(db.payment, "findMany").mockImplementationOnce((async (
+      args: Parameters<typeof db.payment.findMany>[0]
+    ) => {
+      const payments = await findPayments(args);
+      payment.paymentStatus = "COMPLETED";
+      return payments;
+    }) as unknown as typeof db.payment.findMany);
+
+    await expect(
+      cancelOrder(ORDER_ID, { actor: "ADMIN", userId: 1n })
+    ).rejects.toMatchObject({ statusCode: 409 });
+    expect(findOrder().status).toBe("CONFIRMED");
+  });
+
+  it("refuses a customer once the order is being processed", async () => {
+    seedPaidOrder("WALLET");
+    findOrder().status = "PROCESSING";
+
+    await expect(
+      cancelOrder(ORDER_ID, { actor: "CUSTOMER", userId: 7n })
+    ).rejects.toThrow("Order cannot be cancelled once it is PROCESSING");
+    expect(findWallet().balance.toNumber()).toBe(0);
+  });
+});
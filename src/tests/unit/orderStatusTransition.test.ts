@@ -0,0 +1,135 @@
+import prisma from "@/prisma-client/prismaClient";
+import { FakePrisma } from "@/tests/unit/helpers/fakePrisma";
+import { AppError } from "@/utils/appError";
+import {
+  recordOrderEvent,
+  recordOrderEvents,
+  resolveStatusTransition,
+} from "@/utils/orderStatusTransition";
+import { runTransaction } from "@/utils/transaction";
+
+const { emit } = vi.hoisted(() => ({ emit: vi.fn() }));
+
+vi.mock("@/prisma-client/prismaClient", async () => ({
+  default: (await import("@/tests/unit/helpers/fakePrisma")).fakePrisma,
+}));
+vi.mock("@/utils/socket", () => ({
+  io: { to: () => ({ emit }) },
+  getSocketId: () => null,
+}));
+
+const db = prisma as unknown as FakePrisma;
+
+describe("resolveStatusTransition", () => {
+  it.each([
+    ["PENDING", "CONFIRMED"],
+    ["CONFIRMED", "PROCESSING"],
+    ["PROCESSING", "SHIPPED"],
+    ["SHIPPED", "DELIVERED"],
+    ["SHIPPED", "CANCELLED"],
+  ] as const)("moves %s forward to %s", (from, to) => {
+    expect(resolveStatusTransition(from, to)).toBe("FORWARD");
+  });
+
+  it.each([
+    ["CONFIRMED", "PENDING"],
+    ["SHIPPED", "PROCESSING"],
+    ["SHIPPED", "PENDING"],
+  ] as const)("reverts %s to %s", (from, to) => {
+    expect(resolveStatusTransition(from, to)).toBe("REVERT");
+  });
+
+  it.each([
+    ["PENDING", "SHIPPED"],
+    ["CONFIRMED", "DELIVERED"],
+    ["DELIVERED", "CANCELLED"],
+    ["CANCELLED", "PENDING"],
+    ["PENDING", "PENDING"],
+  ] as const)("refuses %s to %s", (from, to) => {
+    expect(() => resolveStatusTransition(from, to)).toThrow(AppError);
+  });
+});
+
+describe("recordOrderEvents", () => {
+  beforeEach(() => {
+    db.$reset();
+    emit.mockClear();
+  });
+
+  it("logs each change with its kind", async () => {
+    const changes = [
+      [null, "PENDING"],
+      ["PENDING", "CONFIRMED"],
+      ["CONFIRMED", "PENDING"],
+      ["PENDING", "CANCELLED"],
+    ] as const;
+    await recordOrderEvents(
+      changes.map(([fromStatus, toStatus]) => ({
+        orderId: 1n,
+        fromStatus,
+        toStatus,
+        actor: "ADMIN" as const,
+      })),
+      db
+    );
+
+    expect(
+      db.$rows("orderEvent").map((event) => event.eventType)
+    ).toEqual(["CREATED", "STATUS_CHANGED", "REVERTED", "CANCELLED"]);
+  });
+
+  it("tells clients about a change once its transaction commits", async () => {
+    await runTransaction(async (tx) => {
+      await recordOrderEvent(
+        {
+          orderId: 1n,
+          fromStatus: "PENDING",
+          toStatus: "CONFIRMED",
+          actor: "SYSTEM",
+        },
+        tx
+      );
+      expect(emit).not.toHaveBeenCalled();
+    });
+
+    expect(emit).toHaveBeenCalledWith("orderStatus", {
+      orderId: 1n,
+      status: "CONFIRMED",
+      previousStatus: "PENDING",
+    });
+  });
+
+  it("says nothing about a change that was rolled back", async () => {
+    await expect(
+      runTransaction(async (tx) => {
+        await recordOrderEvent(
+          {
+            orderId: 1n,
+            fromStatus: "PENDING",
+            toStatus: "CONFIRMED",
+            actor: "SYSTEM",
+          },
+          tx
+        );
+        throw new Error("Payment failed");
+      })
+    ).rejects.toThrow("Payment failed");
+
+    expect(emit).not.toHaveBeenCalled();
+    expect(db.$rows("orderEvent")).toHaveLength(0);
+  });
+
+  it("tells clients right away outside a transaction", async () => {
+    await recordOrderEvent(
+      {
+        orderId: 1n,
+        fromStatus: "SHIPPED",
+        toStatus: "DELIVERED",
+        actor: "RIDER",
+      },
+      db
+    );
+
+    expect(emit).toHaveBeenCalledTimes(1);
+  });
+});
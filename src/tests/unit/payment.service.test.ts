@@ -0,0 +1,389 @@
+import { addHours } from "date-fns";
+import { Decimal } from "@/generated/prisma/client/runtime/library";
+import prisma from "@/prisma-client/prismaClient";
+import { FakePrisma } from "@/tests/unit/helpers/fakePrisma";
+import { zCreatePaymentDto } from "@/modules/payments/payment.dto";
+import {
+  completeGatewayPayment,
+  createPayment,
+  handleGatewayCallback,
+  handleSSLCommerzSuccess,
+} from "@/modules/payments/payment.service";
+import { processGatewayPayment } from "@/utils/processPayment";
+import { issueGatewayRefund } from "@/utils/gatewayRefund";
+import { setPaymentProvider } from "@/utils/paymentProviders";
+import { FakePaymentProvider } from "@/utils/paymentProviders/fakeProvider";
+import {
+  createFakeSSLCommerzProvider,
+} from "@/utils/paymentProviders/sslcommerz";
+import {
+  getAvailableBalance,
+  releaseExpiredHolds,
+} from "@/utils/walletHold";
+import { creditWallet } from "@/utils/walletLedger";
+
+vi.mock("@/prisma-client/prismaClient", async () => ({
+  default: (await import("@/tests/unit/helpers/fakePrisma")).fakePrisma,
+}));
+vi.mock("@/utils/socket", () => ({
+  io: { to: () => ({ emit: vi.fn() }) },
+  getSocketId: () => null,
+}));
+
+const db = prisma as unknown as FakePrisma;
+const ORDER_ID = 10n;
+
+let gateway: FakePaymentProvider;
+
+const findOrder = () => db.$rows("order")[0];
+const findWallet = () => db.$rows("wallet")[0];
+const findProduct = () => db.$rows("product")[0];
+const gatewayPayments = () =>
+  db.$rows("payment").filter((p) => p.paymentMethod === "SSLCOMMERZ");
+
+// The order as the payments module loads it
+const loadOrder = () => ({
+  ...findOrder(),
+  customer: {
+    customerId: 1n,
+    userId: 7n,
+    user: { name: "Rahim", email: null, phone: "01700000000" },
+    wallet: findWallet(),
+  },
+});
+
+const payOnGateway = (useWalletBalance: boolean) =>
+  processGatewayPayment(
+    zCreatePaymentDto.parse({ orderId: Number(ORDER_ID), useWalletBalance }),
+    loadOrder(),
+    "SSLCOMMERZ"
+  );
+
+async function seedOrder(walletBalance: number) {
+  const { walletId } = db.$seed("wallet", {
+    customerId: 1n,
+    customer: { customerId: 1n, userId: 7n },
+  });
+  if (walletBalance > 0) {
+    await creditWallet(
+      { walletId, amount: walletBalance, description: "Top up" },
+      "GATEWAY_CLEARING",
+      db
+    );
+  }
+  db.$seed("product", { productId: 5n, stockQuantity: 100 });
+  db.$seed("order", {
+    orderId: ORDER_ID,
+    customerId: 1n,
+    status: "PENDING",
+    paymentStatus: "PENDING",
+    paymentMethod: "SSLCOMMERZ",
+    totalAmount: new Decimal(500),
+    depositAmount: new Decimal(0),
+    isPreorder: false,
+    preorderStatus: null,
+    orderItems: [{ productId: 5n, quantity: 2, packageSize: 1 }],
+    customer: { customerId: 1n, userId: 7n },
+  });
+}
+
+describe("gateway payments", () => {
+  beforeEach(() => {
+    process.env.SSLCOMMERZ_STORE_ID = "store";
+    process.env.SSLCOMMERZ_STORE_PASSWD = "secret";
+    db.$reset();
+    gateway = createFakeSSLCommerzProvider();
+    setPaymentProvider(gateway);
+  });
+
+  describe("createPayment", () => {
+    beforeEach(() => seedOrder(600));
+
+    it("refuses to pay another customer's order", async () => {
+      findOrder().paymentMethod = "WALLET";
+
+      await expect(
+        createPayment(8n, zCreatePaymentDto.parse({ orderId: 10 }))
+      ).rejects.toMatchObject({ statusCode: 404 });
+      expect(findOrder().paymentStatus).toBe("PENDING");
+      expect(findWallet().balance.toNumber()).toBe(600);
+    });
+  });
+
+  describe("completeGatewayPayment", () => {
+    beforeEach(async () => {
+      await seedOrder(0);
+      db.$seed("payment", {
+        orderId: ORDER_ID,
+        amount: new Decimal(500),
+        paymentMethod: "SSLCOMMERZ",
+        paymentStatus: "PENDING",
+        transactionId: "ORDER_10_1",
+      });
+    });
+
+    it("refuses a paid amount that differs from the payment", async () => {
+      await expect(
+        completeGatewayPayment("SSLCOMMERZ", {
+          status: "COMPLETED",
+          transactionId: "ORDER_10_1",
+          amount: new Decimal(499),
+          currency: "BDT",
+        })
+      ).rejects.toThrow("Paid amount 499.00 does not match 500.00");
+
+      expect(gatewayPayments()[0].paymentStatus).toBe("PENDING");
+      expect(findOrder()).toMatchObject({
+        status: "PENDING",
+        paymentStatus: "PENDING",
+      });
+      expect(findProduct().stockQuantity).toBe(100);
+    });
+
+    it("refuses a verification without an amount", async () => {
+      await expect(
+        completeGatewayPayment("SSLCOMMERZ", {
+          status: "COMPLETED",
+          transactionId: "ORDER_10_1",
+        })
+      ).rejects.toThrow("Paid amount unknown does not match 500.00");
+    });
+
+    it("refuses a payment in another currency", async () => {
+      await expect(
+        completeGatewayPayment("SSLCOMMERZ", {
+          status: "COMPLETED",
+          transactionId: "ORDER_10_1",
+          amount: new Decimal(500),
+          currency: "USD",
+        })
+      ).rejects.toThrow("Unexpected payment currency USD");
+    });
+
+    it("confirms the order once the full amount is paid", async () => {
+      await completeGatewayPayment("SSLCOMMERZ", {
+        status: "COMPLETED",
+        transactionId: "ORDER_10_1",
+        amount: new Decimal(500),
+        currency: "BDT",
+      });
+
+      expect(gatewayPayments()[0].paymentStatus).toBe("COMPLETED");
+      expect(findOrder()).toMatchObject({
+        status: "CONFIRMED",
+        paymentStatus: "COMPLETED",
+      });
+      expect(findProduct().stockQuantity).toBe(98);
+      expect(db.$rows("orderEvent")).toMatchObject([
+        { fromStatus: "PENDING", toStatus: "CONFIRMED", actor: "SYSTEM" },
+      ]);
+    });
+  });
+
+  describe("split tender", () => {
+    beforeEach(() => seedOrder(200));
+
+    it("pays the rest on the gateway, taking the share once paid", async () => {
+      const { payment, redirectUrl } = await payOnGateway(true);
+
+      expect(redirectUrl).toContain("/fake-gateway/sslcommerz/");
+      expect(payment!.amount.toNumber()).toBe(300);
+      expect(findWallet().lockedBalance.toNumber()).toBe(200);
+
+      const ipn = gateway.settle(payment!.transactionId!, "COMPLETED");
+      await handleSSLCommerzSuccess(ipn);
+
+      expect(gatewayPayments()[0].paymentStatus).toBe("COMPLETED");
+      expect(db.$rows("walletHold")[0].status).toBe("CAPTURED");
+      expect(findWallet().balance.toNumber()).toBe(0);
+      expect(findOrder().status).toBe("CONFIRMED");
+      await expect(handleSSLCommerzSuccess(ipn)).rejects.toMatchObject({
+        statusCode: 409,
+      });
+    });
+
+    it("gives the share back when the gateway payment fails", async () => {
+      const { payment } = await payOnGateway(true);
+
+      const callback = gateway.settle(payment!.transactionId!, "FAILED");
+      expect(await handleGatewayCallback("SSLCOMMERZ", callback)).toBe(
+        "FAILED"
+      );
+
+      expect(db.$rows("walletHold")[0].status).toBe("RELEASED");
+      expect(findWallet().lockedBalance.toNumber()).toBe(0);
+      expect(
+        (await getAvailableBalance(findWallet().walletId, db)).toNumber()
+      ).toBe(200);
+      expect(findOrder().paymentStatus).toBe("FAILED");
+    });
+
+    it("refunds the gateway leg once the share has expired", async () => {
+      const { payment } = await payOnGateway(true);
+      await releaseExpiredHolds(addHours(new Date(), 26));
+
+      const lateIpn = gateway.settle(payment!.transactionId!, "COMPLETED");
+      await handleSSLCommerzSuccess(lateIpn);
+
+      expect(db.$rows("walletHold")[0].status).toBe("EXPIRED");
+      expect(db.$rows("refund")).toMatchObject([
+        { paymentId: payment!.paymentId, status: "COMPLETED" },
+      ]);
+      expect(gatewayPayments()[0].paymentStatus).toBe("REFUNDED");
+      expect(findOrder()).toMatchObject({
+        status: "PENDING",
+        paymentStatus: "PENDING",
+      });
+      expect(findWallet().balance.toNumber()).toBe(200);
+      expect(findProduct().stockQuantity).toBe(100);
+    });
+
+    it("releases the share when paying without the wallet", async () => {
+      await payOnGateway(true);
+      const { payment } = await payOnGateway(false);
+
+      expect(payment!.amount.toNumber()).toBe(500);
+      expect(db.$rows("walletHold")[0].status).toBe("RELEASED");
+      expect(gatewayPayments().map((row) => row.paymentStatus)).toEqual([
+        "FAILED",
+        "PENDING",
+      ]);
+    });
+  });
+
+  describe("retrying on the gateway", () => {
+    beforeEach(() => seedOrder(0));
+
+    it("starts a new attempt and refunds a late payment of the old one", async () => {
+      const first = await payOnGateway(false);
+      const second = await payOnGateway(false);
+
+      expect(second.payment!.paymentId).not.toBe(first.payment!.paymentId);
+      expect(gatewayPayments()[0]).toMatchObject({
+        paymentStatus: "FAILED",
+        transactionId: first.payment!.transactionId,
+      });
+
+      const lateIpn = gateway.settle(
+        first.payment!.transactionId!,
+        "COMPLETED"
+      );
+      await handleSSLCommerzSuccess(lateIpn);
+
+      expect(db.$rows("refund")).toMatchObject([
+        { paymentId: first.payment!.paymentId, status: "COMPLETED" },
+      ]);
+      expect(findOrder().paymentStatus).toBe("PENDING");
+    });
+
+    it("refuses while the gateway reports the old attempt paid", async () => {
+      const { payment } = await payOnGateway(false);
+      gateway.settle(payment!.transactionId!, "COMPLETED");
+
+      await expect(payOnGateway(false)).rejects.toThrow(
+        "Order #10 was already paid via SSLCommerz"
+      );
+      expect(gatewayPayments()).toHaveLength(1);
+    });
+  });
+
+  describe("paying from the wallet after a gateway attempt", () => {
+    beforeEach(() => seedOrder(600));
+
+    it("fails the earlier attempt and refunds its late payment", async () => {
+      const { payment } = await payOnGateway(false);
+      await payOnGateway(true);
+
+      expect(gatewayPayments()[0].paymentStatus).toBe("FAILED");
+      expect(findWallet().balance.toNumber()).toBe(100);
+      expect(db.$rawQueries).toContainEqual({
+        sql: expect.stringContaining('FROM "Wallet"'),
+        values: [findWallet().walletId],
+      });
+
+      const lateIpn = gateway.settle(payment!.transactionId!, "COMPLETED");
+      await handleSSLCommerzSuccess(lateIpn);
+
+      expect(db.$rows("refund")).toMatchObject([
+        { paymentId: payment!.paymentId, status: "COMPLETED" },
+      ]);
+      expect(db.$rows("refund")[0].amount.toNumber()).toBe(500);
+      expect(gatewayPayments()[0].paymentStatus).toBe("REFUNDED");
+      // The wallet still pays the order
+      expect(findOrder().paymentStatus).toBe("COMPLETED");
+      expect(findWallet().balance.toNumber()).toBe(100);
+      expect(findProduct().stockQuantity).toBe(98);
+    });
+
+    it("accepts a late payment whose refund cannot be sent yet", async () => {
+      const { payment } = await payOnGateway(false);
+      await payOnGateway(true);
+      vi.spyOn(gateway, "refund").mockRejectedValueOnce(
+        new Error("Gateway unreachable")
+      );
+
+      const lateIpn = gateway.settle(payment!.transactionId!, "COMPLETED");
+      await handleSSLCommerzSuccess(lateIpn);
+
+      expect(db.$rows("paymentCallback")).toMatchObject([
+        { status: "PROCESSED" },
+      ]);
+      expect(gatewayPayments()[0].paymentStatus).toBe("COMPLETED");
+      expect(db.$rows("refund")).toMatchObject([
+        { paymentId: payment!.paymentId, status: "FAILED" },
+      ]);
+    });
+
+    it("refuses while the gateway reports the attempt paid", async () => {
+      const { payment } = await payOnGateway(false);
+      gateway.settle(payment!.transactionId!, "COMPLETED");
+
+      await expect(payOnGateway(true)).rejects.toThrow(
+        "Order #10 was already paid via SSLCommerz"
+      );
+      expect(gatewayPayments()[0].paymentStatus).toBe("PENDING");
+      expect(findWallet().balance.toNumber()).toBe(600);
+    });
+  });
+
+  describe("gateway refunds", () => {
+    let paymentId: bigint;
+
+    beforeEach(async () => {
+      await seedOrder(0);
+      paymentId = db.$seed("payment", {
+        orderId: ORDER_ID,
+        amount: new Decimal(500),
+        paymentMethod: "SSLCOMMERZ",
+        paymentStatus: "COMPLETED",
+        transactionId: "ORDER_10_1",
+      }).paymentId;
+    });
+
+    it("fails a refund left pending without a reference to follow up", async () => {
+      vi.spyOn(gateway, "refund").mockResolvedValueOnce({
+        status: "PENDING",
+        refundReference: "",
+      });
+
+      await expect(
+        issueGatewayRefund(paymentId, { reason: "Damaged" })
+      ).rejects.toMatchObject({ statusCode: 502 });
+      expect(db.$rows("refund")[0].status).toBe("FAILED");
+
+      // Its amount is no longer reserved, so the refund can be retried
+      vi.spyOn(gateway, "refund").mockResolvedValueOnce({
+        status: "PENDING",
+        refundReference: "REF-1",
+      });
+      const retried = await issueGatewayRefund(paymentId, {
+        reason: "Damaged",
+      });
+      expect(retried).toMatchObject({
+        status: "PENDING",
+        refundReference: "REF-1",
+      });
+      expect(retried.amount.toNumber()).toBe(500);
+    });
+  });
+});
@@ -0,0 +1,150 @@
+import crypto from "crypto";
+import { Decimal } from "@/generated/prisma/client/runtime/library";
+import prisma from "@/prisma-client/prismaClient";
+import { FakePrisma } from "@/tests/unit/helpers/fakePrisma";
+import { AppError } from "@/utils/appError";
+import { processSSLCommerzIPN } from "@/utils/paymentCallback";
+import {
+  createFakeSSLCommerzProvider,
+  verifySSLCommerzSignature,
+} from "@/utils/paymentProviders/sslcommerz";
+
+vi.mock("@/prisma-client/prismaClient", async () => ({
+  default: (await import("@/tests/unit/helpers/fakePrisma")).fakePrisma,
+}));
+
+const db = prisma as unknown as FakePrisma;
+
+// A signed IPN for a payment the customer finished on the fake gateway
+async function paidIPN() {
+  const gateway = createFakeSSLCommerzProvider();
+  await gateway.init({
+    transactionId: "ORDER_1_1",
+    orderId: 1n,
+    amount: new Decimal(500),
+    customer: { phone: "01700000000" },
+  });
+  return gateway.settle("ORDER_1_1", "COMPLETED");
+}
+
+const md5 = (value: string) =>
+  crypto.createHash("md5").update(value).digest("hex");
+
+// A payload signed the way SSLCommerz does, with every field in verify_key
+function signed(fields: Record<string, string>, storePasswd = "secret") {
+  const signedFields = { store_passwd: md5(storePasswd), ...fields };
+  return {
+    ...fields,
+    verify_key: Object.keys(fields).join(","),
+    verify_sign: md5(
+      Object.keys(signedFields)
+        .sort()
+        .map((key) => `${key}=${signedFields[key]}`)
+        .join("&")
+    ),
+  };
+}
+
+describe("SSLCommerz callbacks", () => {
+  beforeEach(() => {
+    process.env.SSLCOMMERZ_STORE_ID = "store";
+    process.env.SSLCOMMERZ_STORE_PASSWD = "secret";
+    db.$reset();
+  });
+
+  it("accepts the signature of a genuine callback", async () => {
+    expect(verifySSLCommerzSignature(await paidIPN())).toBe(true);
+  });
+
+  it("rejects a callback whose signed fields were changed", async () => {
+    const payload = { ...(await paidIPN()), amount: "5.00" };
+    expect(verifySSLCommerzSignature(payload)).toBe(false);
+  });
+
+  it("rejects a callback signed with another store password", async () => {
+    const payload = await paidIPN();
+    process.env.SSLCOMMERZ_STORE_PASSWD = "other";
+    expect(verifySSLCommerzSignature(payload)).toBe(false);
+  });
+
+  it("rejects a callback that signs its own store password", async () => {
+    const { amount, currency, tran_id, val_id } = await paidIPN();
+    const payload = signed({
+      amount,
+      currency,
+      status: "FAILED",
+      store_passwd: md5("forged"),
+      tran_id,
+      val_id,
+    });
+    expect(verifySSLCommerzSignature(payload)).toBe(false);
+  });
+
+  it("rejects a signature that leaves out the amount", async () => {
+    const { currency, status, tran_id, val_id } = await paidIPN();
+    const payload = signed({
+      currency,
+      status,
+      tran_id,
+      val_id,
+    });
+    expect(verifySSLCommerzSignature({ ...payload, amount: "5.00" })).toBe(
+      false
+    );
+  });
+
+  it("stores forged callbacks without acting on them", async () => {
+    const payload = { ...(await paidIPN()), verify_sign: "0".repeat(32) };
+    const handle = vi.fn();
+
+    await expect(
+      processSSLCommerzIPN("SSLCOMMERZ_PAYMENT_IPN", payload, handle)
+    ).rejects.toMatchObject({ statusCode: 403 });
+    expect(handle).not.toHaveBeenCalled();
+    expect(db.$rows("paymentCallback")).toMatchObject([
+      { status: "REJECTED", reason: "Invalid signature" },
+    ]);
+  });
+
+  it("acts on each val_id once", async () => {
+    const payload = await paidIPN();
+    const handle = vi.fn((claim) => db.$transaction(claim));
+
+    await processSSLCommerzIPN("SSLCOMMERZ_PAYMENT_IPN", payload, handle);
+    const replay = processSSLCommerzIPN(
+      "SSLCOMMERZ_PAYMENT_IPN",
+      payload,
+      handle
+    );
+
+    await expect(replay).rejects.toBeInstanceOf(AppError);
+    await expect(replay).rejects.toMatchObject({ statusCode: 409 });
+    expect(handle).toHaveBeenCalledTimes(1);
+    expect(db.$rows("paymentCallback")).toMatchObject([
+      { status: "PROCESSED", valId: payload.val_id },
+      { status: "REJECTED", reason: "val_id already processed" },
+    ]);
+  });
+
+  it("rejects a duplicate that claims the val_id concurrently", async () => {
+    const payload = await paidIPN();
+    // Both pass the processed check before either claims the val_id
+    const handle = vi.fn(async (claim) => {
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      await db.$transaction(claim);
+    });
+    const pending = [1, 2].map(() =>
+      processSSLCommerzIPN("SSLCOMMERZ_PAYMENT_IPN", payload, handle)
+    );
+
+    const results = await Promise.allSettled(pending);
+    expect(handle).toHaveBeenCalledTimes(2);
+    expect(results.map((result) => result.status).sort()).toEqual([
+      "fulfilled",
+      "rejected",
+    ]);
+    expect(
+      db.$rows("paymentCallback").filter((row) => row.processedKey)
+    ).toHaveLength(1);
+  });
+});
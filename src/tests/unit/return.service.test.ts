@@ -0,0 +1,172 @@
+import { Decimal } from "@/generated/prisma/client/runtime/library";
+import prisma from "@/prisma-client/prismaClient";
+import { FakePrisma } from "@/tests/unit/helpers/fakePrisma";
+import {
+  approveReturn,
+  inspectReturn,
+  refundReturn,
+  rejectReturn,
+} from "@/modules/returns/return.service";
+
+vi.mock("@/prisma-client/prismaClient", async () => ({
+  default: (await import("@/tests/unit/helpers/fakePrisma")).fakePrisma,
+}));
+vi.mock("@/utils/socket", () => ({
+  io: { to: () => ({ emit: vi.fn() }) },
+  getSocketId: () => null,
+}));
+
+const db = prisma as unknown as FakePrisma;
+const RETURN_ID = 20n;
+
+const findReturn = () => db.$rows("return")[0];
+
+// A return of 2 of the 3 packages ordered at 150 each
+function seedReturn(status: "REQUESTED" | "APPROVED" | "RECEIVED") {
+  db.$seed("wallet", { customerId: 1n });
+  db.$seed("product", { productId: 5n, stockQuantity: 10 });
+  const orderItem = db.$seed("orderItem", {
+    orderId: 10n,
+    productId: 5n,
+    quantity: 3,
+    packageSize: 2,
+    subtotal: new Decimal(450),
+  });
+  db.$seed("return", {
+    returnId: RETURN_ID,
+    status,
+    orderId: 10n,
+    customerId: 1n,
+    customer: { customerId: 1n, userId: 7n },
+    refundAmount: status === "RECEIVED" ? new Decimal(150) : null,
+  });
+  return db.$seed("returnItem", {
+    returnId: RETURN_ID,
+    orderItemId: orderItem.orderItemId,
+    productId: 5n,
+    quantity: 2,
+  });
+}
+
+// Has another admin move the return on right after it is read
+function updateAfterRead(status: "RECEIVED" | "REFUNDED") {
+  const readReturn = db.return.findUnique.bind(db.return);
+  vi.spyOn(db.return, "findUnique").mockImplementationOnce((async (
+    args: Parameters<typeof db.return.findUnique>[0]
+  ) => {
+    const found = await readReturn(args);
+    findReturn().status = status;
+    return found;
+  }) as unknown as typeof db.return.findUnique);
+}
+
+describe("return review", () => {
+  beforeEach(() => db.$reset());
+
+  it("approves a requested return and tells the customer", async () => {
+    seedReturn("REQUESTED");
+
+    await approveReturn(RETURN_ID, { adminNote: "Send it back" });
+
+    expect(findReturn()).toMatchObject({
+      status: "APPROVED",
+      adminNote: "Send it back",
+    });
+    expect(findReturn().approvedAt).toBeInstanceOf(Date);
+    expect(db.$rows("notification")).toMatchObject([{ receiverId: 7n }]);
+  });
+
+  it("approves a return only once", async () => {
+    seedReturn("APPROVED");
+
+    await expect(approveReturn(RETURN_ID, {})).rejects.toThrow(
+      "Return is APPROVED and cannot be updated"
+    );
+  });
+
+  it("rejects an approved return before it is inspected", async () => {
+    seedReturn("APPROVED");
+
+    await rejectReturn(RETURN_ID, { adminNote: "Outside the window" });
+
+    expect(findReturn()).toMatchObject({
+      status: "REJECTED",
+      adminNote: "Outside the window",
+    });
+    expect(findReturn().rejectedAt).toBeInstanceOf(Date);
+  });
+
+  it("refuses to reject a return whose goods were received", async () => {
+    seedReturn("RECEIVED");
+
+    await expect(rejectReturn(RETURN_ID, {})).rejects.toMatchObject({
+      statusCode: 400,
+    });
+    expect(findReturn().status).toBe("RECEIVED");
+  });
+
+  it("restocks accepted packages and prices the refund", async () => {
+    const returnItem = seedReturn("APPROVED");
+
+    await inspectReturn(RETURN_ID, {
+      items: [
+        {
+          returnItemId: returnItem.returnItemId,
+          acceptedQuantity: 1,
+          restock: true,
+        },
+      ],
+    });
+
+    expect(findReturn().status).toBe("RECEIVED");
+    expect(findReturn().refundAmount!.toNumber()).toBe(150);
+    expect(db.$rows("product")[0].stockQuantity).toBe(12);
+    expect(db.$rows("stockTransaction")).toMatchObject([
+      { transactionType: "RETURN", quantity: 2 },
+    ]);
+  });
+
+  it("restocks a return only once when inspected twice at a time", async () => {
+    const returnItem = seedReturn("APPROVED");
+    updateAfterRead("RECEIVED");
+
+    await expect(
+      inspectReturn(RETURN_ID, {
+        items: [
+          {
+            returnItemId: returnItem.returnItemId,
+            acceptedQuantity: 1,
+            restock: true,
+          },
+        ],
+      })
+    ).rejects.toMatchObject({ statusCode: 409 });
+    expect(db.$rows("product")[0].stockQuantity).toBe(10);
+  });
+
+  it("refunds a received return to the wallet once", async () => {
+    seedReturn("RECEIVED");
+
+    await refundReturn(RETURN_ID, { refundMethod: "WALLET" });
+
+    expect(findReturn()).toMatchObject({
+      status: "REFUNDED",
+      refundMethod: "WALLET",
+    });
+    expect(db.$rows("wallet")[0].balance.toNumber()).toBe(150);
+    await expect(
+      refundReturn(RETURN_ID, { refundMethod: "WALLET" })
+    ).rejects.toMatchObject({ statusCode: 400 });
+    expect(db.$rows("wallet")[0].balance.toNumber()).toBe(150);
+  });
+
+  it("credits the wallet only once when refunded twice at a time", async () => {
+    seedReturn("RECEIVED");
+    updateAfterRead("REFUNDED");
+
+    await expect(
+      refundReturn(RETURN_ID, { refundMethod: "WALLET" })
+    ).rejects.toMatchObject({ statusCode: 409 });
+    expect(db.$rows("walletTransaction")).toHaveLength(0);
+  });
+});
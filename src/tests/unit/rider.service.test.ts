@@ -0,0 +1,141 @@
+import { Decimal } from "@/generated/prisma/client/runtime/library";
+import prisma from "@/prisma-client/prismaClient";
+import { FakePrisma } from "@/tests/unit/helpers/fakePrisma";
+import { assignDeliveries, settleCod } from "@/modules/riders/rider.service";
+
+vi.mock("@/prisma-client/prismaClient", async () => ({
+  default: (await import("@/tests/unit/helpers/fakePrisma")).fakePrisma,
+}));
+vi.mock("@/utils/socket", () => ({
+  io: { to: () => ({ emit: vi.fn() }) },
+  getSocketId: () => null,
+}));
+
+const db = prisma as unknown as FakePrisma;
+const RIDER_ID = 3n;
+const ADMIN_USER_ID = 1n;
+
+const assign = (orderIds: bigint[]) =>
+  assignDeliveries(RIDER_ID, { orderIds, deliveryIds: [] }, ADMIN_USER_ID);
+
+function seedOrder(orderId: bigint, status = "CONFIRMED") {
+  db.$seed("order", {
+    orderId,
+    status,
+    totalAmount: new Decimal(500),
+    depositAmount: new Decimal(0),
+    orderItems: [],
+    customer: { user: { name: "Rahim", phone: "01700000000" } },
+  });
+}
+
+// A delivered COD stop of the rider
+function seedCollection(orderId: bigint, amount: number) {
+  return db.$seed("deliveryAssignment", {
+    orderId,
+    riderId: RIDER_ID,
+    status: "DELIVERED",
+    deliveredAt: new Date(),
+    codCollectedAmount: new Decimal(amount),
+    codSettlementId: null,
+  });
+}
+
+describe("riders", () => {
+  beforeEach(() => {
+    db.$reset();
+    db.$seed("rider", { riderId: RIDER_ID, userId: 9n, isActive: true });
+    db.$seed("rider", { riderId: 4n, userId: 10n, isActive: true });
+  });
+
+  describe("assignDeliveries", () => {
+    it("assigns orders under their locks, taken in ID order", async () => {
+      seedOrder(12n);
+      seedOrder(11n, "PROCESSING");
+
+      const stops = await assign([12n, 11n]);
+
+      expect(stops.map((stop) => stop.orderId)).toEqual([12n, 11n]);
+      expect(stops[0].amountDue.toNumber()).toBe(500);
+      expect(db.$rows("deliveryAssignment")).toMatchObject([
+        { orderId: 12n, riderId: RIDER_ID, status: "ASSIGNED" },
+        { orderId: 11n, riderId: RIDER_ID, status: "ASSIGNED" },
+      ]);
+      expect(db.$rawQueries).toContainEqual({
+        sql: expect.stringContaining('FROM "Order"'),
+        values: [expect.objectContaining({ values: [11n, 12n] })],
+      });
+      expect(db.$rows("notification")).toMatchObject([{ receiverId: 9n }]);
+    });
+
+    it("moves an order not yet picked up to another rider", async () => {
+      seedOrder(11n);
+      db.$seed("deliveryAssignment", { orderId: 11n, riderId: 4n });
+
+      await assign([11n]);
+
+      expect(db.$rows("deliveryAssignment")).toMatchObject([
+        { orderId: 11n, riderId: RIDER_ID, assignedByUserId: ADMIN_USER_ID },
+      ]);
+    });
+
+    it("refuses an order already picked up", async () => {
+      seedOrder(11n);
+      db.$seed("deliveryAssignment", {
+        orderId: 11n,
+        riderId: 4n,
+        status: "PICKED_UP",
+      });
+
+      await expect(assign([11n])).rejects.toThrow(
+        "Order #11 is already PICKED_UP"
+      );
+      expect(db.$rows("deliveryAssignment")[0].riderId).toBe(4n);
+    });
+
+    it("assigns none of the orders when one is not dispatchable", async () => {
+      seedOrder(11n);
+      seedOrder(12n, "PENDING");
+
+      await expect(assign([11n, 12n])).rejects.toMatchObject({
+        statusCode: 400,
+      });
+      expect(db.$rows("deliveryAssignment")).toHaveLength(0);
+    });
+  });
+
+  describe("settleCod", () => {
+    it("settles every unsettled collection and records the shortfall", async () => {
+      const settled = seedCollection(10n, 100);
+      settled.codSettlementId = 99n;
+      seedCollection(11n, 300);
+      seedCollection(12n, 200);
+
+      const settlement = await settleCod(
+        RIDER_ID,
+        { receivedAmount: 450, note: "Short by 50" },
+        ADMIN_USER_ID
+      );
+
+      expect(settlement.expectedAmount.toNumber()).toBe(500);
+      expect(new Decimal(settlement.receivedAmount).toNumber()).toBe(450);
+      expect(settlement.assignments.map((row) => row.orderId)).toEqual([
+        11n,
+        12n,
+      ]);
+      expect(db.$rawQueries).toContainEqual({
+        sql: expect.stringContaining('FROM "DeliveryAssignment"'),
+        values: [RIDER_ID],
+      });
+    });
+
+    it("refuses when nothing is left to settle", async () => {
+      seedCollection(11n, 300).codSettlementId = 99n;
+
+      await expect(
+        settleCod(RIDER_ID, { receivedAmount: 300 }, ADMIN_USER_ID)
+      ).rejects.toThrow("Rider has no unsettled COD collections");
+      expect(db.$rows("codSettlement")).toHaveLength(0);
+    });
+  });
+});
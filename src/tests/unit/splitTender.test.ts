@@ -0,0 +1,146 @@
+import { Decimal } from "@/generated/prisma/client/runtime/library";
+import prisma from "@/prisma-client/prismaClient";
+import { FakePrisma } from "@/tests/unit/helpers/fakePrisma";
+import {
+  captureWalletShare,
+  holdWalletShare,
+  releaseWalletShare,
+} from "@/utils/splitTender";
+import { getAvailableBalance, placeHold } from "@/utils/walletHold";
+import { creditWallet } from "@/utils/walletLedger";
+
+vi.mock("@/prisma-client/prismaClient", async () => ({
+  default: (await import("@/tests/unit/helpers/fakePrisma")).fakePrisma,
+}));
+vi.mock("@/utils/socket", () => ({
+  io: { to: () => ({ emit: vi.fn() }) },
+  getSocketId: () => null,
+}));
+
+const db = prisma as unknown as FakePrisma;
+const order = { orderId: 10n, customerId: 1n };
+
+const findWallet = () => db.$rows("wallet")[0];
+const available = async () =>
+  (await getAvailableBalance(findWallet().walletId, db)).toNumber();
+
+describe("split tender wallet share", () => {
+  beforeEach(async () => {
+    db.$reset();
+    const { walletId } = db.$seed("wallet", { customerId: order.customerId });
+    await creditWallet(
+      { walletId, amount: 300, description: "Top up" },
+      "GATEWAY_CLEARING",
+      db
+    );
+  });
+
+  it("holds what the wallet can give towards the order", async () => {
+    const share = await holdWalletShare(order, new Decimal(500), db);
+
+    expect(share).toMatchObject({
+      paymentMethod: "WALLET",
+      paymentStatus: "LOCKED",
+      orderId: order.orderId,
+    });
+    expect(share!.amount.toNumber()).toBe(300);
+    expect(db.$rows("walletHold")).toMatchObject([
+      { reason: "SPLIT_PAYMENT", status: "ACTIVE", orderId: order.orderId },
+    ]);
+    expect(db.$rows("walletHold")[0].expiresAt).toBeInstanceOf(Date);
+    expect(findWallet().lockedBalance.toNumber()).toBe(300);
+    expect(await available()).toBe(0);
+    // The fake cannot serialise writers; it only shows the lock was asked for
+    expect(db.$rawQueries).toContainEqual({
+      sql: expect.stringContaining('FROM "Wallet"'),
+      values: [findWallet().walletId],
+    });
+  });
+
+  it("holds only the order amount when the wallet has more", async () => {
+    const share = await holdWalletShare(order, new Decimal(120), db);
+
+    expect(share!.amount.toNumber()).toBe(120);
+    expect(await available()).toBe(180);
+  });
+
+  it("keeps the share of an earlier attempt", async () => {
+    const first = await holdWalletShare(order, new Decimal(500), db);
+    const second = await holdWalletShare(order, new Decimal(500), db);
+
+    expect(second!.paymentId).toBe(first!.paymentId);
+    expect(db.$rows("walletHold")).toHaveLength(1);
+  });
+
+  it("leaves money held for something else alone", async () => {
+    await placeHold(
+      {
+        walletId: findWallet().walletId,
+        amount: 250,
+        reason: "SUBSCRIPTION",
+        description: "Subscription delivery",
+      },
+      db
+    );
+
+    const share = await holdWalletShare(order, new Decimal(500), db);
+    expect(share!.amount.toNumber()).toBe(50);
+  });
+
+  it("holds nothing from an empty wallet", async () => {
+    await holdWalletShare(order, new Decimal(300), db);
+    const otherOrder = { ...order, orderId: 11n };
+
+    expect(await holdWalletShare(otherOrder, new Decimal(100), db)).toBeNull();
+  });
+
+  it("gives the share back when the gateway leg fails", async () => {
+    const share = await holdWalletShare(order, new Decimal(500), db);
+    await releaseWalletShare(order.orderId, db);
+
+    expect(db.$rows("walletHold")[0].status).toBe("RELEASED");
+    expect(
+      db.$rows("payment").find((p) => p.paymentId === share!.paymentId)!
+        .paymentStatus
+    ).toBe("FAILED");
+    expect(db.$rows("walletTransaction")).toMatchObject([
+      { transactionStatus: "REFUNDED", transactionType: "REFUND" },
+    ]);
+    expect(findWallet().balance.toNumber()).toBe(300);
+    expect(findWallet().lockedBalance.toNumber()).toBe(0);
+    expect(await available()).toBe(300);
+  });
+
+  it("takes the share when the gateway leg is paid", async () => {
+    await holdWalletShare(order, new Decimal(500), db);
+    await captureWalletShare(order.orderId, new Decimal(300), db);
+
+    expect(db.$rows("walletHold")[0].status).toBe("CAPTURED");
+    expect(db.$rows("payment")[0].paymentStatus).toBe("COMPLETED");
+    expect(db.$rows("walletTransaction")[0].transactionStatus).toBe(
+      "COMPLETED"
+    );
+    expect(findWallet().balance.toNumber()).toBe(0);
+    expect(findWallet().lockedBalance.toNumber()).toBe(0);
+  });
+
+  it("takes nothing once the share is no longer held", async () => {
+    await holdWalletShare(order, new Decimal(500), db);
+    await releaseWalletShare(order.orderId, db);
+
+    expect(
+      await captureWalletShare(order.orderId, new Decimal(300), db)
+    ).toBe(false);
+    expect(db.$rows("walletHold")[0].status).toBe("RELEASED");
+    expect(findWallet().balance.toNumber()).toBe(300);
+  });
+
+  it("cannot settle the same share twice", async () => {
+    await holdWalletShare(order, new Decimal(500), db);
+    await captureWalletShare(order.orderId, new Decimal(300), db);
+    await releaseWalletShare(order.orderId, db);
+
+    expect(db.$rows("walletHold")[0].status).toBe("CAPTURED");
+    expect(findWallet().balance.toNumber()).toBe(0);
+  });
+});
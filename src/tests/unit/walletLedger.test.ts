@@ -0,0 +1,124 @@
+import { Decimal } from "@/generated/prisma/client/runtime/library";
+import prisma from "@/prisma-client/prismaClient";
+import { FakePrisma } from "@/tests/unit/helpers/fakePrisma";
+import {
+  captureWalletFunds,
+  creditWallet,
+  debitWallet,
+  lockWalletFunds,
+  payoutWalletFunds,
+  releaseWalletFunds,
+  verifyWalletLedger,
+} from "@/utils/walletLedger";
+
+vi.mock("@/prisma-client/prismaClient", async () => ({
+  default: (await import("@/tests/unit/helpers/fakePrisma")).fakePrisma,
+}));
+
+const db = prisma as unknown as FakePrisma;
+
+const movement = (walletId: bigint, amount: number) => ({
+  walletId,
+  amount,
+  description: `Move ${amount}`,
+});
+
+// What the postings of each journal entry add up to
+const entryTotals = () =>
+  db.$rows("journalEntry").map((entry) =>
+    db
+      .$rows("ledgerPosting")
+      .filter((posting) => posting.entryId === entry.entryId)
+      .reduce(
+        (sum, posting) => sum.add(posting.amount),
+        new Decimal(0)
+      )
+      .toNumber()
+  );
+
+const accountBalance = (code: string) => {
+  const account = db
+    .$rows("ledgerAccount")
+    .find((row) => row.code === code);
+  return db
+    .$rows("ledgerPosting")
+    .filter((posting) => posting.accountId === account?.accountId)
+    .reduce(
+      (sum, posting) => sum.add(posting.amount),
+      new Decimal(0)
+    )
+    .toNumber();
+};
+
+describe("wallet ledger", () => {
+  let walletId: bigint;
+
+  beforeEach(() => {
+    db.$reset();
+    walletId = db.$seed("wallet", { customerId: 1n }).walletId;
+  });
+
+  it("balances every journal entry it posts", async () => {
+    await creditWallet(movement(walletId, 1000), "GATEWAY_CLEARING", db);
+    await debitWallet(movement(walletId, 150), "SALES", db);
+    await lockWalletFunds(movement(walletId, 300), db);
+    await releaseWalletFunds(movement(walletId, 100), db);
+    await captureWalletFunds(movement(walletId, 120), db);
+    await payoutWalletFunds(movement(walletId, 80), db);
+
+    expect(entryTotals()).toHaveLength(6);
+    expect(entryTotals().every((total: number) => total === 0)).toBe(true);
+    expect(accountBalance("GATEWAY_CLEARING")).toBe(-1000);
+    expect(accountBalance("SALES")).toBe(270);
+    expect(accountBalance("PAYOUTS")).toBe(80);
+  });
+
+  it("keeps the stored balances in step with the postings", async () => {
+    await creditWallet(movement(walletId, 500), "REFUNDS", db);
+    await lockWalletFunds(movement(walletId, 200), db);
+    await captureWalletFunds(movement(walletId, 50), db);
+
+    const [wallet] = db.$rows("wallet");
+    expect(wallet.balance.toNumber()).toBe(450);
+    expect(wallet.lockedBalance.toNumber()).toBe(150);
+    expect(accountBalance(`WALLET:${walletId}:AVAILABLE`)).toBe(300);
+    expect(accountBalance(`WALLET:${walletId}:LOCKED`)).toBe(150);
+
+    const check = await verifyWalletLedger(walletId);
+    expect(check.consistent).toBe(true);
+  });
+
+  it("opens a wallet from before the ledger at its balances", async () => {
+    const legacy = db.$seed("wallet", {
+      customerId: 2n,
+      balance: new Decimal(700),
+      lockedBalance: new Decimal(200),
+    });
+
+    await creditWallet(movement(legacy.walletId, 100), "ADJUSTMENTS", db);
+
+    expect(entryTotals().every((total: number) => total === 0)).toBe(true);
+    expect(accountBalance("OPENING_BALANCES")).toBe(-700);
+    expect(accountBalance(`WALLET:${legacy.walletId}:AVAILABLE`)).toBe(600);
+    expect(accountBalance(`WALLET:${legacy.walletId}:LOCKED`)).toBe(200);
+    const wallet = db
+      .$rows("wallet")
+      .find((row) => row.walletId === legacy.walletId);
+    expect(wallet!.balance.toNumber()).toBe(800);
+    // The fake cannot serialise writers; it only shows the lock was asked for
+    expect(db.$rawQueries).toContainEqual({
+      sql: expect.stringContaining('FROM "Wallet"'),
+      values: [legacy.walletId],
+    });
+  });
+
+  it("refuses amounts that are not positive", async () => {
+    await expect(
+      creditWallet(movement(walletId, 0), "ADJUSTMENTS", db)
+    ).rejects.toThrow("Ledger amounts must be positive");
+    await expect(
+      debitWallet(movement(walletId, -5), "SALES", db)
+    ).rejects.toThrow("Ledger amounts must be positive");
+    expect(db.$rows("journalEntry")).toHaveLength(0);
+  });
+});
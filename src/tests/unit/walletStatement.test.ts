@@ -0,0 +1,193 @@
+import { Decimal } from "@/generated/prisma/client/runtime/library";
+import prisma from "@/prisma-client/prismaClient";
+import { FakePrisma } from "@/tests/unit/helpers/fakePrisma";
+import {
+  captureWalletFunds,
+  creditWallet,
+  lockWalletFunds,
+} from "@/utils/walletLedger";
+import { getWalletStatement } from "@/modules/wallets/wallet.service";
+import { buildWalletStatementCsv } from "@/utils/walletStatement";
+
+vi.mock("@/prisma-client/prismaClient", async () => ({
+  default: (await import("@/tests/unit/helpers/fakePrisma")).fakePrisma,
+}));
+
+const db = prisma as unknown as FakePrisma;
+let walletId: bigint;
+
+// Runs a wallet movement as if it happened at a moment in Dhaka
+async function at(moment: string, post: () => Promise<unknown>) {
+  vi.setSystemTime(new Date(`${moment}+06:00`));
+  await post();
+}
+
+function seedTransaction(transactionType: string, amount: number) {
+  return db.$seed("walletTransaction", {
+    walletId,
+    amount,
+    transactionType,
+    transactionStatus: "COMPLETED",
+    description: `${transactionType} ${amount}`,
+  }).transactionId;
+}
+
+const deposit = (amount: number) => {
+  const walletTransactionId = seedTransaction("DEPOSIT", amount);
+  return creditWallet(
+    { walletId, amount, description: "Deposit", walletTransactionId },
+    "GATEWAY_CLEARING",
+    db
+  );
+};
+
+describe("wallet statement", () => {
+  let paymentId: bigint;
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    db.$reset();
+    walletId = db.$seed("wallet", {
+      customerId: 1n,
+      customer: { user: { name: "Rahim", phone: "+8801700000001" } },
+    }).walletId;
+
+    await at("2026-02-20T10:00:00", () => deposit(1000));
+    // Locked in February, paid in March
+    await at("2026-02-25T10:00:00", () => {
+      paymentId = seedTransaction("PAYMENT", 300);
+      const movement = {
+        walletId,
+        amount: 300,
+        description: "Order payment",
+        walletTransactionId: paymentId,
+      };
+      return lockWalletFunds(movement, db);
+    });
+    await at("2026-03-03T10:00:00", () =>
+      captureWalletFunds(
+        {
+          walletId,
+          amount: 300,
+          description: "Order delivered",
+          walletTransactionId: paymentId,
+        },
+        db
+      )
+    );
+    await at("2026-03-10T10:00:00", () => deposit(500));
+    await at("2026-03-15T10:00:00", () =>
+      creditWallet(
+        { walletId, amount: 50, description: "Goodwill credit" },
+        "ADJUSTMENTS",
+        db
+      )
+    );
+    // Just after midnight in Dhaka, still March 31 in UTC
+    await at("2026-04-01T00:30:00", () => deposit(100));
+  });
+
+  afterEach(() => vi.useRealTimers());
+
+  it("opens at the balance the ledger held when the month began", async () => {
+    const statement = await getWalletStatement(walletId, "2026-03");
+
+    expect(statement.openingBalance.toNumber()).toBe(1000);
+    expect(statement.closingBalance.toNumber()).toBe(1250);
+    expect(statement.customerPhone).toBe("+8801700000001");
+  });
+
+  it("lists each change of the month with a running balance", async () => {
+    const statement = await getWalletStatement(walletId, "2026-03");
+
+    expect(
+      statement.lines.map((line) => ({
+        description: line.description,
+        amount: line.amount.toNumber(),
+        runningBalance: line.runningBalance.toNumber(),
+      }))
+    ).toEqual([
+      { description: "Order delivered", amount: -300, runningBalance: 700 },
+      { description: "DEPOSIT 500", amount: 500, runningBalance: 1200 },
+      { description: "Goodwill credit", amount: 50, runningBalance: 1250 },
+    ]);
+    // The capture is listed against the February payment it settles
+    expect(statement.lines[0].transactionId).toBe(paymentId);
+  });
+
+  it("closes each month where the next one opens", async () => {
+    const march = await getWalletStatement(walletId, "2026-03");
+    const april = await getWalletStatement(walletId, "2026-04");
+
+    expect(april.openingBalance.toNumber()).toBe(
+      march.closingBalance.toNumber()
+    );
+    expect(april.closingBalance.toNumber()).toBe(1350);
+    expect(db.$rows("wallet")[0].balance.toNumber()).toBe(1350);
+  });
+
+  it("lists a month's locked payment with no change to the balance", async () => {
+    const february = await getWalletStatement(walletId, "2026-02");
+
+    expect(
+      february.lines.map((line) => [line.type, line.amount.toNumber()])
+    ).toEqual([
+      ["DEPOSIT", 1000],
+      ["PAYMENT", 0],
+    ]);
+    expect(february.closingBalance.toNumber()).toBe(1000);
+  });
+
+  it("writes the opening and closing balances around the CSV rows", async () => {
+    const csv = buildWalletStatementCsv(
+      await getWalletStatement(walletId, "2026-03")
+    )
+      .toString("utf8")
+      .trim()
+      .split(/\r?\n/);
+
+    expect(csv).toHaveLength(6);
+    expect(csv[1]).toContain("Opening balance");
+    expect(csv[1]).toContain("1000.00");
+    expect(csv[5]).toContain("Closing balance");
+    expect(csv[5]).toContain("1250.00");
+  });
+});
+
+describe("wallet statement of a wallet from before the ledger", () => {
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    db.$reset();
+    walletId = db.$seed("wallet", {
+      customerId: 1n,
+      balance: new Decimal(700),
+      customer: { user: { name: "Rahim", phone: "+8801700000001" } },
+    }).walletId;
+    await at("2026-03-05T10:00:00", async () =>
+      seedTransaction("DEPOSIT", 700)
+    );
+    vi.setSystemTime(new Date("2026-03-20T10:00:00+06:00"));
+  });
+
+  afterEach(() => vi.useRealTimers());
+
+  it("lists the money it held as an opening balance entry", async () => {
+    const statement = await getWalletStatement(walletId, "2026-03");
+
+    expect(statement.openingBalance.toNumber()).toBe(0);
+    expect(statement.closingBalance.toNumber()).toBe(700);
+    expect(
+      statement.lines.map((line) => [line.description, line.amount.toNumber()])
+    ).toEqual([
+      ["DEPOSIT 700", 0],
+      [`Opening balance of Wallet #${walletId}`, 700],
+    ]);
+  });
+
+  it("opens the next month at the wallet's balance", async () => {
+    const april = await getWalletStatement(walletId, "2026-04");
+
+    expect(april.openingBalance.toNumber()).toBe(700);
+    expect(april.closingBalance.toNumber()).toBe(700);
+  });
+});
@@ -0,0 +1,140 @@
+import { Decimal } from "@/generated/prisma/client/runtime/library";
+import prisma from "@/prisma-client/prismaClient";
+import { FakePrisma } from "@/tests/unit/helpers/fakePrisma";
+import { creditWallet } from "@/utils/walletLedger";
+import { deliverOtp } from "@/utils/otpService";
+import {
+  confirmWalletTransfer,
+  createWalletTransfer,
+} from "@/modules/wallets/wallet.service";
+
+vi.mock("@/prisma-client/prismaClient", async () => ({
+  default: (await import("@/tests/unit/helpers/fakePrisma")).fakePrisma,
+}));
+vi.mock("@/utils/socket", () => ({
+  io: { to: () => ({ emit: vi.fn() }) },
+  getSocketId: () => null,
+}));
+vi.mock("@/utils/otpService", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/utils/otpService")>()),
+  deliverOtp: vi.fn(),
+}));
+
+const db = prisma as unknown as FakePrisma;
+const SENDER_USER_ID = 7n;
+const RECIPIENT_PHONE = "+8801700000002";
+
+const findTransfer = () => db.$rows("walletTransfer")[0];
+const balanceOf = (customerId: bigint) =>
+  db
+    .$rows("wallet")
+    .find((wallet) => wallet.customerId === customerId)!
+    .balance.toNumber();
+// The OTP last sent to the sender
+const sentOtp = () => vi.mocked(deliverOtp).mock.lastCall![1];
+
+const send = (amount: number) =>
+  createWalletTransfer(SENDER_USER_ID, {
+    recipientPhone: RECIPIENT_PHONE,
+    amount,
+  });
+const confirm = (transferId: bigint, otp: string) =>
+  confirmWalletTransfer(SENDER_USER_ID, transferId, otp);
+
+function seedCustomer(customerId: bigint, userId: bigint, phone: string) {
+  const customer = { customerId, userId, user: { userId, phone } };
+  db.$seed("customer", customer);
+  return db.$seed("wallet", { customerId, customer });
+}
+
+// A transfer the sender completed earlier
+function seedSentTransfer(amount: number, completedAt: Date) {
+  db.$seed("walletTransfer", {
+    senderWalletId: db.$rows("wallet")[0].walletId,
+    recipientWalletId: db.$rows("wallet")[1].walletId,
+    amount: new Decimal(amount),
+    status: "COMPLETED",
+    completedAt,
+  });
+}
+
+describe("wallet transfers", () => {
+  beforeEach(async () => {
+    db.$reset();
+    const { walletId } = seedCustomer(1n, SENDER_USER_ID, "+8801700000001");
+    seedCustomer(2n, 8n, RECIPIENT_PHONE);
+    await creditWallet(
+      { walletId, amount: 20_000, description: "Top up" },
+      "GATEWAY_CLEARING",
+      db
+    );
+  });
+
+  it("moves the money once the sender confirms the OTP", async () => {
+    const { transferId } = await send(1500);
+    expect(findTransfer().status).toBe("PENDING");
+    expect(balanceOf(2n)).toBe(0);
+
+    await confirm(transferId, sentOtp());
+
+    expect(findTransfer()).toMatchObject({
+      status: "COMPLETED",
+      otpHash: null,
+    });
+    expect(balanceOf(1n)).toBe(18_500);
+    expect(balanceOf(2n)).toBe(1500);
+    expect(
+      db.$rows("walletTransaction").map((row) => row.transactionType)
+    ).toEqual(["TRANSFER_OUT", "TRANSFER_IN"]);
+  });
+
+  it("uses an OTP only once", async () => {
+    const { transferId } = await send(1500);
+    const otp = sentOtp();
+    await confirm(transferId, otp);
+
+    await expect(confirm(transferId, otp)).rejects.toMatchObject({
+      statusCode: 409,
+    });
+    expect(balanceOf(2n)).toBe(1500);
+  });
+
+  it("locks the transfer after five wrong OTPs", async () => {
+    const { transferId } = await send(1500);
+
+    for (let attempt = 0; attempt < 5; attempt++) {
+      await expect(confirm(transferId, "000000")).rejects.toThrow(
+        "Invalid OTP"
+      );
+    }
+
+    expect(findTransfer()).toMatchObject({
+      status: "LOCKED",
+      otpAttempts: 5,
+      otpHash: null,
+    });
+    await expect(confirm(transferId, sentOtp())).rejects.toThrow(
+      "Transfer is already locked"
+    );
+    expect(balanceOf(2n)).toBe(0);
+  });
+
+  it("refuses a transfer over what is left of today's limit", async () => {
+    seedSentTransfer(9000, new Date(Date.now() - 48 * 60 * 60 * 1000));
+    seedSentTransfer(9500, new Date());
+
+    await expect(send(1000)).rejects.toThrow("You can send 500.00 more today");
+    await send(500);
+  });
+
+  it("checks the daily limit again on confirmation", async () => {
+    const { transferId } = await send(1000);
+    seedSentTransfer(9500, new Date());
+
+    await expect(confirm(transferId, sentOtp())).rejects.toThrow(
+      "You can send 500.00 more today"
+    );
+    expect(findTransfer().status).toBe("PENDING");
+    expect(balanceOf(2n)).toBe(0);
+  });
+});
@@ -0,0 +1,112 @@
+import prisma from "@/prisma-client/prismaClient";
+import { FakePrisma } from "@/tests/unit/helpers/fakePrisma";
+import { creditWallet } from "@/utils/walletLedger";
+import {
+  approveWithdrawal,
+  rejectWithdrawal,
+  requestWithdrawal,
+} from "@/modules/wallets/wallet.service";
+
+vi.mock("@/prisma-client/prismaClient", async () => ({
+  default: (await import("@/tests/unit/helpers/fakePrisma")).fakePrisma,
+}));
+vi.mock("@/utils/socket", () => ({
+  io: { to: () => ({ emit: vi.fn() }) },
+  getSocketId: () => null,
+}));
+
+const db = prisma as unknown as FakePrisma;
+const USER_ID = 7n;
+
+const findWallet = () => db.$rows("wallet")[0];
+const findHold = () => db.$rows("walletHold")[0];
+const findTransaction = () => db.$rows("walletTransaction")[0];
+
+const request = (amount: number) =>
+  requestWithdrawal(USER_ID, {
+    amount,
+    method: "BKASH",
+    accountName: "Rahim",
+    accountNumber: "01700000000",
+  });
+
+describe("wallet withdrawals", () => {
+  beforeEach(async () => {
+    db.$reset();
+    db.$seed("customer", { customerId: 1n, userId: USER_ID });
+    const { walletId } = db.$seed("wallet", {
+      customerId: 1n,
+      customer: { customerId: 1n, userId: USER_ID },
+    });
+    await creditWallet(
+      { walletId, amount: 1000, description: "Top up" },
+      "GATEWAY_CLEARING",
+      db
+    );
+  });
+
+  it("holds the requested amount until it is reviewed", async () => {
+    const withdrawal = await request(400);
+
+    expect(withdrawal.status).toBe("PENDING");
+    expect(findHold()).toMatchObject({
+      reason: "WITHDRAWAL",
+      status: "ACTIVE",
+      walletTransactionId: withdrawal.walletTransactionId,
+    });
+    expect(findWallet().balance.toNumber()).toBe(1000);
+    expect(findWallet().lockedBalance.toNumber()).toBe(400);
+    expect(findTransaction().transactionStatus).toBe("LOCKED");
+  });
+
+  it("refuses more than the balance not already held", async () => {
+    await request(700);
+
+    await expect(request(400)).rejects.toThrow(
+      "Insufficient available wallet balance"
+    );
+    expect(db.$rows("withdrawal")).toHaveLength(1);
+  });
+
+  it("pays the held money out on approval", async () => {
+    const { withdrawalId } = await request(400);
+
+    await approveWithdrawal(withdrawalId, { payoutReference: "BK123" }, 1n);
+
+    expect(db.$rows("withdrawal")[0]).toMatchObject({
+      status: "APPROVED",
+      payoutReference: "BK123",
+      reviewedByUserId: 1n,
+    });
+    expect(findHold().status).toBe("CAPTURED");
+    expect(findWallet().balance.toNumber()).toBe(600);
+    expect(findWallet().lockedBalance.toNumber()).toBe(0);
+    expect(findTransaction().transactionStatus).toBe("COMPLETED");
+  });
+
+  it("gives the held money back on rejection", async () => {
+    const { withdrawalId } = await request(400);
+
+    await rejectWithdrawal(withdrawalId, { reason: "Wrong account" }, 1n);
+
+    expect(db.$rows("withdrawal")[0]).toMatchObject({
+      status: "REJECTED",
+      rejectionReason: "Wrong account",
+    });
+    expect(findHold().status).toBe("RELEASED");
+    expect(findWallet().balance.toNumber()).toBe(1000);
+    expect(findWallet().lockedBalance.toNumber()).toBe(0);
+    expect(findTransaction().transactionStatus).toBe("FAILED");
+  });
+
+  it("reviews a withdrawal only once", async () => {
+    const { withdrawalId } = await request(400);
+    await rejectWithdrawal(withdrawalId, { reason: "Wrong account" });
+
+    await expect(
+      approveWithdrawal(withdrawalId, { payoutReference: "BK123" })
+    ).rejects.toMatchObject({ statusCode: 409 });
+    expect(findHold().status).toBe("RELEASED");
+    expect(findWallet().balance.toNumber()).toBe(1000);
+  });
+});
@@ -1,11 +1,14 @@
 export class AppError extends Error {
   statusCode: number;
   isOperational: boolean;
+  // Field level problems, returned to the client alongside the message
+  errors?: unknown[];
 
-  constructor(message: string, statusCode: number) {
+  constructor(message: string, statusCode: number, errors?: unknown[]) {
     super(message);
     this.statusCode = statusCode;
     this.isOperational = true;
+    this.errors = errors;
 
     Error.captureStackTrace(this, this.constructor);
   }
@@ -0,0 +1,176 @@
+import { Decimal } from "@/generated/prisma/client/runtime/library";
+import { Deal, Prisma, Product } from "@/generated/prisma/client";
+import prisma from "@/prisma-client/prismaClient";
+import { calculateDealPricing } from "@/utils/calculateDealPricing";
+import { hasInsufficientStock } from "@/utils/processSubscription";
+import { AppError } from "@/utils/appError";
+import httpStatus from "http-status";
+
+// Allowed difference between client and server amounts (floating-point errors)
+const AMOUNT_TOLERANCE = new Decimal(0.01);
+
+type ProductWithDeal = Product & { deal?: Deal | null };
+
+export interface OrderLineInput {
+  productId: bigint;
+  quantity: number;
+}
+
+export interface PricedOrderLine {
+  productId: bigint;
+  product: ProductWithDeal;
+  quantity: number;
+  unitType: Product["unitType"];
+  packageSize: number;
+  unitPrice: Decimal;
+  discountUnitPrice: Decimal | null;
+  discountAmount: Decimal;
+  subtotal: Decimal;
+  isAvailable: boolean;
+}
+
+export interface OrderPricingResult {
+  lines: PricedOrderLine[];
+  discountAmount: Decimal;
+  totalAmount: Decimal;
+}
+
+/**
+ * Prices a single order line from the product's current unit price and active deal.
+ * Subtotal = quantity * (discountUnitPrice ?? unitPrice) * packageSize.
+ */
+export async function priceOrderLine(
+  product: ProductWithDeal,
+  quantity: number
+): Promise<PricedOrderLine> {
+  const pricing = await calculateDealPricing(product);
+  const unitPrice = product.unitPrice;
+  const effectiveUnitPrice = pricing.discountUnitPrice ?? unitPrice;
+  const subtotal = effectiveUnitPrice.mul(product.packageSize).mul(quantity);
+  const discountAmount = unitPrice
+    .mul(product.packageSize)
+    .mul(quantity)
+    .sub(subtotal);
+
+  return {
+    productId: product.productId,
+    product,
+    quantity,
+    unitType: product.unitType,
+    packageSize: product.packageSize,
+    unitPrice,
+    discountUnitPrice: pricing.discountUnitPrice,
+    discountAmount,
+    subtotal,
+    isAvailable: product.isPreorder || !hasInsufficientStock(product, quantity),
+  };
+}
+
+/**
+ * Prices a list of order lines with the products' current prices and deals.
+ * @throws AppError if a product is missing or listed more than once
+ */
+export async function calculateOrderPricing(
+  items: OrderLineInput[],
+  tx: Prisma.TransactionClient = prisma
+): Promise<OrderPricingResult> {
+  const productIds = items.map((item) => item.productId);
+  const duplicateIds = productIds.filter(
+    (id, index) => productIds.indexOf(id) !== index
+  );
+  if (duplicateIds.length > 0) {
+    throw new AppError(
+      `Duplicate products in order: ${duplicateIds.join(", ")}`,
+      httpStatus.BAD_REQUEST
+    );
+  }
+
+  const products = await tx.product.findMany({
+    where: { productId: { in: productIds } },
+    include: { deal: true },
+  });
+  const missingProducts = productIds.filter(
+    (id) => !products.some((p) => p.productId === id)
+  );
+  if (missingProducts.length > 0) {
+    throw new AppError(
+      `Products not found: ${missingProducts.join(", ")}`,
+      httpStatus.NOT_FOUND
+    );
+  }
+
+  const lines = await Promise.all(
+    items.map((item) =>
+      priceOrderLine(
+        products.find((p) => p.productId === item.productId)!,
+        item.quantity
+      )
+    )
+  );
+
+  return {
+    lines,
+    discountAmount: lines.reduce(
+      (sum, line) => sum.add(line.discountAmount),
+      new Decimal(0)
+    ),
+    totalAmount: lines.reduce(
+      (sum, line) => sum.add(line.subtotal),
+      new Decimal(0)
+    ),
+  };
+}
+
+/**
+ * Rejects a client supplied amount which does not match the server computed amount
+ * @throws AppError if the amounts differ by more than the allowed tolerance
+ */
+export function assertAmountMatches(
+  label: string,
+  clientAmount: number | Decimal,
+  serverAmount: Decimal
+): void {
+  if (serverAmount.sub(clientAmount).abs().greaterThan(AMOUNT_TOLERANCE)) {
+    throw new AppError(
+      `${label} mismatch: expected ${serverAmount.toFixed(
+        2
+      )}, received ${new Decimal(clientAmount).toFixed(2)}`,
+      httpStatus.BAD_REQUEST
+    );
+  }
+}
+
+/**
+ * Rejects lines whose stock cannot cover the ordered quantity
+ * @throws AppError listing the unavailable products
+ */
+export function assertLinesAvailable(lines: PricedOrderLine[]): void {
+  const unavailable = lines.filter((line) => !line.isAvailable);
+  if (unavailable.length > 0) {
+    const names = unavailable.map((line) => line.product.name);
+    throw new AppError(
+      `Insufficient stock for products: ${names.join(", ")}`,
+      httpStatus.BAD_REQUEST
+    );
+  }
+}
+
+/**
+ * Maps priced lines to order item rows for the given order
+ */
+export function toOrderItemData(
+  orderId: bigint,
+  lines: PricedOrderLine[]
+): Prisma.OrderItemCreateManyInput[] {
+  return lines.map((line) => ({
+    orderId,
+    productId: line.productId,
+    quantity: line.quantity,
+    unitPrice: line.unitPrice,
+    discountUnitPrice: line.discountUnitPrice,
+    discountAmount: line.discountAmount,
+    unitType: line.unitType,
+    packageSize: line.packageSize,
+    subtotal: line.subtotal,
+  }));
+}
@@ -0,0 +1,102 @@
+import { DeliverySlot, Prisma } from "@/generated/prisma/client";
+import prisma from "@/prisma-client/prismaClient";
+import { AppError } from "@/utils/appError";
+import httpStatus from "http-status";
+import logger from "@/utils/logger";
+import { toDhakaDay } from "@/utils/dhakaTime";
+
+/**
+ * Converts a calendar day to the value stored in DeliverySlot.date (UTC midnight)
+ * @param date - A Date, taken as its day in Dhaka, or a YYYY-MM-DD string
+ */
+export const toSlotDate = (date: Date | string): Date => {
+  const day = typeof date === "string" ? date : toDhakaDay(date);
+  return new Date(`${day}T00:00:00.000Z`);
+};
+
+/**
+ * Reserve one delivery in a slot.
+ * The capacity check and the increment run as one conditional update,
+ * so concurrent checkouts cannot overbook a slot.
+ * @throws AppError if the slot does not exist, is in the past or is full
+ */
+export async function reserveDeliverySlot(
+  slotId: bigint,
+  tx: Prisma.TransactionClient = prisma
+): Promise<DeliverySlot> {
+  const { count } = await tx.deliverySlot.updateMany({
+    where: {
+      slotId,
+      isActive: true,
+      date: { gte: toSlotDate(new Date()) },
+      reservedCount: { lt: tx.deliverySlot.fields.capacity },
+    },
+    data: { reservedCount: { increment: 1 } },
+  });
+
+  if (count === 0) {
+    const slot = await tx.deliverySlot.findUnique({ where: { slotId } });
+    if (!slot || !slot.isActive) {
+      throw new AppError("Delivery slot not found", httpStatus.NOT_FOUND);
+    }
+    if (slot.reservedCount >= slot.capacity) {
+      throw new AppError("Delivery slot is full", httpStatus.CONFLICT);
+    }
+    throw new AppError(
+      "Delivery slot is no longer available",
+      httpStatus.BAD_REQUEST
+    );
+  }
+
+  return (await tx.deliverySlot.findUnique({ where: { slotId } }))!;
+}
+
+/**
+ * Give back a delivery reserved in a slot (e.g. on cancellation)
+ */
+export async function releaseDeliverySlot(
+  slotId: bigint,
+  tx: Prisma.TransactionClient = prisma
+): Promise<void> {
+  await tx.deliverySlot.updateMany({
+    where: { slotId, reservedCount: { gt: 0 } },
+    data: { reservedCount: { decrement: 1 } },
+  });
+}
+
+/**
+ * Reserve the earliest slot with free capacity in a zone on a given day.
+ * Used for subscription deliveries, which have a fixed delivery date.
+ * @returns The reserved slot, or null if every slot of the day is full
+ */
+export async function reserveFirstAvailableSlot(
+  zoneCode: string,
+  date: Date,
+  tx: Prisma.TransactionClient = prisma
+): Promise<DeliverySlot | null> {
+  const slots = await tx.deliverySlot.findMany({
+    where: {
+      zoneCode,
+      date: toSlotDate(date),
+      isActive: true,
+      reservedCount: { lt: tx.deliverySlot.fields.capacity },
+    },
+    orderBy: { startTime: "asc" },
+  });
+
+  for (const slot of slots) {
+    const { count } = await tx.deliverySlot.updateMany({
+      where: {
+        slotId: slot.slotId,
+        reservedCount: { lt: tx.deliverySlot.fields.capacity },
+      },
+      data: { reservedCount: { increment: 1 } },
+    });
+    if (count > 0) return slot;
+  }
+
+  logger.warn(
+    `No delivery slot available in zone ${zoneCode} on ${toDhakaDay(date)}`
+  );
+  return null;
+}
@@ -0,0 +1,232 @@
+import { Decimal } from "@/generated/prisma/client/runtime/library";
+import { OrderStatus, User, UserRole } from "@/generated/prisma/client";
+import prisma from "@/prisma-client/prismaClient";
+import { AppError } from "@/utils/appError";
+import httpStatus from "http-status";
+import { z } from "zod";
+
+// Configuration
+const CONFIG = {
+  MIN_UPDATE_INTERVAL_MS: 10_000, // Accept one location per rider every 10 seconds
+  MAX_STORED_POINTS: 50, // Locations kept per rider
+  DEFAULT_SPEED_KMPH: 18, // City riding speed when the device reports none
+  MIN_REPORTED_SPEED_KMPH: 5, // Below this the rider is treated as stopped
+} as const;
+
+const EARTH_RADIUS_KM = 6371;
+
+export const zRiderLocation = z.object({
+  latitude: z.coerce.number().min(-90).max(90),
+  longitude: z.coerce.number().min(-180).max(180),
+  accuracy: z.coerce.number().nonnegative().optional(),
+  speed: z.coerce.number().nonnegative().optional(),
+});
+export type RiderLocationInput = z.infer<typeof zRiderLocation>;
+
+export interface OrderLocationUpdate {
+  orderId: bigint;
+  latitude: Decimal;
+  longitude: Decimal;
+  recordedAt: Date;
+  etaMinutes: number | null;
+}
+
+export interface OrderTrackingSnapshot {
+  orderId: bigint;
+  status: OrderStatus;
+  location: OrderLocationUpdate | null;
+}
+
+type Point = { latitude: number | Decimal; longitude: number | Decimal };
+
+// Time each rider's last location was accepted, kept only while it throttles
+const lastAcceptedAt = new Map<bigint, number>();
+
+/**
+ * Socket.IO room of an order's tracking events
+ */
+export const orderRoom = (orderId: bigint | string): string =>
+  `order:${orderId}`;
+
+/**
+ * Distance between two points in kilometers
+ */
+export function distanceKm(from: Point, to: Point): number {
+  const toRadians = (degrees: number | Decimal) =>
+    (Number(degrees) * Math.PI) / 180;
+  const dLat = toRadians(Number(to.latitude) - Number(from.latitude));
+  const dLng = toRadians(Number(to.longitude) - Number(from.longitude));
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) *
+      Math.cos(toRadians(to.latitude)) *
+      Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+}
+
+/**
+ * Minutes for a rider to reach a destination in a straight line
+ * @param speed - Speed reported by the device in meters per second
+ */
+export function estimateEtaMinutes(
+  from: Point,
+  to: Point,
+  speed?: number | null
+): number {
+  const reportedKmph = (speed ?? 0) * 3.6;
+  const kmph =
+    reportedKmph >= CONFIG.MIN_REPORTED_SPEED_KMPH
+      ? reportedKmph
+      : CONFIG.DEFAULT_SPEED_KMPH;
+  return Math.ceil((distanceKm(from, to) / kmph) * 60);
+}
+
+/**
+ * Check that a user may follow an order's tracking events
+ * - Customers can only follow their own orders
+ * - Riders can only follow orders assigned to them
+ * @throws AppError if the order does not exist or the user may not follow it
+ */
+export async function assertCanTrackOrder(
+  user: User,
+  orderId: bigint
+): Promise<void> {
+  const order = await prisma.order.findUnique({
+    where: { orderId },
+    select: {
+      customer: { select: { userId: true } },
+      deliveryAssignment: { select: { rider: { select: { userId: true } } } },
+    },
+  });
+  const isStaff =
+    user.role === UserRole.ADMIN ||
+    user.role === UserRole.SUPER_ADMIN ||
+    user.role === UserRole.SUPPORT;
+  const isOwner =
+    (user.role === UserRole.CUSTOMER &&
+      order?.customer.userId === user.userId) ||
+    (user.role === UserRole.RIDER &&
+      order?.deliveryAssignment?.rider.userId === user.userId);
+  if (!order || !(isStaff || isOwner)) {
+    throw new AppError("Order not found", httpStatus.NOT_FOUND);
+  }
+}
+
+/**
+ * Current status and rider location of an order, sent when a client joins
+ * its room
+ */
+export async function getOrderTrackingSnapshot(
+  orderId: bigint
+): Promise<OrderTrackingSnapshot> {
+  const order = await prisma.order.findUniqueOrThrow({
+    where: { orderId },
+    select: {
+      status: true,
+      address: { select: { latitude: true, longitude: true } },
+      deliveryAssignment: {
+        select: {
+          status: true,
+          rider: {
+            select: {
+              locations: { orderBy: { recordedAt: "desc" }, take: 1 },
+            },
+          },
+        },
+      },
+    },
+  });
+
+  // The rider's location is only shared while the order is on its way
+  const assignment = order.deliveryAssignment;
+  const location =
+    assignment?.status === "PICKED_UP" ? assignment.rider.locations[0] : null;
+  return {
+    orderId,
+    status: order.status,
+    location: location
+      ? {
+          orderId,
+          latitude: location.latitude,
+          longitude: location.longitude,
+          recordedAt: location.recordedAt,
+          etaMinutes: hasCoordinates(order.address)
+            ? estimateEtaMinutes(location, order.address, location.speed)
+            : null,
+        }
+      : null,
+  };
+}
+
+const hasCoordinates = (
+  address: { latitude: Decimal | null; longitude: Decimal | null } | null
+): address is { latitude: Decimal; longitude: Decimal } =>
+  !!address && address.latitude !== null && address.longitude !== null;
+
+// Drop riders whose last location is older than the throttle interval
+function forgetExpiredThrottles(now: number) {
+  for (const [riderId, acceptedAt] of lastAcceptedAt) {
+    if (now - acceptedAt >= CONFIG.MIN_UPDATE_INTERVAL_MS) {
+      lastAcceptedAt.delete(riderId);
+    }
+  }
+}
+
+/**
+ * Store a location pushed by a rider
+ * - Updates arriving faster than the throttle interval are dropped
+ * - Only the latest points of each rider are kept
+ * @param userId - The ID of the rider user
+ * @returns Updates for every order the rider is carrying, or null when the
+ * location was throttled
+ */
+export async function recordRiderLocation(
+  userId: bigint,
+  input: RiderLocationInput
+): Promise<OrderLocationUpdate[] | null> {
+  const rider = await prisma.rider.findUnique({ where: { userId } });
+  if (!rider || !rider.isActive) {
+    throw new AppError("Rider profile not found", httpStatus.NOT_FOUND);
+  }
+
+  const now = Date.now();
+  forgetExpiredThrottles(now);
+  if (lastAcceptedAt.has(rider.riderId)) {
+    return null;
+  }
+  lastAcceptedAt.set(rider.riderId, now);
+
+  const location = await prisma.riderLocation.create({
+    data: { ...input, riderId: rider.riderId },
+  });
+  const oldest = await prisma.riderLocation.findFirst({
+    where: { riderId: rider.riderId },
+    orderBy: { recordedAt: "desc" },
+    skip: CONFIG.MAX_STORED_POINTS - 1,
+    select: { recordedAt: true },
+  });
+  if (oldest) {
+    await prisma.riderLocation.deleteMany({
+      where: { riderId: rider.riderId, recordedAt: { lt: oldest.recordedAt } },
+    });
+  }
+
+  const assignments = await prisma.deliveryAssignment.findMany({
+    where: { riderId: rider.riderId, status: "PICKED_UP" },
+    select: {
+      orderId: true,
+      order: {
+        select: { address: { select: { latitude: true, longitude: true } } },
+      },
+    },
+  });
+  return assignments.map(({ orderId, order }) => ({
+    orderId,
+    latitude: location.latitude,
+    longitude: location.longitude,
+    recordedAt: location.recordedAt,
+    etaMinutes: hasCoordinates(order.address)
+      ? estimateEtaMinutes(location, order.address, input.speed)
+      : null,
+  }));
+}
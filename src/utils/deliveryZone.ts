@@ -0,0 +1,147 @@
+import { Decimal } from "@/generated/prisma/client/runtime/library";
+import { DeliverySlot, DeliveryZone, Prisma } from "@/generated/prisma/client";
+import prisma from "@/prisma-client/prismaClient";
+import { AppError } from "@/utils/appError";
+import httpStatus from "http-status";
+import { toSlotDate } from "@/utils/deliverySlot";
+import { toDhakaTime } from "@/utils/dhakaTime";
+import logger from "@/utils/logger";
+
+// Bangladeshi postcodes are four digits
+const POSTCODE_PATTERN = /\b\d{4}\b/g;
+
+// Serves every address until an admin configures delivery zones
+const DEFAULT_ZONE_CODE = "DEFAULT";
+
+/**
+ * The zone checkouts fall back to while no other zone is active.
+ * It is created on first use, so a fresh deploy can take orders.
+ * @returns The default zone, or null once other zones are configured
+ *   or the default zone was deactivated
+ */
+async function findDefaultZone(
+  tx: Prisma.TransactionClient
+): Promise<DeliveryZone | null> {
+  const configuredZones = await tx.deliveryZone.count({
+    where: { isActive: true, code: { not: DEFAULT_ZONE_CODE } },
+  });
+  if (configuredZones > 0) return null;
+
+  const zone = await tx.deliveryZone.upsert({
+    where: { code: DEFAULT_ZONE_CODE },
+    update: {},
+    create: {
+      code: DEFAULT_ZONE_CODE,
+      name: "Default",
+      areas: [],
+      postcodes: [],
+      deliveryFee: new Decimal(process.env.DEFAULT_DELIVERY_FEE || 0),
+    },
+  });
+  if (!zone.isActive) return null;
+
+  logger.warn(
+    `No delivery zones configured, using the ${DEFAULT_ZONE_CODE} zone`
+  );
+  return zone;
+}
+
+/**
+ * Find the active zone serving a shipping address.
+ * A postcode in the address takes precedence over area names.
+ * While no zones are configured, every address is served by the default zone.
+ * @returns The zone, or null if the address is outside every zone
+ */
+export async function findZoneForAddress(
+  shippingAddress: string,
+  tx: Prisma.TransactionClient = prisma
+): Promise<DeliveryZone | null> {
+  const postcodes = shippingAddress.match(POSTCODE_PATTERN) ?? [];
+  if (postcodes.length > 0) {
+    const zone = await tx.deliveryZone.findFirst({
+      where: { isActive: true, postcodes: { hasSome: postcodes } },
+      orderBy: { zoneId: "asc" },
+    });
+    if (zone) return zone;
+  }
+
+  const address = shippingAddress.toLowerCase();
+  const zones = await tx.deliveryZone.findMany({
+    where: { isActive: true },
+    orderBy: { zoneId: "asc" },
+  });
+  return (
+    zones.find((zone) =>
+      zone.areas.some((area) => address.includes(area.toLowerCase()))
+    ) ?? (await findDefaultZone(tx))
+  );
+}
+
+/**
+ * Same as findZoneForAddress, but rejects addresses we do not deliver to
+ * @throws AppError if no active zone serves the address
+ */
+export async function resolveDeliveryZone(
+  shippingAddress: string,
+  tx: Prisma.TransactionClient = prisma
+): Promise<DeliveryZone> {
+  const zone = await findZoneForAddress(shippingAddress, tx);
+  if (!zone) {
+    throw new AppError(
+      "Delivery is not available for this shipping address",
+      httpStatus.BAD_REQUEST
+    );
+  }
+  return zone;
+}
+
+/**
+ * Shipping fee of an order in a zone; free at or above the zone's threshold
+ * @param subtotal - Total of the order items after discounts
+ */
+export function calculateShippingFee(
+  zone: DeliveryZone,
+  subtotal: Decimal
+): Decimal {
+  if (
+    zone.freeDeliveryThreshold &&
+    subtotal.greaterThanOrEqualTo(zone.freeDeliveryThreshold)
+  ) {
+    return new Decimal(0);
+  }
+  return zone.deliveryFee;
+}
+
+/**
+ * Whether today's cutoff of a zone has passed in Dhaka, closing its
+ * same-day slots
+ */
+export function isPastCutoff(
+  zone: DeliveryZone,
+  now: Date = new Date()
+): boolean {
+  return !!zone.cutoffTime && toDhakaTime(now) >= zone.cutoffTime;
+}
+
+/**
+ * Check a reserved slot belongs to the order's zone and is still bookable
+ * @throws AppError if the slot is in another zone or past the same-day cutoff
+ */
+export function assertSlotInZone(slot: DeliverySlot, zone: DeliveryZone): void {
+  if (slot.zoneCode !== zone.code) {
+    throw new AppError(
+      "Delivery slot does not serve the shipping address",
+      httpStatus.BAD_REQUEST
+    );
+  }
+  const now = new Date();
+  if (
+    slot.date.getTime() === toSlotDate(now).getTime() &&
+    isPastCutoff(zone, now)
+  ) {
+    throw new AppError(
+      `Same-day delivery closes at ${zone.cutoffTime}`,
+      httpStatus.BAD_REQUEST
+    );
+  }
+}
@@ -0,0 +1,73 @@
+import { format, parse } from "date-fns";
+
+// Delivery days and cutoffs follow Bangladesh time, like the cron jobs.
+// Bangladesh Standard Time is UTC+6 all year round.
+const DHAKA_UTC_OFFSET = "+06:00";
+const DHAKA_OFFSET_MS = 6 * 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toDhakaIso = (date: Date) =>
+  new Date(date.getTime() + DHAKA_OFFSET_MS).toISOString();
+
+/**
+ * The calendar day in Dhaka of a moment, as YYYY-MM-DD
+ */
+export const toDhakaDay = (date: Date): string => toDhakaIso(date).slice(0, 10);
+
+/**
+ * The wall-clock time in Dhaka of a moment, as HH:mm
+ */
+export const toDhakaTime = (date: Date): string =>
+  toDhakaIso(date).slice(11, 16);
+
+/**
+ * The moment a calendar day starts in Dhaka
+ * @param day - A YYYY-MM-DD string
+ */
+export const startOfDhakaDay = (day: string): Date =>
+  new Date(`${day}T00:00:00.000${DHAKA_UTC_OFFSET}`);
+
+/**
+ * The first and last moment of a calendar day in Dhaka
+ * @param day - A YYYY-MM-DD string
+ */
+export function dhakaDayBounds(day: string): { start: Date; end: Date } {
+  const start = startOfDhakaDay(day);
+  return { start, end: new Date(start.getTime() + DAY_MS - 1) };
+}
+
+/**
+ * The calendar month in Dhaka of a moment, as YYYY-MM
+ */
+export const toDhakaMonth = (date: Date): string =>
+  toDhakaIso(date).slice(0, 7);
+
+/**
+ * The first and last moment of a calendar month in Dhaka
+ * @param month - A YYYY-MM string
+ */
+export function dhakaMonthBounds(month: string): { start: Date; end: Date } {
+  const [year, monthIndex] = month.split("-").map(Number);
+  const nextMonth =
+    monthIndex === 12
+      ? `${year + 1}-01`
+      : `${year}-${String(monthIndex + 1).padStart(2, "0")}`;
+  return {
+    start: startOfDhakaDay(`${month}-01`),
+    end: new Date(startOfDhakaDay(`${nextMonth}-01`).getTime() - 1),
+  };
+}
+
+/**
+ * Formats a moment with a date-fns pattern as a clock in Dhaka shows it,
+ * whatever the server's time zone
+ */
+export const formatDhaka = (date: Date, pattern: string): string =>
+  format(
+    parse(
+      `${toDhakaDay(date)} ${toDhakaTime(date)}`,
+      "yyyy-MM-dd HH:mm",
+      new Date()
+    ),
+    pattern
+  );
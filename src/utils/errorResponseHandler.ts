@@ -33,6 +33,7 @@ import { Prisma } from "@/generated/prisma/client";
 import { Response } from "express";
 import { ZodError } from "zod";
 import httpStatus from "http-status";
+import { AppError } from "@/utils/appError";
 
 /**
  * Handle error response with enhanced Prisma error handling
@@ -55,6 +56,17 @@ export function handleErrorResponse(
     return;
   }
 
+  // Handle operational errors which carry their own status code
+  if (error instanceof AppError) {
+    res.status(error.statusCode).json({
+      success: false,
+      message: `Failed to ${context}`,
+      error: error.message,
+      ...(error.errors && { errors: error.errors }),
+    });
+    return;
+  }
+
   // Handle Prisma errors
   if (error instanceof Prisma.PrismaClientKnownRequestError) {
     switch (error.code) {
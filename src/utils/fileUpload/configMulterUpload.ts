@@ -17,6 +17,25 @@ export const upload = multer({
   },
 });
 
+// Configure multer for CSV imports
+export const csvUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 1024 * 1024, // 1MB
+  },
+  fileFilter: (req, file, cb) => {
+    // Browsers report CSV files with different types, so check the name too
+    if (
+      file.mimetype === "text/csv" ||
+      file.originalname.toLowerCase().endsWith(".csv")
+    ) {
+      cb(null, true);
+    } else {
+      cb(new Error("Only CSV files are allowed"));
+    }
+  },
+});
+
 export interface IMulterFile {
   fieldname: string;
   originalname: string;
@@ -0,0 +1,231 @@
+import httpStatus from "http-status";
+import prisma from "@/prisma-client/prismaClient";
+import { Prisma, Refund } from "@/generated/prisma/client";
+import { Decimal } from "@/generated/prisma/client/runtime/library";
+import { AppError } from "@/utils/appError";
+import { getErrorMessage } from "@/utils/errorHandler";
+import logger from "@/utils/logger";
+import { createNotification } from "@/utils/processPayment";
+import {
+  GatewayMethod,
+  getPaymentProvider,
+  isGatewayMethod,
+  RefundVerification,
+  zPaymentMethod,
+} from "@/utils/paymentProviders";
+
+/**
+ * Gateway of a stored payment method, or null for wallet and COD payments
+ */
+export const toGatewayMethod = (paymentMethod: string): GatewayMethod | null => {
+  const method = zPaymentMethod.safeParse(paymentMethod);
+  return method.success && isGatewayMethod(method.data) ? method.data : null;
+};
+
+/**
+ * Record a refund of part or all of a completed gateway payment, to be
+ * sent to the gateway with submitGatewayRefund once the transaction commits
+ * - The refund is recorded as PENDING before the gateway is called, so
+ *   concurrent refunds can never exceed the paid amount
+ * @param amount - Amount to refund, the whole refundable amount if omitted
+ */
+export async function recordGatewayRefund(
+  paymentId: bigint,
+  { amount, reason }: { amount?: number; reason: string },
+  tx: Prisma.TransactionClient,
+  requestedByUserId?: bigint
+): Promise<Refund> {
+  // Lock the payment so refunds of it are made one at a time
+  await tx.$queryRaw`SELECT 1 FROM "Payment" WHERE "paymentId" = ${paymentId} FOR UPDATE`;
+  const payment = await tx.payment.findUnique({
+    where: { paymentId },
+    include: { refunds: { where: { status: { not: "FAILED" } } } },
+  });
+  if (!payment) {
+    throw new AppError("Payment not found", httpStatus.NOT_FOUND);
+  }
+
+  if (!toGatewayMethod(payment.paymentMethod)) {
+    throw new AppError(
+      `${payment.paymentMethod} payments cannot be refunded through a gateway`,
+      httpStatus.BAD_REQUEST
+    );
+  }
+  if (payment.paymentStatus !== "COMPLETED") {
+    throw new AppError(
+      `Cannot refund payment with status: ${payment.paymentStatus}`,
+      httpStatus.BAD_REQUEST
+    );
+  }
+
+  const refundable = payment.refunds.reduce(
+    (left, refund) => left.sub(refund.amount),
+    payment.amount
+  );
+  const refundAmount = amount !== undefined ? new Decimal(amount) : refundable;
+  if (
+    refundAmount.lessThanOrEqualTo(0) ||
+    refundAmount.greaterThan(refundable)
+  ) {
+    throw new AppError(
+      `Refund amount must be more than 0 and at most ${refundable.toFixed(2)}`,
+      httpStatus.BAD_REQUEST
+    );
+  }
+
+  return await tx.refund.create({
+    data: { amount: refundAmount, reason, paymentId, requestedByUserId },
+  });
+}
+
+/**
+ * Send a recorded refund to the gateway
+ * - Refunds the gateway is still processing are settled by the refund job,
+ *   which follows them up by their reference; one left pending without a
+ *   reference is failed, so its amount can be refunded again
+ */
+export async function submitGatewayRefund(refund: Refund): Promise<Refund> {
+  const payment = await prisma.payment.findUniqueOrThrow({
+    where: { paymentId: refund.paymentId },
+  });
+  const method = toGatewayMethod(payment.paymentMethod)!;
+
+  let result;
+  try {
+    result = await getPaymentProvider(method).refund({
+      payment,
+      amount: refund.amount,
+      reason: refund.reason,
+    });
+    if (result.status === "PENDING" && !result.refundReference) {
+      throw new Error(
+        `${method} is processing the refund but gave no reference to follow it up`
+      );
+    }
+  } catch (error) {
+    await prisma.refund.update({
+      where: { refundId: refund.refundId },
+      data: { status: "FAILED", failedReason: getErrorMessage(error) },
+    });
+    throw new AppError(getErrorMessage(error), httpStatus.BAD_GATEWAY);
+  }
+
+  await prisma.refund.update({
+    where: { refundId: refund.refundId },
+    data: { refundReference: result.refundReference },
+  });
+  return await applyRefundStatus(refund.refundId, { status: result.status });
+}
+
+/**
+ * Refund part or all of a completed gateway payment
+ * @param amount - Amount to refund, the whole refundable amount if omitted
+ */
+export async function issueGatewayRefund(
+  paymentId: bigint,
+  refund: { amount?: number; reason: string },
+  requestedByUserId?: bigint
+): Promise<Refund> {
+  const recorded = await prisma.$transaction((tx) =>
+    recordGatewayRefund(paymentId, refund, tx, requestedByUserId)
+  );
+  return await submitGatewayRefund(recorded);
+}
+
+/**
+ * Record the gateway's answer for a pending refund
+ * - A completed refund notifies the customer, and once the whole payment
+ *   is refunded the payment is marked REFUNDED
+ * - A paid order is marked REFUNDED once none of its payment legs is still
+ *   COMPLETED
+ */
+export async function applyRefundStatus(
+  refundId: bigint,
+  verification: RefundVerification
+): Promise<Refund> {
+  return await prisma.$transaction(async (tx) => {
+    const refund = await tx.refund.findUniqueOrThrow({
+      where: { refundId },
+      include: {
+        payment: { include: { order: { include: { customer: true } } } },
+      },
+    });
+    const { payment, ...current } = refund;
+    if (current.status !== "PENDING" || verification.status === "PENDING") {
+      return current;
+    }
+
+    if (verification.status === "FAILED") {
+      return await tx.refund.update({
+        where: { refundId },
+        data: { status: "FAILED", failedReason: verification.failedReason },
+      });
+    }
+
+    const updatedRefund = await tx.refund.update({
+      where: { refundId },
+      data: { status: "COMPLETED", completedAt: new Date() },
+    });
+    const { _sum } = await tx.refund.aggregate({
+      where: { paymentId: payment.paymentId, status: "COMPLETED" },
+      _sum: { amount: true },
+    });
+    if (_sum.amount?.greaterThanOrEqualTo(payment.amount)) {
+      await tx.payment.update({
+        where: { paymentId: payment.paymentId },
+        data: { paymentStatus: "REFUNDED" },
+      });
+      // The other legs of a split payment may still be paid, and a late
+      // payment refunded for an unpaid order leaves the order as it was
+      const paidLegs = await tx.payment.count({
+        where: { orderId: payment.orderId, paymentStatus: "COMPLETED" },
+      });
+      if (paidLegs === 0 && payment.order.paymentStatus === "COMPLETED") {
+        await tx.order.update({
+          where: { orderId: payment.orderId },
+          data: { paymentStatus: "REFUNDED" },
+        });
+      }
+    }
+
+    const message = `আপনার পেমেন্টের ${refund.amount.toFixed(
+      2
+    )} টাকা আপনার পেমেন্ট মাধ্যমে ফেরত পাঠানো হয়েছে। (অর্ডার আইডিঃ #${
+      payment.orderId
+    })`;
+    await createNotification(
+      message,
+      "REFUND",
+      payment.order.customer.userId,
+      tx
+    );
+    return updatedRefund;
+  });
+}
+
+/**
+ * Ask the gateways for the state of every refund still being processed
+ */
+export const syncPendingRefunds = async () => {
+  const pendingRefunds = await prisma.refund.findMany({
+    where: { status: "PENDING", refundReference: { not: null } },
+    include: { payment: { select: { paymentMethod: true } } },
+    orderBy: { createdAt: "asc" },
+  });
+
+  let settled = 0;
+  for (const refund of pendingRefunds) {
+    try {
+      const method = toGatewayMethod(refund.payment.paymentMethod);
+      if (!method) continue;
+      const verification = await getPaymentProvider(method).queryRefund(
+        refund.refundReference!
+      );
+      await applyRefundStatus(refund.refundId, verification);
+      if (verification.status !== "PENDING") settled++;
+    } catch (error) {
+      logger.error(`Failed to sync refund #${refund.refundId}:`, error);
+    }
+  }
+  logger.info(`Settled ${settled} of ${pendingRefunds.length} pending refunds`);
+};
@@ -0,0 +1,215 @@
+import PDFDocument from "pdfkit";
+import { Prisma } from "@/generated/prisma/client";
+import { Decimal } from "@/generated/prisma/client/runtime/library";
+import { format } from "date-fns";
+import {
+  formatTaka,
+  PDF_FONT,
+  PDF_FONT_BOLD,
+  registerPdfFonts,
+} from "@/utils/pdfFonts";
+
+export const invoiceOrderInclude = {
+  customer: { include: { user: true } },
+  orderItems: { include: { product: true }, orderBy: { orderItemId: "asc" } },
+  payments: { orderBy: { createdAt: "desc" } },
+} satisfies Prisma.OrderInclude;
+
+export type InvoiceOrder = Prisma.OrderGetPayload<{
+  include: typeof invoiceOrderInclude;
+}>;
+
+const BRAND_NAME = process.env.INVOICE_BRAND_NAME || "Farmer App";
+const BRAND_ADDRESS = process.env.INVOICE_BRAND_ADDRESS || "";
+const BRAND_COLOR = "#2e7d32";
+const PAGE_MARGIN = 50;
+
+// Column x positions of the line item table
+const COLUMNS = {
+  item: 50,
+  quantity: 270,
+  unitPrice: 330,
+  discount: 410,
+  subtotal: 480,
+};
+
+export const invoiceNumber = (order: { orderId: bigint; orderDate: Date }) =>
+  `INV-${format(order.orderDate, "yyyyMMdd")}-${order.orderId}`;
+
+/**
+ * Draws one order's invoice starting at the top of the current page
+ */
+function drawInvoice(doc: PDFKit.PDFDocument, order: InvoiceOrder): void {
+  const payment = order.payments[0];
+  const right = doc.page.width - PAGE_MARGIN;
+
+  // Header
+  doc
+    .fillColor(BRAND_COLOR)
+    .font(PDF_FONT_BOLD)
+    .fontSize(20)
+    .text(BRAND_NAME, PAGE_MARGIN, PAGE_MARGIN);
+  if (BRAND_ADDRESS) {
+    doc
+      .fillColor("#555555")
+      .font(PDF_FONT)
+      .fontSize(9)
+      .text(BRAND_ADDRESS);
+  }
+  doc
+    .fillColor("#000000")
+    .font(PDF_FONT_BOLD)
+    .fontSize(14)
+    .text(
+      payment?.paymentStatus === "COMPLETED" ? "RECEIPT" : "INVOICE",
+      PAGE_MARGIN,
+      PAGE_MARGIN,
+      { align: "right" }
+    )
+    .font(PDF_FONT)
+    .fontSize(9)
+    .text(`Invoice no: ${invoiceNumber(order)}`, { align: "right" })
+    .text(`Order no: ${order.orderId}`, { align: "right" })
+    .text(`Date: ${format(order.orderDate, "dd MMM yyyy")}`, {
+      align: "right",
+    });
+
+  // Billing and payment details
+  const detailsTop = PAGE_MARGIN + 80;
+  doc
+    .font(PDF_FONT_BOLD)
+    .fontSize(10)
+    .text("Bill to", PAGE_MARGIN, detailsTop)
+    .font(PDF_FONT)
+    .fontSize(9)
+    .text(order.customer.user.name ?? "Customer", { width: 250 })
+    .text(order.customer.user.phone, { width: 250 })
+    .text(order.shippingAddress, { width: 250 });
+
+  doc
+    .font(PDF_FONT_BOLD)
+    .fontSize(10)
+    .text("Payment", 330, detailsTop)
+    .font(PDF_FONT)
+    .fontSize(9)
+    .text(`Method: ${payment?.paymentMethod ?? order.paymentMethod}`)
+    .text(`Status: ${payment?.paymentStatus ?? order.paymentStatus}`)
+    .text(`Transaction ID: ${payment?.transactionId ?? "-"}`);
+
+  // Line items
+  let y = Math.max(doc.y, detailsTop + 60) + 20;
+  doc
+    .font(PDF_FONT_BOLD)
+    .fontSize(9)
+    .text("Item", COLUMNS.item, y)
+    .text("Qty", COLUMNS.quantity, y)
+    .text("Unit price", COLUMNS.unitPrice, y)
+    .text("Discount", COLUMNS.discount, y)
+    .text("Amount", COLUMNS.subtotal, y, {
+      width: right - COLUMNS.subtotal,
+      align: "right",
+    });
+  y += 15;
+  doc.moveTo(PAGE_MARGIN, y).lineTo(right, y).strokeColor("#cccccc").stroke();
+  y += 5;
+
+  doc.font(PDF_FONT).fontSize(9);
+  for (const item of order.orderItems) {
+    if (y > doc.page.height - 150) {
+      doc.addPage();
+      y = PAGE_MARGIN;
+    }
+    const description = `${item.product.name} (${item.packageSize} ${item.unitType})`;
+    const rowHeight = doc.heightOfString(description, { width: 210 });
+    doc
+      .text(description, COLUMNS.item, y, { width: 210 })
+      .text(String(item.quantity), COLUMNS.quantity, y)
+      .text(
+        formatTaka(item.unitPrice.mul(item.packageSize)),
+        COLUMNS.unitPrice,
+        y
+      )
+      .text(
+        item.discountAmount.greaterThan(0)
+          ? `-${formatTaka(item.discountAmount)}`
+          : "-",
+        COLUMNS.discount,
+        y
+      )
+      .text(formatTaka(item.subtotal), COLUMNS.subtotal, y, {
+        width: right - COLUMNS.subtotal,
+        align: "right",
+      });
+    y += rowHeight + 6;
+  }
+  doc.moveTo(PAGE_MARGIN, y).lineTo(right, y).strokeColor("#cccccc").stroke();
+  y += 10;
+
+  // Totals
+  const itemsTotal = order.orderItems.reduce(
+    (sum, item) => sum.add(item.subtotal),
+    new Decimal(0)
+  );
+  const discountTotal = order.orderItems.reduce(
+    (sum, item) => sum.add(item.discountAmount),
+    new Decimal(0)
+  );
+  const totals: [string, string][] = [
+    ["Subtotal", formatTaka(itemsTotal.add(discountTotal))],
+    [
+      "Deal discounts",
+      discountTotal.greaterThan(0)
+        ? `-${formatTaka(discountTotal)}`
+        : formatTaka(0),
+    ],
+    ["Shipping", formatTaka(order.shippingFee)],
+  ];
+  for (const [label, value] of totals) {
+    doc.text(label, COLUMNS.discount - 60, y).text(value, COLUMNS.subtotal, y, {
+      width: right - COLUMNS.subtotal,
+      align: "right",
+    });
+    y += 14;
+  }
+  doc
+    .font(PDF_FONT_BOLD)
+    .fontSize(11)
+    .text("Total", COLUMNS.discount - 60, y + 4)
+    .text(formatTaka(order.totalAmount), COLUMNS.subtotal - 20, y + 4, {
+      width: right - COLUMNS.subtotal + 20,
+      align: "right",
+    });
+
+  doc
+    .fillColor("#777777")
+    .font(PDF_FONT)
+    .fontSize(8)
+    .text(
+      `Thank you for shopping with ${BRAND_NAME}.`,
+      PAGE_MARGIN,
+      doc.page.height - PAGE_MARGIN - 20,
+      { align: "center", width: right - PAGE_MARGIN }
+    )
+    .fillColor("#000000");
+}
+
+/**
+ * Renders invoices into a single PDF, one order per page
+ * @returns The PDF file contents
+ */
+export function buildInvoicePdf(orders: InvoiceOrder[]): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: "A4", margin: PAGE_MARGIN });
+    registerPdfFonts(doc);
+    const chunks: Buffer[] = [];
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+
+    orders.forEach((order, index) => {
+      if (index > 0) doc.addPage();
+      drawInvoice(doc, order);
+    });
+    doc.end();
+  });
+}
@@ -0,0 +1,197 @@
+import { Decimal } from "@/generated/prisma/client/runtime/library";
+import { DeliveryZone, Prisma, Product } from "@/generated/prisma/client";
+import prisma from "@/prisma-client/prismaClient";
+import { AppError } from "@/utils/appError";
+import httpStatus from "http-status";
+import { getPreorderedQuantity } from "@/utils/preorder";
+
+export type OrderRule =
+  | "MIN_ORDER_AMOUNT"
+  | "MAX_QUANTITY_PER_ORDER"
+  | "PREORDER_CAP"
+  | "COD_NOT_ALLOWED";
+
+export interface OrderRuleViolation {
+  rule: OrderRule;
+  field: string;
+  message: string;
+  productId?: bigint;
+}
+
+export interface OrderRuleInput {
+  customerId: bigint;
+  // Set when an existing order is repriced, so its own lines are not
+  // counted against the preorder caps
+  orderId?: bigint;
+  zone: DeliveryZone;
+  lines: {
+    product: Pick<
+      Product,
+      | "productId"
+      | "name"
+      | "maxQuantityPerOrder"
+      | "isPreorder"
+      | "preorderCap"
+    >;
+    quantity: number;
+  }[];
+  // Total of the order items after discounts, without shipping
+  subtotal: Decimal;
+  // Amount the customer pays, including shipping
+  totalAmount: Decimal;
+  paymentMethod: string;
+}
+
+/**
+ * Checks the zone's minimum basket value against the order subtotal
+ */
+export function checkMinOrderAmount(
+  zone: DeliveryZone,
+  subtotal: Decimal
+): OrderRuleViolation[] {
+  if (
+    !zone.minOrderAmount ||
+    subtotal.greaterThanOrEqualTo(zone.minOrderAmount)
+  ) {
+    return [];
+  }
+  return [
+    {
+      rule: "MIN_ORDER_AMOUNT",
+      field: "items",
+      message: `Minimum order amount for ${
+        zone.name
+      } is ${zone.minOrderAmount.toFixed(
+        2
+      )}, order subtotal is ${subtotal.toFixed(2)}`,
+    },
+  ];
+}
+
+/**
+ * Checks each line against its product's per order quantity limit
+ */
+export function checkMaxQuantities(
+  lines: OrderRuleInput["lines"]
+): OrderRuleViolation[] {
+  return lines
+    .filter(
+      ({ product, quantity }) =>
+        product.maxQuantityPerOrder !== null &&
+        quantity > product.maxQuantityPerOrder
+    )
+    .map(({ product, quantity }) => ({
+      rule: "MAX_QUANTITY_PER_ORDER",
+      field: "quantity",
+      productId: product.productId,
+      message: `At most ${product.maxQuantityPerOrder} of ${product.name} can be ordered at once, received ${quantity}`,
+    }));
+}
+
+/**
+ * Checks preorder lines against the packages still open under each
+ * product's preorder cap
+ * - The caller must hold the product rows' locks (see lockProducts), so
+ *   concurrent orders cannot both take the last packages
+ */
+export async function checkPreorderCaps(
+  lines: OrderRuleInput["lines"],
+  tx: Prisma.TransactionClient = prisma,
+  orderId?: bigint
+): Promise<OrderRuleViolation[]> {
+  const violations: OrderRuleViolation[] = [];
+  for (const { product, quantity } of lines) {
+    if (!product.isPreorder || product.preorderCap === null) continue;
+
+    const remaining =
+      product.preorderCap -
+      (await getPreorderedQuantity(product.productId, tx, orderId));
+    if (quantity > remaining) {
+      violations.push({
+        rule: "PREORDER_CAP",
+        field: "quantity",
+        productId: product.productId,
+        message:
+          remaining > 0
+            ? `Only ${remaining} of ${product.name} left to preorder, received ${quantity}`
+            : `Preorders for ${product.name} are full`,
+      });
+    }
+  }
+  return violations;
+}
+
+/**
+ * Checks whether the customer may pay cash on delivery for an order.
+ * COD is allowed below the zone's limit, or above it for customers with
+ * enough delivered orders.
+ */
+export async function checkCodAllowed(
+  zone: DeliveryZone,
+  customerId: bigint,
+  totalAmount: Decimal,
+  tx: Prisma.TransactionClient = prisma
+): Promise<OrderRuleViolation[]> {
+  if (!zone.codMaxAmount || totalAmount.lessThan(zone.codMaxAmount)) {
+    return [];
+  }
+
+  if (zone.codMinDeliveredOrders !== null) {
+    const deliveredOrders = await tx.order.count({
+      where: { customerId, status: "DELIVERED" },
+    });
+    if (deliveredOrders >= zone.codMinDeliveredOrders) return [];
+  }
+
+  const limit = `Cash on delivery is available for orders below ${zone.codMaxAmount.toFixed(
+    2
+  )}`;
+  return [
+    {
+      rule: "COD_NOT_ALLOWED",
+      field: "paymentMethod",
+      message:
+        zone.codMinDeliveredOrders !== null
+          ? `${limit}, or after ${zone.codMinDeliveredOrders} delivered orders`
+          : limit,
+    },
+  ];
+}
+
+/**
+ * Throws the violations as one structured validation error
+ * @throws AppError listing every violation, if there are any
+ */
+export function assertNoViolations(violations: OrderRuleViolation[]): void {
+  if (violations.length > 0) {
+    throw new AppError(
+      "Order does not meet the checkout rules",
+      httpStatus.BAD_REQUEST,
+      violations
+    );
+  }
+}
+
+/**
+ * Checks an order against every checkout rule before it is placed
+ * @throws AppError listing every violation, if there are any
+ */
+export async function assertOrderRules(
+  input: OrderRuleInput,
+  tx: Prisma.TransactionClient = prisma
+): Promise<void> {
+  const violations = [
+    ...checkMinOrderAmount(input.zone, input.subtotal),
+    ...checkMaxQuantities(input.lines),
+    ...(await checkPreorderCaps(input.lines, tx, input.orderId)),
+    ...(input.paymentMethod.toUpperCase() === "COD"
+      ? await checkCodAllowed(
+          input.zone,
+          input.customerId,
+          input.totalAmount,
+          tx
+        )
+      : []),
+  ];
+  assertNoViolations(violations);
+}
@@ -0,0 +1,172 @@
+import ExcelJS from "exceljs";
+import { Prisma } from "@/generated/prisma/client";
+import { format } from "date-fns";
+
+export const exportOrderInclude = {
+  customer: { include: { user: { select: { name: true, phone: true } } } },
+  orderItems: { select: { quantity: true } },
+  deliveryZone: { select: { name: true } },
+} satisfies Prisma.OrderInclude;
+
+export type ExportOrder = Prisma.OrderGetPayload<{
+  include: typeof exportOrderInclude;
+}>;
+
+type Cell = string | number | null;
+
+// Columns of exported orders, in file order
+const ORDER_COLUMNS: {
+  header: string;
+  width: number;
+  value: (order: ExportOrder) => Cell;
+}[] = [
+  { header: "Order ID", width: 10, value: (order) => String(order.orderId) },
+  {
+    header: "Order Date",
+    width: 18,
+    value: (order) => format(order.orderDate, "yyyy-MM-dd HH:mm"),
+  },
+  {
+    header: "Customer",
+    width: 24,
+    value: (order) => order.customer.user.name,
+  },
+  { header: "Phone", width: 16, value: (order) => order.customer.user.phone },
+  { header: "Status", width: 12, value: (order) => order.status },
+  {
+    header: "Payment Method",
+    width: 16,
+    value: (order) => order.paymentMethod,
+  },
+  {
+    header: "Payment Status",
+    width: 16,
+    value: (order) => order.paymentStatus,
+  },
+  {
+    header: "Items",
+    width: 8,
+    value: (order) =>
+      order.orderItems.reduce((sum, item) => sum + item.quantity, 0),
+  },
+  {
+    header: "Shipping Fee",
+    width: 12,
+    value: (order) => order.shippingFee.toNumber(),
+  },
+  {
+    header: "Total Amount",
+    width: 14,
+    value: (order) => order.totalAmount.toNumber(),
+  },
+  {
+    header: "Delivery Zone",
+    width: 16,
+    value: (order) => order.deliveryZone?.name ?? null,
+  },
+  {
+    header: "Shipping Address",
+    width: 40,
+    value: (order) => order.shippingAddress,
+  },
+];
+
+/**
+ * Parse CSV text into rows of cells
+ * - Handles quoted cells with commas, line breaks and escaped quotes
+ * - Blank lines are skipped
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+
+  const endRow = () => {
+    row.push(cell.trim());
+    if (row.some((value) => value !== "")) rows.push(row);
+    row = [];
+    cell = "";
+  };
+
+  // Spreadsheet tools often prefix the file with a byte order mark
+  const input = text.replace(/^\uFEFF/, "");
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(cell.trim());
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+  endRow();
+  return rows;
+}
+
+// Spreadsheet tools run text starting with these characters as a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+const PLAIN_NUMBER = /^[+-]?\d+(\.\d+)?$/;
+
+/**
+ * Serialize rows of cells as CSV text
+ * - Text which a spreadsheet would run as a formula, e.g. a customer name
+ *   starting with "=", is prefixed with a quote; plain numbers are kept
+ */
+export function toCsv(rows: Cell[][]): string {
+  const escape = (value: Cell) => {
+    let text = value === null ? "" : String(value);
+    if (FORMULA_PREFIX.test(text) && !PLAIN_NUMBER.test(text)) {
+      text = `'${text}`;
+    }
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  return rows.map((row) => row.map(escape).join(",")).join("\r\n");
+}
+
+/**
+ * Render orders as a CSV file
+ */
+export function buildOrdersCsv(orders: ExportOrder[]): Buffer {
+  const rows = [
+    ORDER_COLUMNS.map((column) => column.header),
+    ...orders.map((order) =>
+      ORDER_COLUMNS.map((column) => column.value(order))
+    ),
+  ];
+  // The byte order mark lets spreadsheet tools read Bengali names as UTF-8
+  return Buffer.from(`\uFEFF${toCsv(rows)}`, "utf8");
+}
+
+/**
+ * Render orders as an XLSX workbook
+ */
+export async function buildOrdersXlsx(orders: ExportOrder[]): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  const sheet = workbook.addWorksheet("Orders");
+  sheet.columns = ORDER_COLUMNS.map((column) => ({
+    header: column.header,
+    width: column.width,
+  }));
+  sheet.getRow(1).font = { bold: true };
+  sheet.views = [{ state: "frozen", ySplit: 1 }];
+  orders.forEach((order) =>
+    sheet.addRow(ORDER_COLUMNS.map((column) => column.value(order)))
+  );
+
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
@@ -0,0 +1,111 @@
+import {
+  OrderEventActor,
+  OrderEventType,
+  OrderStatus,
+  Prisma,
+} from "@/generated/prisma/client";
+import prisma from "@/prisma-client/prismaClient";
+import { AppError } from "@/utils/appError";
+import httpStatus from "http-status";
+import { io } from "@/utils/socket";
+import { orderRoom } from "@/utils/deliveryTracking";
+import { afterCommit } from "@/utils/transaction";
+
+type StatusTransitions = {
+  // Statuses an order may move on to
+  next: OrderStatus[];
+  // Earlier statuses an admin may move an order back to, as a correction
+  revertTo: OrderStatus[];
+};
+
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, StatusTransitions> =
+  {
+    PENDING: { next: ["CONFIRMED", "CANCELLED"], revertTo: [] },
+    CONFIRMED: { next: ["PROCESSING", "CANCELLED"], revertTo: ["PENDING"] },
+    PROCESSING: {
+      next: ["SHIPPED", "CANCELLED"],
+      revertTo: ["CONFIRMED", "PENDING"],
+    },
+    SHIPPED: {
+      next: ["DELIVERED", "CANCELLED"],
+      revertTo: ["PROCESSING", "CONFIRMED", "PENDING"],
+    },
+    DELIVERED: { next: [], revertTo: [] },
+    CANCELLED: { next: [], revertTo: [] },
+  };
+
+/**
+ * Check a status change against the transition table
+ * @returns Whether the change moves the order forward or reverts it
+ * @throws AppError if the transition is not allowed
+ */
+export function resolveStatusTransition(
+  from: OrderStatus,
+  to: OrderStatus
+): "FORWARD" | "REVERT" {
+  if (from === to) {
+    throw new AppError(`Order is already ${from}`, httpStatus.BAD_REQUEST);
+  }
+  const transitions = ORDER_STATUS_TRANSITIONS[from];
+  if (transitions.next.includes(to)) return "FORWARD";
+  if (transitions.revertTo.includes(to)) return "REVERT";
+
+  throw new AppError(
+    `Invalid status transition from ${from} to ${to}`,
+    httpStatus.BAD_REQUEST
+  );
+}
+
+export interface OrderEventInput {
+  orderId: bigint;
+  fromStatus: OrderStatus | null;
+  toStatus: OrderStatus;
+  actor: OrderEventActor;
+  actorUserId?: bigint | null;
+  reason?: string | null;
+}
+
+const getEventType = (event: OrderEventInput): OrderEventType => {
+  if (!event.fromStatus) return "CREATED";
+  if (event.toStatus === "CANCELLED") return "CANCELLED";
+  return ORDER_STATUS_TRANSITIONS[event.fromStatus].revertTo.includes(
+    event.toStatus
+  )
+    ? "REVERTED"
+    : "STATUS_CHANGED";
+};
+
+/**
+ * Append status changes to the order event log and tell clients following
+ * the orders, once the transaction commits
+ */
+export async function recordOrderEvents(
+  events: OrderEventInput[],
+  tx: Prisma.TransactionClient = prisma
+): Promise<void> {
+  await tx.orderEvent.createMany({
+    data: events.map((event) => ({
+      ...event,
+      eventType: getEventType(event),
+    })),
+  });
+  afterCommit(tx, () =>
+    events.forEach((event) => {
+      io.to(orderRoom(event.orderId)).emit("orderStatus", {
+        orderId: event.orderId,
+        status: event.toStatus,
+        previousStatus: event.fromStatus,
+      });
+    })
+  );
+}
+
+/**
+ * Append a status change to the order event log
+ */
+export async function recordOrderEvent(
+  event: OrderEventInput,
+  tx: Prisma.TransactionClient = prisma
+): Promise<void> {
+  await recordOrderEvents([event], tx);
+}
@@ -48,16 +48,18 @@ async function sendSms(phone: string, message: string): Promise<void> {
 }
 
 /**
- * Send OTP
+ * Create a random OTP and the hash to store for it
  */
-export async function sendOtp(phone: string) {
+export async function generateOtp() {
   const otp = Math.floor(100000 + Math.random() * 900000).toString();
   const otpHash = await bcrypt.hash(otp, SALT_ROUNDS);
-  const expiresAt = new Date(Date.now() + OTP_EXPIRY_MINUTES * 60 * 1000);
+  return { otp, otpHash };
+}
 
-  await prisma.otp.create({
-    data: { phone, otpHash, expiresAt },
-  });
+/**
+ * Send an OTP to a phone
+ */
+export async function deliverOtp(phone: string, otp: string) {
   logger.info(`OTP for ${phone}: ${otp}`);
 
   // Send SMS with OTP
@@ -67,6 +69,25 @@ export async function sendOtp(phone: string) {
   // await sendSms(phone, message);
 }
 
+/**
+ * Send OTP
+ */
+export async function sendOtp(phone: string) {
+  const { otp, otpHash } = await generateOtp();
+  const expiresAt = new Date(Date.now() + OTP_EXPIRY_MINUTES * 60 * 1000);
+
+  await prisma.otp.create({
+    data: { phone, otpHash, expiresAt },
+  });
+  return await deliverOtp(phone, otp);
+}
+
+/**
+ * Check an OTP against the hash stored for it
+ */
+export const matchesOtp = (otp: string, otpHash: string): Promise<boolean> =>
+  bcrypt.compare(otp, otpHash);
+
 /**
  * Verify OTP
  */
@@ -77,5 +98,5 @@ export async function verifyOtp(phone: string, otp: string): Promise<boolean> {
   });
 
   if (!otpRecord) return false;
-  return bcrypt.compare(otp, otpRecord.otpHash);
+  return matchesOtp(otp, otpRecord.otpHash);
 }
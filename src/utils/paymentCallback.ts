@@ -0,0 +1,115 @@
+import httpStatus from "http-status";
+import prisma from "@/prisma-client/prismaClient";
+import { Prisma } from "@/generated/prisma/client";
+import { AppError } from "@/utils/appError";
+import { getErrorMessage } from "@/utils/errorHandler";
+import logger from "@/utils/logger";
+import { payloadField } from "@/utils/paymentProviders";
+import { verifySSLCommerzSignature } from "@/utils/paymentProviders/sslcommerz";
+
+// Endpoints SSLCommerz posts to
+export type SSLCommerzCallbackSource =
+  | "SSLCOMMERZ_PAYMENT_IPN"
+  | "SSLCOMMERZ_PAYMENT_FAIL"
+  | "SSLCOMMERZ_WALLET_IPN"
+  | "SSLCOMMERZ_WALLET_FAIL";
+
+// Marks a val_id as processed in the transaction that acts on it
+export type ClaimCallback = (tx: Prisma.TransactionClient) => Promise<void>;
+
+const processedKey = (valId: string) => `SSLCOMMERZ:${valId}`;
+
+const isReplayViolation = (error: unknown) =>
+  error instanceof Prisma.PrismaClientKnownRequestError &&
+  error.code === "P2002" &&
+  String(error.meta?.target).includes("processedKey");
+
+/**
+ * Store a callback we refused, so forged or replayed callbacks can be
+ * looked into later
+ */
+async function recordRejectedCallback(
+  source: SSLCommerzCallbackSource,
+  payload: Record<string, unknown>,
+  reason: string
+): Promise<void> {
+  logger.warn(`Rejected ${source} callback: ${reason}`);
+  try {
+    await prisma.paymentCallback.create({
+      data: {
+        source,
+        status: "REJECTED",
+        reason,
+        transactionId: payloadField(payload, "tran_id"),
+        valId: payloadField(payload, "val_id"),
+        payload: payload as Prisma.InputJsonObject,
+      },
+    });
+  } catch (error) {
+    logger.error(`Failed to store rejected ${source} callback:`, error);
+  }
+}
+
+/**
+ * Reject a callback whose verify_sign does not match its fields
+ */
+export async function assertSignedSSLCommerzCallback(
+  source: SSLCommerzCallbackSource,
+  payload: Record<string, unknown>
+): Promise<void> {
+  if (!verifySSLCommerzSignature(payload)) {
+    await recordRejectedCallback(source, payload, "Invalid signature");
+    throw new AppError("Invalid callback signature", httpStatus.FORBIDDEN);
+  }
+}
+
+/**
+ * Act on a signed SSLCommerz IPN at most once per val_id
+ * - handle must call claim in the transaction that settles the payment, so
+ *   a concurrent duplicate rolls back on the unique processedKey
+ * - A callback that fails any check is stored as REJECTED and rethrown
+ */
+export async function processSSLCommerzIPN<T>(
+  source: SSLCommerzCallbackSource,
+  payload: Record<string, unknown>,
+  handle: (claim: ClaimCallback) => Promise<T>
+): Promise<T> {
+  await assertSignedSSLCommerzCallback(source, payload);
+
+  const valId = payloadField(payload, "val_id");
+  if (!valId) {
+    await recordRejectedCallback(source, payload, "Missing val_id");
+    throw new AppError("Missing validation ID", httpStatus.BAD_REQUEST);
+  }
+  const replayed = await prisma.paymentCallback.findUnique({
+    where: { processedKey: processedKey(valId) },
+  });
+  if (replayed) {
+    await recordRejectedCallback(source, payload, "val_id already processed");
+    throw new AppError("Callback was already processed", httpStatus.CONFLICT);
+  }
+
+  const claim: ClaimCallback = async (tx) => {
+    await tx.paymentCallback.create({
+      data: {
+        source,
+        status: "PROCESSED",
+        transactionId: payloadField(payload, "tran_id"),
+        valId,
+        processedKey: processedKey(valId),
+        payload: payload as Prisma.InputJsonObject,
+      },
+    });
+  };
+
+  try {
+    return await handle(claim);
+  } catch (error) {
+    if (isReplayViolation(error)) {
+      await recordRejectedCallback(source, payload, "val_id already processed");
+      throw new AppError("Callback was already processed", httpStatus.CONFLICT);
+    }
+    await recordRejectedCallback(source, payload, getErrorMessage(error));
+    throw error;
+  }
+}
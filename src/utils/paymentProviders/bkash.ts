@@ -0,0 +1,232 @@
+import axios from "axios";
+import { Decimal } from "@/generated/prisma/client/runtime/library";
+import {
+  callbackUrl,
+  PaymentProvider,
+  PaymentVerification,
+  payloadField,
+} from "@/utils/paymentProviders/paymentProvider";
+import {
+  createFakePaymentProvider,
+  FakePaymentProvider,
+} from "@/utils/paymentProviders/fakeProvider";
+
+// Status code of a successful bKash API call
+const BKASH_SUCCESS = "0000";
+// Renew the grant token a minute before bKash expires it
+const TOKEN_EXPIRY_MARGIN_MS = 60_000;
+
+const getConfig = () => {
+  const {
+    BKASH_USERNAME,
+    BKASH_PASSWORD,
+    BKASH_APP_KEY,
+    BKASH_APP_SECRET,
+    BKASH_BASE_URL,
+  } = process.env;
+  if (
+    !BKASH_USERNAME ||
+    !BKASH_PASSWORD ||
+    !BKASH_APP_KEY ||
+    !BKASH_APP_SECRET
+  ) {
+    throw new Error("bKash credentials not configured");
+  }
+  return {
+    baseUrl: BKASH_BASE_URL || "https://tokenized.sandbox.bka.sh/v1.2.0-beta",
+    username: BKASH_USERNAME,
+    password: BKASH_PASSWORD,
+    appKey: BKASH_APP_KEY,
+    appSecret: BKASH_APP_SECRET,
+  };
+};
+
+let grantToken: { idToken: string; expiresAt: number } | null = null;
+
+/**
+ * Get a grant token for the tokenized checkout APIs, reusing it until it
+ * is about to expire
+ */
+async function getGrantToken(): Promise<string> {
+  if (grantToken && grantToken.expiresAt > Date.now()) {
+    return grantToken.idToken;
+  }
+
+  const config = getConfig();
+  const response = await axios.post(
+    `${config.baseUrl}/tokenized/checkout/token/grant`,
+    { app_key: config.appKey, app_secret: config.appSecret },
+    {
+      headers: { username: config.username, password: config.password },
+      timeout: 30000,
+    }
+  );
+  if (!response.data?.id_token) {
+    throw new Error(
+      `bKash token grant failed: ${
+        response.data?.statusMessage || "Unknown error"
+      }`
+    );
+  }
+  grantToken = {
+    idToken: response.data.id_token,
+    expiresAt:
+      Date.now() +
+      Number(response.data.expires_in) * 1000 -
+      TOKEN_EXPIRY_MARGIN_MS,
+  };
+  return grantToken.idToken;
+}
+
+/**
+ * Call a tokenized checkout API
+ */
+async function callBkash(path: string, body: Record<string, unknown>) {
+  const config = getConfig();
+  try {
+    const response = await axios.post(`${config.baseUrl}${path}`, body, {
+      headers: {
+        Authorization: await getGrantToken(),
+        "X-App-Key": config.appKey,
+      },
+      timeout: 30000,
+    });
+    return response.data;
+  } catch (error) {
+    if (axios.isAxiosError(error)) {
+      throw new Error(`bKash API request failed: ${error.message}`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Map the response of the execute and status APIs
+ */
+const toVerification = (data: any): PaymentVerification => {
+  const status =
+    data?.transactionStatus === "Completed"
+      ? "COMPLETED"
+      : data?.transactionStatus === "Initiated"
+      ? "PENDING"
+      : "FAILED";
+  return {
+    status,
+    transactionId: data?.merchantInvoiceNumber,
+    gatewayReference: data?.paymentID,
+    gatewayTransactionId: data?.trxID,
+    amount: data?.amount ? new Decimal(data.amount) : undefined,
+    currency: data?.currency,
+    failedReason:
+      status === "FAILED"
+        ? data?.statusMessage || data?.transactionStatus || "Unknown error"
+        : undefined,
+  };
+};
+
+/**
+ * Look up a payment by the paymentID a callback reported
+ */
+const queryPaymentID = (paymentID: string) =>
+  bkashProvider.query({
+    transactionId: null,
+    gatewayReference: paymentID,
+    gatewayTransactionId: null,
+    amount: new Decimal(0),
+  });
+
+/**
+ * bKash tokenized checkout
+ */
+export const bkashProvider: PaymentProvider = {
+  key: "BKASH",
+
+  async init(input) {
+    const data = await callBkash("/tokenized/checkout/create", {
+      mode: "0011",
+      payerReference: input.customer.phone,
+      callbackURL: callbackUrl("bkash/callback"),
+      amount: input.amount.toFixed(2),
+      currency: "BDT",
+      intent: "sale",
+      merchantInvoiceNumber: input.transactionId,
+    });
+    if (data?.statusCode !== BKASH_SUCCESS || !data.bkashURL) {
+      throw new Error(
+        `bKash initialization failed: ${data?.statusMessage || "Unknown error"}`
+      );
+    }
+    return { redirectUrl: data.bkashURL, gatewayReference: data.paymentID };
+  },
+
+  async validate(payload) {
+    const paymentID = payloadField(payload, "paymentID");
+    const status = payloadField(payload, "status");
+    if (!paymentID) {
+      return { status: "FAILED", failedReason: "Missing payment ID" };
+    }
+    // The customer failed or cancelled on the bKash page. The status is
+    // not signed, so the payment fails only once bKash confirms it
+    if (status !== "success") {
+      return queryPaymentID(paymentID);
+    }
+
+    const data = await callBkash("/tokenized/checkout/execute", { paymentID });
+    // A payment executed before, e.g. by a repeated callback, is looked up
+    if (data?.statusCode !== BKASH_SUCCESS) {
+      return queryPaymentID(paymentID);
+    }
+    return toVerification(data);
+  },
+
+  async query(payment) {
+    if (!payment.gatewayReference) {
+      return {
+        status: "FAILED",
+        transactionId: payment.transactionId ?? undefined,
+        failedReason: "Payment was never created on bKash",
+      };
+    }
+    const data = await callBkash("/tokenized/checkout/payment/status", {
+      paymentID: payment.gatewayReference,
+    });
+    return toVerification(data);
+  },
+
+  async refund({ payment, amount, reason }) {
+    if (!payment.gatewayReference || !payment.gatewayTransactionId) {
+      throw new Error("bKash payment has no payment or transaction ID");
+    }
+    const data = await callBkash("/tokenized/checkout/payment/refund", {
+      paymentID: payment.gatewayReference,
+      trxID: payment.gatewayTransactionId,
+      amount: amount.toFixed(2),
+      sku: "order",
+      reason,
+    });
+    if (data?.transactionStatus !== "Completed" || !data.refundTrxID) {
+      throw new Error(
+        `bKash refund failed: ${data?.statusMessage || "Unknown error"}`
+      );
+    }
+    return { status: "COMPLETED", refundReference: data.refundTrxID };
+  },
+
+  async queryRefund() {
+    // bKash completes a refund before answering the refund call
+    return { status: "COMPLETED" };
+  },
+};
+
+/**
+ * In-memory bKash, redirecting back with the query bKash appends to the
+ * callback URL
+ */
+export const createFakeBkashProvider = (): FakePaymentProvider =>
+  createFakePaymentProvider("BKASH", {
+    callbackPayload: (session, outcome) => ({
+      paymentID: session.gatewayReference,
+      status: outcome === "COMPLETED" ? "success" : "failure",
+    }),
+    sessionReference: (payload) => payloadField(payload, "paymentID"),
+  });
@@ -0,0 +1,153 @@
+import { randomUUID } from "crypto";
+import { Decimal } from "@/generated/prisma/client/runtime/library";
+import {
+  GatewayMethod,
+  PaymentProvider,
+  PaymentVerification,
+  RefundVerification,
+} from "@/utils/paymentProviders/paymentProvider";
+
+export interface FakePaymentSession {
+  transactionId: string;
+  gatewayReference: string;
+  gatewayTransactionId?: string;
+  amount: Decimal;
+  refundedAmount: Decimal;
+  status: PaymentVerification["status"];
+}
+
+/**
+ * How a fake mimics one gateway's callback
+ */
+export interface FakeGatewayShape {
+  // Payload the gateway sends to our callback when the customer is done
+  callbackPayload(
+    session: FakePaymentSession,
+    outcome: "COMPLETED" | "FAILED"
+  ): Record<string, string>;
+  // Gateway reference of the session a callback payload belongs to
+  sessionReference(payload: Record<string, unknown>): string | undefined;
+}
+
+/**
+ * A gateway kept in memory, for tests and local development
+ */
+export interface FakePaymentProvider extends PaymentProvider {
+  sessions: Map<string, FakePaymentSession>;
+  // Refunds by reference, completed as soon as they are made
+  refunds: Map<string, RefundVerification>;
+  /**
+   * Act as the customer finishing or abandoning payment on the gateway page
+   * @returns The payload the gateway would send to our callback
+   */
+  settle(
+    transactionId: string,
+    outcome: "COMPLETED" | "FAILED"
+  ): Record<string, string>;
+}
+
+export function createFakePaymentProvider(
+  key: GatewayMethod,
+  shape: FakeGatewayShape
+): FakePaymentProvider {
+  const sessions = new Map<string, FakePaymentSession>();
+  const refunds = new Map<string, RefundVerification>();
+
+  const toVerification = (
+    session: FakePaymentSession
+  ): PaymentVerification => ({
+    status: session.status,
+    transactionId: session.transactionId,
+    gatewayReference: session.gatewayReference,
+    gatewayTransactionId: session.gatewayTransactionId,
+    amount: session.amount,
+    currency: "BDT",
+    failedReason: session.status === "FAILED" ? "Declined" : undefined,
+  });
+
+  const findByTransactionId = (transactionId: string) => {
+    const session = [...sessions.values()].find(
+      (session) => session.transactionId === transactionId
+    );
+    if (!session)
+      throw new Error(`Unknown ${key} transaction ${transactionId}`);
+    return session;
+  };
+
+  return {
+    key,
+    sessions,
+    refunds,
+
+    async init(input) {
+      const gatewayReference = `FAKE-${key}-${randomUUID()}`;
+      sessions.set(gatewayReference, {
+        transactionId: input.transactionId,
+        gatewayReference,
+        amount: new Decimal(input.amount),
+        refundedAmount: new Decimal(0),
+        status: "PENDING",
+      });
+      return {
+        redirectUrl: `${
+          process.env.SERVER_URL
+        }/fake-gateway/${key.toLowerCase()}/${gatewayReference}`,
+        gatewayReference,
+      };
+    },
+
+    async validate(payload) {
+      const reference = shape.sessionReference(payload);
+      const session = reference ? sessions.get(reference) : undefined;
+      if (!session) {
+        return { status: "FAILED", failedReason: "Unknown payment session" };
+      }
+      return toVerification(session);
+    },
+
+    async query(payment) {
+      const session = payment.gatewayReference
+        ? sessions.get(payment.gatewayReference)
+        : payment.transactionId
+        ? findByTransactionId(payment.transactionId)
+        : undefined;
+      if (!session) {
+        return { status: "FAILED", failedReason: "Unknown payment session" };
+      }
+      return toVerification(session);
+    },
+
+    async refund({ payment, amount }) {
+      const session = payment.gatewayReference
+        ? sessions.get(payment.gatewayReference)
+        : undefined;
+      if (!session || session.status !== "COMPLETED") {
+        throw new Error(`${key} payment is not refundable`);
+      }
+      if (session.refundedAmount.add(amount).greaterThan(session.amount)) {
+        throw new Error("Refund exceeds the paid amount");
+      }
+      session.refundedAmount = session.refundedAmount.add(amount);
+      const refundReference = `FAKE-REFUND-${randomUUID()}`;
+      refunds.set(refundReference, { status: "COMPLETED" });
+      return { status: "COMPLETED", refundReference };
+    },
+
+    async queryRefund(refundReference) {
+      return (
+        refunds.get(refundReference) ?? {
+          status: "FAILED",
+          failedReason: "Unknown refund",
+        }
+      );
+    },
+
+    settle(transactionId, outcome) {
+      const session = findByTransactionId(transactionId);
+      session.status = outcome;
+      session.gatewayTransactionId =
+        outcome === "COMPLETED" ? `FAKE-TRX-${randomUUID()}` : undefined;
+      return shape.callbackPayload(session, outcome);
+    },
+  };
+}
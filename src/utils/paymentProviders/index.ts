@@ -0,0 +1,50 @@
+import {
+  GatewayMethod,
+  PaymentProvider,
+} from "@/utils/paymentProviders/paymentProvider";
+import {
+  createFakeSSLCommerzProvider,
+  sslcommerzProvider,
+} from "@/utils/paymentProviders/sslcommerz";
+import {
+  bkashProvider,
+  createFakeBkashProvider,
+} from "@/utils/paymentProviders/bkash";
+import {
+  createFakeNagadProvider,
+  nagadProvider,
+} from "@/utils/paymentProviders/nagad";
+
+export * from "@/utils/paymentProviders/paymentProvider";
+
+// PAYMENT_GATEWAY_MODE=fake keeps every gateway in memory
+const createProviders = (): Record<GatewayMethod, PaymentProvider> =>
+  process.env.PAYMENT_GATEWAY_MODE === "fake"
+    ? {
+        SSLCOMMERZ: createFakeSSLCommerzProvider(),
+        BKASH: createFakeBkashProvider(),
+        NAGAD: createFakeNagadProvider(),
+      }
+    : {
+        SSLCOMMERZ: sslcommerzProvider,
+        BKASH: bkashProvider,
+        NAGAD: nagadProvider,
+      };
+
+let providers: Record<GatewayMethod, PaymentProvider> | null = null;
+
+/**
+ * Get the gateway of a payment method
+ */
+export function getPaymentProvider(method: GatewayMethod): PaymentProvider {
+  providers ??= createProviders();
+  return providers[method];
+}
+
+/**
+ * Replace a gateway, e.g. with its fake in tests
+ */
+export function setPaymentProvider(provider: PaymentProvider): void {
+  providers ??= createProviders();
+  providers[provider.key] = provider;
+}
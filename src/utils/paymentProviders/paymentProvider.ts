@@ -0,0 +1,128 @@
+import { Decimal } from "@/generated/prisma/client/runtime/library";
+import { z } from "zod";
+
+// Payment methods an order can be paid with
+export const PAYMENT_METHODS = [
+  "WALLET",
+  "COD",
+  "SSLCOMMERZ",
+  "BKASH",
+  "NAGAD",
+] as const;
+export type PaymentMethod = (typeof PAYMENT_METHODS)[number];
+
+// Methods paid on an external gateway page
+export const GATEWAY_METHODS = ["SSLCOMMERZ", "BKASH", "NAGAD"] as const;
+export type GatewayMethod = (typeof GATEWAY_METHODS)[number];
+
+export const GATEWAY_NAMES: Record<GatewayMethod, string> = {
+  SSLCOMMERZ: "SSLCommerz",
+  BKASH: "bKash",
+  NAGAD: "Nagad",
+};
+
+export const isGatewayMethod = (method: string): method is GatewayMethod =>
+  (GATEWAY_METHODS as readonly string[]).includes(method);
+
+/**
+ * Zod schema for a payment method, accepting any letter case
+ */
+export const zPaymentMethod = z
+  .string()
+  .trim()
+  .transform((val) => val.toUpperCase())
+  .pipe(
+    z.enum(PAYMENT_METHODS, {
+      errorMap: () => ({
+        message: `Payment method must be one of ${PAYMENT_METHODS.join(", ")}`,
+      }),
+    })
+  );
+
+export interface PaymentInitInput {
+  // Our transaction ID, unique per payment attempt
+  transactionId: string;
+  orderId: bigint;
+  amount: Decimal;
+  customer: { name?: string | null; email?: string | null; phone: string };
+}
+
+export interface PaymentInitResult {
+  redirectUrl: string;
+  // The gateway's ID of the payment session
+  gatewayReference?: string;
+}
+
+/**
+ * Outcome of a payment as reported by its gateway.
+ * Gateways identify the payment by our transaction ID, their own session
+ * reference or both.
+ */
+export interface PaymentVerification {
+  status: "COMPLETED" | "FAILED" | "PENDING";
+  transactionId?: string;
+  gatewayReference?: string;
+  // The gateway's ID of the money movement, needed for refunds
+  gatewayTransactionId?: string;
+  amount?: Decimal;
+  currency?: string;
+  failedReason?: string;
+}
+
+// A payment as stored, for gateway lookups
+export interface GatewayPayment {
+  transactionId: string | null;
+  gatewayReference: string | null;
+  gatewayTransactionId: string | null;
+  amount: Decimal;
+}
+
+export interface PaymentRefundInput {
+  payment: GatewayPayment;
+  amount: Decimal;
+  reason: string;
+}
+
+export interface PaymentRefundResult {
+  status: "COMPLETED" | "PENDING";
+  refundReference: string;
+}
+
+export interface RefundVerification {
+  status: "COMPLETED" | "PENDING" | "FAILED";
+  failedReason?: string;
+}
+
+/**
+ * A payment gateway
+ * - init starts a payment and returns the page the customer pays on
+ * - validate checks the payload the gateway sends back to our callback
+ * - query asks the gateway for the current state of a payment
+ * - refund returns money of a completed payment to the customer
+ * - queryRefund asks the gateway for the current state of a refund
+ */
+export interface PaymentProvider {
+  key: GatewayMethod;
+  init(input: PaymentInitInput): Promise<PaymentInitResult>;
+  validate(payload: Record<string, unknown>): Promise<PaymentVerification>;
+  query(payment: GatewayPayment): Promise<PaymentVerification>;
+  refund(input: PaymentRefundInput): Promise<PaymentRefundResult>;
+  queryRefund(refundReference: string): Promise<RefundVerification>;
+}
+
+/**
+ * URL of our payment callback endpoints
+ */
+export const callbackUrl = (path: string): string =>
+  `${process.env.SERVER_URL}/api/payments/${path}`;
+
+/**
+ * Read a string field of a gateway payload
+ */
+export const payloadField = (
+  payload: Record<string, unknown>,
+  field: string
+): string | undefined => {
+  const value = payload[field];
+  return typeof value === "string" && value !== "" ? value : undefined;
+};
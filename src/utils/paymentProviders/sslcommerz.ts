@@ -0,0 +1,379 @@
+import axios from "axios";
+import crypto from "crypto";
+import { Decimal } from "@/generated/prisma/client/runtime/library";
+import {
+  callbackUrl,
+  GatewayPayment,
+  PaymentProvider,
+  PaymentVerification,
+  payloadField,
+} from "@/utils/paymentProviders/paymentProvider";
+import {
+  createFakePaymentProvider,
+  FakePaymentProvider,
+} from "@/utils/paymentProviders/fakeProvider";
+
+const getBaseUrl = () =>
+  process.env.NODE_ENV === "production"
+    ? "https://securepay.sslcommerz.com"
+    : "https://sandbox.sslcommerz.com";
+
+const getCredentials = () => {
+  if (
+    !process.env.SSLCOMMERZ_STORE_ID ||
+    !process.env.SSLCOMMERZ_STORE_PASSWD
+  ) {
+    throw new Error("SSLCommerz credentials not configured");
+  }
+  return {
+    store_id: process.env.SSLCOMMERZ_STORE_ID,
+    store_passwd: process.env.SSLCOMMERZ_STORE_PASSWD,
+  };
+};
+
+/**
+ * Turn a failed SSLCommerz API call into a readable error
+ */
+function toSSLCommerzError(error: unknown): Error {
+  if (axios.isAxiosError(error)) {
+    // Handle specific HTTP errors
+    if (error.response?.status === 400) {
+      return new Error(
+        `SSLCommerz API Bad Request: ${
+          error.response.data?.failedreason || "Invalid request parameters"
+        }`
+      );
+    } else if (error.response?.status === 401) {
+      return new Error(
+        "SSLCommerz API Authentication failed: Invalid store credentials"
+      );
+    } else if (error.response?.status! >= 500) {
+      return new Error("SSLCommerz API server error: Please try again later");
+    }
+    // Handle network errors
+    if (error.code === "ECONNABORTED") {
+      return new Error("SSLCommerz API timeout: Request took too long");
+    } else if (error.code === "ENOTFOUND" || error.code === "ECONNREFUSED") {
+      return new Error("SSLCommerz API connection failed: Network error");
+    }
+    return new Error(`SSLCommerz API request failed: ${error.message}`);
+  }
+  return error instanceof Error ? error : new Error(String(error));
+}
+
+/**
+ * Map a transaction of the SSLCommerz validation APIs
+ */
+const toVerification = (transaction: any): PaymentVerification => {
+  const status = ["VALID", "VALIDATED"].includes(transaction?.status)
+    ? "COMPLETED"
+    : transaction?.status === "PENDING"
+    ? "PENDING"
+    : "FAILED";
+  return {
+    status,
+    transactionId: transaction?.tran_id,
+    gatewayTransactionId: transaction?.bank_tran_id,
+    amount: transaction?.amount ? new Decimal(transaction.amount) : undefined,
+    currency: transaction?.currency,
+    failedReason:
+      status === "FAILED"
+        ? transaction?.error ||
+          transaction?.status ||
+          "Unknown validation error"
+        : undefined,
+  };
+};
+
+const md5 = (value: string) =>
+  crypto.createHash("md5").update(value).digest("hex");
+
+// Fields SSLCommerz may list in verify_key; store_passwd is never one of
+// them, its hash always comes from our own credentials
+const SIGNABLE_FIELDS = new Set([
+  "tran_id",
+  "val_id",
+  "amount",
+  "currency",
+  "store_amount",
+  "status",
+  "tran_date",
+  "error",
+  "bank_tran_id",
+  "card_type",
+  "card_no",
+  "card_issuer",
+  "card_brand",
+  "card_sub_brand",
+  "card_issuer_country",
+  "card_issuer_country_code",
+  "currency_type",
+  "currency_amount",
+  "currency_rate",
+  "base_fair",
+  "store_id",
+  "risk_level",
+  "risk_title",
+  "value_a",
+  "value_b",
+  "value_c",
+  "value_d",
+]);
+
+// Fields a signature must cover for us to act on the callback
+const REQUIRED_SIGNED_FIELDS = ["tran_id", "val_id", "amount", "currency"];
+
+/**
+ * Signature SSLCommerz puts in verify_sign: the MD5 of the fields named in
+ * verify_key plus the MD5 of the store password, sorted by name and joined
+ * as a query string
+ */
+function signPayload(payload: Record<string, unknown>, keys: string[]) {
+  const fields: Record<string, string> = {};
+  for (const key of keys) {
+    const value = payload[key];
+    fields[key] = typeof value === "string" ? value : "";
+  }
+  fields.store_passwd = md5(getCredentials().store_passwd);
+  return md5(
+    Object.keys(fields)
+      .sort()
+      .map((key) => `${key}=${fields[key]}`)
+      .join("&")
+  );
+}
+
+/**
+ * Check the verify_sign of a payload SSLCommerz posted to us
+ * - verify_key may only name known callback fields, and must name the
+ *   fields we act on
+ */
+export function verifySSLCommerzSignature(
+  payload: Record<string, unknown>
+): boolean {
+  const verifySign = payloadField(payload, "verify_sign");
+  const verifyKey = payloadField(payload, "verify_key");
+  if (!verifySign || !verifyKey) return false;
+
+  const keys = verifyKey.split(",");
+  if (
+    keys.some((key) => !SIGNABLE_FIELDS.has(key)) ||
+    REQUIRED_SIGNED_FIELDS.some((field) => !keys.includes(field))
+  ) {
+    return false;
+  }
+
+  const expected = Buffer.from(signPayload(payload, keys));
+  const received = Buffer.from(verifySign.toLowerCase());
+  return (
+    expected.length === received.length &&
+    crypto.timingSafeEqual(expected, received)
+  );
+}
+
+/**
+ * SSLCommerz hosted checkout
+ */
+export const sslcommerzProvider: PaymentProvider = {
+  key: "SSLCOMMERZ",
+
+  async init(input) {
+    // Prepare payment data for SSLCommerz API
+    const paymentData = {
+      ...getCredentials(),
+      total_amount: input.amount.toFixed(2),
+      currency: "BDT",
+      tran_id: input.transactionId,
+      success_url: callbackUrl("sslcommerz/success"),
+      fail_url: callbackUrl("sslcommerz/fail"),
+      cancel_url: callbackUrl("sslcommerz/cancel"),
+      ipn_url: callbackUrl("sslcommerz/ipn"),
+      shipping_method: "Courier",
+      product_name: `Order Payment #${input.orderId}`,
+      product_category: "Food",
+      product_profile: "general",
+      cus_name: input.customer.name || "Customer",
+      cus_email: input.customer.email || "customer@example.com",
+      cus_add1: "N/A",
+      cus_city: "Chittagong",
+      cus_state: "Chittagong",
+      cus_postcode: "1000",
+      cus_country: "Bangladesh",
+      cus_phone: input.customer.phone,
+      ship_name: input.customer.name || "Customer",
+      ship_add1: "N/A",
+      ship_city: "Chittagong",
+      ship_state: "Chittagong",
+      ship_postcode: "1000",
+      ship_country: "Bangladesh",
+    };
+
+    try {
+      const response = await axios.post(
+        `${getBaseUrl()}/gwprocess/v4/api.php`,
+        new URLSearchParams(paymentData).toString(),
+        {
+          headers: {
+            "Content-Type": "application/x-www-form-urlencoded",
+            Accept: "application/json",
+          },
+          timeout: 30000, // 30 seconds timeout
+        }
+      );
+      if (response.data.status !== "SUCCESS") {
+        throw new Error(
+          `SSLCommerz initialization failed: ${
+            response.data.failedreason || "Unknown error from SSLCommerz"
+          }`
+        );
+      }
+      return {
+        redirectUrl: response.data.GatewayPageURL,
+        gatewayReference: response.data.sessionkey,
+      };
+    } catch (error) {
+      throw toSSLCommerzError(error);
+    }
+  },
+
+  async validate(payload) {
+    const valId = payloadField(payload, "val_id");
+    if (!valId) {
+      return {
+        status: "FAILED",
+        transactionId: payloadField(payload, "tran_id"),
+        failedReason: payloadField(payload, "error") || "Missing validation ID",
+      };
+    }
+
+    try {
+      const response = await axios.get(
+        `${getBaseUrl()}/validator/api/validationserverAPI.php`,
+        {
+          params: { ...getCredentials(), val_id: valId, v: 1, format: "json" },
+          timeout: 30000,
+        }
+      );
+      return toVerification(response.data);
+    } catch (error) {
+      throw toSSLCommerzError(error);
+    }
+  },
+
+  async query(payment: GatewayPayment) {
+    try {
+      const response = await axios.get(
+        `${getBaseUrl()}/validator/api/merchantTransIDvalidationAPI.php`,
+        {
+          params: {
+            ...getCredentials(),
+            tran_id: payment.transactionId,
+            format: "json",
+          },
+          timeout: 30000,
+        }
+      );
+      const transactions: any[] = response.data?.element ?? [];
+      // A transaction ID may have several attempts; any valid one counts
+      const transaction =
+        transactions.find((row) =>
+          ["VALID", "VALIDATED"].includes(row.status)
+        ) ?? transactions[0];
+      return transaction
+        ? toVerification(transaction)
+        : {
+            status: "PENDING",
+            transactionId: payment.transactionId ?? undefined,
+          };
+    } catch (error) {
+      throw toSSLCommerzError(error);
+    }
+  },
+
+  async refund({ payment, amount, reason }) {
+    if (!payment.gatewayTransactionId) {
+      throw new Error("SSLCommerz payment has no bank transaction ID");
+    }
+
+    try {
+      const response = await axios.get(
+        `${getBaseUrl()}/validator/api/merchantTransIDvalidationAPI.php`,
+        {
+          params: {
+            ...getCredentials(),
+            bank_tran_id: payment.gatewayTransactionId,
+            refund_amount: amount.toFixed(2),
+            refund_remarks: reason,
+            refe_id: payment.transactionId,
+            format: "json",
+          },
+          timeout: 30000,
+        }
+      );
+      const { status, refund_ref_id, errorReason } = response.data ?? {};
+      if (status !== "success" && status !== "processing") {
+        throw new Error(
+          `SSLCommerz refund failed: ${
+            errorReason || status || "Unknown error"
+          }`
+        );
+      }
+      return {
+        status: status === "success" ? "COMPLETED" : "PENDING",
+        refundReference: refund_ref_id,
+      };
+    } catch (error) {
+      throw toSSLCommerzError(error);
+    }
+  },
+
+  async queryRefund(refundReference) {
+    try {
+      const response = await axios.get(
+        `${getBaseUrl()}/validator/api/merchantTransIDvalidationAPI.php`,
+        {
+          params: {
+            ...getCredentials(),
+            refund_ref_id: refundReference,
+            format: "json",
+          },
+          timeout: 30000,
+        }
+      );
+      const { status, errorReason } = response.data ?? {};
+      if (status === "refunded") return { status: "COMPLETED" };
+      if (status === "processing") return { status: "PENDING" };
+      return {
+        status: "FAILED",
+        failedReason: errorReason || status || "Unknown error",
+      };
+    } catch (error) {
+      throw toSSLCommerzError(error);
+    }
+  },
+};
+
+/**
+ * In-memory SSLCommerz, sending the IPN fields our callbacks read, signed
+ * with the configured store password
+ */
+export const createFakeSSLCommerzProvider = (): FakePaymentProvider =>
+  createFakePaymentProvider("SSLCOMMERZ", {
+    callbackPayload: (session, outcome) => {
+      const payload: Record<string, string> = {
+        tran_id: session.transactionId,
+        val_id: session.gatewayReference,
+        status: outcome === "COMPLETED" ? "VALID" : "FAILED",
+        amount: session.amount.toFixed(2),
+        currency: "BDT",
+        bank_tran_id: session.gatewayTransactionId ?? "",
+      };
+      const keys = Object.keys(payload);
+      return {
+        ...payload,
+        verify_key: keys.join(","),
+        verify_sign: signPayload(payload, keys),
+      };
+    },
+    sessionReference: (payload) => payloadField(payload, "val_id"),
+  });
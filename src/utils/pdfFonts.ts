@@ -0,0 +1,31 @@
+import path from "path";
+import { Decimal } from "@/generated/prisma/client/runtime/library";
+
+// Noto Sans Bengali draws Latin and Bengali text, and the taka sign
+const FONT_DIR = path.dirname(
+  require.resolve("@expo-google-fonts/noto-sans-bengali/package.json")
+);
+
+export const PDF_FONT = "NotoSansBengali";
+export const PDF_FONT_BOLD = "NotoSansBengali-Bold";
+
+/**
+ * Register the fonts of our PDF documents, use them with
+ * doc.font(PDF_FONT) and doc.font(PDF_FONT_BOLD)
+ */
+export function registerPdfFonts(doc: PDFKit.PDFDocument): void {
+  doc.registerFont(
+    PDF_FONT,
+    path.join(FONT_DIR, "400Regular/NotoSansBengali_400Regular.ttf")
+  );
+  doc.registerFont(
+    PDF_FONT_BOLD,
+    path.join(FONT_DIR, "700Bold/NotoSansBengali_700Bold.ttf")
+  );
+}
+
+/**
+ * Formats an amount in taka, e.g. ৳1250.00
+ */
+export const formatTaka = (amount: Decimal.Value) =>
+  `৳${new Decimal(amount).toFixed(2)}`;
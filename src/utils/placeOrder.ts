@@ -0,0 +1,135 @@
+import { Customer, Order, Prisma } from "@/generated/prisma/client";
+import {
+  assertAmountMatches,
+  assertLinesAvailable,
+  calculateOrderPricing,
+  OrderLineInput,
+  toOrderItemData,
+} from "@/utils/calculateOrderPricing";
+import { reserveDeliverySlot } from "@/utils/deliverySlot";
+import {
+  assertSlotInZone,
+  calculateShippingFee,
+  resolveDeliveryZone,
+} from "@/utils/deliveryZone";
+import {
+  resolveShippingAddress,
+  ShippingAddressInput,
+} from "@/utils/shippingAddress";
+import { assertOrderRules } from "@/utils/orderRules";
+import { recordOrderEvent } from "@/utils/orderStatusTransition";
+import { lockProducts } from "@/utils/preorder";
+
+export interface PlaceOrderInput extends ShippingAddressInput {
+  customer: Pick<Customer, "customerId" | "userId">;
+  items: OrderLineInput[];
+  paymentMethod: string;
+  deliverySlotId?: bigint;
+  // Total the client expects to pay, checked against the computed total
+  totalAmount?: number;
+  isSubscription?: boolean;
+  preorderDeliveryDate?: string;
+}
+
+/**
+ * Place a customer's order in the caller's transaction, for both the order
+ * API and cart checkout
+ * - Prices every line on the server from the product's current price and deals
+ * - Rejects a client supplied totalAmount which does not match the computed total
+ * - The order is a preorder when one of its products is; the stock of the
+ *   other lines must cover them
+ * - Enforces the checkout rules and reserves the delivery slot
+ * - Creates the order, its items, the initial tracking entry and event
+ * @returns The created order
+ * @throws AppError if the order breaks a pricing, stock or checkout rule
+ */
+export async function placeOrder(
+  tx: Prisma.TransactionClient,
+  input: PlaceOrderInput
+): Promise<Order> {
+  const { customer } = input;
+
+  //  Check the shipping address is served
+  const address = await resolveShippingAddress(customer.customerId, input, tx);
+  const zone = await resolveDeliveryZone(address.shippingAddress, tx);
+
+  //  Price order lines and shipping, with the products locked so the
+  //  preorder caps cannot be overrun by concurrent orders
+  await lockProducts(
+    input.items.map((item) => item.productId),
+    tx
+  );
+  const pricing = await calculateOrderPricing(input.items, tx);
+  assertLinesAvailable(pricing.lines);
+  const isPreorder = pricing.lines.some((line) => line.product.isPreorder);
+  const shippingFee = calculateShippingFee(zone, pricing.totalAmount);
+  const totalAmount = pricing.totalAmount.add(shippingFee);
+  if (input.totalAmount !== undefined) {
+    assertAmountMatches("Total amount", input.totalAmount, totalAmount);
+  }
+  await assertOrderRules(
+    {
+      customerId: customer.customerId,
+      zone,
+      lines: pricing.lines,
+      subtotal: pricing.totalAmount,
+      totalAmount,
+      paymentMethod: input.paymentMethod,
+    },
+    tx
+  );
+
+  //  Reserve the delivery slot
+  if (input.deliverySlotId) {
+    const slot = await reserveDeliverySlot(input.deliverySlotId, tx);
+    assertSlotInZone(slot, zone);
+  }
+
+  //  Create order
+  const order = await tx.order.create({
+    data: {
+      status: "PENDING",
+      totalAmount,
+      shippingFee,
+      paymentMethod: input.paymentMethod,
+      paymentStatus: "PENDING",
+      shippingAddress: address.shippingAddress,
+      addressId: address.addressId,
+      deliveryZoneId: zone.zoneId,
+      customerId: customer.customerId,
+      isSubscription: input.isSubscription ?? false,
+      isPreorder,
+      preorderStatus: isPreorder ? "AWAITING_STOCK" : undefined,
+      preorderDeliveryDate: input.preorderDeliveryDate
+        ? new Date(input.preorderDeliveryDate)
+        : undefined,
+      deliverySlotId: input.deliverySlotId,
+    },
+  });
+
+  //  Create order items
+  await tx.orderItem.createMany({
+    data: toOrderItemData(order.orderId, pricing.lines),
+  });
+
+  // Create initial tracking entry
+  await tx.orderTracking.create({
+    data: {
+      orderId: order.orderId,
+      status: "PENDING",
+      description: "Order created pending",
+    },
+  });
+  await recordOrderEvent(
+    {
+      orderId: order.orderId,
+      fromStatus: null,
+      toStatus: "PENDING",
+      actor: "CUSTOMER",
+      actorUserId: customer.userId,
+    },
+    tx
+  );
+
+  return order;
+}
@@ -0,0 +1,261 @@
+import { Decimal } from "@/generated/prisma/client/runtime/library";
+import { Order, Prisma } from "@/generated/prisma/client";
+import prisma from "@/prisma-client/prismaClient";
+import { AppError } from "@/utils/appError";
+import httpStatus from "http-status";
+import { format } from "date-fns";
+import { getOrderStatusMessage } from "@/utils/getOrderStatusMessage";
+import { createNotification } from "@/utils/processPayment";
+import { recordOrderEvent } from "@/utils/orderStatusTransition";
+
+type PreorderFields = Pick<Order, "isPreorder" | "preorderStatus">;
+
+/**
+ * Whether an order is a preorder still waiting for stock or its availability
+ * date. Paying such an order does not confirm it; the preorder job does.
+ */
+export const isOpenPreorder = (order: PreorderFields): boolean =>
+  order.isPreorder &&
+  (order.preorderStatus === "AWAITING_STOCK" ||
+    order.preorderStatus === "ALLOCATED");
+
+/**
+ * Whether the order's stock is taken by preorder allocation instead of on
+ * payment or delivery
+ */
+export const isAllocatedByPreorder = (order: PreorderFields): boolean =>
+  order.isPreorder && order.preorderStatus !== null;
+
+/**
+ * Amount still to pay for an order, after any preorder deposit
+ */
+export const amountDue = (
+  order: Pick<Order, "totalAmount" | "depositAmount">
+): Decimal => new Decimal(order.totalAmount).sub(order.depositAmount);
+
+/**
+ * Deposit a customer may pay to hold a preorder.
+ * Each line contributes its product's deposit share of the line subtotal.
+ */
+export const calculatePreorderDeposit = (
+  orderItems: {
+    subtotal: Decimal;
+    product: { preorderDepositPercent: number | null };
+  }[]
+): Decimal =>
+  orderItems
+    .reduce(
+      (sum, item) =>
+        sum.add(
+          item.subtotal.mul(item.product.preorderDepositPercent ?? 0).div(100)
+        ),
+      new Decimal(0)
+    )
+    .toDecimalPlaces(2);
+
+/**
+ * Packages of a product taken by preorders, allocated or not, which were
+ * not cancelled
+ * @param excludeOrderId - An order being repriced, whose lines are not counted
+ */
+export async function getPreorderedQuantity(
+  productId: bigint,
+  tx: Prisma.TransactionClient = prisma,
+  excludeOrderId?: bigint
+): Promise<number> {
+  const { _sum } = await tx.orderItem.aggregate({
+    where: {
+      productId,
+      order: {
+        isPreorder: true,
+        status: { not: "CANCELLED" },
+        ...(excludeOrderId && { orderId: { not: excludeOrderId } }),
+      },
+    },
+    _sum: { quantity: true },
+  });
+  return _sum.quantity ?? 0;
+}
+
+/**
+ * Lock product rows until the transaction ends, in ID order so concurrent
+ * allocations cannot deadlock
+ */
+export const lockProducts = (
+  productIds: bigint[],
+  tx: Prisma.TransactionClient
+) =>
+  tx.$queryRaw`SELECT 1 FROM "Product" WHERE "productId" IN (${Prisma.join(
+    productIds
+  )}) ORDER BY "productId" FOR UPDATE`;
+
+const findAwaitingPreorders = (
+  productId: bigint,
+  tx: Prisma.TransactionClient
+) =>
+  tx.order.findMany({
+    where: {
+      preorderStatus: "AWAITING_STOCK",
+      status: { not: "CANCELLED" },
+      orderItems: { some: { productId } },
+    },
+    include: {
+      orderItems: { include: { product: true } },
+      customer: true,
+    },
+    orderBy: [{ orderDate: "asc" }, { orderId: "asc" }],
+  });
+
+const productIdsOf = (
+  orders: Awaited<ReturnType<typeof findAwaitingPreorders>>
+) => [
+  ...new Set(
+    orders.flatMap((order) => order.orderItems.map((item) => item.productId))
+  ),
+];
+
+/**
+ * Set stock aside for preorders waiting on a product, oldest first.
+ * An order is allocated only when the stock covers all of its items; an
+ * order short on this product holds back every later one.
+ * - The products involved are locked before their stock is read, so the
+ *   job and inventory purchases cannot allocate the same stock twice
+ * @returns IDs of the orders allocated
+ */
+export async function allocatePreorders(
+  productId: bigint,
+  tx: Prisma.TransactionClient
+): Promise<bigint[]> {
+  const lockedIds = new Set([
+    productId,
+    ...productIdsOf(await findAwaitingPreorders(productId, tx)),
+  ]);
+  await lockProducts([...lockedIds], tx);
+
+  // Read again under the locks, a concurrent allocation may have run
+  const orders = await findAwaitingPreorders(productId, tx);
+  const unlockedIds = productIdsOf(orders).filter((id) => !lockedIds.has(id));
+  if (unlockedIds.length > 0) {
+    await lockProducts(unlockedIds, tx);
+  }
+  const products = await tx.product.findMany({
+    where: { productId: { in: [...lockedIds, ...unlockedIds] } },
+    select: { productId: true, stockQuantity: true },
+  });
+
+  const stock = new Map(
+    products.map((product) => [product.productId, product.stockQuantity])
+  );
+  const allocated: bigint[] = [];
+  for (const order of orders) {
+    const needed = new Map<bigint, number>();
+    for (const item of order.orderItems) {
+      needed.set(
+        item.productId,
+        (needed.get(item.productId) ?? 0) + item.quantity * item.packageSize
+      );
+    }
+
+    if (stock.get(productId)! < needed.get(productId)!) break;
+    const isCovered = [...needed].every(
+      ([id, quantity]) => stock.get(id)! >= quantity
+    );
+    if (!isCovered) continue;
+
+    for (const [id, quantity] of needed) {
+      stock.set(id, stock.get(id)! - quantity);
+      await tx.product.update({
+        where: { productId: id },
+        data: { stockQuantity: { decrement: quantity } },
+      });
+      await tx.stockTransaction.create({
+        data: {
+          quantity,
+          transactionType: "OUT",
+          productId: id,
+          orderId: order.orderId,
+          description: `Stock allocated to preorder #${order.orderId}`,
+        },
+      });
+    }
+
+    await tx.order.update({
+      where: { orderId: order.orderId },
+      data: { preorderStatus: "ALLOCATED", preorderAllocatedAt: new Date() },
+    });
+    await tx.orderTracking.create({
+      data: {
+        orderId: order.orderId,
+        status: order.status,
+        description: "Stock allocated to preorder",
+      },
+    });
+
+    const availableOn = order.orderItems
+      .map((item) => item.product.preorderAvailabilityDate)
+      .filter((date): date is Date => !!date)
+      .sort((a, b) => b.getTime() - a.getTime())[0];
+    const availability = availableOn
+      ? ` পণ্যটি ${format(availableOn, "dd MMM yyyy")} থেকে পাওয়া যাবে।`
+      : "";
+    const message = `আপনার প্রি-অর্ডার #${order.orderId} এর জন্য পণ্য সংরক্ষণ করা হয়েছে।${availability}`;
+    await createNotification(message, "ORDER", order.customer.userId, tx);
+
+    allocated.push(order.orderId);
+  }
+  return allocated;
+}
+
+/**
+ * Turn an allocated preorder into a confirmed order
+ * @throws AppError if the order is not an allocated preorder
+ */
+export async function confirmPreorder(
+  orderId: bigint,
+  tx: Prisma.TransactionClient
+): Promise<Order> {
+  const order = await tx.order.findUnique({
+    where: { orderId },
+    include: { customer: true },
+  });
+  if (!order || order.preorderStatus !== "ALLOCATED") {
+    throw new AppError(
+      `Order #${orderId} is not an allocated preorder`,
+      httpStatus.BAD_REQUEST
+    );
+  }
+
+  // An admin may already have moved the order on
+  if (order.status !== "PENDING") {
+    return await tx.order.update({
+      where: { orderId },
+      data: { preorderStatus: "CONFIRMED" },
+    });
+  }
+
+  const confirmedOrder = await tx.order.update({
+    where: { orderId },
+    data: { preorderStatus: "CONFIRMED", status: "CONFIRMED" },
+  });
+  await tx.orderTracking.create({
+    data: {
+      orderId,
+      status: "CONFIRMED",
+      description: "Preorder is now available and confirmed",
+    },
+  });
+  await recordOrderEvent(
+    {
+      orderId,
+      fromStatus: order.status,
+      toStatus: "CONFIRMED",
+      actor: "SYSTEM",
+      reason: "Preorder availability date reached",
+    },
+    tx
+  );
+
+  const message = getOrderStatusMessage("CONFIRMED", orderId);
+  await createNotification(message, "ORDER", order.customer.userId, tx);
+  return confirmedOrder;
+}
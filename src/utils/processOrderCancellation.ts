@@ -0,0 +1,318 @@
+import {
+  Order,
+  OrderStatus,
+  Payment,
+  PaymentStatus,
+  Prisma,
+} from "@/generated/prisma/client";
+import { Decimal } from "@/generated/prisma/client/runtime/library";
+import prisma from "@/prisma-client/prismaClient";
+import { runTransaction } from "@/utils/transaction";
+import { AppError } from "@/utils/appError";
+import httpStatus from "http-status";
+import { getOrderStatusMessage } from "@/utils/getOrderStatusMessage";
+import { createNotification } from "@/utils/processPayment";
+import { refundToWallet } from "@/utils/processRefund";
+import { releaseDeliverySlot } from "@/utils/deliverySlot";
+import { recordOrderEvent } from "@/utils/orderStatusTransition";
+import { findActiveHolds, releaseHold } from "@/utils/walletHold";
+
+export type CancellationActor = "CUSTOMER" | "ADMIN";
+
+// Statuses from which each actor may cancel an order
+const CANCELLABLE_STATUSES: Record<CancellationActor, OrderStatus[]> = {
+  CUSTOMER: ["PENDING", "CONFIRMED"],
+  ADMIN: ["PENDING", "CONFIRMED", "PROCESSING", "SHIPPED"],
+};
+
+/**
+ * Whether an order event actor may cancel orders at all
+ */
+export const isCancellationActor = (
+  actor: string
+): actor is CancellationActor => actor in CANCELLABLE_STATUSES;
+
+export interface CancelOrderOptions {
+  actor: CancellationActor;
+  reason?: string;
+  // The user cancelling; for customers also used to check order ownership
+  userId?: bigint;
+}
+
+/**
+ * Put back the stock taken for an order.
+ * Reverses the net OUT quantity per product, so stock already restored
+ * (e.g. by a subscription pause) is not restored twice.
+ */
+async function restoreOrderStock(
+  orderId: bigint,
+  tx: Prisma.TransactionClient
+): Promise<void> {
+  const stockTransactions = await tx.stockTransaction.findMany({
+    where: { orderId },
+  });
+
+  const netOutByProduct = new Map<bigint, number>();
+  for (const transaction of stockTransactions) {
+    const sign =
+      transaction.transactionType === "OUT"
+        ? 1
+        : transaction.transactionType === "IN"
+        ? -1
+        : 0;
+    netOutByProduct.set(
+      transaction.productId,
+      (netOutByProduct.get(transaction.productId) ?? 0) +
+        sign * transaction.quantity
+    );
+  }
+
+  for (const [productId, quantity] of netOutByProduct) {
+    if (quantity <= 0) continue;
+
+    await tx.product.update({
+      where: { productId },
+      data: { stockQuantity: { increment: quantity } },
+    });
+    await tx.stockTransaction.create({
+      data: {
+        quantity,
+        transactionType: "IN",
+        productId,
+        orderId,
+        description: `Stock restored for cancelled Order #${orderId}`,
+      },
+    });
+  }
+}
+
+/**
+ * Amount of a completed payment not yet refunded through its gateway
+ * - The payment is locked, like gateway refunds do, so a refund cannot
+ *   start while the order is being cancelled
+ * @throws AppError while a gateway refund of the payment is pending
+ */
+async function getRefundableAmount(
+  payment: Payment,
+  tx: Prisma.TransactionClient
+): Promise<Decimal> {
+  await tx.$queryRaw`SELECT 1 FROM "Payment" WHERE "paymentId" = ${payment.paymentId} FOR UPDATE`;
+  const refunds = await tx.refund.findMany({
+    where: {
+      paymentId: payment.paymentId,
+      status: { in: ["PENDING", "COMPLETED"] },
+    },
+  });
+  if (refunds.some((refund) => refund.status === "PENDING")) {
+    throw new AppError(
+      `A gateway refund of payment #${payment.paymentId} is still being processed, cancel the order once it is settled`,
+      httpStatus.CONFLICT
+    );
+  }
+  return refunds.reduce(
+    (refundable, refund) => refundable.sub(refund.amount),
+    payment.amount
+  );
+}
+
+/**
+ * Settle one payment leg of a cancelled order
+ * - Completed wallet and gateway payments are refunded to the wallet, less
+ *   what was already refunded through the gateway
+ * - Locked wallet funds (subscription orders, split payment shares) are
+ *   released
+ * - Pending payments are marked as failed
+ * @returns The payment status the leg ends up with
+ * @throws AppError if the payment changed since it was read
+ */
+async function settleCancelledPaymentLeg(
+  order: Order & { customer: { customerId: bigint; userId: bigint } },
+  payment: Payment,
+  tx: Prisma.TransactionClient
+): Promise<PaymentStatus> {
+  let paymentStatus: PaymentStatus = payment.paymentStatus;
+  if (
+    payment.paymentStatus === "COMPLETED" &&
+    payment.paymentMethod !== "COD"
+  ) {
+    const refundable = await getRefundableAmount(payment, tx);
+    if (refundable.greaterThan(0)) {
+      await refundToWallet(
+        order.customer,
+        refundable,
+        order.orderId,
+        `Refund for cancelled Order #${order.orderId}`,
+        tx
+      );
+    }
+    paymentStatus = "REFUNDED";
+  } else if (payment.paymentStatus === "LOCKED") {
+    const holds = await findActiveHolds(
+      {
+        orderId: order.orderId,
+        walletTransactionId: payment.walletTransactionId,
+      },
+      tx
+    );
+    for (const hold of holds) {
+      await releaseHold(
+        hold,
+        `Locked funds released for cancelled Order #${order.orderId}`,
+        tx
+      );
+    }
+    await tx.walletTransaction.updateMany({
+      where: { orderId: order.orderId, transactionStatus: "LOCKED" },
+      data: {
+        transactionType: "REFUND",
+        transactionStatus: "REFUNDED",
+        description: `Locked funds released for cancelled Order #${order.orderId}`,
+      },
+    });
+    paymentStatus = "REFUNDED";
+  } else if (payment.paymentStatus === "PENDING") {
+    paymentStatus = "FAILED";
+  }
+
+  // Refuse to overwrite a payment settled meanwhile, e.g. by its IPN
+  const { count } = await tx.payment.updateMany({
+    where: {
+      paymentId: payment.paymentId,
+      paymentStatus: payment.paymentStatus,
+    },
+    data: { paymentStatus },
+  });
+  if (count === 0) {
+    throw new AppError(
+      `Payment #${payment.paymentId} changed while the order was being cancelled, please try again`,
+      httpStatus.CONFLICT
+    );
+  }
+  return paymentStatus;
+}
+
+/**
+ * Settle the order payments on cancellation
+ * @returns The payment status the order ends up with
+ */
+async function settleCancelledPayment(
+  order: Order & { customer: { customerId: bigint; userId: bigint } },
+  tx: Prisma.TransactionClient
+): Promise<PaymentStatus> {
+  const payments = await tx.payment.findMany({
+    where: { orderId: order.orderId },
+  });
+  if (payments.length === 0) {
+    return order.paymentStatus === "PENDING" ? "FAILED" : order.paymentStatus;
+  }
+
+  const statuses: PaymentStatus[] = [];
+  for (const payment of payments) {
+    statuses.push(await settleCancelledPaymentLeg(order, payment, tx));
+  }
+  // Any money given back makes the order refunded
+  return (
+    statuses.find((status) => status === "REFUNDED") ??
+    statuses.find((status) => status === "COMPLETED") ??
+    "FAILED"
+  );
+}
+
+/**
+ * Cancel an order
+ * - Restores stock, refunds or releases payments and preorder deposits, and
+ *   appends a CANCELLED tracking entry
+ * - Customers can only cancel their own orders before processing starts
+ * @param tx - Runs the cancellation in this transaction instead of its own
+ * @throws AppError if the order cannot be cancelled by the actor
+ */
+export async function cancelOrder(
+  orderId: bigint,
+  options: CancelOrderOptions,
+  tx?: Prisma.TransactionClient
+): Promise<Order> {
+  const applyCancellation = async (tx: Prisma.TransactionClient) => {
+    // Lock the order so concurrent cancellations cannot both refund it
+    await tx.$queryRaw`SELECT 1 FROM "Order" WHERE "orderId" = ${orderId} FOR UPDATE`;
+    const order = await tx.order.findUnique({
+      where: { orderId },
+      include: { customer: true },
+    });
+    if (!order) {
+      throw new AppError("Order not found", httpStatus.NOT_FOUND);
+    }
+    if (
+      options.actor === "CUSTOMER" &&
+      order.customer.userId !== options.userId
+    ) {
+      throw new AppError("Order not found", httpStatus.NOT_FOUND);
+    }
+    if (order.status === "CANCELLED") {
+      throw new AppError("Order is already cancelled", httpStatus.BAD_REQUEST);
+    }
+    if (!CANCELLABLE_STATUSES[options.actor].includes(order.status)) {
+      throw new AppError(
+        `Order cannot be cancelled once it is ${order.status}`,
+        httpStatus.BAD_REQUEST
+      );
+    }
+
+    await restoreOrderStock(orderId, tx);
+    const paymentStatus = await settleCancelledPayment(order, tx);
+    if (order.depositAmount.greaterThan(0)) {
+      await refundToWallet(
+        order.customer,
+        order.depositAmount,
+        orderId,
+        `Preorder deposit refund for cancelled Order #${orderId}`,
+        tx
+      );
+    }
+
+    const cancelledOrder = await tx.order.update({
+      where: { orderId },
+      data: { status: "CANCELLED", paymentStatus },
+    });
+
+    await recordOrderEvent(
+      {
+        orderId,
+        fromStatus: order.status,
+        toStatus: "CANCELLED",
+        actor: options.actor,
+        actorUserId: options.userId,
+        reason: options.reason,
+      },
+      tx
+    );
+
+    if (order.deliverySlotId) {
+      await releaseDeliverySlot(order.deliverySlotId, tx);
+    }
+
+    if (order.isSubscription) {
+      await tx.subscriptionDelivery.updateMany({
+        where: { orderId },
+        data: { status: "CANCELLED" },
+      });
+    }
+
+    await tx.orderTracking.create({
+      data: {
+        orderId,
+        status: "CANCELLED",
+        description: `Order cancelled by ${options.actor.toLowerCase()}${
+          options.reason ? `: ${options.reason}` : ""
+        }`,
+      },
+    });
+
+    const message = getOrderStatusMessage("CANCELLED", orderId);
+    await createNotification(message, "ORDER", order.customer.userId, tx);
+
+    return cancelledOrder;
+  };
+  return tx
+    ? await applyCancellation(tx)
+    : await runTransaction(applyCancellation);
+}
@@ -1,15 +1,37 @@
 import { CreatePaymentDto } from "@/modules/payments/payment.dto";
 import prisma from "@/prisma-client/prismaClient";
+import { runTransaction } from "@/utils/transaction";
 import { NotificationType, Payment } from "@/generated/prisma/client";
 import { getErrorMessage } from "@/utils/errorHandler";
-import axios from "axios";
 import { getOrderStatusMessage } from "@/utils/getOrderStatusMessage";
 import { getSocketId, io } from "@/utils/socket";
+import { recordOrderEvent } from "@/utils/orderStatusTransition";
+import { assertNoViolations, checkCodAllowed } from "@/utils/orderRules";
+import {
+  amountDue,
+  isAllocatedByPreorder,
+  isOpenPreorder,
+} from "@/utils/preorder";
 import { Prisma } from "@prisma/client";
+import {
+  GATEWAY_METHODS,
+  GATEWAY_NAMES,
+  GatewayMethod,
+  getPaymentProvider,
+  isGatewayMethod,
+} from "@/utils/paymentProviders";
+import {
+  holdWalletShare,
+  releaseWalletShare,
+} from "@/utils/splitTender";
+import { debitWallet, lockWallet } from "@/utils/walletLedger";
+import { canCoverFromWallet } from "@/utils/walletHold";
+import { AppError } from "@/utils/appError";
+import httpStatus from "http-status";
 
 export interface PaymentResult {
   payment?: Payment;
-  redirectUrl?: string; // For SSLCommerz redirect
+  redirectUrl?: string; // For gateway redirects
 }
 /**
  * Process payment through customer wallet
@@ -32,107 +54,191 @@ export const createNotification = async (
     io.to(receiverId).emit("newNotification", notification);
   }
 };
+/**
+ * Ask the gateways about an order's pending attempts before they are given
+ * up for another payment
+ * - Attempts still open on the gateway are failed by the caller; should
+ *   one be paid after all, completeGatewayPayment refunds it
+ * @throws AppError if an attempt was already paid; its callback or the
+ *   reconciliation job confirms the order
+ */
+async function assertPendingAttemptsUnpaid(orderId: bigint): Promise<void> {
+  const pendingAttempts = await prisma.payment.findMany({
+    where: {
+      orderId,
+      paymentMethod: { in: [...GATEWAY_METHODS] },
+      paymentStatus: "PENDING",
+    },
+  });
+  for (const attempt of pendingAttempts) {
+    if (!isGatewayMethod(attempt.paymentMethod)) continue;
+    const verification = await getPaymentProvider(
+      attempt.paymentMethod
+    ).query(attempt);
+    if (verification.status === "COMPLETED") {
+      throw new AppError(
+        `Order #${orderId} was already paid via ${
+          GATEWAY_NAMES[attempt.paymentMethod]
+        } and is confirmed shortly`,
+        httpStatus.CONFLICT
+      );
+    }
+  }
+}
+
+/**
+ * Process payment through customer wallet
+ * - Pending gateway attempts are failed, once the gateway confirms they
+ *   were not paid
+ */
 export async function processWalletPayment(
   data: CreatePaymentDto,
   order: any
 ): Promise<PaymentResult> {
-  return await prisma.$transaction(async (tx) => {
-    // Check if customer has wallet
-    if (!order.customer.wallet) {
-      throw new Error("Customer wallet not found");
-    }
+  await assertPendingAttemptsUnpaid(BigInt(data.orderId));
+  return await runTransaction((tx) => payFromWallet(data, order, tx));
+}
 
-    // Check wallet balance
-    const { balance, lockedAmount } = order.customer.wallet;
-    const availableBalance = Number(balance) - Number(lockedAmount);
-    const orderAmount = Number(order.totalAmount);
+/**
+ * Pay the whole order from the wallet in the caller's transaction
+ */
+async function payFromWallet(
+  data: CreatePaymentDto,
+  order: any,
+  tx: Prisma.TransactionClient
+): Promise<PaymentResult> {
+  // Check if customer has wallet
+  if (!order.customer.wallet) {
+    throw new Error("Customer wallet not found");
+  }
 
-    if (availableBalance < orderAmount) {
-      throw new Error(
-        "Insufficient available wallet balance to place this order."
-      );
-    }
+  // Check wallet balance, leaving out money held for other payments
+  const walletId = order.customer.wallet.walletId;
+  const dueAmount = amountDue(order);
+  // Open preorders stay pending until the preorder job confirms them
+  const confirmsOrder = order.status === "PENDING" && !isOpenPreorder(order);
 
-    // Deduct amount from wallet
-    await tx.wallet.update({
-      where: { customerId: Number(order.customerId) },
-      data: {
-        balance: {
-          decrement: order.totalAmount,
-        },
-      },
-    });
+  // Fail earlier gateway attempts, so a late IPN is refunded instead of
+  // paying the order again
+  await tx.payment.updateMany({
+    where: {
+      orderId: Number(data.orderId),
+      paymentMethod: { in: [...GATEWAY_METHODS] },
+      paymentStatus: "PENDING",
+    },
+    data: { paymentStatus: "FAILED" },
+  });
+  const completedPayment = await tx.payment.findFirst({
+    where: { orderId: Number(data.orderId), paymentStatus: "COMPLETED" },
+  });
+  if (completedPayment) {
+    throw new Error(`Order #${data.orderId} has already been paid`);
+  }
 
-    // Create wallet transaction record
-    const walletTransaction = await tx.walletTransaction.create({
-      data: {
-        amount: order.totalAmount,
-        transactionType: "PURCHASE",
-        transactionStatus: "COMPLETED",
-        description: `Payment for Order #${data.orderId}`,
-        walletId: order.customer.wallet.walletId,
-        orderId: Number(data.orderId),
-      },
-    });
+  await lockWallet(walletId, tx);
+  if (!(await canCoverFromWallet(walletId, dueAmount, tx))) {
+    throw new Error(
+      "Insufficient available wallet balance to place this order."
+    );
+  }
 
-    // Create payment record
-    const payment = await tx.payment.create({
-      data: {
-        amount: order.totalAmount,
-        paymentMethod: "WALLET",
-        paymentStatus: "COMPLETED",
-        orderId: Number(data.orderId),
-        transactionId: `ORDER_${data.orderId}_${Date.now()}`,
-        walletTransactionId: walletTransaction.transactionId,
+  // Create wallet transaction record
+  const walletTransaction = await tx.walletTransaction.create({
+    data: {
+      amount: dueAmount,
+      transactionType: "PURCHASE",
+      transactionStatus: "COMPLETED",
+      description: `Payment for Order #${data.orderId}`,
+      walletId: order.customer.wallet.walletId,
+      orderId: Number(data.orderId),
+    },
+  });
+
+  // Deduct amount from wallet
+  await debitWallet(
+    {
+      walletId: walletTransaction.walletId,
+      amount: dueAmount,
+      description: walletTransaction.description!,
+      walletTransactionId: walletTransaction.transactionId,
+    },
+    "SALES",
+    tx
+  );
+
+  // Create payment record
+  const payment = await tx.payment.create({
+    data: {
+      amount: dueAmount,
+      paymentMethod: "WALLET",
+      paymentStatus: "COMPLETED",
+      orderId: Number(data.orderId),
+      transactionId: `ORDER_${data.orderId}_${Date.now()}`,
+      walletTransactionId: walletTransaction.transactionId,
+    },
+  });
+
+  // Update order payment status
+  const updatedOrder = await tx.order.update({
+    where: { orderId: Number(data.orderId) },
+    data: {
+      paymentStatus: "COMPLETED",
+      status: confirmsOrder ? "CONFIRMED" : undefined,
+    },
+  });
+  // Track the order update
+  await tx.orderTracking.create({
+    data: {
+      orderId: Number(data.orderId),
+      status: updatedOrder.status,
+      description: confirmsOrder
+        ? "Order confirmed and payment completed via wallet"
+        : "Payment completed via wallet",
+    },
+  });
+  if (confirmsOrder) {
+    await recordOrderEvent(
+      {
+        orderId: BigInt(data.orderId),
+        fromStatus: order.status,
+        toStatus: "CONFIRMED",
+        actor: "CUSTOMER",
+        actorUserId: order.customer.userId,
       },
-    });
+      tx
+    );
+  }
 
-    // Update order payment status
-    const updatedOrder = await tx.order.update({
-      where: { orderId: Number(data.orderId) },
+  // Preorder stock is taken when it is allocated
+  const orderItems = isAllocatedByPreorder(order) ? [] : order.orderItems;
+  for (const item of orderItems) {
+    // Decrement product stock
+    await tx.product.update({
+      where: { productId: item.productId },
       data: {
-        paymentStatus: "COMPLETED",
-        status: "CONFIRMED",
+        stockQuantity: {
+          decrement: item.quantity * item.packageSize,
+        },
       },
     });
-    // Track the order update
-    await tx.orderTracking.create({
+
+    // Create stock transaction record
+    await tx.stockTransaction.create({
+      
       data: {
+        quantity: item.quantity * item.packageSize,
+        transactionType: "OUT",
+        productId: item.productId,
         orderId: Number(data.orderId),
-        status: "CONFIRMED",
-        description: "Order confirmed and payment completed via wallet",
+        description: `Stock reduced for Order #${data.orderId}`,
       },
     });
-
-    for (const item of order.orderItems) {
-      // Decrement product stock
-      await tx.product.update({
-        where: { productId: item.productId },
-        data: {
-          stockQuantity: {
-            decrement: item.quantity * item.packageSize,
-          },
-        },
-      });
-
-      // Create stock transaction record
-      await tx.stockTransaction.create({
-        
-        data: {
-          quantity: item.quantity * item.packageSize,
-          transactionType: "OUT",
-          productId: item.productId,
-          orderId: Number(data.orderId),
-          description: `Stock reduced for Order #${data.orderId}`,
-        },
-      });
-    }
-    const message = getOrderStatusMessage(updatedOrder.status, data.orderId);
-    await createNotification(message, "ORDER", order.customer.userId, tx);
-    return {
-      payment,
-    };
-  });
+  }
+  const message = getOrderStatusMessage(updatedOrder.status, data.orderId);
+  await createNotification(message, "ORDER", order.customer.userId, tx);
+  return {
+    payment,
+  };
 }
 /**
  * Process COD payment
@@ -141,7 +247,7 @@ export async function processCodPayment(
   data: CreatePaymentDto,
   order: any
 ): Promise<PaymentResult> {
-  return await prisma.$transaction(async (tx) => {
+  return await runTransaction(async (tx) => {
     const existingPayment = await tx.payment.findFirst({
       where: { orderId: Number(data.orderId) },
     });
@@ -151,10 +257,23 @@ export async function processCodPayment(
         `Payment record already exists for order #${data.orderId}`
       );
     }
+
+    // Check the COD limits of the order's delivery zone
+    if (order.deliveryZoneId) {
+      const zone = await tx.deliveryZone.findUnique({
+        where: { zoneId: order.deliveryZoneId },
+      });
+      if (zone) {
+        assertNoViolations(
+          await checkCodAllowed(zone, order.customerId, order.totalAmount, tx)
+        );
+      }
+    }
+
     // Create a pending payment record
     const payment = await tx.payment.create({
       data: {
-        amount: order.totalAmount,
+        amount: amountDue(order),
         paymentMethod: "COD",
         paymentStatus: "PENDING",
         orderId: Number(data.orderId),
@@ -162,12 +281,15 @@ export async function processCodPayment(
       },
     });
 
+    // Open preorders stay pending until the preorder job confirms them
+    const confirmsOrder = order.status === "PENDING" && !isOpenPreorder(order);
+
     // Update order status "AWAITING_CONFIRMATION"
-    await tx.order.update({
+    const updatedOrder = await tx.order.update({
       where: { orderId: Number(data.orderId) },
       data: {
         paymentStatus: "PENDING",
-        status: "CONFIRMED",
+        status: confirmsOrder ? "CONFIRMED" : undefined,
       },
     });
 
@@ -175,11 +297,24 @@ export async function processCodPayment(
     await tx.orderTracking.create({
       data: {
         orderId: Number(data.orderId),
-        status: "CONFIRMED",
-        description:
-          "Order created and confirmed. payment pending for Cash on Delivery",
+        status: updatedOrder.status,
+        description: confirmsOrder
+          ? "Order created and confirmed. payment pending for Cash on Delivery"
+          : "Payment pending for Cash on Delivery",
       },
     });
+    if (confirmsOrder) {
+      await recordOrderEvent(
+        {
+          orderId: BigInt(data.orderId),
+          fromStatus: order.status,
+          toStatus: "CONFIRMED",
+          actor: "CUSTOMER",
+          actorUserId: order.customer.userId,
+        },
+        tx
+      );
+    }
 
     const message = `ধন্যবাদ! আপনার অর্ডারটি নিশ্চিত হয়েছে। দয়া করে পণ্য গ্রহণের সময় পেমেন্ট করুন। (অর্ডার আইডিঃ #${data.orderId})`;
     await createNotification(message, "ORDER", order.customer.userId, tx);
@@ -189,18 +324,24 @@ export async function processCodPayment(
   });
 }
 /**
- * Process payment through SSLCommerz
+ * Start a payment on an external gateway
+ * - Each attempt is a new payment leg; pending attempts are failed once
+ *   the gateway confirms they were not paid, so a late payment on one of
+ *   them still matches its callback and is refunded
+ * - With useWalletBalance, the available wallet balance is held as a
+ *   WALLET leg and only the rest is paid on the gateway; the held share is
+ *   taken when the gateway succeeds and released when it fails
  */
-export async function processSSLCommerzPayment(
+export async function processGatewayPayment(
   data: CreatePaymentDto,
-  order: any
+  order: any,
+  method: GatewayMethod
 ): Promise<PaymentResult> {
   try {
     // Check if there's any existing COMPLETED or REFUNDED payment for this order
     const completedOrRefunded = await prisma.payment.findFirst({
       where: {
         orderId: Number(data.orderId),
-        paymentMethod: "SSLCOMMERZ",
         paymentStatus: {
           in: ["COMPLETED", "REFUNDED"],
         },
@@ -212,212 +353,93 @@ export async function processSSLCommerzPayment(
         `This order has already been ${completedOrRefunded.paymentStatus}. Payment not allowed.`
       );
     }
-    // Check if SSLCommerz payment already PENDING or FAILED for this order
-    const existingPayment = await prisma.payment.findFirst({
-      where: {
-        orderId: Number(data.orderId),
-        paymentMethod: "SSLCOMMERZ",
-        paymentStatus: {
-          in: ["PENDING", "FAILED"],
-        },
-      },
-    });
 
-    // Initialize SSLCommerz payment
-    const sslcommerzResponse = await initializeSSLCommerzPayment({
-      orderId: data.orderId,
-      amount: order.totalAmount,
-      customerEmail: order.customer.user.email,
-      customerPhone: order.customer.user.phone,
-      customerName: order.customer.user.name,
+    await assertPendingAttemptsUnpaid(BigInt(data.orderId));
+    const dueAmount = amountDue(order);
+    const wallet = order.customer.wallet;
+    if (
+      data.useWalletBalance &&
+      wallet &&
+      (await canCoverFromWallet(wallet.walletId, dueAmount, prisma))
+    ) {
+      // The wallet covers the whole order, so no gateway leg is needed;
+      // checked again under the wallet lock, as another payment may have
+      // taken the money since
+      const walletPayment = await runTransaction(async (tx) => {
+        await lockWallet(wallet.walletId, tx);
+        if (!(await canCoverFromWallet(wallet.walletId, dueAmount, tx))) {
+          return null;
+        }
+        await releaseWalletShare(order.orderId, tx);
+        return await payFromWallet(data, order, tx);
+      });
+      if (walletPayment) return walletPayment;
+    }
+
+    // Hold the wallet share, or release one held by an earlier attempt
+    const walletShare = await prisma.$transaction(async (tx) => {
+      if (!data.useWalletBalance) {
+        await releaseWalletShare(order.orderId, tx);
+        return null;
+      }
+      return await holdWalletShare(order, dueAmount, tx);
     });
+    const gatewayAmount = walletShare
+      ? dueAmount.sub(walletShare.amount)
+      : dueAmount;
 
-    // Validate SSLCommerz response
-    if (!sslcommerzResponse || sslcommerzResponse.status !== "SUCCESS") {
-      throw new Error(
-        `SSLCommerz initialization failed: ${
-          sslcommerzResponse?.failedreason || "Unknown error"
-        }`
-      );
+    // Initialize the gateway payment
+    const transactionId = `ORDER_${data.orderId}_${Date.now()}`;
+    let session;
+    try {
+      session = await getPaymentProvider(method).init({
+        transactionId,
+        orderId: data.orderId,
+        amount: gatewayAmount,
+        customer: {
+          name: order.customer.user.name,
+          email: order.customer.user.email,
+          phone: order.customer.user.phone,
+        },
+      });
+    } catch (error) {
+      if (walletShare) {
+        await prisma.$transaction((tx) =>
+          releaseWalletShare(order.orderId, tx)
+        );
+      }
+      throw error;
     }
-    let payment;
-    if (existingPayment) {
-      // Update the failed or pending payment
-      payment = await prisma.payment.update({
-        where: { paymentId: existingPayment.paymentId },
-        data: {
-          transactionId: sslcommerzResponse.transactionId,
+
+    const payment = await prisma.$transaction(async (tx) => {
+      // Fail the earlier attempts, keeping their transaction IDs so a late
+      // IPN is refunded instead of paying the order again
+      await tx.payment.updateMany({
+        where: {
+          orderId: Number(data.orderId),
+          paymentMethod: { in: [...GATEWAY_METHODS] },
           paymentStatus: "PENDING",
         },
+        data: { paymentStatus: "FAILED" },
       });
-    } else {
-      // Create new payment
-      payment = await prisma.payment.create({
+      return await tx.payment.create({
         data: {
-          amount: order.totalAmount,
-          paymentMethod: "SSLCOMMERZ",
+          amount: gatewayAmount,
+          paymentMethod: method,
           paymentStatus: "PENDING",
-          transactionId: sslcommerzResponse.transactionId,
+          transactionId,
+          gatewayReference: session.gatewayReference ?? null,
           orderId: Number(data.orderId),
         },
       });
-    }
+    });
 
     return {
       payment,
-      redirectUrl: sslcommerzResponse.redirectGatewayURL,
-    };
-  } catch (error) {
-    console.error("SSLCommerz payment processing error:", error);
-    throw new Error(`SSLCommerz payment failed: ${getErrorMessage(error)}`);
-  }
-}
-
-/**
- *  SSLCommerz payment gateway initialization using direct API calls
- */
-async function initializeSSLCommerzPayment(data: {
-  orderId: bigint;
-  amount: number;
-  customerEmail?: string;
-  customerPhone: string;
-  customerName?: string;
-}) {
-  try {
-    // Validate environment variables
-    if (
-      !process.env.SSLCOMMERZ_STORE_ID ||
-      !process.env.SSLCOMMERZ_STORE_PASSWD
-    ) {
-      throw new Error("SSLCommerz credentials not configured");
-    }
-
-    // Determine the base URL based on environment
-    const isLive = process.env.NODE_ENV === "production";
-    const baseUrl = isLive
-      ? "https://securepay.sslcommerz.com"
-      : "https://sandbox.sslcommerz.com";
-
-    const transactionId = `ORDER_${data.orderId}_${Date.now()}`;
-
-    // Prepare payment data for SSLCommerz API
-    const paymentData = {
-      store_id: process.env.SSLCOMMERZ_STORE_ID,
-      store_passwd: process.env.SSLCOMMERZ_STORE_PASSWD,
-      total_amount: Number(data.amount).toFixed(2),
-      currency: "BDT",
-      tran_id: transactionId,
-      success_url: `${process.env.SERVER_URL}/api/payments/sslcommerz/success`,
-      fail_url: `${process.env.SERVER_URL}/api/payments/sslcommerz/fail`,
-      cancel_url: `${process.env.SERVER_URL}/api/payments/sslcommerz/cancel`,
-      ipn_url: `${process.env.SERVER_URL}/api/payments/sslcommerz/ipn`,
-      shipping_method: "Courier",
-      product_name: `Order Payment #${data.orderId}`,
-      product_category: "Food",
-      product_profile: "general",
-      cus_name: data.customerName || "Customer",
-      cus_email: data.customerEmail || "customer@example.com",
-      cus_add1: "N/A",
-      cus_city: "Chittagong",
-      cus_state: "Chittagong",
-      cus_postcode: "1000",
-      cus_country: "Bangladesh",
-      cus_phone: data.customerPhone,
-      ship_name: data.customerName || "Customer",
-      ship_add1: "N/A",
-      ship_city: "Chittagong",
-      ship_state: "Chittagong",
-      ship_postcode: "1000",
-      ship_country: "Bangladesh",
-    };
-
-    // Make the API call to SSLCommerz
-    const response = await axios.post(
-      `${baseUrl}/gwprocess/v4/api.php`,
-      new URLSearchParams(paymentData).toString(),
-      {
-        headers: {
-          "Content-Type": "application/x-www-form-urlencoded",
-          Accept: "application/json",
-        },
-        timeout: 30000, // 30 seconds timeout
-      }
-    );
-    // Check if the response is successful
-    if (response.data.status === "SUCCESS") {
-      return {
-        status: "SUCCESS",
-        sessionkey: response.data.sessionkey,
-        redirectGatewayURL: response.data.GatewayPageURL,
-        failedreason: null,
-        transactionId,
-      };
-    } else {
-      return {
-        status: "FAILED",
-        sessionkey: null,
-        redirectGatewayURL: null,
-        failedreason:
-          response.data.failedreason || "Unknown error from SSLCommerz",
-      };
-    }
-  } catch (error: unknown) {
-    if (axios.isAxiosError(error)) {
-      // Handle specific HTTP errors
-      if (error.response?.status === 400) {
-        throw new Error(
-          `SSLCommerz API Bad Request: ${
-            error.response.data?.failedreason || "Invalid request parameters"
-          }`
-        );
-      } else if (error.response?.status === 401) {
-        throw new Error(
-          "SSLCommerz API Authentication failed: Invalid store credentials"
-        );
-      } else if (error.response?.status! >= 500) {
-        throw new Error("SSLCommerz API server error: Please try again later");
-      } else {
-        throw new Error(`SSLCommerz API request failed: ${error.message}`);
-      }
-    }
-    const code = (error as any).code;
-    // Handle network errors
-    if (code === "ECONNABORTED") {
-      throw new Error("SSLCommerz API timeout: Request took too long");
-    } else if (code === "ENOTFOUND" || code === "ECONNREFUSED") {
-      throw new Error("SSLCommerz API connection failed: Network error");
-    }
-    throw error;
-  }
-}
-
-/**
- * Validate SSLCommerz payment
- */
-export async function validateSSLCommerzPayment(validationData: any) {
-  try {
-    const isLive = process.env.NODE_ENV === "production";
-    const baseUrl = isLive
-      ? "https://securepay.sslcommerz.com"
-      : "https://sandbox.sslcommerz.com";
-
-    const validationParams = {
-      val_id: validationData.val_id,
-      store_id: process.env.SSLCOMMERZ_STORE_ID!,
-      store_passwd: process.env.SSLCOMMERZ_STORE_PASSWD!,
-      v: 1, // optional
-      format: "json", // optional: for JSON response instead of XML
+      redirectUrl: session.redirectUrl,
     };
-
-    const response = await axios.get(
-      `${baseUrl}/validator/api/validationserverAPI.php`,
-      {
-        params: validationParams,
-        timeout: 30000,
-      }
-    );
-    return response.data;
   } catch (error) {
-    throw error;
+    console.error(`${method} payment processing error:`, error);
+    throw new Error(`${method} payment failed: ${getErrorMessage(error)}`);
   }
 }
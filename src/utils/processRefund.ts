@@ -0,0 +1,49 @@
+import { Prisma, WalletTransaction } from "@/generated/prisma/client";
+import { Decimal } from "@/generated/prisma/client/runtime/library";
+import { createNotification } from "@/utils/processPayment";
+import { creditWallet } from "@/utils/walletLedger";
+
+/**
+ * Credit a refund to the customer's wallet
+ * - Creates the wallet if the customer does not have one yet
+ * - Records a completed REFUND wallet transaction linked to the order
+ */
+export async function refundToWallet(
+  customer: { customerId: bigint; userId: bigint },
+  amount: Decimal,
+  orderId: bigint,
+  description: string,
+  tx: Prisma.TransactionClient
+): Promise<WalletTransaction> {
+  const wallet = await tx.wallet.upsert({
+    where: { customerId: customer.customerId },
+    update: {},
+    create: { customerId: customer.customerId },
+  });
+
+  const walletTransaction = await tx.walletTransaction.create({
+    data: {
+      amount,
+      transactionType: "REFUND",
+      transactionStatus: "COMPLETED",
+      description,
+      walletId: wallet.walletId,
+      orderId,
+    },
+  });
+  await creditWallet(
+    {
+      walletId: wallet.walletId,
+      amount,
+      description,
+      walletTransactionId: walletTransaction.transactionId,
+    },
+    "REFUNDS",
+    tx
+  );
+
+  const message = `আপনার অর্ডার #${orderId} এর ${amount} টাকা আপনার ওয়ালেটে ফেরত দেওয়া হয়েছে।`;
+  await createNotification(message, "REFUND", customer.userId, tx);
+
+  return walletTransaction;
+}
@@ -16,7 +16,11 @@ import {
 import logger from "@/utils/logger";
 import { Prisma } from "@prisma/client";
 import prisma from "@/prisma-client/prismaClient";
+import { runTransaction } from "@/utils/transaction";
 import { createNotification } from "@/utils/processPayment";
+import { reserveFirstAvailableSlot } from "@/utils/deliverySlot";
+import { recordOrderEvents } from "@/utils/orderStatusTransition";
+import { canCoverFromWallet, placeHold } from "@/utils/walletHold";
 
 // Types
 export type SubscriptionWithRelations = {
@@ -24,6 +28,7 @@ export type SubscriptionWithRelations = {
   paymentMethod: string;
   planPrice: Decimal;
   shippingAddress: string;
+  zoneCode?: string | null;
   customer: CustomerWithWallet;
   subscriptionPlan: {
     planId: bigint;
@@ -121,21 +126,12 @@ export const hasInsufficientStock = (
   return product.packageSize * quantity > product.stockQuantity;
 };
 
-export const hasInsufficientWalletBalance = (
-  wallet: any,
-  price: Decimal
-): boolean => {
-  return (
-    wallet.balance.toNumber() - wallet.lockedBalance.toNumber() <
-    price.toNumber()
-  );
-};
-
-export const canLockNextPayment = (wallet: any, price: Decimal): boolean => {
-  return (
-    wallet.balance.toNumber() - wallet.lockedBalance.toNumber() >=
-    price.toNumber()
-  );
+export const canLockNextPayment = (
+  wallet: { walletId: bigint },
+  price: Decimal,
+  tx: Prisma.TransactionClient
+): Promise<boolean> => {
+  return canCoverFromWallet(wallet.walletId, price, tx);
 };
 
 // Notification helper functions
@@ -249,6 +245,23 @@ export const createOrderWithItems = async (
       },
     ],
   });
+  await recordOrderEvents(
+    [
+      {
+        orderId: order.orderId,
+        fromStatus: null,
+        toStatus: "PENDING",
+        actor: "SYSTEM",
+      },
+      {
+        orderId: order.orderId,
+        fromStatus: "PENDING",
+        toStatus: "CONFIRMED",
+        actor: "SYSTEM",
+      },
+    ],
+    tx
+  );
   return order;
 };
 export const createSubscriptionDelivery = async (
@@ -262,12 +275,28 @@ export const createSubscriptionDelivery = async (
   const frequency = subscription.subscriptionPlan.frequency;
   const nextDeliveryDate = getNextDeliveryDate(today, frequency);
 
+  // Book a slot in the customer's zone, if slots are set up for it
+  const slot = subscription.zoneCode
+    ? await reserveFirstAvailableSlot(
+        subscription.zoneCode,
+        nextDeliveryDate,
+        tx
+      )
+    : null;
+  if (slot) {
+    await tx.order.update({
+      where: { orderId: order.orderId },
+      data: { deliverySlotId: slot.slotId },
+    });
+  }
+
   await tx.subscriptionDelivery.create({
     data: {
       deliveryDate: nextDeliveryDate,
       status: "CONFIRMED",
       subscriptionId: subscription.subscriptionId,
       orderId: order.orderId,
+      deliverySlotId: slot?.slotId,
     },
   });
   // Notify customer
@@ -319,12 +348,7 @@ const handleRenewalWalletPayment = async (
     return;
   }
 
-  if (canLockNextPayment(wallet, price)) {
-    await tx.wallet.update({
-      where: { walletId: Number(wallet.walletId) },
-      data: { lockedBalance: { increment: price } },
-    });
-
+  if (await canLockNextPayment(wallet, price, tx)) {
     await tx.subscription.update({
       where: { subscriptionId: subscription.subscriptionId },
       data: {
@@ -355,6 +379,19 @@ const handleRenewalWalletPayment = async (
         orderId: order.orderId,
       },
     });
+    // Hold the renewal price until the delivery
+    await placeHold(
+      {
+        walletId: wallet.walletId,
+        amount: price,
+        reason: "SUBSCRIPTION",
+        description: `Funds locked for subscription Order #${order.orderId}`,
+        orderId: order.orderId,
+        subscriptionId: subscription.subscriptionId,
+        walletTransactionId: walletTransaction.transactionId,
+      },
+      tx
+    );
     // Create payment record
     await tx.payment.create({
       data: {
@@ -407,7 +444,7 @@ export const handleWalletPayment = async (
   const { customer, subscriptionPlan } = subscription;
   try {
     // Handle next renewal payment cycle
-    await prisma.$transaction(async (tx) => {
+    await runTransaction(async (tx) => {
       await handleRenewalWalletPayment(
         subscription,
         customer,
@@ -430,7 +467,7 @@ export const handleCODPayment = async (
 ): Promise<void> => {
   const { customer, subscriptionPlan, planPrice: price } = subscription;
 
-  await prisma.$transaction(async (tx) => {
+  await runTransaction(async (tx) => {
     const product = await getProduct(subscription, tx);
     if (hasInsufficientStock(product)) {
       await pauseAndNotifyInsufficientStock(subscription, customer, tx);
@@ -0,0 +1,70 @@
+import { Address, Prisma } from "@/generated/prisma/client";
+import prisma from "@/prisma-client/prismaClient";
+import { AppError } from "@/utils/appError";
+import httpStatus from "http-status";
+
+export interface ShippingAddressInput {
+  addressId?: bigint;
+  shippingAddress?: string;
+}
+
+export interface ResolvedShippingAddress {
+  addressId: bigint | null;
+  // Text snapshot stored on the order or subscription
+  shippingAddress: string;
+}
+
+/**
+ * Formats an address book entry as the single line stored on orders.
+ * Empty parts, e.g. of addresses copied from User.address, are left out.
+ */
+export const formatAddress = (address: Address): string =>
+  [
+    `${address.recipientName} (${address.phone})`,
+    address.addressLine,
+    address.upazila,
+    address.district,
+    [address.division, address.postcode].filter(Boolean).join(" "),
+  ]
+    .filter(Boolean)
+    .join(", ");
+
+/**
+ * Resolve where an order or subscription ships to.
+ * An address book entry wins over free text; with neither, the customer's
+ * default address is used.
+ * @throws AppError if the address is not the customer's, or none is available
+ */
+export async function resolveShippingAddress(
+  customerId: bigint,
+  input: ShippingAddressInput,
+  tx: Prisma.TransactionClient = prisma
+): Promise<ResolvedShippingAddress> {
+  if (input.addressId) {
+    const address = await tx.address.findFirst({
+      where: { addressId: input.addressId, customerId },
+    });
+    if (!address) {
+      throw new AppError("Address not found", httpStatus.NOT_FOUND);
+    }
+    return {
+      addressId: address.addressId,
+      shippingAddress: formatAddress(address),
+    };
+  }
+
+  if (input.shippingAddress) {
+    return { addressId: null, shippingAddress: input.shippingAddress };
+  }
+
+  const defaultAddress = await tx.address.findFirst({
+    where: { customerId, isDefault: true },
+  });
+  if (!defaultAddress) {
+    throw new AppError("Shipping address is required", httpStatus.BAD_REQUEST);
+  }
+  return {
+    addressId: defaultAddress.addressId,
+    shippingAddress: formatAddress(defaultAddress),
+  };
+}
@@ -4,6 +4,14 @@ import logger from "@/utils/logger";
 import { Server as SocketIOServer } from "socket.io";
 import { User, UserRole } from "@/generated/prisma/client";
 import { authenticateSocket } from "@/middlewares/auth";
+import {
+  assertCanTrackOrder,
+  getOrderTrackingSnapshot,
+  orderRoom,
+  recordRiderLocation,
+  zRiderLocation,
+} from "@/utils/deliveryTracking";
+import { getErrorMessage } from "@/utils/errorHandler";
 
 const server = http.createServer(app);
 
@@ -45,6 +53,19 @@ export function getAllOnlineUsers(): string[] {
   return Array.from(onlineUsers.keys());
 }
 
+type SocketAck = (response: {
+  success: boolean;
+  message?: string;
+  data?: unknown;
+}) => void;
+
+// Helper to parse an order ID sent by a client
+function parseOrderId(orderId: unknown): bigint {
+  const parsed = BigInt(String(orderId));
+  if (parsed <= 0n) throw new Error("Order ID must be a positive integer");
+  return parsed;
+}
+
 io.use(authenticateSocket);
 
 io.on("connection", async (socket) => {
@@ -60,6 +81,45 @@ io.on("connection", async (socket) => {
   // Notify about online status change
   io.emit("onlineUsers", getAllOnlineUsers());
 
+  // Follow the live status, rider location and ETA of an order
+  socket.on("joinOrder", async (orderId: unknown, ack?: SocketAck) => {
+    try {
+      const id = parseOrderId(orderId);
+      await assertCanTrackOrder(user, id);
+      await socket.join(orderRoom(id));
+      ack?.({ success: true, data: await getOrderTrackingSnapshot(id) });
+    } catch (error) {
+      ack?.({ success: false, message: getErrorMessage(error) });
+    }
+  });
+
+  socket.on("leaveOrder", async (orderId: unknown) => {
+    await socket.leave(orderRoom(String(orderId)));
+  });
+
+  // Riders push their location while carrying orders
+  socket.on("riderLocation", async (payload: unknown, ack?: SocketAck) => {
+    try {
+      if (user.role !== UserRole.RIDER) {
+        throw new Error("Only riders can share their location");
+      }
+      const updates = await recordRiderLocation(
+        user.userId,
+        zRiderLocation.parse(payload)
+      );
+      updates?.forEach((update) => {
+        io.to(orderRoom(update.orderId)).emit("riderLocation", update);
+        io.to(orderRoom(update.orderId)).emit("orderEta", {
+          orderId: update.orderId,
+          etaMinutes: update.etaMinutes,
+        });
+      });
+      ack?.({ success: true, data: { throttled: updates === null } });
+    } catch (error) {
+      ack?.({ success: false, message: getErrorMessage(error) });
+    }
+  });
+
   socket.on("disconnect", (reasone) => {
     logger.info(
       `User disconnected: ${user.name} (${user.userId}): ${socket.id} Reasone: ${reasone}`
@@ -0,0 +1,150 @@
+import { addHours } from "date-fns";
+import { Payment, Prisma } from "@/generated/prisma/client";
+import { Decimal } from "@/generated/prisma/client/runtime/library";
+import {
+  captureHold,
+  findActiveHolds,
+  getAvailableBalance,
+  placeHold,
+  releaseHold,
+} from "@/utils/walletHold";
+
+// Outlives the 24 hours after which the reconciliation job fails an
+// abandoned gateway leg, which releases the share itself
+const SHARE_HOLD_HOURS = 25;
+
+/**
+ * Hold as much of the customer's available wallet balance as the order
+ * needs, as the wallet leg of a split payment
+ * - The share is put on a SPLIT_PAYMENT hold with a LOCKED purchase
+ *   transaction and a LOCKED WALLET payment, until the gateway leg settles
+ * - A share already held for the order, e.g. by an earlier attempt, is kept
+ * @returns The held wallet payment, or null if the wallet has nothing to give
+ */
+export async function holdWalletShare(
+  order: { orderId: bigint; customerId: bigint },
+  dueAmount: Decimal,
+  tx: Prisma.TransactionClient
+): Promise<Payment | null> {
+  const heldPayment = await tx.payment.findFirst({
+    where: {
+      orderId: order.orderId,
+      paymentMethod: "WALLET",
+      paymentStatus: "LOCKED",
+    },
+  });
+  if (heldPayment) return heldPayment;
+
+  const wallet = await tx.wallet.findUnique({
+    where: { customerId: order.customerId },
+  });
+  if (!wallet) return null;
+  const available = await getAvailableBalance(wallet.walletId, tx);
+  const share = Decimal.min(available, dueAmount);
+  if (share.lessThanOrEqualTo(0)) return null;
+
+  const walletTransaction = await tx.walletTransaction.create({
+    data: {
+      amount: share,
+      transactionType: "PURCHASE",
+      transactionStatus: "LOCKED",
+      description: `Wallet share held for Order #${order.orderId}`,
+      walletId: wallet.walletId,
+      orderId: order.orderId,
+    },
+  });
+  await placeHold(
+    {
+      walletId: wallet.walletId,
+      amount: share,
+      reason: "SPLIT_PAYMENT",
+      description: walletTransaction.description!,
+      orderId: order.orderId,
+      walletTransactionId: walletTransaction.transactionId,
+      expiresAt: addHours(new Date(), SHARE_HOLD_HOURS),
+    },
+    tx
+  );
+  return await tx.payment.create({
+    data: {
+      amount: share,
+      paymentMethod: "WALLET",
+      paymentStatus: "LOCKED",
+      orderId: order.orderId,
+      walletTransactionId: walletTransaction.transactionId,
+    },
+  });
+}
+
+/**
+ * Wallet shares of an order that are held for its gateway leg
+ */
+const findHeldShares = (orderId: bigint, tx: Prisma.TransactionClient) =>
+  findActiveHolds({ orderId, reason: "SPLIT_PAYMENT" }, tx);
+
+/**
+ * Take the held wallet share once the gateway leg is paid
+ * @param shareAmount - What the wallet share must come to, zero when the
+ *   gateway leg pays the whole order
+ * @returns Whether that share was still held; nothing is taken if it was
+ *   not, e.g. because its hold expired before the gateway reported back
+ */
+export async function captureWalletShare(
+  orderId: bigint,
+  shareAmount: Decimal,
+  tx: Prisma.TransactionClient
+): Promise<boolean> {
+  const holds = await findHeldShares(orderId, tx);
+  const heldAmount = holds.reduce(
+    (sum, hold) => sum.add(hold.amount),
+    new Decimal(0)
+  );
+  if (!heldAmount.equals(shareAmount)) return false;
+
+  for (const hold of holds) {
+    const description = `Payment for Order #${orderId}`;
+    await captureHold(hold, description, tx);
+    if (!hold.walletTransactionId) continue;
+    await tx.walletTransaction.update({
+      where: { transactionId: hold.walletTransactionId },
+      data: { transactionStatus: "COMPLETED", description },
+    });
+    await tx.payment.updateMany({
+      where: {
+        walletTransactionId: hold.walletTransactionId,
+        paymentStatus: "LOCKED",
+      },
+      data: { paymentStatus: "COMPLETED" },
+    });
+  }
+  return true;
+}
+
+/**
+ * Give the held wallet share back when the gateway leg fails
+ */
+export async function releaseWalletShare(
+  orderId: bigint,
+  tx: Prisma.TransactionClient
+): Promise<void> {
+  for (const hold of await findHeldShares(orderId, tx)) {
+    const description = `Held wallet share released for Order #${orderId}`;
+    await releaseHold(hold, description, tx);
+    if (!hold.walletTransactionId) continue;
+    await tx.walletTransaction.update({
+      where: { transactionId: hold.walletTransactionId },
+      data: {
+        transactionType: "REFUND",
+        transactionStatus: "REFUNDED",
+        description,
+      },
+    });
+    await tx.payment.updateMany({
+      where: {
+        walletTransactionId: hold.walletTransactionId,
+        paymentStatus: "LOCKED",
+      },
+      data: { paymentStatus: "FAILED" },
+    });
+  }
+}
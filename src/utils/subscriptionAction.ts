@@ -1,5 +1,6 @@
 import { Subscription } from "@/generated/prisma/client";
 import prisma from "@/prisma-client/prismaClient";
+import { runTransaction } from "@/utils/transaction";
 import { differenceInCalendarDays } from "date-fns";
 import {
   canLockNextPayment,
@@ -11,6 +12,13 @@ import {
   updateProductStock,
 } from "@/utils/processSubscription";
 import { createNotification } from "@/utils/processPayment";
+import { releaseDeliverySlot } from "@/utils/deliverySlot";
+import { recordOrderEvent } from "@/utils/orderStatusTransition";
+import {
+  findActiveHolds,
+  placeHold,
+  releaseHold,
+} from "@/utils/walletHold";
 
 export const canPauseOrCancelSubscription = async (
   subscriptionId: bigint,
@@ -31,7 +39,7 @@ export async function pauseOrCancelSubscription(
   bufferDays: number = 2,
   userId: bigint
 ): Promise<Subscription> {
-  return await prisma.$transaction(async (tx) => {
+  return await runTransaction(async (tx) => {
     const { canProceed, nextDelivery } = await canPauseOrCancelSubscription(
       subscription.subscriptionId,
       bufferDays
@@ -53,7 +61,14 @@ export async function pauseOrCancelSubscription(
         where: { deliveryId: nextDelivery?.deliveryId },
         data: { status: "CANCELLED" },
       });
+      // Free the delivery slot
+      if (nextDelivery.deliverySlotId) {
+        await releaseDeliverySlot(nextDelivery.deliverySlotId, tx);
+      }
       // Cancel order
+      const previousOrder = await tx.order.findUniqueOrThrow({
+        where: { orderId: nextDelivery.orderId },
+      });
       const order = await tx.order.update({
         where: { orderId: nextDelivery?.orderId },
         data: { status: "CANCELLED", paymentStatus: "REFUNDED" },
@@ -66,29 +81,46 @@ export async function pauseOrCancelSubscription(
           description: `Cancelled due to subscription ${action.toLowerCase()}`,
         },
       });
+      await recordOrderEvent(
+        {
+          orderId: nextDelivery.orderId,
+          fromStatus: previousOrder.status,
+          toStatus: "CANCELLED",
+          actor: "CUSTOMER",
+          actorUserId: userId,
+          reason: `Subscription ${action.toLowerCase()}`,
+        },
+        tx
+      );
       // update payment record
       const paymentStatus =
         subscription.paymentMethod === "WALLET" ? "REFUNDED" : "FAILED";
-      await tx.payment.update({
+      await tx.payment.updateMany({
         where: { orderId: Number(nextDelivery?.orderId) },
         data: { paymentStatus },
       });
       if (subscription.paymentMethod === "WALLET") {
-        const walletId = subscription.customer.wallet.walletId;
-        if (
-          Number(subscription.customer.wallet.lockedBalance) <
-          Number(order.totalAmount)
-        ) {
-          throw new Error("Insufficient locked balance");
+        const holds = await findActiveHolds(
+          { orderId: order.orderId, reason: "SUBSCRIPTION" },
+          tx
+        );
+        if (holds.length === 0) {
+          throw new Error("No wallet funds are held for this order");
         }
         // Refund wallet balance
-        await tx.wallet.update({
-          where: { walletId },
-          data: { lockedBalance: { decrement: order.totalAmount } },
-        });
+        for (const hold of holds) {
+          await releaseHold(
+            hold,
+            `Refund for Order #${nextDelivery?.orderId}`,
+            tx
+          );
+        }
         // Update wallet transaction record
-        await tx.walletTransaction.update({
-          where: { orderId: nextDelivery?.orderId },
+        await tx.walletTransaction.updateMany({
+          where: {
+            orderId: nextDelivery?.orderId,
+            transactionType: "PURCHASE",
+          },
           data: {
             transactionType: "REFUND",
             transactionStatus: "REFUNDED",
@@ -133,7 +165,7 @@ export async function processResumeSubscription(
   subscription: any,
   userId: bigint
 ): Promise<Subscription> {
-  return await prisma.$transaction(async (tx) => {
+  return await runTransaction(async (tx) => {
     const plan = subscription.subscriptionPlan;
     const customer = subscription.customer;
     const wallet = customer.wallet;
@@ -177,16 +209,9 @@ export async function processResumeSubscription(
     );
     //
     if (paymentMethod === "WALLET") {
-      if (!canLockNextPayment(wallet, plan.price)) {
+      if (!(await canLockNextPayment(wallet, plan.price, tx))) {
         throw new Error("Insufficient wallet balance to lock funds.");
       }
-      // Lock funds
-      await tx.wallet.update({
-        where: { walletId: wallet.walletId },
-        data: {
-          lockedBalance: { increment: plan.price },
-        },
-      });
       // Record wallet transaction for lock
       const walletTransaction = await tx.walletTransaction.create({
         data: {
@@ -198,6 +223,19 @@ export async function processResumeSubscription(
           description: `LOCK_FUNDS_FOR_SUBSCRIPTION:#${subscription.subscriptionId}_PLAN:#${subscription.subscriptionPlan.planId}_ORDER:#${order.orderId}`, // Required description for further processing!!!
         },
       });
+      // Lock funds
+      await placeHold(
+        {
+          walletId: wallet.walletId,
+          amount: plan.price,
+          reason: "SUBSCRIPTION",
+          description: `Funds locked for subscription Order #${order.orderId}`,
+          orderId: order.orderId,
+          subscriptionId: subscription.subscriptionId,
+          walletTransactionId: walletTransaction.transactionId,
+        },
+        tx
+      );
       // Create payment record
       await tx.payment.create({
         data: {
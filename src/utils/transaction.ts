@@ -0,0 +1,50 @@
+import { Prisma } from "@/generated/prisma/client";
+import prisma from "@/prisma-client/prismaClient";
+import logger from "@/utils/logger";
+
+type CommitCallback = () => void;
+
+// Side effects waiting for their transaction to commit
+const pendingCallbacks = new WeakMap<
+  Prisma.TransactionClient,
+  CommitCallback[]
+>();
+
+/**
+ * Run an interactive transaction, then the side effects registered in it
+ * with afterCommit. They are dropped if the transaction rolls back.
+ */
+export async function runTransaction<T>(
+  fn: (tx: Prisma.TransactionClient) => Promise<T>
+): Promise<T> {
+  const callbacks: CommitCallback[] = [];
+  const result = await prisma.$transaction(async (tx) => {
+    pendingCallbacks.set(tx, callbacks);
+    return await fn(tx);
+  });
+
+  for (const callback of callbacks) {
+    try {
+      callback();
+    } catch (error) {
+      logger.error("Post-commit callback failed:", error);
+    }
+  }
+  return result;
+}
+
+/**
+ * Run a side effect, e.g. a socket event, once the transaction commits.
+ * Outside a transaction started with runTransaction it runs right away.
+ */
+export function afterCommit(
+  tx: Prisma.TransactionClient,
+  callback: CommitCallback
+): void {
+  const callbacks = pendingCallbacks.get(tx);
+  if (callbacks) {
+    callbacks.push(callback);
+  } else {
+    callback();
+  }
+}
@@ -0,0 +1,217 @@
+import httpStatus from "http-status";
+import prisma from "@/prisma-client/prismaClient";
+import {
+  Prisma,
+  WalletHold,
+  WalletHoldReason,
+} from "@/generated/prisma/client";
+import { Decimal } from "@/generated/prisma/client/runtime/library";
+import { AppError } from "@/utils/appError";
+import logger from "@/utils/logger";
+import { createNotification } from "@/utils/processPayment";
+import {
+  captureWalletFunds,
+  lockWallet,
+  lockWalletFunds,
+  payoutWalletFunds,
+  releaseWalletFunds,
+} from "@/utils/walletLedger";
+
+export interface HoldRequest {
+  walletId: bigint;
+  amount: Decimal.Value;
+  reason: WalletHoldReason;
+  description: string;
+  orderId?: bigint;
+  subscriptionId?: bigint;
+  walletTransactionId?: bigint;
+  expiresAt?: Date;
+}
+
+/**
+ * What a wallet's customer can spend: its balance minus its active holds
+ */
+export async function getAvailableBalance(
+  walletId: bigint,
+  tx: Prisma.TransactionClient
+): Promise<Decimal> {
+  const wallet = await tx.wallet.findUniqueOrThrow({ where: { walletId } });
+  const { _sum } = await tx.walletHold.aggregate({
+    where: { walletId, status: "ACTIVE" },
+    _sum: { amount: true },
+  });
+  return wallet.balance.sub(_sum.amount ?? 0);
+}
+
+/**
+ * Whether a wallet can cover an amount from its available balance
+ */
+export async function canCoverFromWallet(
+  walletId: bigint,
+  amount: Decimal.Value,
+  tx: Prisma.TransactionClient
+): Promise<boolean> {
+  const available = await getAvailableBalance(walletId, tx);
+  return available.greaterThanOrEqualTo(amount);
+}
+
+/**
+ * Set part of a wallet's available balance aside
+ * @throws AppError if the available balance cannot cover the hold
+ */
+export async function placeHold(
+  { description, ...request }: HoldRequest,
+  tx: Prisma.TransactionClient
+): Promise<WalletHold> {
+  const amount = new Decimal(request.amount);
+  await lockWallet(request.walletId, tx);
+  if (!(await canCoverFromWallet(request.walletId, amount, tx))) {
+    throw new AppError(
+      "Insufficient available wallet balance",
+      httpStatus.BAD_REQUEST
+    );
+  }
+
+  await lockWalletFunds(
+    {
+      walletId: request.walletId,
+      amount,
+      description,
+      walletTransactionId: request.walletTransactionId,
+    },
+    tx
+  );
+  return await tx.walletHold.create({ data: { ...request, amount } });
+}
+
+/**
+ * Move a hold out of ACTIVE, unless it was settled concurrently
+ */
+async function settleHold(
+  hold: WalletHold,
+  data: Prisma.WalletHoldUpdateManyMutationInput,
+  tx: Prisma.TransactionClient
+): Promise<void> {
+  const { count } = await tx.walletHold.updateMany({
+    where: { holdId: hold.holdId, status: "ACTIVE" },
+    data,
+  });
+  if (count === 0) {
+    throw new AppError(
+      `Wallet hold #${hold.holdId} is no longer active`,
+      httpStatus.CONFLICT
+    );
+  }
+}
+
+/**
+ * Take the held money out of the wallet once its payment is final.
+ * Withdrawal holds are paid out, every other hold goes to sales.
+ */
+export async function captureHold(
+  hold: WalletHold,
+  description: string,
+  tx: Prisma.TransactionClient
+): Promise<void> {
+  await settleHold(hold, { status: "CAPTURED", capturedAt: new Date() }, tx);
+  const movement = {
+    walletId: hold.walletId,
+    amount: hold.amount,
+    description,
+    walletTransactionId: hold.walletTransactionId ?? undefined,
+  };
+  if (hold.reason === "WITHDRAWAL") {
+    await payoutWalletFunds(movement, tx);
+  } else {
+    await captureWalletFunds(movement, tx);
+  }
+}
+
+/**
+ * Give the held money back to the wallet's available balance
+ */
+export async function releaseHold(
+  hold: WalletHold,
+  description: string,
+  tx: Prisma.TransactionClient,
+  status: "RELEASED" | "EXPIRED" = "RELEASED"
+): Promise<void> {
+  await settleHold(hold, { status, releasedAt: new Date() }, tx);
+  await releaseWalletFunds(
+    {
+      walletId: hold.walletId,
+      amount: hold.amount,
+      description,
+      walletTransactionId: hold.walletTransactionId ?? undefined,
+    },
+    tx
+  );
+}
+
+/**
+ * Active holds matching a filter, e.g. those of an order
+ */
+export const findActiveHolds = (
+  where: Prisma.WalletHoldWhereInput,
+  tx: Prisma.TransactionClient
+) =>
+  tx.walletHold.findMany({
+    where: { ...where, status: "ACTIVE" },
+    orderBy: { createdAt: "asc" },
+  });
+
+/**
+ * Release every active hold whose expiry has passed
+ * - The LOCKED wallet transaction and payment behind the hold are
+ *   marked as failed, and the customer is notified
+ */
+export const releaseExpiredHolds = async (now: Date = new Date()) => {
+  const expiredHolds = await prisma.walletHold.findMany({
+    where: { status: "ACTIVE", expiresAt: { lte: now } },
+    include: { wallet: { include: { customer: true } } },
+    orderBy: { expiresAt: "asc" },
+  });
+
+  let released = 0;
+  for (const { wallet, ...hold } of expiredHolds) {
+    try {
+      await prisma.$transaction(async (tx) => {
+        await releaseHold(
+          hold,
+          `Wallet hold #${hold.holdId} expired`,
+          tx,
+          "EXPIRED"
+        );
+        if (hold.walletTransactionId) {
+          await tx.walletTransaction.updateMany({
+            where: {
+              transactionId: hold.walletTransactionId,
+              transactionStatus: "LOCKED",
+            },
+            data: {
+              transactionStatus: "FAILED",
+              description: `Wallet hold expired`,
+            },
+          });
+          await tx.payment.updateMany({
+            where: {
+              walletTransactionId: hold.walletTransactionId,
+              paymentStatus: "LOCKED",
+            },
+            data: { paymentStatus: "FAILED" },
+          });
+        }
+        const message = `আপনার ওয়ালেটে আটকে রাখা ${hold.amount.toFixed(
+          2
+        )} টাকার মেয়াদ শেষ হওয়ায় টাকাটি আবার ব্যবহারযোগ্য করা হয়েছে।`;
+        await createNotification(message, "WALLET", wallet.customer.userId, tx);
+      });
+      released++;
+    } catch (error) {
+      logger.error(`Failed to release wallet hold #${hold.holdId}:`, error);
+    }
+  }
+  logger.info(
+    `Released ${released} of ${expiredHolds.length} expired wallet holds`
+  );
+};
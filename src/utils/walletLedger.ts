@@ -0,0 +1,323 @@
+import prisma from "@/prisma-client/prismaClient";
+import { LedgerAccountType, Prisma } from "@/generated/prisma/client";
+import { Decimal } from "@/generated/prisma/client/runtime/library";
+
+type WalletAccountType = Extract<
+  LedgerAccountType,
+  "WALLET_AVAILABLE" | "WALLET_LOCKED"
+>;
+type SystemAccountType = Exclude<LedgerAccountType, WalletAccountType>;
+
+// A ledger account, either a wallet's or one of the platform's
+export type AccountRef =
+  | { type: WalletAccountType; walletId: bigint }
+  | { type: SystemAccountType };
+
+export interface WalletMovement {
+  walletId: bigint;
+  amount: Decimal.Value;
+  description: string;
+  // The wallet transaction the customer sees for this movement
+  walletTransactionId?: bigint;
+}
+
+export interface WalletBalances {
+  balance: Decimal;
+  lockedBalance: Decimal;
+}
+
+export interface WalletLedgerCheck {
+  walletId: bigint;
+  stored: WalletBalances;
+  ledger: WalletBalances;
+  consistent: boolean;
+}
+
+const isWalletAccount = (
+  ref: AccountRef
+): ref is Extract<AccountRef, { walletId: bigint }> => "walletId" in ref;
+
+const accountCode = (ref: AccountRef): string =>
+  isWalletAccount(ref)
+    ? `WALLET:${ref.walletId}:${
+        ref.type === "WALLET_LOCKED" ? "LOCKED" : "AVAILABLE"
+      }`
+    : ref.type;
+
+/**
+ * Lock a wallet's row until the transaction ends, so balance checks and
+ * the holds placed after them cannot interleave
+ */
+export const lockWallet = (walletId: bigint, tx: Prisma.TransactionClient) =>
+  tx.$queryRaw`SELECT 1 FROM "Wallet" WHERE "walletId" = ${walletId} FOR UPDATE`;
+
+/**
+ * Create the accounts of a wallet the first time it is posted to.
+ * A wallet holding money from before the ledger gets an opening balance
+ * entry matching its stored balances, so the ledger covers it from then on.
+ * - The wallet is locked while its accounts are opened, so two first
+ *   postings cannot both post its opening balance
+ */
+export async function openWalletAccounts(
+  walletId: bigint,
+  tx: Prisma.TransactionClient
+): Promise<void> {
+  const hasAccounts = async () =>
+    (await tx.ledgerAccount.count({ where: { walletId } })) > 0;
+  if (await hasAccounts()) return;
+  await lockWallet(walletId, tx);
+  if (await hasAccounts()) return;
+
+  const wallet = await tx.wallet.findUniqueOrThrow({ where: { walletId } });
+  const accounts = await Promise.all(
+    (["WALLET_AVAILABLE", "WALLET_LOCKED"] as const).map((type) => {
+      const code = accountCode({ type, walletId });
+      return tx.ledgerAccount.upsert({
+        where: { code },
+        update: {},
+        create: { code, type, walletId },
+      });
+    })
+  );
+  const [available, locked] = accounts;
+  const availableAmount = wallet.balance.sub(wallet.lockedBalance);
+  if (wallet.balance.isZero() && wallet.lockedBalance.isZero()) return;
+
+  const opening = await getAccountId({ type: "OPENING_BALANCES" }, tx);
+  await postEntry(
+    `Opening balance of Wallet #${walletId}`,
+    [
+      { accountId: available.accountId, amount: availableAmount },
+      { accountId: locked.accountId, amount: wallet.lockedBalance },
+      { accountId: opening, amount: wallet.balance.neg() },
+    ],
+    tx
+  );
+}
+
+async function getAccountId(
+  ref: AccountRef,
+  tx: Prisma.TransactionClient
+): Promise<bigint> {
+  if (isWalletAccount(ref)) {
+    await openWalletAccounts(ref.walletId, tx);
+  }
+  const account = await tx.ledgerAccount.upsert({
+    where: { code: accountCode(ref) },
+    update: {},
+    create: { code: accountCode(ref), type: ref.type },
+  });
+  return account.accountId;
+}
+
+/**
+ * Record a journal entry, refusing one whose postings do not balance
+ */
+async function postEntry(
+  description: string,
+  postings: { accountId: bigint; amount: Decimal }[],
+  tx: Prisma.TransactionClient,
+  walletTransactionId?: bigint
+): Promise<void> {
+  const total = postings.reduce(
+    (sum, posting) => sum.add(posting.amount),
+    new Decimal(0)
+  );
+  if (!total.isZero()) {
+    throw new Error(`Journal entry "${description}" does not balance`);
+  }
+  await tx.journalEntry.create({
+    data: {
+      description,
+      walletTransactionId,
+      postings: {
+        create: postings.filter((posting) => !posting.amount.isZero()),
+      },
+    },
+  });
+}
+
+/**
+ * Move money from one ledger account to another and update the stored
+ * balances of the wallets involved, which only ever change through here
+ */
+export async function transferFunds(
+  from: AccountRef,
+  to: AccountRef,
+  movement: Omit<WalletMovement, "walletId">,
+  tx: Prisma.TransactionClient
+): Promise<void> {
+  const amount = new Decimal(movement.amount);
+  if (amount.lessThanOrEqualTo(0)) {
+    throw new Error("Ledger amounts must be positive");
+  }
+
+  await postEntry(
+    movement.description,
+    [
+      { accountId: await getAccountId(from, tx), amount: amount.neg() },
+      { accountId: await getAccountId(to, tx), amount },
+    ],
+    tx,
+    movement.walletTransactionId
+  );
+
+  for (const [ref, sign] of [
+    [from, -1],
+    [to, 1],
+  ] as const) {
+    if (!isWalletAccount(ref)) continue;
+    const change = amount.mul(sign);
+    await tx.wallet.update({
+      where: { walletId: ref.walletId },
+      data: {
+        balance: { increment: change },
+        lockedBalance:
+          ref.type === "WALLET_LOCKED" ? { increment: change } : undefined,
+      },
+    });
+  }
+}
+
+const available = (walletId: bigint): AccountRef => ({
+  type: "WALLET_AVAILABLE",
+  walletId,
+});
+const locked = (walletId: bigint): AccountRef => ({
+  type: "WALLET_LOCKED",
+  walletId,
+});
+
+/**
+ * Add money to a wallet, e.g. a deposit or a refund
+ */
+export const creditWallet = (
+  { walletId, ...movement }: WalletMovement,
+  source: Extract<
+    SystemAccountType,
+    "GATEWAY_CLEARING" | "REFUNDS" | "ADJUSTMENTS" | "TRANSFERS"
+  >,
+  tx: Prisma.TransactionClient
+) => transferFunds({ type: source }, available(walletId), movement, tx);
+
+/**
+ * Take spendable money out of a wallet, e.g. a purchase
+ */
+export const debitWallet = (
+  { walletId, ...movement }: WalletMovement,
+  destination: Extract<
+    SystemAccountType,
+    "SALES" | "ADJUSTMENTS" | "TRANSFERS"
+  >,
+  tx: Prisma.TransactionClient
+) => transferFunds(available(walletId), { type: destination }, movement, tx);
+
+/**
+ * Set money aside for a payment that is not final yet
+ */
+export const lockWalletFunds = (
+  { walletId, ...movement }: WalletMovement,
+  tx: Prisma.TransactionClient
+) => transferFunds(available(walletId), locked(walletId), movement, tx);
+
+/**
+ * Give locked money back to the wallet's spendable balance
+ */
+export const releaseWalletFunds = (
+  { walletId, ...movement }: WalletMovement,
+  tx: Prisma.TransactionClient
+) => transferFunds(locked(walletId), available(walletId), movement, tx);
+
+/**
+ * Take locked money out of the wallet once its payment is final
+ */
+export const captureWalletFunds = (
+  { walletId, ...movement }: WalletMovement,
+  tx: Prisma.TransactionClient
+) => transferFunds(locked(walletId), { type: "SALES" }, movement, tx);
+
+/**
+ * Pay locked money out of the wallet, e.g. an approved withdrawal
+ */
+export const payoutWalletFunds = (
+  { walletId, ...movement }: WalletMovement,
+  tx: Prisma.TransactionClient
+) => transferFunds(locked(walletId), { type: "PAYOUTS" }, movement, tx);
+
+/**
+ * Balances of a wallet as its ledger postings add up
+ */
+async function sumWalletLedger(
+  walletId: bigint,
+  tx: Prisma.TransactionClient
+): Promise<WalletBalances> {
+  const sums = await tx.ledgerPosting.groupBy({
+    by: ["accountId"],
+    where: { account: { walletId } },
+    _sum: { amount: true },
+  });
+  const accounts = await tx.ledgerAccount.findMany({ where: { walletId } });
+
+  let balance = new Decimal(0);
+  let lockedBalance = new Decimal(0);
+  for (const { accountId, _sum } of sums) {
+    const amount = _sum.amount ?? new Decimal(0);
+    balance = balance.add(amount);
+    const account = accounts.find((row) => row.accountId === accountId);
+    if (account?.type === "WALLET_LOCKED") {
+      lockedBalance = lockedBalance.add(amount);
+    }
+  }
+  return { balance, lockedBalance };
+}
+
+async function checkWallet(
+  walletId: bigint,
+  tx: Prisma.TransactionClient
+): Promise<WalletLedgerCheck> {
+  const wallet = await tx.wallet.findUniqueOrThrow({ where: { walletId } });
+  const ledger = await sumWalletLedger(walletId, tx);
+  return {
+    walletId,
+    stored: { balance: wallet.balance, lockedBalance: wallet.lockedBalance },
+    ledger,
+    consistent:
+      wallet.balance.equals(ledger.balance) &&
+      wallet.lockedBalance.equals(ledger.lockedBalance),
+  };
+}
+
+/**
+ * Compare a wallet's stored balances with its ledger
+ */
+export async function verifyWalletLedger(
+  walletId: bigint
+): Promise<WalletLedgerCheck> {
+  return await prisma.$transaction(async (tx) => {
+    await openWalletAccounts(walletId, tx);
+    return await checkWallet(walletId, tx);
+  });
+}
+
+/**
+ * Overwrite a wallet's stored balances with what its ledger adds up to
+ * @returns The check from before the rebuild
+ */
+export async function rebuildWalletFromLedger(
+  walletId: bigint
+): Promise<WalletLedgerCheck> {
+  return await prisma.$transaction(async (tx) => {
+    await openWalletAccounts(walletId, tx);
+    const check = await checkWallet(walletId, tx);
+    if (!check.consistent) {
+      await tx.wallet.update({
+        where: { walletId },
+        data: {
+          balance: check.ledger.balance,
+          lockedBalance: check.ledger.lockedBalance,
+        },
+      });
+    }
+    return check;
+  });
+}
@@ -0,0 +1,254 @@
+import PDFDocument from "pdfkit";
+import { Decimal } from "@/generated/prisma/client/runtime/library";
+import { formatDhaka } from "@/utils/dhakaTime";
+import { toCsv } from "@/utils/orderSpreadsheet";
+import {
+  formatTaka,
+  PDF_FONT,
+  PDF_FONT_BOLD,
+  registerPdfFonts,
+} from "@/utils/pdfFonts";
+
+export interface WalletStatementLine {
+  date: Date;
+  transactionId: bigint | null;
+  type: string | null;
+  status: string | null;
+  description: string;
+  // Change to the wallet balance, negative for money going out
+  amount: Decimal;
+  runningBalance: Decimal;
+}
+
+export interface WalletStatement {
+  walletId: bigint;
+  customerName: string | null;
+  customerPhone: string;
+  periodStart: Date;
+  periodEnd: Date;
+  openingBalance: Decimal;
+  closingBalance: Decimal;
+  lines: WalletStatementLine[];
+}
+
+const BRAND_NAME = process.env.INVOICE_BRAND_NAME || "Farmer App";
+const BRAND_COLOR = "#2e7d32";
+const PAGE_MARGIN = 50;
+
+// Column x positions of the transaction table
+const COLUMNS = {
+  date: 50,
+  reference: 125,
+  description: 195,
+  amount: 395,
+  balance: 470,
+};
+
+const statementMonth = (statement: WalletStatement) =>
+  formatDhaka(statement.periodStart, "MMMM yyyy");
+
+export const statementFileName = (
+  statement: WalletStatement,
+  extension: "pdf" | "csv"
+) =>
+  `wallet_${statement.walletId}_statement_${formatDhaka(
+    statement.periodStart,
+    "yyyy_MM"
+  )}.${extension}`;
+
+/**
+ * Render a wallet statement as a CSV file, with the opening and closing
+ * balances as the first and last rows
+ */
+export function buildWalletStatementCsv(statement: WalletStatement): Buffer {
+  const rows = [
+    [
+      "Date",
+      "Transaction ID",
+      "Type",
+      "Status",
+      "Description",
+      "Amount",
+      "Balance",
+    ],
+    [
+      formatDhaka(statement.periodStart, "yyyy-MM-dd HH:mm"),
+      null,
+      null,
+      null,
+      "Opening balance",
+      null,
+      statement.openingBalance.toFixed(2),
+    ],
+    ...statement.lines.map((line) => [
+      formatDhaka(line.date, "yyyy-MM-dd HH:mm"),
+      line.transactionId === null ? null : String(line.transactionId),
+      line.type,
+      line.status,
+      line.description,
+      line.amount.toFixed(2),
+      line.runningBalance.toFixed(2),
+    ]),
+    [
+      formatDhaka(statement.periodEnd, "yyyy-MM-dd HH:mm"),
+      null,
+      null,
+      null,
+      "Closing balance",
+      null,
+      statement.closingBalance.toFixed(2),
+    ],
+  ];
+  // The byte order mark lets spreadsheet tools read Bengali text as UTF-8
+  return Buffer.from(`\uFEFF${toCsv(rows)}`, "utf8");
+}
+
+/**
+ * Draws the header, summary and table header, returning where rows start
+ */
+function drawStatementHeader(
+  doc: PDFKit.PDFDocument,
+  statement: WalletStatement
+): number {
+  const right = doc.page.width - PAGE_MARGIN;
+  doc
+    .fillColor(BRAND_COLOR)
+    .font(PDF_FONT_BOLD)
+    .fontSize(20)
+    .text(BRAND_NAME, PAGE_MARGIN, PAGE_MARGIN);
+  doc
+    .fillColor("#000000")
+    .font(PDF_FONT_BOLD)
+    .fontSize(14)
+    .text("WALLET STATEMENT", PAGE_MARGIN, PAGE_MARGIN, { align: "right" })
+    .font(PDF_FONT)
+    .fontSize(9)
+    .text(`Wallet no: ${statement.walletId}`, { align: "right" })
+    .text(`Period: ${statementMonth(statement)}`, { align: "right" });
+
+  const detailsTop = PAGE_MARGIN + 60;
+  doc
+    .font(PDF_FONT_BOLD)
+    .fontSize(10)
+    .text("Account holder", PAGE_MARGIN, detailsTop)
+    .font(PDF_FONT)
+    .fontSize(9)
+    .text(statement.customerName ?? "Customer", { width: 250 })
+    .text(statement.customerPhone, { width: 250 });
+
+  const summary: [string, string][] = [
+    ["Opening balance", formatTaka(statement.openingBalance)],
+    ["Closing balance", formatTaka(statement.closingBalance)],
+  ];
+  let y = detailsTop;
+  for (const [label, value] of summary) {
+    doc
+      .font(PDF_FONT_BOLD)
+      .text(label, COLUMNS.amount - 60, y)
+      .font(PDF_FONT)
+      .text(value, COLUMNS.balance, y, {
+        width: right - COLUMNS.balance,
+        align: "right",
+      });
+    y += 14;
+  }
+
+  y = Math.max(doc.y, y) + 25;
+  doc
+    .font(PDF_FONT_BOLD)
+    .fontSize(9)
+    .text("Date", COLUMNS.date, y)
+    .text("Txn ID", COLUMNS.reference, y)
+    .text("Description", COLUMNS.description, y)
+    .text("Amount", COLUMNS.amount, y, {
+      width: COLUMNS.balance - COLUMNS.amount - 5,
+      align: "right",
+    })
+    .text("Balance", COLUMNS.balance, y, {
+      width: right - COLUMNS.balance,
+      align: "right",
+    });
+  y += 15;
+  doc.moveTo(PAGE_MARGIN, y).lineTo(right, y).strokeColor("#cccccc").stroke();
+  return y + 5;
+}
+
+/**
+ * Renders a wallet statement as a PDF
+ * @returns The PDF file contents
+ */
+export function buildWalletStatementPdf(
+  statement: WalletStatement
+): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: "A4", margin: PAGE_MARGIN });
+    registerPdfFonts(doc);
+    const chunks: Buffer[] = [];
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+
+    const right = doc.page.width - PAGE_MARGIN;
+    const descriptionWidth = COLUMNS.amount - COLUMNS.description - 10;
+    let y = drawStatementHeader(doc, statement);
+
+    const rows: [Date, string, string, string | null, Decimal][] = [
+      [
+        statement.periodStart,
+        "-",
+        "Opening balance",
+        null,
+        statement.openingBalance,
+      ],
+      ...statement.lines.map(
+        (line): [Date, string, string, string | null, Decimal] => [
+          line.date,
+          line.transactionId === null ? "-" : String(line.transactionId),
+          line.type
+            ? `${line.description} (${line.type}, ${line.status})`
+            : line.description,
+          `${line.amount.greaterThan(0) ? "+" : ""}${line.amount.toFixed(2)}`,
+          line.runningBalance,
+        ]
+      ),
+      [
+        statement.periodEnd,
+        "-",
+        "Closing balance",
+        null,
+        statement.closingBalance,
+      ],
+    ];
+
+    doc.font(PDF_FONT).fontSize(8);
+    for (const [date, reference, description, amount, balance] of rows) {
+      const rowHeight = doc.heightOfString(description, {
+        width: descriptionWidth,
+      });
+      if (y + rowHeight > doc.page.height - PAGE_MARGIN - 30) {
+        doc.addPage();
+        y = PAGE_MARGIN;
+      }
+      doc
+        .text(formatDhaka(date, "dd MMM yyyy"), COLUMNS.date, y, {
+          width: COLUMNS.reference - COLUMNS.date - 5,
+        })
+        .text(reference, COLUMNS.reference, y)
+        .text(description, COLUMNS.description, y, {
+          width: descriptionWidth,
+        })
+        .text(amount ?? "", COLUMNS.amount, y, {
+          width: COLUMNS.balance - COLUMNS.amount - 5,
+          align: "right",
+        })
+        .text(formatTaka(balance), COLUMNS.balance, y, {
+          width: right - COLUMNS.balance,
+          align: "right",
+        });
+      y += Math.max(rowHeight, 10) + 6;
+    }
+    doc.moveTo(PAGE_MARGIN, y).lineTo(right, y).strokeColor("#cccccc").stroke();
+
+    doc.end();
+  });
+}